@@ -43,6 +43,8 @@ interface MiddlewareState {
  */
 interface MiddlewareRuntime {
   context: StudyBuddyContext;
+  /** Call the model again with these messages (used by the guardrails to retry a draft) */
+  regenerate?: (messages: MiddlewareMessage[]) => Promise<string>;
 }
 
 /**
@@ -56,7 +58,7 @@ type BeforeModelHook = (
 type AfterModelHook = (
   state: MiddlewareState,
   runtime: MiddlewareRuntime
-) => MiddlewareState | undefined;
+) => MiddlewareState | undefined | Promise<MiddlewareState | undefined>;
 
 /**
  * Middleware configuration interface
@@ -101,11 +103,11 @@ function applyBeforeModelHooks(
 /**
  * Apply afterModel middleware hooks
  */
-function applyAfterModelHooks(
+async function applyAfterModelHooks(
   state: MiddlewareState,
   runtime: MiddlewareRuntime,
   middleware: Middleware[]
-): MiddlewareState {
+): Promise<MiddlewareState> {
   let currentState = state;
 
   console.log("\n" + "=".repeat(60));
@@ -116,7 +118,7 @@ function applyAfterModelHooks(
     if (mw.afterModel) {
       console.log(`\n▶ Executing: ${mw.name}.afterModel()`);
 
-      const result = mw.afterModel(currentState, runtime);
+      const result = await mw.afterModel(currentState, runtime);
       if (result) {
         currentState = result;
         console.log(`✓ ${mw.name} modified state (response may have been filtered)`);
@@ -181,7 +183,10 @@ class StudyBuddyAgent {
     input: { messages: MiddlewareMessage[] },
     options: { context: StudyBuddyContext; config?: RunnableConfig }
   ): Promise<{ messages: MiddlewareMessage[]; content: string }> {
-    const runtime: MiddlewareRuntime = { context: options.context };
+    const runtime: MiddlewareRuntime = {
+      context: options.context,
+      regenerate: (messages) => this.callModel(messages, options.config),
+    };
 
     console.log("\n" + "█".repeat(60));
     console.log("█  STUDY BUDDY AGENT - MIDDLEWARE PIPELINE START");
@@ -201,10 +206,7 @@ class StudyBuddyAgent {
     console.log("=".repeat(60));
     console.log(`   Messages in context: ${state.messages.length}`);
 
-    const baseMessages = toBaseMessages(state.messages);
-    const response = await this.model.invoke(baseMessages, options.config);
-    const assistantContent =
-      typeof response.content === "string" ? response.content : JSON.stringify(response.content);
+    const assistantContent = await this.callModel(state.messages, options.config);
 
     console.log(`\n✅ Model response received (${assistantContent.length} chars)`);
     console.log(`   Preview: "${assistantContent.slice(0, 100)}..."`);
@@ -216,7 +218,7 @@ class StudyBuddyAgent {
     });
 
     // Phase 3: Apply afterModel middleware
-    state = applyAfterModelHooks(state, runtime, this.middleware);
+    state = await applyAfterModelHooks(state, runtime, this.middleware);
 
     // Return the final state
     const finalMessage = state.messages[state.messages.length - 1];
@@ -231,6 +233,16 @@ class StudyBuddyAgent {
       content: finalMessage.content,
     };
   }
+
+  /**
+   * Call the model and return its reply as text
+   */
+  private async callModel(messages: MiddlewareMessage[], config?: RunnableConfig): Promise<string> {
+    const response = await this.model.invoke(toBaseMessages(messages), config);
+    return typeof response.content === "string"
+      ? response.content
+      : JSON.stringify(response.content);
+  }
 }
 
 /**
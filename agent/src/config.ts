@@ -2,7 +2,9 @@
  * Central configuration for the agent backend
  */
 
+import { randomBytes } from "crypto";
 import { config as loadEnv } from "dotenv";
+import type { QuestionType } from "./schemas/index.js";
 
 // Load environment variables
 loadEnv();
@@ -19,8 +21,8 @@ export const CONFIG = {
   UPLOAD: {
     DIR: "../uploads",
     MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB
-    ALLOWED_MIME_TYPES: ["application/pdf"],
-    FILE_PREFIX: "pdf",
+    MAX_FILES: 10, // Per upload request
+    FILE_PREFIX: "doc",
   },
 
   // PDF processing
@@ -30,6 +32,15 @@ export const CONFIG = {
     SUMMARY_LENGTH: 2000, // Characters for summary
   },
 
+  // OCR fallback for scanned PDFs
+  OCR: {
+    ENABLED: process.env.OCR_ENABLED !== "false",
+    MIN_WORDS_PER_PAGE: 10, // Below this the PDF is treated as scanned
+    MAX_PAGES: 40, // OCR takes a few seconds per page
+    RENDER_SCALE: 2, // ~150 DPI for a US Letter page
+    LOW_CONFIDENCE: 60, // Mean confidence below which the learner is warned about misreads
+  },
+
   // CORS configuration
   CORS: {
     ORIGINS: process.env.CORS_ORIGINS?.split(",") || [
@@ -39,6 +50,16 @@ export const CONFIG = {
     CREDENTIALS: true,
   },
 
+  // Authentication: every /api route except dev login needs a bearer token
+  AUTH: {
+    // Signs access tokens; without one (development only) tokens last until the server restarts
+    JWT_SECRET: process.env.JWT_SECRET || randomBytes(32).toString("hex"),
+    ISSUER: "learning-agent",
+    TOKEN_TTL_SECONDS: parseInt(process.env.TOKEN_TTL_SECONDS || String(12 * 60 * 60), 10),
+    // Local identity provider that issues a token to anyone who asks; never on in production
+    DEV_LOGIN: process.env.NODE_ENV !== "production" && process.env.AUTH_DEV_LOGIN !== "false",
+  },
+
   // AI configuration
   AI: {
     MODEL: process.env.OPENAI_MODEL || "gpt-4o-mini",
@@ -52,9 +73,76 @@ export const CONFIG = {
   LEARNING: {
     MIN_OBJECTIVES: 3,
     MAX_OBJECTIVES: 5,
+    MAX_EDITED_OBJECTIVES: 10, // Upper bound once the learner edits the plan
+    MAX_PLAN_REVISIONS: parseInt(process.env.MAX_PLAN_REVISIONS || "3", 10), // Regenerations with learner feedback
     MCQS_PER_OBJECTIVE: 3,
     MIN_MCQ_OPTIONS: 4,
     MAX_MCQ_OPTIONS: 4,
+    // Question types the quiz generator may mix within an objective
+    QUESTION_TYPES: ["single_choice", "true_false", "multi_select", "fill_blank"] as QuestionType[],
+  },
+
+  // Adaptive difficulty: shift each objective one level from the plan based on recent answers
+  ADAPTIVE: {
+    WINDOW: 6, // Most recent answered questions considered
+    MIN_EVIDENCE: 3, // Answered questions needed before adjusting
+    RAISE_AT: 80, // First-try accuracy (%) at or above which the next objective gets harder
+    LOWER_BELOW: 50, // First-try accuracy (%) below which the next objective gets easier
+    HOLD_ABOVE_SECONDS: 60, // Median answer time above which difficulty is not raised
+  },
+
+  // Remediation: follow-up questions on missed concepts before an objective is left behind
+  REMEDIATION: {
+    TRIGGER_WRONG_ATTEMPTS: 2, // Wrong attempts within an objective that trigger a round
+    QUESTIONS: 2, // Follow-up questions per round
+    MAX_ROUNDS_PER_OBJECTIVE: 1,
+    MAX_ROUNDS_PER_SESSION: 3,
+  },
+
+  // Mastery estimation per objective with Bayesian Knowledge Tracing (probabilities 0-1)
+  MASTERY: {
+    PRIOR: 0.3, // Chance the learner already knows an objective before answering anything
+    LEARN: 0.15, // Chance of learning the objective at each attempt
+    SLIP: 0.1, // Chance of a wrong answer despite knowing the objective
+    GUESS: 0.2, // Chance of a right answer without knowing the objective
+    MASTERED_AT: 0.95, // Objectives at or above this are mastered and skip remediation
+    REVIEW_BELOW: 0.8, // Objectives below this are listed as areas to review
+  },
+
+  // Session scores
+  SCORING: {
+    PARTIAL_CREDIT_DECAY: 0.5, // Share of a mark kept per extra attempt: 1, 0.5, 0.25...
+  },
+
+  // Confidence ratings on answers, compared with how often each rating was right
+  CALIBRATION: {
+    // Accuracy (%) a well-calibrated learner would have at each rating
+    EXPECTED_ACCURACY: { guess: 25, unsure: 60, confident: 90 },
+  },
+
+  // Response times measured on the server, from each question being served to its answer
+  TIMING: {
+    MAX_ATTEMPT_SECONDS: 600, // Longest an attempt counts for, so a break does not skew averages
+    SLOW_FACTOR: 2, // A question is slow when it took this many times the median question
+    MIN_SLOW_SECONDS: 30, // Questions answered faster than this are never slow
+    MAX_SLOW_QUESTIONS: 5, // Slow questions listed in the report
+  },
+
+  // Misconceptions behind wrong options, reported at the end of the session
+  MISCONCEPTIONS: {
+    TOP: 3, // Misconceptions listed in the progress report
+  },
+
+  // Timed exam mode
+  EXAM: {
+    GRACE_SECONDS: 5, // Allowance for network delay when checking answers against deadlines
+  },
+
+  // Spaced repetition (SM-2) of answered questions across sessions
+  REVIEW: {
+    INITIAL_EASE: 2.5,
+    MIN_EASE: 1.3,
+    MAX_QUESTIONS_PER_SESSION: 20,
   },
 
   // Session configuration
@@ -86,6 +174,10 @@ export type AppConfig = typeof CONFIG;
  */
 export function validateConfig(): void {
   const required = ["OPENAI_API_KEY", "DATABASE_URL"];
+  // A generated secret would sign out everyone on restart and differ between instances
+  if (process.env.NODE_ENV === "production") {
+    required.push("JWT_SECRET");
+  }
 
   const missing = required.filter((key) => !process.env[key]);
 
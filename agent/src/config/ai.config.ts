@@ -25,6 +25,28 @@ export const AI_CONFIG = {
     critique: 6000, // Same as quiz since critiquing quiz content
     refine: 6000, // Same as quiz since refining quiz content
   },
+  retrieval: {
+    /** "lexical" (BM25, fully offline) or "embedding" (OpenAI embeddings) */
+    backend: (process.env.RETRIEVAL_BACKEND === "embedding" ? "embedding" : "lexical") as
+      | "lexical"
+      | "embedding",
+    embeddingModel: "text-embedding-3-small",
+    /** Target chunk size in characters */
+    chunkSize: 1200,
+    /** Characters repeated between consecutive chunks on the same page */
+    chunkOverlap: 200,
+    /** Maximum chunks retrieved per query (before the character budget applies) */
+    topK: 8,
+    /** Character budget for Study Buddy excerpts */
+    studyBuddyMaxChars: 2000,
+  },
+  guardrails: {
+    /** "llm" (a model scores each draft) or "lexical" (word overlap, offline, for tests) */
+    leakJudge: (process.env.LEAK_JUDGE === "lexical" ? "lexical" : "llm") as "llm" | "lexical",
+    leakJudgeModel: "gpt-4o-mini",
+    /** Leak likelihood (0-1) at or above which a Study Buddy draft is rejected */
+    leakThreshold: 0.5,
+  },
   reflection: {
     /** Whether reflection is enabled */
     enabled: true,
@@ -0,0 +1,68 @@
+/**
+ * Documents uploaded into a learning session.
+ * A session can span several files; the parser reads them in upload order.
+ */
+
+import { pool } from "./index.js";
+
+export interface SessionDocument {
+  id: string;
+  thread_id: string;
+  /** Document ID within the session, e.g. "doc-2" */
+  document_id: string;
+  filename: string;
+  stored_path: string;
+  extractor: string | null;
+  position: number;
+  created_at: Date;
+}
+
+/**
+ * Record uploaded files against a session, numbering them after any already there.
+ */
+export async function addSessionDocuments(
+  threadId: string,
+  files: Array<{ filename: string; storedPath: string; extractor: string | null }>
+): Promise<SessionDocument[]> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const existing = await client.query<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM session_documents WHERE thread_id = $1`,
+      [threadId]
+    );
+    let position = parseInt(existing.rows[0].count, 10);
+
+    const documents: SessionDocument[] = [];
+    for (const file of files) {
+      position++;
+      const result = await client.query<SessionDocument>(
+        `INSERT INTO session_documents (thread_id, document_id, filename, stored_path, extractor, position)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [threadId, `doc-${position}`, file.filename, file.storedPath, file.extractor, position]
+      );
+      documents.push(result.rows[0]);
+    }
+
+    await client.query("COMMIT");
+    return documents;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get a session's documents in upload order.
+ */
+export async function listSessionDocuments(threadId: string): Promise<SessionDocument[]> {
+  const result = await pool.query<SessionDocument>(
+    `SELECT * FROM session_documents WHERE thread_id = $1 ORDER BY position`,
+    [threadId]
+  );
+  return result.rows;
+}
@@ -39,9 +39,65 @@ export async function initializeSessionsTable(): Promise<void> {
         completed_at TIMESTAMP
       );
 
+      -- Added after the table first shipped, so existing databases need the column too
+      ALTER TABLE learning_sessions ADD COLUMN IF NOT EXISTS extractor VARCHAR(50);
+      ALTER TABLE learning_sessions ADD COLUMN IF NOT EXISTS settings JSONB;
+      ALTER TABLE learning_sessions ADD COLUMN IF NOT EXISTS learner_id VARCHAR(255);
+      ALTER TABLE learning_sessions ADD COLUMN IF NOT EXISTS first_try_correct INTEGER;
+      ALTER TABLE learning_sessions ADD COLUMN IF NOT EXISTS mean_attempts REAL;
+      ALTER TABLE learning_sessions ADD COLUMN IF NOT EXISTS score INTEGER;
+      -- Sessions from before sign-in have no owner, so no one can open them
+      ALTER TABLE learning_sessions ADD COLUMN IF NOT EXISTS user_id VARCHAR(255);
+
       CREATE INDEX IF NOT EXISTS idx_sessions_thread_id ON learning_sessions(thread_id);
       CREATE INDEX IF NOT EXISTS idx_sessions_status ON learning_sessions(status);
+      CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON learning_sessions(user_id);
+
+      -- Every file uploaded into a session, in upload order
+      CREATE TABLE IF NOT EXISTS session_documents (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        thread_id VARCHAR(255) NOT NULL REFERENCES learning_sessions(thread_id) ON DELETE CASCADE,
+        document_id VARCHAR(50) NOT NULL,
+        filename VARCHAR(255) NOT NULL,
+        stored_path TEXT NOT NULL,
+        extractor VARCHAR(50),
+        position INTEGER NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE (thread_id, document_id)
+      );
+
+      -- Answered questions with their spaced repetition schedule, kept across sessions
+      CREATE TABLE IF NOT EXISTS review_items (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        learner_id VARCHAR(255) NOT NULL,
+        thread_id VARCHAR(255) NOT NULL,
+        question_id VARCHAR(255) NOT NULL,
+        question JSONB NOT NULL,
+        objective_title TEXT,
+        ease_factor REAL NOT NULL,
+        interval_days INTEGER NOT NULL DEFAULT 0,
+        repetitions INTEGER NOT NULL DEFAULT 0,
+        due_at TIMESTAMP NOT NULL,
+        review_count INTEGER NOT NULL DEFAULT 0,
+        lapse_count INTEGER NOT NULL DEFAULT 0,
+        last_reviewed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE (learner_id, thread_id, question_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_review_items_due ON review_items(learner_id, due_at);
     `);
+
+    // Learner IDs came from an unauthenticated header, so they only become owners where
+    // anyone can sign in as anyone anyway: with dev login, which issues tokens for the
+    // browser's learner ID, a local database keeps its sessions
+    if (CONFIG.AUTH.DEV_LOGIN) {
+      await client.query(`
+        UPDATE learning_sessions SET user_id = learner_id
+        WHERE user_id IS NULL AND learner_id IS NOT NULL
+      `);
+    }
     console.log("[Database] Sessions table initialized");
   } finally {
     client.release();
@@ -56,5 +112,7 @@ export async function closePool(): Promise<void> {
   console.log("[Database] Connection pool closed");
 }
 
-// Re-export sessions module
+// Re-export sessions, documents and reviews modules
 export * from "./sessions.js";
+export * from "./documents.js";
+export * from "./reviews.js";
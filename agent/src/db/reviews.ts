@@ -0,0 +1,156 @@
+/**
+ * Questions scheduled for spaced repetition, per learner.
+ * Each answered question outlives its session here, with its SM-2 schedule.
+ */
+
+import { pool } from "./index.js";
+import type { MCQ } from "../schemas/index.js";
+import type { ReviewSchedule } from "../services/review/Sm2Scheduler.js";
+
+export interface ReviewItem {
+  id: string;
+  learner_id: string;
+  /** Session the question was first asked in */
+  thread_id: string;
+  question_id: string;
+  question: MCQ;
+  objective_title: string | null;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  due_at: Date;
+  review_count: number;
+  lapse_count: number;
+  last_reviewed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Convert a stored row to the schedule the scheduler works with.
+ */
+export function toReviewSchedule(item: ReviewItem): ReviewSchedule {
+  return {
+    easeFactor: item.ease_factor,
+    intervalDays: item.interval_days,
+    repetitions: item.repetitions,
+    dueAt: item.due_at,
+  };
+}
+
+/**
+ * Record a session's questions for review; questions already recorded are left alone.
+ */
+export async function addReviewItems(
+  learnerId: string,
+  threadId: string,
+  items: Array<{ question: MCQ; objectiveTitle: string | null; schedule: ReviewSchedule }>
+): Promise<number> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    let added = 0;
+    for (const { question, objectiveTitle, schedule } of items) {
+      const result = await client.query(
+        `INSERT INTO review_items
+           (learner_id, thread_id, question_id, question, objective_title,
+            ease_factor, interval_days, repetitions, due_at, review_count, last_reviewed_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 1, NOW())
+         ON CONFLICT (learner_id, thread_id, question_id) DO NOTHING`,
+        [
+          learnerId,
+          threadId,
+          question.id,
+          JSON.stringify(question),
+          objectiveTitle,
+          schedule.easeFactor,
+          schedule.intervalDays,
+          schedule.repetitions,
+          schedule.dueAt,
+        ]
+      );
+      added += result.rowCount ?? 0;
+    }
+
+    await client.query("COMMIT");
+    return added;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get a learner's questions due for review, most overdue first.
+ */
+export async function listDueReviewItems(
+  learnerId: string,
+  limit: number,
+  now: Date = new Date()
+): Promise<ReviewItem[]> {
+  const result = await pool.query<ReviewItem>(
+    `SELECT * FROM review_items
+     WHERE learner_id = $1 AND due_at <= $2
+     ORDER BY due_at
+     LIMIT $3`,
+    [learnerId, now, limit]
+  );
+  return result.rows;
+}
+
+/**
+ * Count a learner's questions due for review.
+ */
+export async function countDueReviewItems(
+  learnerId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const result = await pool.query<{ count: string }>(
+    `SELECT COUNT(*) AS count FROM review_items WHERE learner_id = $1 AND due_at <= $2`,
+    [learnerId, now]
+  );
+  return parseInt(result.rows[0].count, 10);
+}
+
+/**
+ * Get a review item by ID.
+ */
+export async function getReviewItem(id: string): Promise<ReviewItem | null> {
+  const result = await pool.query<ReviewItem>(`SELECT * FROM review_items WHERE id = $1`, [id]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Store a question's schedule after it was reviewed.
+ */
+export async function updateReviewSchedule(
+  id: string,
+  schedule: ReviewSchedule,
+  lapsed: boolean
+): Promise<ReviewItem | null> {
+  const result = await pool.query<ReviewItem>(
+    `UPDATE review_items
+     SET ease_factor = $1,
+         interval_days = $2,
+         repetitions = $3,
+         due_at = $4,
+         review_count = review_count + 1,
+         lapse_count = lapse_count + $5,
+         last_reviewed_at = NOW(),
+         updated_at = NOW()
+     WHERE id = $6
+     RETURNING *`,
+    [
+      schedule.easeFactor,
+      schedule.intervalDays,
+      schedule.repetitions,
+      schedule.dueAt,
+      lapsed ? 1 : 0,
+      id,
+    ]
+  );
+  return result.rows[0] || null;
+}
@@ -4,15 +4,28 @@
  */
 
 import { pool } from "./index.js";
+import type { SessionSettingsInput } from "../schemas/index.js";
 
 export interface LearningSession {
   id: string;
   thread_id: string;
   pdf_filename: string | null;
+  /** ID of the extractor that read the upload, e.g. "pdf" or "epub" */
+  extractor: string | null;
+  /** Settings chosen at upload; settings sent when the plan is created override them */
+  settings: SessionSettingsInput | null;
+  /** Learner who started the session, so its questions can be scheduled for review */
+  learner_id: string | null;
+  /** Authenticated user who owns the session; only they can use its thread */
+  user_id: string | null;
   status: "active" | "completed" | "abandoned";
   objectives_count: number;
   correct_answers: number;
   total_questions: number;
+  /** Attempt-weighted scores, set when the session completes */
+  first_try_correct: number | null;
+  mean_attempts: number | null;
+  score: number | null;
   created_at: Date;
   updated_at: Date;
   completed_at: Date | null;
@@ -23,17 +36,45 @@ export interface LearningSession {
  */
 export async function createSession(
   threadId: string,
-  pdfFilename: string | null
+  pdfFilename: string | null,
+  extractor: string | null = null,
+  settings: SessionSettingsInput | null = null,
+  learnerId: string | null = null,
+  userId: string | null = null
 ): Promise<LearningSession> {
   const result = await pool.query<LearningSession>(
-    `INSERT INTO learning_sessions (thread_id, pdf_filename)
-     VALUES ($1, $2)
+    `INSERT INTO learning_sessions (thread_id, pdf_filename, extractor, settings, learner_id, user_id)
+     VALUES ($1, $2, $3, $4, $5, $6)
      RETURNING *`,
-    [threadId, pdfFilename]
+    [
+      threadId,
+      pdfFilename,
+      extractor,
+      settings ? JSON.stringify(settings) : null,
+      learnerId,
+      userId,
+    ]
   );
   return result.rows[0];
 }
 
+/**
+ * Merge settings into those stored for a session.
+ */
+export async function updateSessionSettings(
+  threadId: string,
+  settings: SessionSettingsInput
+): Promise<LearningSession | null> {
+  const result = await pool.query<LearningSession>(
+    `UPDATE learning_sessions
+     SET settings = COALESCE(settings, '{}'::jsonb) || $1::jsonb, updated_at = NOW()
+     WHERE thread_id = $2
+     RETURNING *`,
+    [JSON.stringify(settings), threadId]
+  );
+  return result.rows[0] || null;
+}
+
 /**
  * Get a session by thread ID.
  */
@@ -93,6 +134,9 @@ export async function completeSession(
   finalStats: {
     correctAnswers: number;
     totalQuestions: number;
+    firstTryCorrect: number;
+    meanAttempts: number;
+    score: number;
   }
 ): Promise<LearningSession | null> {
   const result = await pool.query<LearningSession>(
@@ -100,11 +144,21 @@ export async function completeSession(
      SET status = 'completed',
          correct_answers = $1,
          total_questions = $2,
+         first_try_correct = $3,
+         mean_attempts = $4,
+         score = $5,
          completed_at = NOW(),
          updated_at = NOW()
-     WHERE thread_id = $3
+     WHERE thread_id = $6
      RETURNING *`,
-    [finalStats.correctAnswers, finalStats.totalQuestions, threadId]
+    [
+      finalStats.correctAnswers,
+      finalStats.totalQuestions,
+      finalStats.firstTryCorrect,
+      finalStats.meanAttempts,
+      finalStats.score,
+      threadId,
+    ]
   );
   return result.rows[0] || null;
 }
@@ -139,6 +193,7 @@ export async function getSessionStats(): Promise<{
       COUNT(*) FILTER (WHERE status = 'completed') as completed,
       AVG(
         CASE
+          WHEN score IS NOT NULL THEN score::float
           WHEN total_questions > 0
           THEN (correct_answers::float / total_questions * 100)
           ELSE NULL
@@ -3,27 +3,53 @@ import { PostgresSaver } from "@langchain/langgraph-checkpoint-postgres";
 import { LearningStateAnnotation, type LearningState } from "./state.js";
 import {
   pdfParserNode,
+  contentSanitizerNode,
   plannerNode,
   humanApprovalNode,
   quizGeneratorNode,
   feedbackNode,
+  remediationNode,
+  reviewLoaderNode,
   summaryNode,
 } from "./nodes/index.js";
 import { logger } from "./utils/logger.js";
 import { CONFIG } from "./config.js";
+import { AnswerGrader, DeferralService } from "./services/index.js";
 
 // Define node names as constants
 const NODES = {
+  reviewLoader: "reviewLoader",
   pdfParser: "pdfParser",
+  contentSanitizer: "contentSanitizer",
   planner: "planner",
   humanApproval: "humanApproval",
   quizGenerator: "quizGenerator",
   feedback: "feedback",
+  remediation: "remediation",
   summary: "summary",
 } as const;
 
 type NodeName = (typeof NODES)[keyof typeof NODES];
 
+/**
+ * Routing function: Learning sessions start from the documents, review sessions
+ * from the questions due for review
+ */
+function routeStart(state: LearningState): NodeName {
+  return state.sessionMode === "review" ? NODES.reviewLoader : NODES.pdfParser;
+}
+
+/**
+ * Routing function: After loading due reviews, quiz them or end if there are none
+ */
+function afterReviewLoader(state: LearningState): NodeName | typeof END {
+  if (state.error) {
+    logger.info("Router", "No reviews to run, ending workflow");
+    return END;
+  }
+  return NODES.feedback;
+}
+
 /**
  * Routing function: After PDF parsing, check for errors
  */
@@ -32,7 +58,7 @@ function afterPdfParse(state: LearningState): NodeName | typeof END {
     logger.info("Router", "PDF parsing failed, ending workflow");
     return END;
   }
-  return NODES.planner;
+  return NODES.contentSanitizer;
 }
 
 /**
@@ -47,9 +73,13 @@ function afterPlanner(state: LearningState): NodeName | typeof END {
 }
 
 /**
- * Routing function: After human approval, proceed or end
+ * Routing function: After human approval, proceed, revise the plan or end
  */
 function afterApproval(state: LearningState): NodeName | typeof END {
+  if (!state.planApproved && state.planFeedback) {
+    logger.info("Router", "Plan sent back with feedback, regenerating");
+    return NODES.planner;
+  }
   if (!state.planApproved) {
     logger.info("Router", "Plan rejected, ending workflow");
     return END;
@@ -83,12 +113,35 @@ function afterFeedback(state: LearningState): NodeName {
     return NODES.summary;
   }
 
+  // The exam time limit ends the session wherever the learner got to
+  if (state.examTimedOut) {
+    logger.info("Router", "Exam time is up, moving to summary");
+    return NODES.summary;
+  }
+
+  // Remediate missed concepts before moving on from the objective
+  if (state.remediationObjectiveId) {
+    logger.info("Router", "Objective needed several attempts, running remediation");
+    return NODES.remediation;
+  }
+
+  // Come back to skipped questions before the objective closes
+  const currentObjective = learningObjectives[currentObjectiveIdx];
+  if (
+    currentMcqIdx >= mcqs.length &&
+    currentObjective &&
+    DeferralService.pending(currentObjective.id, mcqs, state.deferredQuestionIds, userAnswers)
+      .length > 0
+  ) {
+    logger.info("Router", "Returning to skipped questions before closing the objective");
+    return NODES.feedback;
+  }
+
   // Check if there are more MCQs to answer
   if (currentMcqIdx < mcqs.length) {
     const currentMcq = mcqs[currentMcqIdx];
     if (currentMcq) {
-      const userAnswer = userAnswers[currentMcq.id];
-      const isCorrect = userAnswer === currentMcq.correctAnswer;
+      const isCorrect = AnswerGrader.isCorrect(currentMcq, userAnswers[currentMcq.id]);
       const hasMoreQuestions = currentMcqIdx + 1 < mcqs.length;
 
       // Only fall through to objective check if answered correctly AND no more questions
@@ -99,7 +152,6 @@ function afterFeedback(state: LearningState): NodeName {
   }
 
   // Check if there are more objectives that need questions generated
-  const currentObjective = learningObjectives[currentObjectiveIdx];
   const hasQuestionsForCurrentObjective =
     currentObjective && mcqs.some((m) => m.objectiveId === currentObjective.id);
 
@@ -124,20 +176,26 @@ function buildGraph() {
   const builder = new StateGraph(LearningStateAnnotation) as any;
 
   // Add all nodes
+  builder.addNode(NODES.reviewLoader, reviewLoaderNode);
   builder.addNode(NODES.pdfParser, pdfParserNode);
+  builder.addNode(NODES.contentSanitizer, contentSanitizerNode);
   builder.addNode(NODES.planner, plannerNode);
   builder.addNode(NODES.humanApproval, humanApprovalNode);
   builder.addNode(NODES.quizGenerator, quizGeneratorNode);
   builder.addNode(NODES.feedback, feedbackNode);
+  builder.addNode(NODES.remediation, remediationNode);
   builder.addNode(NODES.summary, summaryNode);
 
   // Define the flow
-  builder.addEdge(START, NODES.pdfParser);
+  builder.addConditionalEdges(START, routeStart);
+  builder.addConditionalEdges(NODES.reviewLoader, afterReviewLoader);
   builder.addConditionalEdges(NODES.pdfParser, afterPdfParse);
+  builder.addEdge(NODES.contentSanitizer, NODES.planner);
   builder.addConditionalEdges(NODES.planner, afterPlanner);
   builder.addConditionalEdges(NODES.humanApproval, afterApproval);
   builder.addConditionalEdges(NODES.quizGenerator, afterQuizGenerator);
   builder.addConditionalEdges(NODES.feedback, afterFeedback);
+  builder.addEdge(NODES.remediation, NODES.feedback);
   builder.addEdge(NODES.summary, END);
 
   return builder;
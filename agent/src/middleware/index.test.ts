@@ -0,0 +1,294 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  checkForAnswerReveal,
+  educationalGuardrailsMiddleware,
+  type StudyBuddyContext,
+} from "./index.js";
+import {
+  LeakClassifier,
+  type GuardedQuestion,
+  type LeakJudge,
+} from "../services/guardrails/index.js";
+
+// Mock the logger to prevent console output during tests
+vi.mock("../utils/logger.js", () => ({
+  logger: { startSection: vi.fn(), endSection: vi.fn() },
+  logAgentThinking: vi.fn(),
+  logAgentSuccess: vi.fn(),
+  logAgentError: vi.fn(),
+  logAgentDecision: vi.fn(),
+}));
+
+const context: StudyBuddyContext = {
+  threadId: "thread-1",
+  userExpertise: "beginner",
+  attemptCount: 0,
+  currentMcq: {
+    question: "Which organelle produces most of the cell's ATP?",
+    questionType: "single_choice",
+    options: ["Nucleus", "Mitochondria", "Ribosome", "Golgi apparatus"],
+    correctAnswers: ["Mitochondria"],
+    sourcePages: [],
+  },
+};
+
+const LEAKY = "It's the powerhouse of the cell.";
+
+// Stands in for the LLM judge: treats the "powerhouse" paraphrase as a leak
+const stubJudge: LeakJudge = {
+  name: "stub",
+  score: async (text) =>
+    text.includes("powerhouse")
+      ? { likelihood: 0.9, reason: "Paraphrases the answer" }
+      : { likelihood: 0.1, reason: "Explains the concept" },
+};
+
+function draft(content: string) {
+  return {
+    messages: [
+      { role: "system", content: "You are a Study Buddy." },
+      { role: "user", content: "Which one makes ATP?" },
+      { role: "assistant", content },
+    ],
+  };
+}
+
+describe("educationalGuardrailsMiddleware", () => {
+  afterEach(() => {
+    LeakClassifier.setJudge(null);
+  });
+
+  it("should approve drafts the classifier passes", async () => {
+    LeakClassifier.setJudge(stubJudge);
+    const regenerate = vi.fn();
+
+    const result = await educationalGuardrailsMiddleware.afterModel(
+      draft("Think about where cells release energy from glucose."),
+      { context, regenerate }
+    );
+
+    expect(result).toBeUndefined();
+    expect(regenerate).not.toHaveBeenCalled();
+  });
+
+  it("should regenerate a leaking draft once with a stricter prompt", async () => {
+    LeakClassifier.setJudge(stubJudge);
+    const regenerate = vi.fn().mockResolvedValue("Consider which structure breaks down glucose.");
+
+    const result = await educationalGuardrailsMiddleware.afterModel(draft(LEAKY), {
+      context,
+      regenerate,
+    });
+
+    expect(regenerate).toHaveBeenCalledTimes(1);
+    const retryMessages = regenerate.mock.calls[0][0];
+    expect(retryMessages.at(-1)).toMatchObject({ role: "system" });
+    expect(retryMessages.some((m: { content: string }) => m.content === LEAKY)).toBe(false);
+    expect(result?.messages.at(-1)?.content).toBe("Consider which structure breaks down glucose.");
+  });
+
+  it("should fall back to the safe response when the regeneration still leaks", async () => {
+    LeakClassifier.setJudge(stubJudge);
+    const regenerate = vi.fn().mockResolvedValue("The answer is mitochondria.");
+
+    const result = await educationalGuardrailsMiddleware.afterModel(draft(LEAKY), {
+      context,
+      regenerate,
+    });
+
+    expect(regenerate).toHaveBeenCalledTimes(1);
+    expect(result?.messages.at(-1)?.content).toContain("without giving away the answer");
+  });
+
+  it("should fall back to the safe response when the regeneration fails", async () => {
+    LeakClassifier.setJudge(stubJudge);
+    const regenerate = vi.fn().mockRejectedValue(new Error("model unavailable"));
+
+    const result = await educationalGuardrailsMiddleware.afterModel(draft(LEAKY), {
+      context,
+      regenerate,
+    });
+
+    expect(regenerate).toHaveBeenCalledTimes(1);
+    expect(result?.messages.at(-1)?.content).toContain("without giving away the answer");
+  });
+
+  it("should withhold the draft when the leak check itself fails", async () => {
+    const classify = vi
+      .spyOn(LeakClassifier, "classify")
+      .mockRejectedValue(new Error("judge unavailable"));
+    const regenerate = vi.fn().mockResolvedValue("Consider which structure breaks down glucose.");
+
+    const result = await educationalGuardrailsMiddleware.afterModel(
+      draft("Think about where cells release energy from glucose."),
+      { context, regenerate }
+    );
+    classify.mockRestore();
+
+    expect(result?.messages.at(-1)?.content).toContain("without giving away the answer");
+  });
+});
+
+const organelles: GuardedQuestion = {
+  question: "Which organelle produces most of the cell's ATP?",
+  questionType: "single_choice",
+  options: ["Nucleus", "Mitochondria", "Ribosome", "Golgi apparatus"],
+  correctAnswers: ["Mitochondria"],
+};
+
+const photosynthesis: GuardedQuestion = {
+  question: "Which stage of photosynthesis captures energy from sunlight?",
+  questionType: "single_choice",
+  options: [
+    "Light-dependent reactions",
+    "Light-independent reactions",
+    "Glycolysis",
+    "Krebs cycle",
+  ],
+  correctAnswers: ["Light-dependent reactions"],
+};
+
+const greenhouse: GuardedQuestion = {
+  question: "Which of these are greenhouse gases?",
+  questionType: "multi_select",
+  options: ["Carbon dioxide", "Methane", "Nitrogen", "Oxygen"],
+  correctAnswers: ["Carbon dioxide", "Methane"],
+};
+
+const mitosis: GuardedQuestion = {
+  question: "Cell division that produces two identical cells is called ____.",
+  questionType: "fill_blank",
+  options: [],
+  correctAnswers: ["mitosis"],
+};
+
+/**
+ * Study Buddy drafts labelled by whether they give the answer away.
+ */
+const corpus: Array<{ question: GuardedQuestion; response: string; leaks: boolean }> = [
+  { question: organelles, response: "The correct answer is B.", leaks: true },
+  {
+    question: organelles,
+    response: "Pick the mitochondria, since that's where ATP is made.",
+    leaks: true,
+  },
+  { question: organelles, response: "I'd go with (B) on this one.", leaks: true },
+  { question: organelles, response: "The second option is the one you want.", leaks: true },
+  {
+    question: organelles,
+    response: "Think about option B carefully - it's where respiration happens.",
+    leaks: true,
+  },
+  {
+    question: photosynthesis,
+    response: "The right choice involves the light-dependent reactions in the thylakoids.",
+    leaks: true,
+  },
+  {
+    question: photosynthesis,
+    response: "You should select the reactions that depend on light.",
+    leaks: true,
+  },
+  { question: photosynthesis, response: "Go with A) here.", leaks: true },
+  {
+    question: greenhouse,
+    response: "Carbon dioxide is definitely one you should choose.",
+    leaks: true,
+  },
+  { question: greenhouse, response: "Methane belongs in your answer too.", leaks: true },
+  { question: mitosis, response: "The word you want here is mitosis.", leaks: true },
+  {
+    question: mitosis,
+    response: "Cells dividing like that is called mitosis, so that's your answer.",
+    leaks: true,
+  },
+  {
+    question: organelles,
+    response: "Think about which part of the cell handles energy from glucose.",
+    leaks: false,
+  },
+  {
+    question: organelles,
+    response:
+      "Let's compare them: the nucleus stores DNA, ribosomes build proteins, mitochondria " +
+      "release energy and the Golgi apparatus packages proteins.",
+    leaks: false,
+  },
+  {
+    question: organelles,
+    response: "Options A) and C) both deal with genetic information, so consider what each does.",
+    leaks: false,
+  },
+  {
+    question: organelles,
+    response: "A cell's energy comes from breaking down glucose. Which organelle does that?",
+    leaks: false,
+  },
+  {
+    question: organelles,
+    response: "Is there a right answer you're leaning towards? Tell me your reasoning first.",
+    leaks: false,
+  },
+  {
+    question: photosynthesis,
+    response:
+      "Photosynthesis has two stages: the light-dependent reactions and the light-independent " +
+      "reactions. Which one needs sunlight directly?",
+    leaks: false,
+  },
+  {
+    question: photosynthesis,
+    response: "The right way to approach this is to ask where sunlight is needed.",
+    leaks: false,
+  },
+  {
+    question: photosynthesis,
+    response: "The first stage of photosynthesis needs light, and the second stage doesn't.",
+    leaks: false,
+  },
+  {
+    question: greenhouse,
+    response: "Think about which gases trap heat and which are just part of the air we breathe.",
+    leaks: false,
+  },
+  {
+    question: greenhouse,
+    response:
+      "Nitrogen and oxygen make up most of the air, but you should ask if they absorb infrared.",
+    leaks: false,
+  },
+  {
+    question: mitosis,
+    response:
+      "Think about division that makes identical cells versus division that makes sex cells.",
+    leaks: false,
+  },
+];
+
+describe("checkForAnswerReveal", () => {
+  it("should catch leaks in the labelled corpus with high precision and recall", () => {
+    let truePositives = 0;
+    let falsePositives = 0;
+    let falseNegatives = 0;
+    const misses: string[] = [];
+
+    for (const { question, response, leaks } of corpus) {
+      const flagged = checkForAnswerReveal(response, question);
+      if (flagged && leaks) truePositives++;
+      if (flagged && !leaks) falsePositives++;
+      if (!flagged && leaks) falseNegatives++;
+      if (flagged !== leaks) misses.push(`${leaks ? "missed" : "false alarm"}: ${response}`);
+    }
+
+    const precision = truePositives / (truePositives + falsePositives);
+    const recall = truePositives / (truePositives + falseNegatives);
+    console.log(
+      `Leak detection on ${corpus.length} responses: ` +
+        `precision ${precision.toFixed(2)}, recall ${recall.toFixed(2)}` +
+        misses.map((miss) => `\n  ${miss}`).join("")
+    );
+
+    expect(precision).toBeGreaterThanOrEqual(0.9);
+    expect(recall).toBeGreaterThanOrEqual(0.9);
+  });
+});
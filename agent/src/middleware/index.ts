@@ -7,6 +7,13 @@
  */
 
 import { z } from "zod";
+import { QuestionTypeSchema, type QuestionType } from "../schemas/index.js";
+import { wrapUntrusted, UNTRUSTED_CONTENT_RULE } from "../prompts/index.js";
+import {
+  LeakClassifier,
+  OptionMatcher,
+  type GuardedQuestion,
+} from "../services/guardrails/index.js";
 import {
   logger,
   logAgentThinking,
@@ -15,6 +22,16 @@ import {
   logAgentDecision,
 } from "../utils/logger.js";
 
+/**
+ * Human-readable question type names used in the Study Buddy prompt.
+ */
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single_choice: "multiple choice",
+  true_false: "true/false",
+  multi_select: "select-all-that-apply",
+  fill_blank: "fill-in-the-blank",
+};
+
 /**
  * Schema for Study Buddy runtime context.
  * This defines what learning context is available to the middleware.
@@ -35,14 +52,21 @@ export const studyBuddyContextSchema = z.object({
   currentMcq: z
     .object({
       question: z.string(),
+      questionType: QuestionTypeSchema.default("single_choice"),
+      /** Display options (empty for fill-in-the-blank) */
       options: z.array(z.string()),
-      correctAnswer: z.number(),
-      userSelectedAnswer: z.number().optional(),
+      /** Text of every correct answer, used only for leak detection */
+      correctAnswers: z.array(z.string()),
+      /** Readable rendering of the learner's answer, e.g. "B) Mitochondria" */
+      userAnswer: z.string().optional(),
+      userAnswerCorrect: z.boolean().optional(),
+      /** Pages of the document that cover this question */
+      sourcePages: z.array(z.number()).default([]),
     })
     .optional(),
   /** Number of attempts on current question */
   attemptCount: z.number().default(0),
-  /** Truncated PDF content for context */
+  /** Document excerpts relevant to the current question */
   pdfContent: z.string().optional(),
   /** Recent chat messages for conversational context */
   recentMessages: z
@@ -105,20 +129,28 @@ ${context.currentObjective.description}`;
 
   // Add question context (without revealing answer)
   if (context.currentMcq) {
-    const { question, options, userSelectedAnswer, correctAnswer } = context.currentMcq;
-    const hasAnswered = userSelectedAnswer !== undefined;
-    const wasCorrect = hasAnswered && userSelectedAnswer === correctAnswer;
+    const { question, questionType, options, userAnswer, userAnswerCorrect, sourcePages } =
+      context.currentMcq;
+    const hasAnswered = userAnswer !== undefined;
+    const wasCorrect = hasAnswered && userAnswerCorrect === true;
 
     systemPrompt += `
 
-The student is working on this question: "${question}"
+The student is working on this ${QUESTION_TYPE_LABELS[questionType]} question: "${question}"`;
+    if (options.length > 0) {
+      systemPrompt += `
 Options: ${options.map((opt, i) => `${String.fromCharCode(65 + i)}) ${opt}`).join(", ")}`;
+    }
+
+    if (sourcePages.length > 0) {
+      systemPrompt += `
+This question is covered on page(s) ${sourcePages.join(", ")} of the document. If the student asks where to read up on it, point them there.`;
+    }
 
     if (hasAnswered) {
-      const selectedLetter = String.fromCharCode(65 + userSelectedAnswer);
       systemPrompt += `
 
-The student selected: ${selectedLetter}) ${options[userSelectedAnswer]}
+The student answered: ${userAnswer}
 Their answer was: ${wasCorrect ? "CORRECT" : "INCORRECT"}`;
 
       if (!wasCorrect) {
@@ -134,7 +166,7 @@ Reinforce why their answer was correct and deepen their understanding of the con
 
 The student has not yet answered this question.
 Help them understand the concept WITHOUT telling them the answer.
-DO NOT mention which option (A, B, C, D) is correct.`;
+DO NOT mention which option is correct, whether the statement is true or false, or what fills the blank.`;
     }
   }
 
@@ -146,13 +178,14 @@ Note: The student has attempted this question ${context.attemptCount} times.
 They may be struggling. Be extra supportive and break down concepts into smaller parts.`;
   }
 
-  // Add PDF context if available (truncated)
+  // Add PDF context if available (retrieved excerpts, already sized by the caller)
   if (context.pdfContent) {
-    const truncated = context.pdfContent.slice(0, 2000);
     systemPrompt += `
 
 Relevant document content:
-${truncated}...`;
+${wrapUntrusted(context.pdfContent)}
+
+${UNTRUSTED_CONTENT_RULE}`;
   }
 
   // Add recent conversation for natural flow
@@ -176,13 +209,7 @@ Continue this conversation naturally. Reference what was just discussed when rel
  * Check if a response reveals the quiz answer.
  * Used by the afterModel hook for guardrails.
  */
-function checkForAnswerReveal(
-  content: string,
-  mcq: { options: string[]; correctAnswer: number }
-): boolean {
-  const lowerContent = content.toLowerCase();
-  const correctOption = mcq.options[mcq.correctAnswer];
-
+export function checkForAnswerReveal(content: string, mcq: GuardedQuestion): boolean {
   // Check for direct answer revelation patterns
   const revealPatterns = [
     /the (correct )?answer is/i,
@@ -190,6 +217,8 @@ function checkForAnswerReveal(
     /you should (choose|pick|select) (option )?(A|B|C|D|[0-3])/i,
     /option (A|B|C|D) is correct/i,
     /the correct option is (A|B|C|D)/i,
+    /the statement is (true|false)/i,
+    /the (missing|blank) word is/i,
   ];
 
   for (const pattern of revealPatterns) {
@@ -198,24 +227,8 @@ function checkForAnswerReveal(
     }
   }
 
-  // Check if the response contains the exact correct answer text prominently
-  if (correctOption && lowerContent.includes(correctOption.toLowerCase())) {
-    // Only flag if it seems like the answer is being revealed
-    const answerPosition = lowerContent.indexOf(correctOption.toLowerCase());
-    const surroundingText = lowerContent.slice(
-      Math.max(0, answerPosition - 50),
-      answerPosition + correctOption.length + 50
-    );
-    if (
-      surroundingText.includes("answer") ||
-      surroundingText.includes("correct") ||
-      surroundingText.includes("right choice")
-    ) {
-      return true;
-    }
-  }
-
-  return false;
+  // Look for the correct option by letter, position or a phrase only it has
+  return OptionMatcher.findReveal(content, mcq) !== null;
 }
 
 /**
@@ -277,24 +290,92 @@ export const contextInjectionMiddleware: ContextInjectionMiddlewareConfig = {
   },
 };
 
+/**
+ * Response shown when neither the draft nor its stricter regeneration is safe.
+ */
+const SAFE_RESPONSE =
+  "I want to help you learn this concept without giving away the answer. " +
+  "Let me explain the underlying principle instead. " +
+  "Think about what the question is really asking and what concepts it's testing. " +
+  "Would you like me to break down the key idea in a different way?";
+
+/**
+ * Extra instruction for regenerating a draft that gave the answer away.
+ */
+function buildStricterPrompt(reason: string): string {
+  return `Your previous reply was withheld because it gave away the quiz answer (${reason}).
+Write a new reply that explains the underlying concept only.
+Do NOT name, paraphrase, hint at or point to the correct answer or its option.
+Do NOT rule options in or out, and do NOT say whether the statement is true or false.`;
+}
+
+/**
+ * Check a draft for answer leaks in two stages: the reveal patterns, then the
+ * semantic classifier for paraphrases and hints the patterns cannot see.
+ */
+async function detectLeak(
+  content: string,
+  mcq: NonNullable<StudyBuddyContext["currentMcq"]>
+): Promise<{ isLeak: boolean; reason: string; stage: "patterns" | "classifier" }> {
+  if (checkForAnswerReveal(content, mcq)) {
+    return { isLeak: true, reason: "matches an answer-reveal pattern", stage: "patterns" };
+  }
+
+  const verdict = await LeakClassifier.classify(content, mcq);
+  logAgentThinking("Guardrails", "Classifier scored leak likelihood", {
+    judge: verdict.judge,
+    likelihood: verdict.likelihood,
+    reason: verdict.reason,
+  });
+  return { isLeak: verdict.isLeak, reason: verdict.reason, stage: "classifier" };
+}
+
+/**
+ * detectLeak that fails closed: a draft that cannot be checked is treated as a leak.
+ */
+async function detectLeakOrAssume(
+  content: string,
+  mcq: NonNullable<StudyBuddyContext["currentMcq"]>
+): Promise<{ isLeak: boolean; reason: string; stage: "patterns" | "classifier" }> {
+  try {
+    return await detectLeak(content, mcq);
+  } catch (error) {
+    logAgentError("Guardrails", "Leak check failed, withholding the response", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { isLeak: true, reason: "the leak check could not run", stage: "classifier" };
+  }
+}
+
+/**
+ * Runtime passed to the guardrails: the learning context and a way to ask the
+ * model again with extra instructions.
+ */
+export interface GuardrailsRuntime {
+  context: StudyBuddyContext;
+  /** Call the model with these messages and return its reply */
+  regenerate?: (messages: Array<{ role: string; content: string }>) => Promise<string>;
+}
+
 /**
  * Educational Guardrails Middleware (afterModel hook)
  *
  * Runs after each model response to ensure educational appropriateness.
- * This demonstrates LangChain v1's afterModel capability for output validation.
+ * A leaking draft is regenerated once with a stricter prompt; if that still
+ * leaks, the canned safe response is shown instead.
  */
 export interface EducationalGuardrailsMiddlewareConfig {
   name: string;
   afterModel: (
     state: { messages: Array<{ role: string; content: string }> },
-    runtime: { context: StudyBuddyContext }
-  ) => { messages: Array<{ role: string; content: string }> } | undefined;
+    runtime: GuardrailsRuntime
+  ) => Promise<{ messages: Array<{ role: string; content: string }> } | undefined>;
 }
 
 export const educationalGuardrailsMiddleware: EducationalGuardrailsMiddlewareConfig = {
   name: "EducationalGuardrailsMiddleware",
 
-  afterModel: (state, runtime) => {
+  afterModel: async (state, runtime) => {
     const context = runtime.context;
     const lastMessage = state.messages[state.messages.length - 1];
 
@@ -320,42 +401,62 @@ export const educationalGuardrailsMiddleware: EducationalGuardrailsMiddlewareCon
     if (context.currentMcq) {
       logAgentThinking("Guardrails", "Checking for answer reveals", {
         questionPreview: context.currentMcq.question.slice(0, 50) + "...",
-        correctAnswerIndex: context.currentMcq.correctAnswer,
+        questionType: context.currentMcq.questionType,
       });
 
-      const revealsAnswer = checkForAnswerReveal(content, context.currentMcq);
+      const leak = await detectLeakOrAssume(content, context.currentMcq);
 
-      if (revealsAnswer) {
+      if (leak.isLeak) {
         logAgentError("Guardrails", "BLOCKED: Response reveals answer!", {
           questionPreview: context.currentMcq.question.slice(0, 50),
-          action: "Replacing with safe response",
+          stage: leak.stage,
+          reason: leak.reason,
         });
 
-        logAgentDecision("Guardrails", "Substituting safe response", {
-          reason: "Original response contained answer reveal patterns",
+        const earlier = state.messages.slice(0, -1);
+        let replacement = SAFE_RESPONSE;
+
+        if (runtime.regenerate) {
+          let retry: string | null = null;
+          try {
+            retry = await runtime.regenerate([
+              ...earlier,
+              { role: "system", content: buildStricterPrompt(leak.reason) },
+            ]);
+          } catch (error) {
+            logAgentError("Guardrails", "Regeneration failed, using the safe response", {
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+
+          const retryLeak =
+            retry === null ? null : await detectLeakOrAssume(retry, context.currentMcq);
+          if (retryLeak?.isLeak) {
+            logAgentError("Guardrails", "Regenerated response still reveals answer", {
+              stage: retryLeak.stage,
+              reason: retryLeak.reason,
+            });
+          } else if (retry !== null) {
+            replacement = retry;
+          }
+        }
+
+        logAgentDecision("Guardrails", "Substituting response", {
+          reason: leak.reason,
           originalLength: content.length,
+          substitute: replacement === SAFE_RESPONSE ? "safe response" : "regenerated response",
         });
 
         logger.endSection();
 
-        // Replace with a safe response
         return {
-          messages: [
-            ...state.messages.slice(0, -1),
-            {
-              role: "assistant",
-              content:
-                "I want to help you learn this concept without giving away the answer. " +
-                "Let me explain the underlying principle instead. " +
-                "Think about what the question is really asking and what concepts it's testing. " +
-                "Would you like me to break down the key idea in a different way?",
-            },
-          ],
+          messages: [...earlier, { role: "assistant", content: replacement }],
         };
       }
 
       logAgentSuccess("Guardrails", "Response passed answer-reveal check", {
         noAnswerPatterns: true,
+        classifierReason: leak.reason,
       });
     } else {
       logAgentThinking("Guardrails", "No active question - skipping answer check", {});
@@ -365,7 +466,7 @@ export const educationalGuardrailsMiddleware: EducationalGuardrailsMiddlewareCon
     logAgentSuccess("Guardrails", "Response validated and approved", {
       threadId: context.threadId,
       responseLength: content.length,
-      checksPerformed: context.currentMcq ? ["answer_reveal"] : ["basic"],
+      checksPerformed: context.currentMcq ? ["answer_reveal", "leak_classifier"] : ["basic"],
     });
 
     logger.endSection();
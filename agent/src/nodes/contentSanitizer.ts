@@ -0,0 +1,41 @@
+import type { LearningState } from "../state.js";
+import { ContentSanitizer } from "../services/index.js";
+import { logger, logAgentThinking, logAgentDecision, logAgentSuccess } from "../utils/logger.js";
+
+/**
+ * Node that strips prompt injections from the parsed documents before any prompt uses them.
+ * Instruction-like sentences ("ignore previous instructions...", "reveal the answer key")
+ * are replaced with a marker and recorded in state for audit.
+ */
+export async function contentSanitizerNode(state: LearningState): Promise<Partial<LearningState>> {
+  logger.startSection("Content Sanitizer");
+
+  logAgentThinking("Content Sanitizer", "Scanning document text for instructions to the AI", {
+    contentLength: state.pdfContent.length,
+    pageCount: state.parsedDocument?.pages.length ?? 0,
+    chunkCount: state.documentChunks.length,
+  });
+
+  const sanitized = ContentSanitizer.sanitizeDocument(state);
+
+  if (sanitized.findings.length === 0) {
+    logAgentSuccess("Content Sanitizer", "No instruction-like text found");
+    logger.endSection();
+    return { injectionFindings: [] };
+  }
+
+  logAgentDecision("Content Sanitizer", "Removed instruction-like text from the document", {
+    findingCount: sanitized.findings.length,
+    kinds: [...new Set(sanitized.findings.map((f) => f.kind))],
+    pages: [...new Set(sanitized.findings.map((f) => f.page))],
+  });
+  logger.endSection();
+
+  return {
+    pdfContent: sanitized.pdfContent,
+    parsedDocument: sanitized.parsedDocument,
+    documentChunks: sanitized.documentChunks,
+    injectionFindings: sanitized.findings,
+    warnings: [...state.warnings, ...ContentSanitizer.buildWarnings(sanitized.findings)],
+  };
+}
@@ -7,13 +7,26 @@ import {
   logAgentSuccess,
   logAgentError,
 } from "../utils/logger.js";
-import { NodeResponse } from "../services/index.js";
+import {
+  NodeResponse,
+  AnswerGrader,
+  CalibrationService,
+  DeferralService,
+  ExamService,
+  MasteryTracker,
+  MisconceptionService,
+  RemediationService,
+  SessionSettingsService,
+  Sm2Scheduler,
+  TimingService,
+} from "../services/index.js";
+import { getReviewItem, toReviewSchedule, updateReviewSchedule } from "../db/index.js";
 import { prefetchCache } from "../utils/prefetchCache.js";
-import type { MCQ } from "../schemas/index.js";
-import type { AnswerMCQInterrupt } from "../types/interrupts.js";
+import type { LearningObjective, MCQ } from "../schemas/index.js";
+import type { AnswerMCQInterrupt, ExamQuestionInterrupt } from "../types/interrupts.js";
 import { getProgressiveHint } from "../prompts/index.js";
 
-const QUESTIONS_PER_OBJECTIVE = 3;
+type Difficulty = LearningObjective["difficulty"];
 
 /**
  * Helper to get session key (must match quizGenerator)
@@ -22,6 +35,77 @@ function getSessionKey(learningObjectives: { id: string }[]): string {
   return learningObjectives[0]?.id || "default";
 }
 
+/**
+ * Check whether the learner struggled enough with an objective to get follow-up
+ * questions on the missed concepts before moving on. Objectives the learner has
+ * since mastered are left alone, and exams never remediate.
+ */
+function shouldRemediate(
+  state: LearningState,
+  objectiveId: string,
+  mastery: Record<string, number> = state.mastery
+): boolean {
+  if (state.sessionMode === "review" || ExamService.isExam(state.settings)) return false;
+
+  const missed = RemediationService.missedQuestions(
+    objectiveId,
+    state.mcqs,
+    state.attemptCounts,
+    state.wrongAnswers,
+    state.remediationRounds
+  );
+  return RemediationService.needsRemediation(
+    missed,
+    objectiveId,
+    state.remediationRounds,
+    mastery[objectiveId]
+  );
+}
+
+/**
+ * Find the first of an objective's skipped questions still waiting for an answer.
+ * @returns Its index, or -1 if the objective can close
+ */
+function nextDeferredIdx(
+  state: LearningState,
+  objectiveId: string,
+  userAnswers: LearningState["userAnswers"] = state.userAnswers
+): number {
+  return (
+    DeferralService.pending(objectiveId, state.mcqs, state.deferredQuestionIds, userAnswers)[0] ??
+    -1
+  );
+}
+
+/**
+ * Reschedule a review question from the wrong attempts it took.
+ * Failures are logged and swallowed so the review carries on.
+ */
+async function recordReviewOutcome(
+  learnerId: string | null,
+  reviewItemId: string,
+  wrongAttempts: number
+): Promise<void> {
+  try {
+    const item = await getReviewItem(reviewItemId);
+    if (!item || item.learner_id !== learnerId) return;
+
+    const quality = Sm2Scheduler.quality(wrongAttempts);
+    const schedule = Sm2Scheduler.next(toReviewSchedule(item), quality);
+    await updateReviewSchedule(item.id, schedule, quality < 3);
+
+    logAgentSuccess("Feedback", "Review rescheduled", {
+      reviewItemId,
+      quality,
+      intervalDays: schedule.intervalDays,
+    });
+  } catch (error) {
+    logAgentError("Feedback", "Could not reschedule review", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 /**
  * Resolve prefetched questions if available for the next objective.
  * Returns the prefetched MCQs or empty array if not available/failed.
@@ -29,7 +113,7 @@ function getSessionKey(learningObjectives: { id: string }[]): string {
 async function resolvePrefetch(
   sessionKey: string,
   nextObjectiveIdx: number
-): Promise<{ mcqs: MCQ[]; objectiveIdx: number } | null> {
+): Promise<{ mcqs: MCQ[]; objectiveIdx: number; difficulty: Difficulty } | null> {
   const cached = prefetchCache.get(sessionKey);
 
   if (!cached || cached.objectiveIdx !== nextObjectiveIdx) {
@@ -41,7 +125,7 @@ async function resolvePrefetch(
     const mcqs = await cached.promise;
     logAgentSuccess("Feedback", `Prefetch resolved with ${mcqs.length} questions`);
     prefetchCache.delete(sessionKey); // Clean up
-    return { mcqs, objectiveIdx: nextObjectiveIdx };
+    return { mcqs, objectiveIdx: nextObjectiveIdx, difficulty: cached.difficulty };
   } catch (error) {
     logAgentError("Feedback", "Prefetch failed, will generate on-demand", {
       error: error instanceof Error ? error.message : String(error),
@@ -51,15 +135,222 @@ async function resolvePrefetch(
   }
 }
 
+/**
+ * Count the questions in the session: the planned quiz plus any follow-up questions
+ * from remediation, or the whole queue in review sessions.
+ */
+function totalQuestions(state: LearningState): number {
+  const { mcqs, learningObjectives, remediationRounds, settings } = state;
+  if (state.sessionMode === "review") return mcqs.length;
+
+  // Calculated from learningObjectives - more reliable than the totalExpectedMcqs field
+  const total = learningObjectives
+    ? SessionSettingsService.expectedQuestionCount(settings, learningObjectives.length) +
+      RemediationService.followUpQuestionIds(remediationRounds).size
+    : 0;
+  return total || mcqs.length;
+}
+
+/**
+ * Move on from a question that is done: back to a skipped question, into remediation,
+ * on to the next objective (with its prefetched questions if they are ready) or to the
+ * next question.
+ * @param updates - State changes from the answer just given, returned along with the move
+ */
+async function moveOn(
+  state: LearningState,
+  updates: Partial<LearningState> = {}
+): Promise<Partial<LearningState>> {
+  const { mcqs, currentMcqIdx, learningObjectives, currentObjectiveIdx } = state;
+
+  // Check if this completes the current objective
+  const currentObjective = learningObjectives?.[currentObjectiveIdx];
+  const isLastQuestionOfObjective =
+    !!currentObjective &&
+    (currentMcqIdx + 1 >= mcqs.length ||
+      mcqs[currentMcqIdx + 1]?.objectiveId !== currentObjective.id);
+
+  if (!currentObjective || !isLastQuestionOfObjective) {
+    return { ...updates, currentMcqIdx: currentMcqIdx + 1 };
+  }
+
+  const deferredIdx = nextDeferredIdx(state, currentObjective.id, {
+    ...state.userAnswers,
+    ...updates.userAnswers,
+  });
+  if (deferredIdx >= 0) {
+    logAgentDecision("Feedback", "Returning to a skipped question", {
+      questionId: mcqs[deferredIdx].id,
+    });
+    return { ...updates, currentMcqIdx: deferredIdx };
+  }
+
+  const mastery = { ...state.mastery, ...updates.mastery };
+  if (shouldRemediate(state, currentObjective.id, mastery)) {
+    logAgentDecision("Feedback", "Objective needed several attempts, starting remediation", {
+      objectiveId: currentObjective.id,
+      mastery: mastery[currentObjective.id],
+    });
+    return {
+      ...updates,
+      currentMcqIdx: currentMcqIdx + 1,
+      remediationObjectiveId: currentObjective.id,
+    };
+  }
+
+  if (currentObjectiveIdx + 1 < learningObjectives.length) {
+    const nextIdx = currentObjectiveIdx + 1;
+    logAgentSuccess(
+      "Feedback",
+      `Completed objective ${currentObjectiveIdx + 1}, moving to ${nextIdx + 1}`
+    );
+
+    // Resolve prefetch if available
+    const sessionKey = getSessionKey(learningObjectives);
+    const prefetchResult = await resolvePrefetch(sessionKey, nextIdx);
+
+    return {
+      ...updates,
+      currentMcqIdx: currentMcqIdx + 1,
+      currentObjectiveIdx: nextIdx,
+      ...(prefetchResult && {
+        prefetchedMcqs: prefetchResult.mcqs,
+        prefetchObjectiveIdx: prefetchResult.objectiveIdx,
+        prefetchDifficulty: prefetchResult.difficulty,
+      }),
+    };
+  }
+
+  return { ...updates, currentMcqIdx: currentMcqIdx + 1 };
+}
+
+/**
+ * Ask an exam question: a single attempt with no hint or feedback, accepted only
+ * before the question and exam deadlines. Wrong, skipped and late answers all move
+ * straight on; the learner sees how they did in the review at the end.
+ */
+async function examQuestion(
+  state: LearningState,
+  currentMcq: MCQ
+): Promise<Partial<LearningState>> {
+  const now = new Date().toISOString();
+
+  // The node runs again on resume, so the clocks are stored before asking
+  if (!state.examStartedAt || !state.questionStartedAt[currentMcq.id]) {
+    logAgentThinking("Feedback", "Starting the clock for the exam question", {
+      questionId: currentMcq.id,
+      examStarted: !!state.examStartedAt,
+    });
+    return {
+      examStartedAt: state.examStartedAt ?? now,
+      questionStartedAt: { [currentMcq.id]: now },
+    };
+  }
+
+  const deadlines = ExamService.deadlines(
+    state.settings,
+    state.examStartedAt,
+    state.questionStartedAt[currentMcq.id]
+  );
+  if (ExamService.timing(deadlines) === "exam_expired") {
+    logAgentDecision("Feedback", "Exam time is up, ending the exam", {
+      examDeadline: deadlines.examDeadline,
+    });
+    return { examTimedOut: true };
+  }
+
+  const interruptPayload: ExamQuestionInterrupt = {
+    type: "exam_question",
+    questionId: currentMcq.id,
+    objectiveId: currentMcq.objectiveId,
+    questionType: currentMcq.type,
+    question: currentMcq.question,
+    options: AnswerGrader.getOptions(currentMcq),
+    currentIndex: state.currentMcqIdx,
+    totalQuestions: totalQuestions(state),
+    ...deadlines,
+  };
+
+  logAgentThinking("Feedback", "Waiting for exam answer", {
+    questionId: currentMcq.id,
+    ...deadlines,
+  });
+
+  const userInput = interrupt(interruptPayload);
+  const durationMs = TimingService.elapsedMs(state.questionStartedAt[currentMcq.id]);
+
+  const timing = ExamService.timing(deadlines);
+  if (timing === "exam_expired") {
+    logAgentDecision("Feedback", "Answer came in after the exam ended, ending the exam", {
+      questionId: currentMcq.id,
+    });
+    return { examTimedOut: true };
+  }
+
+  const skipped = DeferralService.parseCommand(userInput)?.action === "skip";
+  const { answer: rawAnswer, confidence } = CalibrationService.parseSubmission(userInput);
+  const answer =
+    timing === "on_time" && !skipped ? AnswerGrader.parseAnswer(currentMcq, rawAnswer) : null;
+  const isCorrect = answer !== null && AnswerGrader.isCorrect(currentMcq, answer);
+
+  if (timing === "question_expired") {
+    logger.warning("Feedback", "Answer came in after the question's deadline, not counted", {
+      questionId: currentMcq.id,
+      questionDeadline: deadlines.questionDeadline,
+    });
+  } else {
+    logAgentDecision(
+      "Feedback",
+      `Exam answer recorded: ${skipped ? "SKIPPED" : isCorrect ? "CORRECT" : "INCORRECT"}`,
+      { questionId: currentMcq.id, userAnswer: answer, confidence }
+    );
+  }
+
+  const misconceptionLabels =
+    answer !== null && !isCorrect ? MisconceptionService.labelsFor(currentMcq, answer) : [];
+
+  return moveOn(state, {
+    examAnswers: { [currentMcq.id]: answer },
+    ...(answer !== null && {
+      attempts: {
+        [currentMcq.id]: [{ answer, isCorrect, ...(confidence && { confidence }), durationMs }],
+      },
+      mastery: {
+        [currentMcq.objectiveId]: MasteryTracker.update(
+          MasteryTracker.estimate(currentMcq.objectiveId, state.mastery),
+          isCorrect
+        ),
+      },
+    }),
+    ...(isCorrect && answer !== null
+      ? {
+          userAnswers: { ...state.userAnswers, [currentMcq.id]: answer },
+          correctAnswers: state.correctAnswers + 1,
+        }
+      : {
+          attemptCounts: { [currentMcq.id]: 1 },
+          ...(answer !== null && { wrongAnswers: { [currentMcq.id]: [answer] } }),
+          ...(misconceptionLabels.length > 0 && {
+            misconceptions: { [currentMcq.id]: misconceptionLabels },
+          }),
+        }),
+  });
+}
+
 /**
  * Node that handles quiz interaction - waits for user answers and provides feedback.
  * Uses interrupt to pause for user input.
  *
  * Flow:
+ * 0. Store when the question is served, so response times come from the server clock
  * 1. Show question via interrupt (includes hint, explanation, correctAnswer)
  * 2. User submits answer
  * 3. If correct: store answer, show success feedback via interrupt, then move to next
  * 4. If incorrect: show retry feedback via interrupt (with hint), allow retry
+ * 5. If the learner skips, move on and serve the question again before the objective ends
+ * 6. If the objective is done but took several attempts, hand over to remediation first
+ *
+ * In exam mode each question is asked once instead, see examQuestion.
  */
 export async function feedbackNode(state: LearningState): Promise<Partial<LearningState>> {
   logger.startSection("Feedback Agent");
@@ -73,6 +364,11 @@ export async function feedbackNode(state: LearningState): Promise<Partial<Learni
     learningObjectives,
     currentObjectiveIdx,
     attemptCounts,
+    wrongAnswers,
+    misconceptions,
+    remediationRounds,
+    deferredQuestionIds,
+    examAnswers,
   } = state;
 
   if (!mcqs || mcqs.length === 0) {
@@ -83,6 +379,17 @@ export async function feedbackNode(state: LearningState): Promise<Partial<Learni
 
   const currentMcq = mcqs[currentMcqIdx];
   if (!currentMcq) {
+    // Skipped questions come back before the objective closes
+    const objective = learningObjectives?.[currentObjectiveIdx];
+    const deferredIdx = objective ? nextDeferredIdx(state, objective.id) : -1;
+    if (deferredIdx >= 0) {
+      logAgentDecision("Feedback", "Returning to a skipped question", {
+        questionId: mcqs[deferredIdx].id,
+      });
+      logger.endSection();
+      return { currentMcqIdx: deferredIdx };
+    }
+
     // All MCQs for current objective completed
     logAgentDecision("Feedback", "All MCQs completed for current objective", {
       currentObjectiveIdx,
@@ -108,6 +415,7 @@ export async function feedbackNode(state: LearningState): Promise<Partial<Learni
         ...(prefetchResult && {
           prefetchedMcqs: prefetchResult.mcqs,
           prefetchObjectiveIdx: prefetchResult.objectiveIdx,
+          prefetchDifficulty: prefetchResult.difficulty,
         }),
       };
     }
@@ -119,68 +427,48 @@ export async function feedbackNode(state: LearningState): Promise<Partial<Learni
     };
   }
 
-  // Check if we already have a CORRECT answer for this question
+  // Check if we already have a CORRECT answer for this question (or any answer in an exam)
   const existingAnswer = userAnswers[currentMcq.id];
-  if (existingAnswer !== undefined && existingAnswer === currentMcq.correctAnswer) {
-    // Already answered correctly - move on
-    logAgentDecision("Feedback", "Question already answered correctly, moving on", {
+  if (AnswerGrader.isCorrect(currentMcq, existingAnswer) || currentMcq.id in examAnswers) {
+    // Already answered - move on
+    logAgentDecision("Feedback", "Question already answered, moving on", {
       questionId: currentMcq.id,
     });
+    const result = await moveOn(state);
+    logger.endSection();
+    return result;
+  }
 
-    // Check if this completes the current objective
-    const currentObjective = learningObjectives?.[currentObjectiveIdx];
-    if (currentObjective) {
-      const isLastQuestionOfObjective =
-        currentMcqIdx + 1 >= mcqs.length ||
-        mcqs[currentMcqIdx + 1]?.objectiveId !== currentObjective.id;
-
-      if (
-        isLastQuestionOfObjective &&
-        learningObjectives &&
-        currentObjectiveIdx + 1 < learningObjectives.length
-      ) {
-        const nextIdx = currentObjectiveIdx + 1;
-        logAgentSuccess(
-          "Feedback",
-          `Completed objective ${currentObjectiveIdx + 1}, moving to ${nextIdx + 1}`
-        );
-
-        // Resolve prefetch if available
-        const sessionKey = getSessionKey(learningObjectives);
-        const prefetchResult = await resolvePrefetch(sessionKey, nextIdx);
-
-        logger.endSection();
-        return {
-          currentMcqIdx: currentMcqIdx + 1,
-          currentObjectiveIdx: nextIdx,
-          ...(prefetchResult && {
-            prefetchedMcqs: prefetchResult.mcqs,
-            prefetchObjectiveIdx: prefetchResult.objectiveIdx,
-          }),
-        };
-      }
-    }
+  if (ExamService.isExam(state.settings)) {
+    const result = await examQuestion(state, currentMcq);
+    logger.endSection();
+    return result;
+  }
 
+  // The node runs again on resume, so the time the attempt is served is stored before asking
+  const issuedAt = state.attemptIssuedAt[currentMcq.id];
+  if (!issuedAt) {
+    logAgentThinking("Feedback", "Starting the clock for the question", {
+      questionId: currentMcq.id,
+    });
     logger.endSection();
-    return {
-      currentMcqIdx: currentMcqIdx + 1,
-    };
+    return { attemptIssuedAt: { [currentMcq.id]: new Date().toISOString() } };
   }
 
   // Wait for user answer using interrupt - include full MCQ data for feedback
-  // Calculate total directly from learningObjectives - more reliable than state field
-  const calculatedTotalMcqs = learningObjectives
-    ? learningObjectives.length * QUESTIONS_PER_OBJECTIVE
-    : 0;
+  const remediationRound = RemediationService.roundFor(remediationRounds, currentMcq.id);
+
+  const canSkip = DeferralService.canSkip(currentMcq.id, deferredQuestionIds);
 
   // Get current attempt count for this question (starts at 1)
   const currentAttemptCount = (attemptCounts[currentMcq.id] || 0) + 1;
 
   // Generate progressive hint based on attempt count and question context
   // For struggling students, the hint becomes more helpful and contextual
+  const options = AnswerGrader.getOptions(currentMcq);
   const dynamicHint = getProgressiveHint(currentMcq.hint, currentAttemptCount, {
     question: currentMcq.question,
-    options: currentMcq.options,
+    options,
     objectiveTitle: learningObjectives?.[currentObjectiveIdx]?.title,
   });
 
@@ -189,14 +477,18 @@ export async function feedbackNode(state: LearningState): Promise<Partial<Learni
     type: "answer_mcq",
     questionId: currentMcq.id,
     objectiveId: currentMcq.objectiveId,
+    questionType: currentMcq.type,
     question: currentMcq.question,
-    options: currentMcq.options,
-    correctAnswer: currentMcq.correctAnswer,
+    options,
+    correctAnswer: AnswerGrader.getAnswerKey(currentMcq),
     hint: dynamicHint, // Use progressive hint based on attempts
     explanation: currentMcq.explanation,
+    sourceRefs: currentMcq.sourceRefs ?? [],
     currentIndex: currentMcqIdx,
-    totalQuestions: calculatedTotalMcqs || mcqs.length,
+    totalQuestions: totalQuestions(state),
     attemptCount: currentAttemptCount,
+    wasSkipped: !canSkip,
+    ...(remediationRound && { remediation: { explanation: remediationRound.explanation } }),
   };
 
   logAgentThinking("Feedback", "Waiting for user answer", {
@@ -206,68 +498,82 @@ export async function feedbackNode(state: LearningState): Promise<Partial<Learni
   });
 
   const userInput = interrupt(interruptPayload);
+  // Measured on the server clock; the next attempt (or the return after a skip) starts afresh
+  const durationMs = TimingService.elapsedMs(issuedAt);
+  const clockReset = { attemptIssuedAt: { [currentMcq.id]: null } };
+
+  // Skipping puts the question aside until the end of the objective, without counting an attempt
+  if (DeferralService.parseCommand(userInput)?.action === "skip") {
+    if (!canSkip) {
+      logger.warning("Feedback", "Question was already skipped once, asking again", {
+        questionId: currentMcq.id,
+      });
+      logger.endSection();
+      // Serving it again starts a new attempt, so the refused skip is not timed as part of it
+      return { attemptIssuedAt: { [currentMcq.id]: new Date().toISOString() } };
+    }
 
-  // Process the user's answer
-  const userAnswer = typeof userInput === "number" ? userInput : parseInt(userInput as string, 10);
-  const isCorrect = userAnswer === currentMcq.correctAnswer;
+    logAgentDecision("Feedback", "Question skipped, it will come back before the objective ends", {
+      questionId: currentMcq.id,
+    });
+    logger.endSection();
+    return {
+      ...clockReset,
+      deferredQuestionIds: [...deferredQuestionIds, currentMcq.id],
+      currentMcqIdx: currentMcqIdx + 1,
+    };
+  }
+
+  // Process the user's answer according to the question type, with its confidence rating
+  const { answer: rawAnswer, confidence } = CalibrationService.parseSubmission(userInput);
+  const userAnswer = AnswerGrader.parseAnswer(currentMcq, rawAnswer);
+  const isCorrect = userAnswer !== null && AnswerGrader.isCorrect(currentMcq, userAnswer);
 
   logAgentDecision("Feedback", `Answer evaluated: ${isCorrect ? "CORRECT" : "INCORRECT"}`, {
     questionId: currentMcq.id,
+    questionType: currentMcq.type,
     userAnswer,
-    correctAnswer: currentMcq.correctAnswer,
+    confidence,
+    durationMs,
+    correctAnswer: AnswerGrader.getAnswerKey(currentMcq),
   });
 
-  if (isCorrect) {
-    // Store the correct answer
-    const newUserAnswers = {
-      ...userAnswers,
-      [currentMcq.id]: userAnswer,
-    };
+  // Every attempt is kept for scoring, not just the final correct answer
+  const attemptsUpdate = {
+    [currentMcq.id]: [
+      ...(state.attempts[currentMcq.id] ?? []),
+      { answer: userAnswer, isCorrect, ...(confidence && { confidence }), durationMs },
+    ],
+  };
 
-    // Check if this completes the current objective
-    const currentObjective = learningObjectives?.[currentObjectiveIdx];
-    if (currentObjective) {
-      const isLastQuestionOfObjective =
-        currentMcqIdx + 1 >= mcqs.length ||
-        mcqs[currentMcqIdx + 1]?.objectiveId !== currentObjective.id;
-
-      if (
-        isLastQuestionOfObjective &&
-        learningObjectives &&
-        currentObjectiveIdx + 1 < learningObjectives.length
-      ) {
-        const nextIdx = currentObjectiveIdx + 1;
-        logAgentSuccess(
-          "Feedback",
-          `Completed objective ${currentObjectiveIdx + 1} after correct answer, moving to ${nextIdx + 1}`
-        );
-
-        // Resolve prefetch if available
-        const sessionKey = getSessionKey(learningObjectives);
-        const prefetchResult = await resolvePrefetch(sessionKey, nextIdx);
-
-        logger.endSection();
-        return {
-          userAnswers: newUserAnswers,
-          correctAnswers: correctAnswers + 1,
-          currentMcqIdx: currentMcqIdx + 1,
-          currentObjectiveIdx: nextIdx,
-          ...(prefetchResult && {
-            prefetchedMcqs: prefetchResult.mcqs,
-            prefetchObjectiveIdx: prefetchResult.objectiveIdx,
-          }),
+  // Every attempt updates the objective's mastery estimate (review sessions mix objectives)
+  const masteryUpdate: Record<string, number> =
+    state.sessionMode === "review"
+      ? {}
+      : {
+          [currentMcq.objectiveId]: MasteryTracker.update(
+            MasteryTracker.estimate(currentMcq.objectiveId, state.mastery),
+            isCorrect
+          ),
         };
-      }
+
+  if (isCorrect && userAnswer !== null) {
+    // In review sessions the outcome moves the question along its schedule
+    if (state.sessionMode === "review") {
+      await recordReviewOutcome(state.learnerId, currentMcq.id, currentAttemptCount - 1);
     }
 
-    // Move to next question
-    logAgentSuccess("Feedback", "Correct answer, moving to next question");
-    logger.endSection();
-    return {
-      userAnswers: newUserAnswers,
+    // Store the correct answer and move on
+    logAgentSuccess("Feedback", "Correct answer, moving on", { questionId: currentMcq.id });
+    const result = await moveOn(state, {
+      ...clockReset,
+      attempts: attemptsUpdate,
+      mastery: masteryUpdate,
+      userAnswers: { ...userAnswers, [currentMcq.id]: userAnswer },
       correctAnswers: correctAnswers + 1,
-      currentMcqIdx: currentMcqIdx + 1,
-    };
+    });
+    logger.endSection();
+    return result;
   } else {
     // Incorrect - DON'T store the answer, but increment attempt count
     // The frontend will show hint based on the interrupt data
@@ -276,13 +582,35 @@ export async function feedbackNode(state: LearningState): Promise<Partial<Learni
       attemptCount: currentAttemptCount,
       hint: currentMcq.hint?.substring(0, 50) + "...",
     });
+    // Record the misconceptions behind the wrong options picked
+    const misconceptionLabels =
+      userAnswer !== null ? MisconceptionService.labelsFor(currentMcq, userAnswer) : [];
+    if (misconceptionLabels.length > 0) {
+      logAgentDecision("Feedback", "Wrong answer reveals misconceptions", {
+        questionId: currentMcq.id,
+        misconceptions: misconceptionLabels,
+      });
+    }
     logger.endSection();
 
-    // Update attempt count for this question
+    // Update attempt count for this question, keeping the wrong answer for remediation
     return {
+      ...clockReset,
+      attempts: attemptsUpdate,
+      mastery: masteryUpdate,
       attemptCounts: {
         [currentMcq.id]: currentAttemptCount,
       },
+      ...(userAnswer !== null && {
+        wrongAnswers: {
+          [currentMcq.id]: [...(wrongAnswers[currentMcq.id] ?? []), userAnswer],
+        },
+      }),
+      ...(misconceptionLabels.length > 0 && {
+        misconceptions: {
+          [currentMcq.id]: [...(misconceptions[currentMcq.id] ?? []), ...misconceptionLabels],
+        },
+      }),
     };
   }
 }
@@ -303,7 +631,7 @@ export function shouldMoveToNextObjective(state: LearningState): boolean {
   const answeredMcqs = objectiveMcqs.filter((m) => state.userAnswers[m.id] !== undefined);
 
   // Check if all MCQs for this objective are answered correctly
-  const allCorrect = answeredMcqs.every((m) => state.userAnswers[m.id] === m.correctAnswer);
+  const allCorrect = answeredMcqs.every((m) => AnswerGrader.isCorrect(m, state.userAnswers[m.id]));
 
   return allCorrect && answeredMcqs.length === objectiveMcqs.length;
 }
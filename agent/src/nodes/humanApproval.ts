@@ -1,5 +1,19 @@
 import { interrupt } from "@langchain/langgraph";
+import { type RunnableConfig } from "@langchain/core/runnables";
 import type { LearningState } from "../state.js";
+import {
+  ObjectiveDraftBatchSchema,
+  type LearningObjective,
+  type ObjectiveDraft,
+  type PlanEditObjective,
+} from "../schemas/index.js";
+import {
+  AIModelFactory,
+  DocumentStructureAnalyzer,
+  NodeResponse,
+  PlanEditor,
+  RetrievalService,
+} from "../services/index.js";
 import {
   logger,
   logAgentThinking,
@@ -7,15 +21,24 @@ import {
   logAgentSuccess,
   logAgentError,
 } from "../utils/logger.js";
+import { wrapUntrusted, UNTRUSTED_CONTENT_RULE } from "../prompts/index.js";
+
+/** Character budget for the document excerpts used to fill in new objectives */
+const DRAFT_CONTEXT_CHARS = 2000;
 
 /**
  * Node that pauses execution for human approval of the learning plan.
  * Uses LangGraph's interrupt mechanism for HITL workflow.
+ * The learner may send back an edited plan; objectives they added are filled in by the model.
+ * Rejecting with feedback sends the plan back to the planner, keeping the parsed documents.
  */
-export async function humanApprovalNode(state: LearningState): Promise<Partial<LearningState>> {
+export async function humanApprovalNode(
+  state: LearningState,
+  config?: RunnableConfig
+): Promise<Partial<LearningState>> {
   logger.startSection("Human-in-the-Loop Approval Agent");
 
-  const { learningObjectives } = state;
+  const { learningObjectives, planRevisionCount } = state;
 
   logAgentThinking("HITL Agent", "Checking if learning objectives are ready for approval");
 
@@ -36,34 +59,81 @@ export async function humanApprovalNode(state: LearningState): Promise<Partial<L
   logger.info("HITL Agent", "Initiating human approval workflow");
   logger.indent();
   logger.think("HITL Agent", "Pausing execution to wait for user decision");
-  logger.think("HITL Agent", "User can approve to proceed or reject to start over");
+  logger.think(
+    "HITL Agent",
+    "User can approve to proceed, edit the plan, ask for a revision, or reject to start over"
+  );
   logger.outdent();
 
   // Use LangGraph's interrupt to pause and wait for user approval
   // The frontend will receive this interrupt and display the approval UI
-  const approved = interrupt({
-    type: "plan_approval",
-    message: "Please review and approve the learning plan before proceeding.",
-    plan: learningObjectives,
-    totalObjectives: learningObjectives.length,
-  });
+  // The server validates the resume value before resuming, so parsing only fails on direct invokes
+  const revisionsLeft = PlanEditor.revisionsLeft(planRevisionCount);
+  const {
+    approved,
+    plan: editedPlan,
+    feedback,
+  } = PlanEditor.parseResume(
+    interrupt({
+      type: "plan_approval",
+      message: "Please review and approve the learning plan before proceeding.",
+      plan: learningObjectives,
+      totalObjectives: learningObjectives.length,
+      revisionsLeft,
+    }),
+    revisionsLeft
+  );
 
   logAgentDecision("HITL Agent", `User response received: ${approved ? "APPROVED" : "REJECTED"}`, {
     userDecision: approved,
+    edited: Boolean(editedPlan),
     timestamp: new Date().toISOString(),
   });
 
   if (approved) {
+    let approvedPlan = learningObjectives;
+
+    if (editedPlan) {
+      const added = editedPlan.filter((objective) =>
+        PlanEditor.isNew(objective, learningObjectives)
+      );
+      const drafts =
+        added.length > 0 ? await draftNewObjectives(added, learningObjectives, state, config) : [];
+      approvedPlan = PlanEditor.apply(learningObjectives, editedPlan, drafts, state.parsedDocument);
+
+      logAgentDecision("HITL Agent", "Applied the learner's edits to the plan", {
+        before: learningObjectives.map((o) => `${o.id}: ${o.title}`),
+        after: approvedPlan.map((o) => `${o.id}: ${o.title} (${o.difficulty})`),
+        added: added.length,
+      });
+    }
+
     logAgentSuccess("HITL Agent", "Learning plan approved by user", {
       nextPhase: "quiz",
-      objectivesToProcess: learningObjectives.length,
+      objectivesToProcess: approvedPlan.length,
     });
     logger.endSection();
     return {
       planApproved: true,
+      learningObjectives: approvedPlan,
       currentPhase: "quiz",
       error: null,
     };
+  } else if (feedback) {
+    // User asked for changes - regenerate the plan from the same documents
+    logAgentDecision("HITL Agent", "User asked for a revised plan", {
+      feedback,
+      revision: planRevisionCount + 1,
+      revisionsLeft: revisionsLeft - 1,
+    });
+    logger.endSection();
+    return {
+      planApproved: false,
+      planFeedback: feedback,
+      planRevisionCount: planRevisionCount + 1,
+      currentPhase: "planning",
+      error: null,
+    };
   } else {
     // User rejected the plan - go back to upload
     logAgentDecision("HITL Agent", "User rejected the plan, resetting workflow", {
@@ -75,9 +145,84 @@ export async function humanApprovalNode(state: LearningState): Promise<Partial<L
       planApproved: false,
       learningObjectives: [],
       pdfContent: "",
-      pdfPath: null,
+      parsedDocument: null,
+      documentChunks: [],
+      warnings: [],
+      documents: [],
+      planFeedback: null,
+      planRevisionCount: 0,
       currentPhase: "upload",
       error: null,
     };
   }
 }
+
+/**
+ * Ask the model for the description, difficulty and anchors of objectives the learner added by title.
+ * Failures are logged and swallowed; the objectives then fall back to their titles.
+ */
+async function draftNewObjectives(
+  added: PlanEditObjective[],
+  plan: LearningObjective[],
+  state: LearningState,
+  config?: RunnableConfig
+): Promise<ObjectiveDraft[]> {
+  const { parsedDocument, documentChunks, pdfContent } = state;
+
+  logAgentThinking("HITL Agent", "Filling in objectives added by the learner", {
+    titles: added.map((objective) => objective.title),
+  });
+
+  try {
+    const model = AIModelFactory.createStructured(
+      "planning",
+      ObjectiveDraftBatchSchema,
+      "draft_objectives"
+    );
+
+    const outline = parsedDocument ? DocumentStructureAnalyzer.formatOutline(parsedDocument) : "";
+    const context = await RetrievalService.buildContext(
+      documentChunks,
+      added.map((objective) => objective.title).join("\n"),
+      { maxChars: DRAFT_CONTEXT_CHARS, fallbackText: pdfContent, agentName: "HITL Agent" }
+    );
+
+    const result = await model.invoke(
+      [
+        {
+          role: "system",
+          content: `You are an expert educational content designer. A learner added objectives to their learning plan by title only.
+
+For each new objective, in the order given:
+1. Write a one or two sentence description of what will be learned, specific and testable
+2. Assign a difficulty (easy, medium or hard) in line with the rest of the plan
+3. List the IDs of the outline sections it covers (e.g. "sec-3") in sectionIds, or leave it empty
+4. List the IDs of the documents it draws on (e.g. "doc-2") in documentIds
+
+Return exactly one entry per new objective.
+
+${UNTRUSTED_CONTENT_RULE}`,
+        },
+        {
+          role: "user",
+          content: [
+            `## Current Plan\n${plan.map((o) => `- ${o.title} (${o.difficulty})`).join("\n")}`,
+            `## New Objectives\n${added.map((o, idx) => `${idx + 1}. ${o.title}`).join("\n")}`,
+            outline && `## Document Outline\n${wrapUntrusted(outline)}`,
+            `## Relevant Excerpts\n${wrapUntrusted(context)}`,
+          ]
+            .filter(Boolean)
+            .join("\n\n"),
+        },
+      ],
+      config
+    );
+
+    return result.objectives.slice(0, added.length);
+  } catch (err) {
+    logger.warning("HITL Agent", "Could not fill in the new objectives, using their titles", {
+      error: NodeResponse.extractErrorMessage(err),
+    });
+    return [];
+  }
+}
@@ -1,6 +1,9 @@
 export { pdfParserNode } from "./pdfParser.js";
+export { contentSanitizerNode } from "./contentSanitizer.js";
 export { plannerNode } from "./planner.js";
 export { humanApprovalNode } from "./humanApproval.js";
 export { quizGeneratorNode } from "./quizGenerator.js";
 export { feedbackNode, shouldMoveToNextObjective } from "./feedback.js";
 export { summaryNode } from "./summary.js";
+export { remediationNode } from "./remediation.js";
+export { reviewLoaderNode } from "./reviewLoader.js";
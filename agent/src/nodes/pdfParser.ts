@@ -1,8 +1,15 @@
 import fs from "fs";
-import pdfParse from "pdf-parse";
 import type { LearningState } from "../state.js";
+import type { ParsedDocument, SourceDocument } from "../schemas/index.js";
 import { validatePdfContent, truncateContent } from "../utils/helpers.js";
 import { CONFIG } from "../config.js";
+import {
+  Chunker,
+  DocumentStructureAnalyzer,
+  ExtractorRegistry,
+  OcrService,
+  type OcrResult,
+} from "../services/index.js";
 import {
   logger,
   logAgentThinking,
@@ -12,81 +19,64 @@ import {
 } from "../utils/logger.js";
 
 /**
- * Node that parses PDF content from the uploaded file.
- * Extracts text content for further processing.
+ * A successfully parsed source document, or why it could not be parsed.
+ */
+type SourceParseResult =
+  | { parsedDocument: ParsedDocument; content: string; warnings: string[] }
+  | { error: string };
+
+/**
+ * Node that parses the uploaded documents (PDF, DOCX, EPUB, HTML, Markdown or text).
+ * Each document is parsed on its own, then they are combined into one structured
+ * document (pages, sections, table of contents) with consecutive page numbers.
  */
 export async function pdfParserNode(state: LearningState): Promise<Partial<LearningState>> {
   logger.startSection("PDF Parser Agent");
 
-  const { pdfPath } = state;
+  const { documents } = state;
 
-  logAgentThinking("PDF Parser", "Checking if PDF path is provided", {
-    pdfPath: pdfPath || "none",
+  logAgentThinking("PDF Parser", "Checking which documents were uploaded", {
+    documentCount: documents.length,
+    names: documents.map((document) => document.name),
   });
 
-  if (!pdfPath) {
-    logAgentError("PDF Parser", "No PDF path provided in state");
+  if (documents.length === 0) {
+    logAgentError("PDF Parser", "No documents provided in state");
     logger.endSection();
     return {
-      error: "No PDF file provided. Please upload a PDF to begin.",
+      error: "No document provided. Please upload a file to begin.",
       currentPhase: "upload",
     };
   }
 
   try {
-    // Check if file exists
-    logAgentThinking("PDF Parser", "Verifying file existence", {
-      path: pdfPath,
-    });
-
-    if (!fs.existsSync(pdfPath)) {
-      logAgentError("PDF Parser", "File not found at specified path", {
-        attemptedPath: pdfPath,
-      });
-      logger.endSection();
-      return {
-        error: `PDF file not found at path: ${pdfPath}`,
-        currentPhase: "upload",
-      };
-    }
+    const parsedDocuments: ParsedDocument[] = [];
+    const contents: string[] = [];
+    const warnings: string[] = [];
 
-    logAgentThinking("PDF Parser", "File exists, preparing to read and parse");
+    for (const source of documents) {
+      const result = await parseSourceDocument(source);
 
-    // Read and parse the PDF
-    logger.info("PDF Parser", "Reading PDF file into buffer");
-    const dataBuffer = fs.readFileSync(pdfPath);
+      // Name the file when there are several, so the learner knows which one to fix
+      const label = (message: string) =>
+        documents.length > 1 ? `${source.name}: ${message}` : message;
 
-    logger.info("PDF Parser", "Parsing PDF content");
-    const pdfData = await pdfParse(dataBuffer);
-
-    const content = pdfData.text.trim();
-
-    logAgentThinking("PDF Parser", "Analyzing extracted content", {
-      rawLength: content.length,
-      hasContent: content.length > 0,
-    });
-
-    // Validate content using our utility
-    logger.info("PDF Parser", "Validating PDF content quality");
-    const validation = validatePdfContent(content);
+      if ("error" in result) {
+        logger.endSection();
+        return {
+          error: label(result.error),
+          currentPhase: "upload",
+        };
+      }
 
-    if (!validation.valid) {
-      logAgentDecision("PDF Parser", "Content validation failed", {
-        reason: validation.error,
-        wordCount: validation.wordCount,
-        minRequired: CONFIG.PDF.MIN_WORD_COUNT,
-      });
-      logger.endSection();
-      return {
-        error: validation.error,
-        currentPhase: "upload",
-      };
+      parsedDocuments.push(result.parsedDocument);
+      contents.push(
+        documents.length > 1 ? `# ${source.name}\n\n${result.content}` : result.content
+      );
+      warnings.push(...result.warnings.map(label));
     }
 
-    logAgentSuccess("PDF Parser", "Content validation passed", {
-      wordCount: validation.wordCount,
-      characterCount: content.length,
-    });
+    const content = contents.join("\n\n");
 
     // Truncate content if needed for token limits
     logAgentThinking("PDF Parser", "Checking if content needs truncation", {
@@ -103,11 +93,26 @@ export async function pdfParserNode(state: LearningState): Promise<Partial<Learn
       });
     }
 
+    // Number pages consecutively across documents so sections, chunks and citations stay unique
+    const parsedDocument = DocumentStructureAnalyzer.combine(parsedDocuments);
+    logAgentThinking("PDF Parser", "Detected document structure", {
+      title: parsedDocument.title,
+      documentCount: parsedDocument.documents.length,
+      headingCount: parsedDocument.toc.length,
+      sectionCount: parsedDocument.sections.length,
+    });
+
+    // Chunk every page (not just the truncated content) so later sections stay retrievable
+    const documentChunks = Chunker.chunkPages(parsedDocument.pages);
+    logAgentThinking("PDF Parser", "Split document into retrievable chunks", {
+      chunkCount: documentChunks.length,
+    });
+
     logAgentSuccess(
       "PDF Parser",
-      "PDF successfully processed and ready for learning plan generation",
+      "Documents successfully processed and ready for learning plan generation",
       {
-        finalWordCount: validation.wordCount,
+        finalWordCount: parsedDocument.wordCount,
         contentReady: true,
         nextPhase: "planning",
       }
@@ -117,19 +122,140 @@ export async function pdfParserNode(state: LearningState): Promise<Partial<Learn
 
     return {
       pdfContent: processedContent,
+      parsedDocument,
+      documentChunks,
+      warnings,
       currentPhase: "planning",
       error: null,
     };
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : "Unknown error";
-    logAgentError("PDF Parser", "Unexpected error during PDF processing", {
+    logAgentError("PDF Parser", "Unexpected error during document processing", {
       error: errorMessage,
       stack: err instanceof Error ? err.stack : undefined,
     });
     logger.endSection();
     return {
-      error: `Failed to parse PDF: ${errorMessage}`,
+      error: `Failed to parse document: ${errorMessage}`,
       currentPhase: "upload",
     };
   }
 }
+
+/**
+ * Extract, validate and analyze one uploaded file.
+ */
+async function parseSourceDocument(source: SourceDocument): Promise<SourceParseResult> {
+  logAgentThinking("PDF Parser", "Verifying file existence", {
+    document: source.id,
+    path: source.path,
+  });
+
+  if (!fs.existsSync(source.path)) {
+    logAgentError("PDF Parser", "File not found at specified path", {
+      attemptedPath: source.path,
+    });
+    return { error: `Document not found at path: ${source.path}` };
+  }
+
+  // Read the file and pick an extractor from its content and extension
+  logger.info("PDF Parser", `Reading ${source.name} into buffer`);
+  const dataBuffer = fs.readFileSync(source.path);
+
+  const extractor = ExtractorRegistry.resolve(dataBuffer, { filename: source.path });
+  if (!extractor) {
+    logAgentError("PDF Parser", "No extractor for this file", { path: source.path });
+    return {
+      error: "Unsupported file type. Please upload a PDF, Word, EPUB, HTML, Markdown or text file.",
+    };
+  }
+
+  logger.info("PDF Parser", `Extracting text with the ${extractor.label} extractor`);
+  let extracted = await extractor.extract(dataBuffer);
+
+  // Scanned PDFs have little or no text layer, so read the page images instead
+  let ocr: OcrResult | null = null;
+  if (extractor.id === "pdf" && CONFIG.OCR.ENABLED && OcrService.needsOcr(extracted.pages)) {
+    ocr = await recognizeScannedPdf(dataBuffer);
+    if (
+      ocr &&
+      DocumentStructureAnalyzer.countWords(ocr.text) >
+        DocumentStructureAnalyzer.countWords(extracted.text)
+    ) {
+      extracted = { ...extracted, text: ocr.text, pages: ocr.pages };
+    } else {
+      ocr = null;
+    }
+  }
+
+  const content = extracted.text.trim();
+
+  logAgentThinking("PDF Parser", "Analyzing extracted content", {
+    rawLength: content.length,
+    hasContent: content.length > 0,
+    extractor: extractor.id,
+    pageCount: extracted.pages.length,
+    pagesWithText: extracted.pages.filter((p) => p.text.length > 0).length,
+  });
+
+  // Validate content using our utility
+  logger.info("PDF Parser", "Validating document content quality");
+  const validation = validatePdfContent(content);
+
+  if (!validation.valid) {
+    logAgentDecision("PDF Parser", "Content validation failed", {
+      document: source.id,
+      reason: validation.error,
+      wordCount: validation.wordCount,
+      minRequired: CONFIG.PDF.MIN_WORD_COUNT,
+    });
+    return { error: validation.error ?? "Document content is invalid" };
+  }
+
+  logAgentSuccess("PDF Parser", "Content validation passed", {
+    document: source.id,
+    wordCount: validation.wordCount,
+    characterCount: content.length,
+  });
+
+  // Recover headings and sections so the planner can anchor objectives to them
+  const parsedDocument = DocumentStructureAnalyzer.analyze(extracted.pages, {
+    title: extracted.title,
+    headings: extracted.headings,
+    document: { id: source.id, name: source.name },
+  });
+  if (ocr) {
+    parsedDocument.documents[0].ocrConfidence = ocr.confidence;
+  }
+
+  return {
+    parsedDocument,
+    content,
+    warnings: ocr ? OcrService.buildWarnings(ocr) : [],
+  };
+}
+
+/**
+ * Run OCR over a PDF whose text layer came back (nearly) empty.
+ * Failures are logged and swallowed so content validation reports the problem as usual.
+ */
+async function recognizeScannedPdf(buffer: Buffer): Promise<OcrResult | null> {
+  logAgentDecision("PDF Parser", "Too little text in the PDF, falling back to OCR", {
+    maxPages: CONFIG.OCR.MAX_PAGES,
+  });
+
+  try {
+    const ocr = await OcrService.recognizePdf(buffer);
+    logAgentSuccess("PDF Parser", "OCR finished", {
+      recognisedPages: ocr.recognisedPages,
+      pageCount: ocr.pageCount,
+      confidence: Math.round(ocr.confidence),
+    });
+    return ocr;
+  } catch (err) {
+    logger.warning("PDF Parser", "OCR failed, keeping the extracted text", {
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+    return null;
+  }
+}
@@ -1,4 +1,9 @@
-import { LearningPlanSchema, type LearningObjective } from "../schemas/index.js";
+import {
+  LearningPlanSchema,
+  type LearningObjective,
+  type DocumentChunk,
+  type ParsedDocument,
+} from "../schemas/index.js";
 import { type RunnableConfig } from "@langchain/core/runnables";
 import type { LearningState } from "../state.js";
 import {
@@ -8,7 +13,15 @@ import {
   logAgentSuccess,
   logAgentError,
 } from "../utils/logger.js";
-import { AIModelFactory, ContentProcessor, NodeResponse } from "../services/index.js";
+import {
+  AIModelFactory,
+  NodeResponse,
+  RetrievalService,
+  DocumentStructureAnalyzer,
+  SessionSettingsService,
+} from "../services/index.js";
+import { AI_CONFIG } from "../config/ai.config.js";
+import { wrapUntrusted, UNTRUSTED_CONTENT_RULE } from "../prompts/index.js";
 
 /**
  * Node that analyzes PDF content and generates a learning plan.
@@ -20,7 +33,8 @@ export async function plannerNode(
 ): Promise<Partial<LearningState>> {
   logger.startSection("Learning Plan Generator Agent");
 
-  const { pdfContent } = state;
+  const { pdfContent, documentChunks, parsedDocument, planFeedback, learningObjectives, settings } =
+    state;
 
   logAgentThinking("Planner", "Checking for PDF content availability");
 
@@ -49,12 +63,44 @@ export async function plannerNode(
       "generate_learning_plan"
     );
 
-    // Use ContentProcessor for truncation
-    const { content: truncatedContent } = ContentProcessor.truncate(
-      pdfContent,
-      "planning",
-      "Planner"
-    );
+    // Sample chunks from across the whole document so later chapters shape the plan too;
+    // with several documents each gets an equal share so a long one cannot crowd out the rest
+    const documents = parsedDocument?.documents ?? [];
+    const isMultiDocument = documents.length > 1;
+    const truncatedContent = isMultiDocument
+      ? buildMultiDocumentContext(documentChunks, parsedDocument!)
+      : await RetrievalService.buildContext(documentChunks, null, {
+          maxChars: AI_CONFIG.truncation.planning,
+          fallbackText: pdfContent,
+          agentName: "Planner",
+        });
+
+    const outline = parsedDocument ? DocumentStructureAnalyzer.formatOutline(parsedDocument) : "";
+    logAgentThinking("Planner", "Prepared document outline", {
+      sectionCount: parsedDocument?.sections.length ?? 0,
+      hasOutline: outline.length > 0,
+    });
+
+    // A revision request carries the plan the learner sent back and what they want changed
+    const revision = planFeedback
+      ? `\n\n## Previous Plan\n${learningObjectives
+          .map((o) => `- ${o.title} (${o.difficulty}): ${o.description}`)
+          .join("\n")}\n\n## Learner Feedback\n${planFeedback}`
+      : "";
+    if (planFeedback) {
+      logAgentThinking("Planner", "Revising the previous plan with learner feedback", {
+        feedback: planFeedback,
+        revision: state.planRevisionCount,
+      });
+    }
+
+    // The learner's settings fix the objective count, difficulty and time budget
+    const objectiveRange = SessionSettingsService.objectiveRange(settings);
+    const objectiveCount =
+      objectiveRange.min === objectiveRange.max
+        ? `${objectiveRange.min}`
+        : `${objectiveRange.min}-${objectiveRange.max}`;
+    logAgentThinking("Planner", "Applying session settings", { ...settings, objectiveCount });
 
     logAgentThinking("Planner", "Analyzing content to identify key learning concepts");
     logger.indent();
@@ -73,20 +119,45 @@ export async function plannerNode(
           content: `You are an expert educational content designer. Analyze the provided document and create a structured learning plan.
 
 Your task:
-1. Identify 3-5 key learning objectives from the content
+1. Identify ${objectiveCount} key learning objectives from the content
 2. Each objective should be specific and testable
-3. Assign appropriate difficulty levels
-4. Estimate total learning duration
+3. ${
+            settings.targetDifficulty === "mixed"
+              ? "Assign appropriate difficulty levels"
+              : `Pitch the objectives at the "${settings.targetDifficulty}" difficulty the learner asked for, using it for most objectives`
+          }
+4. ${
+            settings.timeBudgetMinutes
+              ? `Estimate total learning duration; the learner has about ${settings.timeBudgetMinutes} minutes, with ${settings.questionsPerObjective} questions per objective, so keep the plan within that`
+              : "Estimate total learning duration"
+          }
+5. Anchor each objective to the sections it covers by listing their IDs (e.g. "sec-3") from the document outline in sectionIds
+6. List the documents each objective draws on by their IDs (e.g. "doc-2") in documentIds
 
 Guidelines:
 - Objectives should build upon each other logically
 - Cover the most important concepts in the document
 - Make objectives clear and achievable
-- Each objective should be distinct (no overlap)`,
+- Each objective should be distinct (no overlap)
+- Prefer substantial sections over very short ones; leave sectionIds empty if there is no outline${
+            isMultiDocument
+              ? `
+- The material spans ${documents.length} documents. Balance coverage across them: spread objectives roughly in proportion to each document's length, and give every document at least one objective when there are enough objectives to go round`
+              : ""
+          }${
+            planFeedback
+              ? `
+- The learner sent back a previous plan with feedback. Follow the feedback (it may change the number, focus or difficulty of objectives) and keep what they did not ask to change`
+              : ""
+          }
+
+${UNTRUSTED_CONTENT_RULE}`,
         },
         {
           role: "user",
-          content: `Please analyze this document and create a learning plan:\n\n${truncatedContent}`,
+          content: outline
+            ? `Please analyze this document and create a learning plan.\n\n## Document Outline\n${wrapUntrusted(outline)}\n\n## Document Content\n${wrapUntrusted(truncatedContent)}${revision}`
+            : `Please analyze this document and create a learning plan:\n\n${wrapUntrusted(truncatedContent)}${revision}`,
         },
       ],
       config
@@ -96,20 +167,54 @@ Guidelines:
       objectiveCount: plan.objectives.length,
     });
 
-    // Add IDs to objectives
+    // Add IDs to objectives and drop section anchors that are not in the outline
     logAgentThinking("Planner", "Processing and enhancing learning objectives");
 
-    const objectivesWithIds: LearningObjective[] = plan.objectives.map(
-      (obj: Omit<LearningObjective, "id">, idx: number) => ({
-        ...obj,
-        id: `obj-${idx + 1}`,
-      })
+    const sectionDocuments = new Map(
+      parsedDocument?.sections.map((s) => [s.id, s.documentId] as const) ?? []
     );
+    const knownDocumentIds = new Set(documents.map((d) => d.id));
+    if (plan.objectives.length > objectiveRange.max) {
+      logAgentDecision("Planner", "Trimmed the plan to the requested objective count", {
+        generated: plan.objectives.length,
+        kept: objectiveRange.max,
+      });
+    }
+    const objectivesWithIds: LearningObjective[] = plan.objectives
+      .slice(0, objectiveRange.max)
+      .map((obj: Omit<LearningObjective, "id">, idx: number) => {
+        const sectionIds = (obj.sectionIds ?? []).filter((id) => sectionDocuments.has(id));
+        // A section's document always counts, whether or not the model listed it
+        const documentIds = [
+          ...(obj.documentIds ?? []).filter((id) => knownDocumentIds.has(id)),
+          ...sectionIds.map((id) => sectionDocuments.get(id)!),
+        ].filter((id, i, all) => all.indexOf(id) === i);
+
+        return {
+          ...obj,
+          id: `obj-${idx + 1}`,
+          sectionIds,
+          documentIds:
+            documentIds.length === 0 && documents.length === 1 ? [documents[0].id] : documentIds,
+        };
+      });
+
+    if (isMultiDocument) {
+      const uncovered = documents.filter(
+        (d) => !objectivesWithIds.some((obj) => obj.documentIds.includes(d.id))
+      );
+      logAgentDecision("Planner", "Checked objective coverage across documents", {
+        documentCount: documents.length,
+        uncovered: uncovered.map((d) => d.name),
+      });
+    }
 
     logger.indent();
     objectivesWithIds.forEach((obj: LearningObjective, idx: number) => {
       logAgentDecision("Planner", `Objective ${idx + 1}: ${obj.title}`, {
         difficulty: obj.difficulty,
+        sectionIds: obj.sectionIds,
+        documentIds: obj.documentIds,
         description:
           obj.description.substring(0, 100) + (obj.description.length > 100 ? "..." : ""),
       });
@@ -130,6 +235,8 @@ Guidelines:
 
     return {
       learningObjectives: objectivesWithIds,
+      estimatedDuration: plan.estimatedDuration,
+      planFeedback: null,
       currentPhase: "approval",
       error: null,
     };
@@ -143,3 +250,24 @@ Guidelines:
     return NodeResponse.error(`Failed to generate learning plan: ${errorMessage}`);
   }
 }
+
+/**
+ * Sample each document's chunks with an equal share of the planning budget,
+ * under a heading naming the document.
+ */
+function buildMultiDocumentContext(
+  chunks: DocumentChunk[],
+  parsedDocument: ParsedDocument
+): string {
+  const budget = Math.floor(AI_CONFIG.truncation.planning / parsedDocument.documents.length);
+
+  return parsedDocument.documents
+    .map((span) => {
+      const documentChunks = chunks.filter(
+        (chunk) => chunk.page >= span.startPage && chunk.page <= span.endPage
+      );
+      const selected = RetrievalService.selectRepresentative(documentChunks, budget);
+      return `### [${span.id}] ${span.name}\n\n${RetrievalService.formatChunks(selected)}`;
+    })
+    .join("\n\n");
+}
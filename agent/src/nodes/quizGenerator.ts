@@ -1,6 +1,14 @@
-import { MCQBatchSchema, type MCQ, type LearningObjective } from "../schemas/index.js";
+import {
+  MCQBatchSchema,
+  type MCQ,
+  type LearningObjective,
+  type QuestionContent,
+  type DocumentChunk,
+  type ParsedDocument,
+} from "../schemas/index.js";
 import { type RunnableConfig } from "@langchain/core/runnables";
 import type { LearningState } from "../state.js";
+import { CONFIG } from "../config.js";
 import {
   logger,
   logAgentThinking,
@@ -11,13 +19,17 @@ import {
 import {
   AIModelFactory,
   ContentProcessor,
+  DifficultyAdapter,
+  DocumentStructureAnalyzer,
   NodeResponse,
+  QuestionFinalizer,
   ReflectionService,
+  RetrievalService,
+  SessionSettingsService,
 } from "../services/index.js";
+import { AI_CONFIG } from "../config/ai.config.js";
 import { prefetchCache } from "../utils/prefetchCache.js";
-import { buildSystemPrompt, type PromptContext } from "../prompts/index.js";
-
-const QUESTIONS_PER_OBJECTIVE = 3;
+import { buildSystemPrompt, wrapUntrusted, type PromptContext } from "../prompts/index.js";
 
 /**
  * Map objective difficulty to prompt context difficulty.
@@ -39,7 +51,7 @@ function mapDifficulty(
  * Type for the raw MCQ batch (before IDs are added).
  */
 interface RawMCQBatch {
-  questions: Omit<MCQ, "id" | "objectiveId">[];
+  questions: QuestionContent[];
 }
 
 /**
@@ -48,13 +60,13 @@ interface RawMCQBatch {
  */
 async function generateRawMCQs(
   objective: LearningObjective,
-  pdfContent: string,
+  documentText: string,
   promptContext: PromptContext,
   agentLabel: string,
   config?: RunnableConfig
 ): Promise<RawMCQBatch> {
   const structuredModel = AIModelFactory.createStructured("quiz", MCQBatchSchema, "generate_mcqs");
-  const { content: truncatedContent } = ContentProcessor.truncate(pdfContent, "quiz", agentLabel);
+  const { content: truncatedContent } = ContentProcessor.truncate(documentText, "quiz", agentLabel);
 
   // Build dynamic system prompt
   const systemPrompt = buildSystemPrompt(promptContext);
@@ -68,15 +80,15 @@ async function generateRawMCQs(
       {
         role: "user",
         content: `Based on this document content:
----
-${truncatedContent}
----
+${wrapUntrusted(truncatedContent)}
 
-Generate ${QUESTIONS_PER_OBJECTIVE} multiple choice questions for this learning objective:
+Generate ${promptContext.questionsPerObjective} quiz questions for this learning objective:
 Title: ${objective.title}
 Description: ${objective.description}
 Difficulty: ${objective.difficulty}
-Objective ID: ${objective.id}`,
+Objective ID: ${objective.id}
+
+Use the [Page N] markers for the page numbers in sourceRefs and copy each quote verbatim.`,
       },
     ],
     config
@@ -86,31 +98,6 @@ Objective ID: ${objective.id}`,
   return mcqBatch as RawMCQBatch;
 }
 
-/**
- * Add IDs and validate MCQs.
- */
-function finalizeQuestions(
-  questions: Omit<MCQ, "id" | "objectiveId">[],
-  objective: LearningObjective
-): MCQ[] {
-  const questionsWithIds: MCQ[] = questions.map(
-    (q: Omit<MCQ, "id" | "objectiveId">, idx: number) => ({
-      ...q,
-      id: `${objective.id}-q${idx + 1}`,
-      objectiveId: objective.id,
-    })
-  );
-
-  // Validate correct answers
-  for (const q of questionsWithIds) {
-    if (q.correctAnswer < 0 || q.correctAnswer > 3) {
-      q.correctAnswer = 0;
-    }
-  }
-
-  return questionsWithIds;
-}
-
 /**
  * Helper function to generate MCQs for a specific objective.
  * Uses reflection pattern to critique and refine generated questions.
@@ -119,6 +106,9 @@ function finalizeQuestions(
 async function generateQuestionsForObjective(
   objective: LearningObjective,
   pdfContent: string,
+  parsedDocument: ParsedDocument | null,
+  documentChunks: DocumentChunk[],
+  questionsPerObjective: number,
   agentLabel: string = "Quiz Generator",
   useReflection: boolean = true,
   config?: RunnableConfig
@@ -128,9 +118,48 @@ async function generateQuestionsForObjective(
     purpose: "quiz",
     objectiveDifficulty: mapDifficulty(objective.difficulty),
     objectiveTitle: objective.title,
-    questionsPerObjective: QUESTIONS_PER_OBJECTIVE,
+    questionsPerObjective,
+    questionTypes: CONFIG.LEARNING.QUESTION_TYPES,
   };
 
+  const pdfPages = parsedDocument?.pages ?? [];
+  const documents = parsedDocument?.documents ?? [];
+
+  // Search the sections the planner anchored this objective to, then its documents,
+  // then everything
+  const sectionPages = parsedDocument
+    ? DocumentStructureAnalyzer.pagesForSections(
+        parsedDocument.sections,
+        objective.sectionIds ?? []
+      )
+    : [];
+  const anchorPages =
+    sectionPages.length > 0
+      ? sectionPages
+      : DocumentStructureAnalyzer.pagesForDocuments(documents, objective.documentIds ?? []);
+  const anchoredChunks = documentChunks.filter((chunk) => anchorPages.includes(chunk.page));
+
+  // Retrieve the passages about this objective; page markers let the model cite them
+  const documentText = await RetrievalService.buildContext(
+    anchoredChunks.length > 0 ? anchoredChunks : documentChunks,
+    `${objective.title}\n${objective.description}`,
+    {
+      maxChars: AI_CONFIG.truncation.quiz,
+      fallbackText: pdfPages.length > 0 ? ContentProcessor.formatPages(pdfPages) : pdfContent,
+      agentName: agentLabel,
+    }
+  );
+
+  // The critique checks each question against the passages most relevant to it
+  const getEvidence = async (batch: RawMCQBatch): Promise<string> =>
+    RetrievalService.formatChunks(
+      await RetrievalService.retrieveForQueries(
+        documentChunks,
+        batch.questions.map((q) => `${q.question}\n${q.explanation}`),
+        { maxChars: AI_CONFIG.truncation.critique }
+      )
+    );
+
   // Get reflection options
   const reflectionOptions = AIModelFactory.getReflectionOptions();
   const shouldReflect = useReflection && reflectionOptions.enabled;
@@ -140,10 +169,11 @@ async function generateQuestionsForObjective(
 
     // Wrap generation with reflection
     const reflectionResult = await ReflectionService.withReflection(
-      () => generateRawMCQs(objective, pdfContent, promptContext, agentLabel, config),
+      () => generateRawMCQs(objective, documentText, promptContext, agentLabel, config),
       promptContext,
       reflectionOptions,
-      config
+      config,
+      documentChunks.length > 0 ? getEvidence : undefined
     );
 
     logAgentSuccess(agentLabel, "Reflection completed", {
@@ -153,20 +183,29 @@ async function generateQuestionsForObjective(
     });
 
     // Finalize with IDs and validation
-    return finalizeQuestions(
-      reflectionResult.output.questions as Omit<MCQ, "id" | "objectiveId">[],
-      objective
+    return QuestionFinalizer.finalize(
+      reflectionResult.output.questions.slice(0, questionsPerObjective),
+      objective,
+      pdfPages,
+      documents,
+      agentLabel
     );
   } else {
     // Generate without reflection
     const mcqBatch = await generateRawMCQs(
       objective,
-      pdfContent,
+      documentText,
       promptContext,
       agentLabel,
       config
     );
-    return finalizeQuestions(mcqBatch.questions, objective);
+    return QuestionFinalizer.finalize(
+      mcqBatch.questions.slice(0, questionsPerObjective),
+      objective,
+      pdfPages,
+      documents,
+      agentLabel
+    );
   }
 }
 
@@ -180,7 +219,8 @@ function getSessionKey(learningObjectives: LearningObjective[]): string {
 
 /**
  * Node that generates MCQs for the current learning objective.
- * Creates 3 questions per objective with hints and explanations.
+ * Creates the learner's chosen number of questions per objective with hints and explanations,
+ * at a difficulty adapted to how the learner did on the earlier objectives.
  * Also prefetches the next objective's questions in the background.
  */
 export async function quizGeneratorNode(
@@ -191,11 +231,18 @@ export async function quizGeneratorNode(
 
   const {
     pdfContent,
+    parsedDocument,
+    documentChunks,
     learningObjectives,
     currentObjectiveIdx,
     mcqs: existingMcqs,
     prefetchedMcqs,
     prefetchObjectiveIdx,
+    prefetchDifficulty,
+    userAnswers,
+    attemptCounts,
+    attempts,
+    settings,
   } = state;
 
   logAgentThinking("Quiz Generator", "Checking learning objectives availability");
@@ -233,14 +280,56 @@ export async function quizGeneratorNode(
     hasPrefetch: prefetchObjectiveIdx === currentObjectiveIdx && prefetchedMcqs.length > 0,
   });
 
+  // Move the planned difficulty up or down based on the answers so far
+  const decision = DifficultyAdapter.decide(
+    currentObjective,
+    learningObjectives,
+    existingMcqs,
+    userAnswers,
+    attemptCounts,
+    attempts
+  );
+  const adaptedObjective: LearningObjective = {
+    ...currentObjective,
+    difficulty: decision.difficulty,
+  };
+
+  if (decision.adjustment !== "kept") {
+    logAgentDecision("Quiz Generator", `Difficulty ${decision.adjustment} for this objective`, {
+      planned: decision.plannedDifficulty,
+      adapted: decision.difficulty,
+      firstTryAccuracy: decision.firstTryAccuracy,
+      medianSeconds: decision.medianSeconds,
+      questionsConsidered: decision.questionsConsidered,
+    });
+  }
+
   // Calculate total expected MCQs upfront
-  const totalExpectedMcqs = learningObjectives.length * QUESTIONS_PER_OBJECTIVE;
+  const totalExpectedMcqs = SessionSettingsService.expectedQuestionCount(
+    settings,
+    learningObjectives.length
+  );
 
   try {
     let questionsForCurrent: MCQ[];
 
-    // Check if we have prefetched questions for this objective
-    if (prefetchObjectiveIdx === currentObjectiveIdx && prefetchedMcqs.length > 0) {
+    // Prefetched questions were pitched before the learner finished the previous objective,
+    // so only use them if the adaptive decision has not changed since
+    const hasPrefetch = prefetchObjectiveIdx === currentObjectiveIdx && prefetchedMcqs.length > 0;
+    const prefetchMatches = hasPrefetch && prefetchDifficulty === decision.difficulty;
+
+    if (hasPrefetch && !prefetchMatches) {
+      logAgentDecision(
+        "Quiz Generator",
+        "Discarding prefetched questions after difficulty change",
+        {
+          prefetchedAt: prefetchDifficulty,
+          adapted: decision.difficulty,
+        }
+      );
+    }
+
+    if (prefetchMatches) {
       logAgentSuccess("Quiz Generator", "Using prefetched questions (instant!)", {
         objectiveIdx: currentObjectiveIdx,
         questionCount: prefetchedMcqs.length,
@@ -250,12 +339,15 @@ export async function quizGeneratorNode(
       // Generate questions normally
       logAgentThinking("Quiz Generator", "Generating questions (no prefetch available)", {
         model: "gpt-4o-mini",
-        questionsPerObjective: QUESTIONS_PER_OBJECTIVE,
+        questionsPerObjective: settings.questionsPerObjective,
       });
 
       questionsForCurrent = await generateQuestionsForObjective(
-        currentObjective,
+        adaptedObjective,
         pdfContent,
+        parsedDocument,
+        documentChunks,
+        settings.questionsPerObjective,
         "Quiz Generator",
         true,
         config
@@ -267,12 +359,26 @@ export async function quizGeneratorNode(
     // Fire prefetch for NEXT objective (fire-and-forget)
     const nextIdx = currentObjectiveIdx + 1;
     if (nextIdx < learningObjectives.length) {
-      const nextObjective = learningObjectives[nextIdx];
       const sessionKey = getSessionKey(learningObjectives);
 
+      // Decided on the same answers as now; re-checked when the next objective starts
+      const nextDecision = DifficultyAdapter.decide(
+        learningObjectives[nextIdx],
+        learningObjectives,
+        existingMcqs,
+        userAnswers,
+        attemptCounts,
+        attempts
+      );
+      const nextObjective: LearningObjective = {
+        ...learningObjectives[nextIdx],
+        difficulty: nextDecision.difficulty,
+      };
+
       logAgentThinking("Quiz Generator", "Starting background prefetch for next objective", {
         nextObjectiveIdx: nextIdx,
         nextObjectiveTitle: nextObjective.title,
+        difficulty: nextObjective.difficulty,
       });
 
       // Start prefetch but don't await - let it run in background
@@ -281,6 +387,9 @@ export async function quizGeneratorNode(
       const prefetchPromise = generateQuestionsForObjective(
         nextObjective,
         pdfContent,
+        parsedDocument,
+        documentChunks,
+        settings.questionsPerObjective,
         "Quiz Generator (Prefetch)",
         true,
         undefined
@@ -290,11 +399,13 @@ export async function quizGeneratorNode(
       prefetchCache.set(sessionKey, {
         promise: prefetchPromise,
         objectiveIdx: nextIdx,
+        difficulty: nextObjective.difficulty,
       });
     }
 
     logAgentSuccess("Quiz Generator", `Ready with ${questionsForCurrent.length} MCQs`, {
       objectiveTitle: currentObjective.title,
+      difficulty: decision.difficulty,
       questionIds: questionsForCurrent.map((q: MCQ) => q.id),
       totalMcqsNow: (existingMcqs?.length || 0) + questionsForCurrent.length,
       totalExpected: totalExpectedMcqs,
@@ -308,9 +419,11 @@ export async function quizGeneratorNode(
       totalExpectedMcqs,
       currentPhase: "quiz",
       error: null,
+      difficultyDecisions: { [currentObjective.id]: decision },
       // Clear prefetch state since we used it (or didn't have any)
       prefetchedMcqs: [],
       prefetchObjectiveIdx: -1,
+      prefetchDifficulty: null,
     };
   } catch (err) {
     const errorMessage = NodeResponse.extractErrorMessage(err);
@@ -0,0 +1,159 @@
+import { type RunnableConfig } from "@langchain/core/runnables";
+import type { LearningState } from "../state.js";
+import { RemediationBatchSchema, type MCQ } from "../schemas/index.js";
+import { CONFIG } from "../config.js";
+import { AI_CONFIG } from "../config/ai.config.js";
+import {
+  logger,
+  logAgentThinking,
+  logAgentDecision,
+  logAgentSuccess,
+  logAgentError,
+} from "../utils/logger.js";
+import {
+  AIModelFactory,
+  ContentProcessor,
+  NodeResponse,
+  QuestionFinalizer,
+  RemediationService,
+  RetrievalService,
+  type RemediationRound,
+} from "../services/index.js";
+import { buildSystemPrompt, wrapUntrusted } from "../prompts/index.js";
+
+/**
+ * Node that runs a remediation round before the workflow leaves an objective.
+ * Generates a short explanation and a few follow-up questions aimed at the concepts
+ * behind the learner's wrong answers, and inserts them as the next questions.
+ * A failed generation still counts as a round, so the learner is never stuck.
+ */
+export async function remediationNode(
+  state: LearningState,
+  config?: RunnableConfig
+): Promise<Partial<LearningState>> {
+  logger.startSection("Remediation Agent");
+
+  const {
+    remediationObjectiveId,
+    remediationRounds,
+    learningObjectives,
+    mcqs,
+    currentMcqIdx,
+    attemptCounts,
+    wrongAnswers,
+    parsedDocument,
+    documentChunks,
+    pdfContent,
+  } = state;
+
+  const objective = learningObjectives.find((o) => o.id === remediationObjectiveId);
+  if (!objective) {
+    logAgentError("Remediation", "Objective to remediate not found", {
+      objectiveId: remediationObjectiveId,
+    });
+    logger.endSection();
+    return { remediationObjectiveId: null };
+  }
+
+  const missed = RemediationService.missedQuestions(
+    objective.id,
+    mcqs,
+    attemptCounts,
+    wrongAnswers,
+    remediationRounds
+  );
+  const roundNumber = remediationRounds.filter((r) => r.objectiveId === objective.id).length + 1;
+
+  logAgentThinking("Remediation", `Reviewing missed concepts in: ${objective.title}`, {
+    missedQuestionIds: missed.map((m) => m.question.id),
+    wrongAttempts: missed.reduce((sum, m) => sum + m.wrongAttempts, 0),
+    round: roundNumber,
+  });
+
+  const round: RemediationRound = {
+    objectiveId: objective.id,
+    missedQuestionIds: missed.map((m) => m.question.id),
+    questionIds: [],
+    explanation: "",
+  };
+
+  try {
+    const pdfPages = parsedDocument?.pages ?? [];
+    const documentText = await RetrievalService.buildContext(
+      documentChunks,
+      missed.map((m) => `${m.question.question}\n${m.question.explanation}`).join("\n"),
+      {
+        maxChars: AI_CONFIG.truncation.quiz,
+        fallbackText: pdfPages.length > 0 ? ContentProcessor.formatPages(pdfPages) : pdfContent,
+        agentName: "Remediation",
+      }
+    );
+
+    const structuredModel = AIModelFactory.createStructured(
+      "quiz",
+      RemediationBatchSchema,
+      "generate_remediation"
+    );
+    const systemPrompt = buildSystemPrompt({
+      purpose: "quiz",
+      objectiveTitle: objective.title,
+      questionsPerObjective: CONFIG.REMEDIATION.QUESTIONS,
+      questionTypes: CONFIG.LEARNING.QUESTION_TYPES,
+    });
+
+    const batch = await structuredModel.invoke(
+      [
+        { role: "system", content: systemPrompt },
+        {
+          role: "user",
+          content: `Based on this document content:
+${wrapUntrusted(documentText)}
+
+The learner needed several attempts on these questions for the objective "${objective.title}":
+${RemediationService.describeMisses(missed)}
+
+Work out which concepts the wrong answers show the learner misunderstood. Then:
+1. Write a short explanation (2-4 sentences) that clears up those concepts, without quoting the questions above
+2. Generate ${CONFIG.REMEDIATION.QUESTIONS} follow-up questions that test the same concepts from a new angle (do not repeat the questions above)
+
+Use the [Page N] markers for the page numbers in sourceRefs and copy each quote verbatim.`,
+        },
+      ],
+      config
+    );
+
+    const questions = QuestionFinalizer.finalize(
+      batch.questions.slice(0, CONFIG.REMEDIATION.QUESTIONS),
+      objective,
+      pdfPages,
+      parsedDocument?.documents ?? [],
+      "Remediation",
+      `${objective.id}-r${roundNumber}-q`
+    );
+
+    round.questionIds = questions.map((q: MCQ) => q.id);
+    round.explanation = batch.explanation.trim();
+
+    logAgentSuccess("Remediation", `Generated ${questions.length} follow-up questions`, {
+      objectiveId: objective.id,
+      questionIds: round.questionIds,
+    });
+    logger.endSection();
+
+    // Ask the follow-up questions next, before the objective is left behind
+    return {
+      mcqs: [...mcqs.slice(0, currentMcqIdx), ...questions, ...mcqs.slice(currentMcqIdx)],
+      remediationRounds: [...remediationRounds, round],
+      remediationObjectiveId: null,
+    };
+  } catch (err) {
+    logAgentDecision("Remediation", "Could not generate follow-up questions, moving on", {
+      error: NodeResponse.extractErrorMessage(err),
+    });
+    logger.endSection();
+    return {
+      remediationRounds: [...remediationRounds, round],
+      remediationObjectiveId: null,
+    };
+  }
+}
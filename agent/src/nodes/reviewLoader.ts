@@ -0,0 +1,65 @@
+import type { LearningState } from "../state.js";
+import type { LearningObjective, MCQ } from "../schemas/index.js";
+import { CONFIG } from "../config.js";
+import { logger, logAgentThinking, logAgentSuccess, logAgentError } from "../utils/logger.js";
+import { NodeResponse } from "../services/index.js";
+import { listDueReviewItems } from "../db/index.js";
+
+/**
+ * Review sessions put every due question under one objective, so the quiz flow
+ * asks them in order and then moves to the summary.
+ */
+const REVIEW_OBJECTIVE: LearningObjective = {
+  id: "review",
+  title: "Spaced review",
+  description: "Questions from earlier sessions that are due for review",
+  difficulty: "medium",
+  sectionIds: [],
+  documentIds: [],
+};
+
+/**
+ * Entry node for review sessions: loads the learner's questions due for review
+ * and hands them to the feedback node, which asks them like any other quiz.
+ * Question IDs are the review item IDs, so answers can update the right schedule.
+ */
+export async function reviewLoaderNode(state: LearningState): Promise<Partial<LearningState>> {
+  logger.startSection("Review Loader");
+
+  const { learnerId } = state;
+  if (!learnerId) {
+    logAgentError("Review Loader", "No learner for this review session");
+    logger.endSection();
+    return NodeResponse.error("Reviews need a learner. Please reload the page and try again.");
+  }
+
+  logAgentThinking("Review Loader", "Loading questions due for review", { learnerId });
+
+  const items = await listDueReviewItems(learnerId, CONFIG.REVIEW.MAX_QUESTIONS_PER_SESSION);
+  if (items.length === 0) {
+    logger.endSection();
+    return NodeResponse.error("No questions are due for review.");
+  }
+
+  const mcqs: MCQ[] = items.map((item) => ({
+    ...item.question,
+    id: item.id,
+    objectiveId: REVIEW_OBJECTIVE.id,
+  }));
+
+  logAgentSuccess("Review Loader", `Loaded ${mcqs.length} questions for review`, {
+    overdueSince: items[0].due_at,
+  });
+  logger.endSection();
+
+  return {
+    mcqs,
+    currentMcqIdx: 0,
+    totalExpectedMcqs: mcqs.length,
+    learningObjectives: [REVIEW_OBJECTIVE],
+    currentObjectiveIdx: 0,
+    planApproved: true,
+    currentPhase: "quiz",
+    error: null,
+  };
+}
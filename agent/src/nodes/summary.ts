@@ -1,17 +1,81 @@
-import { ProgressReportSchema } from "../schemas/index.js";
+import { ProgressReportSchema, type MCQ } from "../schemas/index.js";
 import { type RunnableConfig } from "@langchain/core/runnables";
 import type { LearningState } from "../state.js";
 import { logger, logAgentThinking, logAgentSuccess, logAgentError } from "../utils/logger.js";
 import {
   AIModelFactory,
+  CalibrationService,
   ContentProcessor,
+  ExamService,
   ScoreCalculator,
+  MasteryTracker,
+  MisconceptionService,
   NodeResponse,
+  RemediationService,
+  Sm2Scheduler,
+  TimingService,
 } from "../services/index.js";
-import { completeSession } from "../db/index.js";
+import { addReviewItems, completeSession } from "../db/index.js";
+import { CONFIG } from "../config.js";
+import { wrapUntrusted, UNTRUSTED_CONTENT_RULE } from "../prompts/index.js";
+
+/**
+ * Schedule a learning session's questions for spaced repetition,
+ * graded by the wrong attempts each one took. Exam questions get a single attempt,
+ * so a miss there counts as a lapse.
+ * Failures are logged and swallowed so the report is still returned.
+ */
+async function scheduleReviews(state: LearningState, mcqs: MCQ[]): Promise<void> {
+  const {
+    learnerId,
+    threadId,
+    sessionMode,
+    learningObjectives,
+    userAnswers,
+    attemptCounts,
+    examAnswers,
+  } = state;
+  if (sessionMode !== "learn" || !learnerId || !threadId) return;
+
+  const now = new Date();
+  try {
+    const added = await addReviewItems(
+      learnerId,
+      threadId,
+      mcqs
+        .filter((q) => userAnswers[q.id] !== undefined || q.id in examAnswers)
+        .map((question) => ({
+          question,
+          objectiveTitle:
+            learningObjectives.find((o) => o.id === question.objectiveId)?.title ?? null,
+          schedule: Sm2Scheduler.next(
+            Sm2Scheduler.initial(now),
+            Sm2Scheduler.quality(
+              userAnswers[question.id] !== undefined ? (attemptCounts[question.id] ?? 0) : Infinity
+            ),
+            now
+          ),
+        }))
+    );
+    logAgentThinking("Summary", `Scheduled ${added} questions for review`);
+  } catch (err) {
+    logAgentError("Summary", "Could not schedule questions for review", {
+      error: NodeResponse.extractErrorMessage(err),
+    });
+  }
+}
 
 /**
  * Node that generates a progress report and study tips at the end of the session.
+ * Scores count every attempt: first-try accuracy, mean attempts and partial credit.
+ * Confidence ratings are compared with the answers to show over- and underconfidence.
+ * Server-measured response times give the time per objective against the plan's
+ * estimate and the questions that took the longest.
+ * Follow-up questions from remediation are reported apart from the quiz score, and
+ * areas to review come from the estimated mastery of each objective.
+ * Study tips target the misconceptions the learner showed most often, and exams
+ * get a full answer review.
+ * The questions answered are then scheduled for spaced repetition.
  */
 export async function summaryNode(
   state: LearningState,
@@ -20,7 +84,34 @@ export async function summaryNode(
   logger.startSection("Summary Agent");
   logAgentThinking("Summary", "Generating progress report...");
 
-  const { mcqs, userAnswers, learningObjectives, pdfContent } = state;
+  const { mcqs: allMcqs, userAnswers, learningObjectives, pdfContent } = state;
+
+  const followUpIds = RemediationService.followUpQuestionIds(state.remediationRounds);
+  const mcqs = allMcqs?.filter((q) => !followUpIds.has(q.id));
+  const remediation =
+    state.remediationRounds.length > 0
+      ? RemediationService.summarize(state.remediationRounds, userAnswers, state.attemptCounts)
+      : undefined;
+
+  const mastery =
+    Object.keys(state.mastery).length > 0
+      ? MasteryTracker.summarize(learningObjectives || [], state.mastery)
+      : undefined;
+
+  const topMisconceptions = MisconceptionService.top(
+    state.misconceptions,
+    allMcqs ?? [],
+    learningObjectives || [],
+    CONFIG.MISCONCEPTIONS.TOP
+  );
+  const misconceptions = topMisconceptions.length > 0 ? topMisconceptions : undefined;
+
+  const exam = ExamService.isExam(state.settings)
+    ? {
+        timedOut: state.examTimedOut,
+        review: ExamService.review(allMcqs ?? [], state.examAnswers, learningObjectives || []),
+      }
+    : undefined;
 
   if (!mcqs || mcqs.length === 0) {
     logAgentError("Summary", "No quiz data available for summary");
@@ -28,18 +119,31 @@ export async function summaryNode(
     return NodeResponse.error("No quiz data available for summary.");
   }
 
+  await scheduleReviews(state, mcqs);
+
+  const questionIds = mcqs.map((q) => q.id);
+  const calibration = CalibrationService.summarize(state.attempts, questionIds) ?? undefined;
+  const timing =
+    TimingService.summarize(
+      allMcqs,
+      state.attempts,
+      learningObjectives || [],
+      state.estimatedDuration
+    ) ?? undefined;
+
   try {
-    // Calculate scores using ScoreCalculator service
-    const scoreResult = ScoreCalculator.calculateScore(mcqs, userAnswers);
-    const areasToReview = ScoreCalculator.identifyAreasToReview(
-      mcqs,
-      userAnswers,
-      learningObjectives || []
-    );
+    // Score every attempt, so retries cost credit instead of ending at 100%
+    const scoreResult = ScoreCalculator.calculateAttemptScore(mcqs, state.attempts);
+    // Objectives with low estimated mastery, or any wrong answer for sessions without estimates
+    const areasToReview = mastery
+      ? MasteryTracker.identifyAreasToReview(learningObjectives || [], state.mastery)
+      : ScoreCalculator.identifyAreasToReview(mcqs, userAnswers, learningObjectives || []);
 
     logAgentThinking("Summary", "Score calculated", {
       score: scoreResult.score,
       correct: scoreResult.correctCount,
+      firstTryCorrect: scoreResult.firstTryCorrect,
+      meanAttempts: scoreResult.meanAttempts,
       total: scoreResult.totalQuestions,
     });
 
@@ -67,19 +171,49 @@ Be encouraging but honest. Focus on:
 1. Celebrating successes
 2. Identifying specific areas for improvement
 3. Providing actionable study strategies
-4. Recommending next steps`,
+4. Recommending next steps
+
+When the student showed misconceptions, make most tips target them directly: name the misunderstanding, state the correct idea and suggest how to check it, instead of giving generic study advice.
+
+${UNTRUSTED_CONTENT_RULE}`,
         },
         {
           role: "user",
           content: `Student Performance Summary:
 - Total Questions: ${scoreResult.totalQuestions}
-- Correct Answers: ${scoreResult.correctCount}
-- Score: ${scoreResult.score}%
-- Objectives Completed: ${learningObjectives?.length || 0}
-- Areas Needing Review: ${areasToReview.length > 0 ? areasToReview.join(", ") : "None - Great job!"}
+- Correct Answers (after retries): ${scoreResult.correctCount}
+- Correct on the First Try: ${scoreResult.firstTryCorrect} (${scoreResult.firstTryAccuracy}%)
+- Mean Attempts per Question: ${scoreResult.meanAttempts}
+- Score (partial credit for retries): ${scoreResult.score}%
+- Objectives Completed: ${learningObjectives?.length || 0}${
+            exam
+              ? `\n- Format: timed exam, one attempt per question with no hints${exam.timedOut ? "; time ran out before the end" : ""}`
+              : ""
+          }
+- Areas Needing Review: ${areasToReview.length > 0 ? areasToReview.join(", ") : "None - Great job!"}${
+            remediation
+              ? `\n- Follow-up Questions on Missed Concepts: ${remediation.correctFirstTry} of ${remediation.questions} correct on the first try`
+              : ""
+          }${
+            mastery
+              ? `\n- Estimated Mastery: ${mastery.map((m) => `${m.title} ${Math.round(m.probability * 100)}%`).join(", ")}`
+              : ""
+          }${
+            calibration
+              ? `\n- Confidence Calibration: ${calibration.overconfidentErrors} wrong answers rated confident, ${calibration.underconfidentCorrect} right answers rated a guess (accuracy by rating: ${calibration.buckets.map((b) => `${b.confidence} ${b.accuracy}% of ${b.attempts}`).join(", ")})`
+              : ""
+          }${
+            timing
+              ? `\n- Time Spent: ${Math.round(timing.totalSeconds / 60)} minutes${timing.estimatedSeconds !== null ? ` (planned ${Math.round(timing.estimatedSeconds / 60)})` : ""}, median ${timing.medianQuestionSeconds}s per question${timing.slowQuestions.length > 0 ? `; slowest: ${timing.slowQuestions.map((q) => `"${q.question}" (${q.seconds}s)`).join(", ")}` : ""}`
+              : ""
+          }${
+            misconceptions
+              ? `\n- Misconceptions Shown (most frequent first):\n${misconceptions.map((m) => `  - ${m.label} (${m.count}x, in ${m.objectiveTitles.join(", ") || "the quiz"})`).join("\n")}`
+              : ""
+          }
 
 Document Topics (for context):
-${truncatedContent.slice(0, 500)}...
+${wrapUntrusted(`${truncatedContent.slice(0, 500)}...`)}
 
 Please generate a detailed progress report with 3-5 personalized study tips.`,
         },
@@ -94,6 +228,9 @@ Please generate a detailed progress report with 3-5 personalized study tips.`,
       await completeSession(state.threadId, {
         correctAnswers: scoreResult.correctCount,
         totalQuestions: scoreResult.totalQuestions,
+        firstTryCorrect: scoreResult.firstTryCorrect,
+        meanAttempts: scoreResult.meanAttempts,
+        score: scoreResult.score,
       });
       logAgentThinking("Summary", "Session marked as complete in database");
     }
@@ -105,9 +242,18 @@ Please generate a detailed progress report with 3-5 personalized study tips.`,
         totalQuestions: scoreResult.totalQuestions,
         correctAnswers: scoreResult.correctCount,
         score: scoreResult.score,
+        firstTryCorrect: scoreResult.firstTryCorrect,
+        firstTryAccuracy: scoreResult.firstTryAccuracy,
+        meanAttempts: scoreResult.meanAttempts,
         objectivesCompleted: learningObjectives?.length || 0,
         studyTips: report.studyTips,
         areasToReview,
+        remediation,
+        mastery,
+        misconceptions,
+        calibration,
+        timing,
+        exam,
       },
       sessionComplete: true,
       currentPhase: "summary",
@@ -119,16 +265,27 @@ Please generate a detailed progress report with 3-5 personalized study tips.`,
     logger.endSection();
 
     // Return basic stats even if AI generation fails (reuse ScoreCalculator)
-    const fallbackScore = ScoreCalculator.calculateScore(mcqs, userAnswers);
+    const fallbackScore = ScoreCalculator.calculateAttemptScore(mcqs, state.attempts);
 
     return {
       progressReport: {
         totalQuestions: fallbackScore.totalQuestions,
         correctAnswers: fallbackScore.correctCount,
         score: fallbackScore.score,
+        firstTryCorrect: fallbackScore.firstTryCorrect,
+        firstTryAccuracy: fallbackScore.firstTryAccuracy,
+        meanAttempts: fallbackScore.meanAttempts,
         objectivesCompleted: learningObjectives?.length || 0,
-        studyTips: ["Review the material and try again!", "Practice makes perfect."],
+        studyTips: misconceptions
+          ? misconceptions.map((m) => `Revisit the material on this misconception: ${m.label}`)
+          : ["Review the material and try again!", "Practice makes perfect."],
         areasToReview: [],
+        remediation,
+        mastery,
+        misconceptions,
+        calibration,
+        timing,
+        exam,
       },
       sessionComplete: true,
       currentPhase: "summary",
@@ -8,7 +8,7 @@ describe("buildSystemPrompt", () => {
       const prompt = buildSystemPrompt(context);
 
       expect(prompt).toContain("expert quiz creator");
-      expect(prompt).toContain("multiple choice questions");
+      expect(prompt).toContain("quiz questions");
     });
 
     it("should include question count when provided", () => {
@@ -18,7 +18,19 @@ describe("buildSystemPrompt", () => {
       };
       const prompt = buildSystemPrompt(context);
 
-      expect(prompt).toContain("exactly 5 multiple choice questions");
+      expect(prompt).toContain("exactly 5 quiz questions");
+    });
+
+    it("should restrict question types when provided", () => {
+      const context: PromptContext = {
+        purpose: "quiz",
+        questionTypes: ["true_false", "fill_blank"],
+      };
+      const prompt = buildSystemPrompt(context);
+
+      expect(prompt).toContain("Question Types");
+      expect(prompt).toContain("Use only these types: true_false, fill_blank");
+      expect(prompt).toContain("Mix the types");
     });
 
     it("should include beginner difficulty modifier", () => {
@@ -74,6 +86,7 @@ describe("buildSystemPrompt", () => {
       expect(prompt).toContain("educational content reviewer");
       expect(prompt).toContain("Factual Accuracy");
       expect(prompt).toContain("Clarity");
+      expect(prompt).toContain("Misconception Labels");
     });
   });
 
@@ -83,7 +96,7 @@ describe("buildSystemPrompt", () => {
       const prompt = buildSystemPrompt(context);
 
       expect(prompt).toContain("educational content writer");
-      expect(prompt).toContain("improve multiple choice questions");
+      expect(prompt).toContain("improve quiz questions");
     });
   });
 
@@ -4,6 +4,8 @@
  */
 
 import { logAgentThinking } from "../utils/logger.js";
+import type { QuestionType } from "../schemas/index.js";
+import { UNTRUSTED_CONTENT_RULE } from "./untrusted.js";
 
 /**
  * Context for building dynamic prompts.
@@ -19,31 +21,42 @@ export interface PromptContext {
   objectiveTitle?: string;
   /** Number of questions to generate */
   questionsPerObjective?: number;
+  /** Question types the generator may use */
+  questionTypes?: readonly QuestionType[];
 }
 
 /**
  * Base prompt templates for each purpose.
  */
 export const BASE_PROMPTS = {
-  quiz: `You are an expert quiz creator. Generate multiple choice questions to test understanding of a specific learning objective.
+  quiz: `You are an expert quiz creator. Generate quiz questions to test understanding of a specific learning objective.
 
-Requirements:
-1. Each question must have exactly 4 options (A, B, C, D)
-2. Only ONE option should be correct
-3. Options should be plausible (no obviously wrong answers)
-4. Provide a helpful hint that references specific concepts from THIS question
-5. Provide a clear explanation of why the correct answer is right
+Question types (set the "type" field on every question):
+- single_choice: exactly 4 options (A, B, C, D) with ONE correct option index
+- true_false: one unambiguous declarative statement with a boolean correctAnswer
+- multi_select: 4-6 options where one or more are correct ("select all that apply"); list every correct index
+- fill_blank: a sentence with a single blank written as ____ and 1-3 word acceptableAnswers, including common spelling variants
 
-Guidelines for good MCQs:
+Requirements:
+1. Every question must follow the rules for its type exactly
+2. Options and statements should be plausible (no obviously wrong answers)
+3. Provide a helpful hint that references specific concepts from THIS question
+4. Provide a clear explanation of why the correct answer is right
+5. Cite sources: add sourceRefs with the page number and a short verbatim quote from the document that supports the correct answer
+6. Tag distractors: for single_choice, true_false and multi_select, give misconceptions with one entry per option (True then False for true_false): a short label for the specific misunderstanding that would lead a learner to pick that wrong option, or null for a correct option
+
+Guidelines for good questions:
 - Questions should directly test the learning objective
 - Avoid "all of the above" or "none of the above"
 - Keep questions clear and unambiguous
 - Hints MUST be specific to the question content - NOT generic advice
   - Good hint: "Consider how recursion differs from iteration in terms of memory usage"
   - Bad hint: "Think about the key terms in the question"
-- Explanations should teach, not just state the answer`,
+- Explanations should teach, not just state the answer
+
+${UNTRUSTED_CONTENT_RULE}`,
 
-  critique: `You are an expert educational content reviewer. Your task is to critically evaluate the quality of generated multiple choice questions.
+  critique: `You are an expert educational content reviewer. Your task is to critically evaluate the quality of generated quiz questions.
 
 Evaluate each question for:
 1. **Factual Accuracy**: Is the correct answer actually correct? Are there any factual errors?
@@ -52,18 +65,28 @@ Evaluate each question for:
 4. **Difficulty Balance**: Are the distractors plausible but clearly wrong?
 5. **Hint Quality**: Does the hint guide without giving away the answer?
 6. **Explanation Quality**: Does the explanation teach the underlying concept?
+7. **Type Fit**: Does the question follow the rules for its type?
+   - true_false: the statement is unambiguously true or false, not a matter of opinion
+   - multi_select: every listed correct index is correct and every other option is wrong
+   - fill_blank: the blank has one intended answer and acceptableAnswers cover its reasonable variants
+8. **Source Support**: Does each sourceRefs quote actually support the correct answer (not just mention the topic)?
+9. **Misconception Labels**: Does each wrong option's misconception label name a plausible, specific misunderstanding that would lead a learner to pick it? Flag labels that are generic ("Wrong answer"), do not match their option, or sit on a correct option
 
-Be strict but fair. Only flag genuine issues that would impact learning.`,
+Be strict but fair. Only flag genuine issues that would impact learning.
 
-  refine: `You are an expert educational content writer. Your task is to improve multiple choice questions based on feedback.
+${UNTRUSTED_CONTENT_RULE}`,
+
+  refine: `You are an expert educational content writer. Your task is to improve quiz questions based on feedback.
 
 When refining questions:
 1. Address all issues identified in the critique
-2. Maintain the core educational intent
+2. Maintain the core educational intent and keep each question's type
 3. Improve clarity without oversimplifying
 4. Make distractors more plausible if needed
 5. Enhance hints to guide thinking
 6. Strengthen explanations to maximize learning
+7. Keep sourceRefs quotes verbatim from the document, replacing any that do not support the answer
+8. Keep one misconception label per option, rewriting any the critique found implausible
 
 Keep improvements focused and minimal - don't change what's already working well.`,
 
@@ -118,8 +141,14 @@ Be encouraging and supportive - the student may be frustrated.`,
  * @returns The complete system prompt
  */
 export function buildSystemPrompt(context: PromptContext): string {
-  const { purpose, attemptCount, objectiveDifficulty, objectiveTitle, questionsPerObjective } =
-    context;
+  const {
+    purpose,
+    attemptCount,
+    objectiveDifficulty,
+    objectiveTitle,
+    questionsPerObjective,
+    questionTypes,
+  } = context;
 
   // Track which modifiers are applied
   const appliedModifiers: string[] = [];
@@ -131,12 +160,21 @@ export function buildSystemPrompt(context: PromptContext): string {
   // Add question count for quiz prompts
   if (purpose === "quiz" && questionsPerObjective) {
     prompt = prompt.replace(
-      "Generate multiple choice questions",
-      `Generate exactly ${questionsPerObjective} multiple choice questions`
+      "Generate quiz questions",
+      `Generate exactly ${questionsPerObjective} quiz questions`
     );
     appliedModifiers.push(`questionCount:${questionsPerObjective}`);
   }
 
+  // Restrict the question type mix for quiz prompts
+  if (purpose === "quiz" && questionTypes && questionTypes.length > 0) {
+    prompt += `\n\n## Question Types\nUse only these types: ${questionTypes.join(", ")}.`;
+    if (questionTypes.length > 1) {
+      prompt += ` Mix the types so the learner sees variety.`;
+    }
+    appliedModifiers.push(`questionTypes:${questionTypes.join("|")}`);
+  }
+
   // Add difficulty modifier
   if (objectiveDifficulty && DIFFICULTY_MODIFIERS[objectiveDifficulty]) {
     prompt += `\n\n## Difficulty Guidance\n${DIFFICULTY_MODIFIERS[objectiveDifficulty]}`;
@@ -227,7 +265,7 @@ export function getProgressiveHint(
     }
   } else if (attemptCount === 4) {
     hintLevel = "very_strong_hint";
-    if (context?.options) {
+    if (context?.options.length) {
       // Give a hint about option elimination
       result = `You've tried several times. Look carefully at the options - some may sound correct but don't match what the question is specifically asking about "${extractKeyTerms(context.question)}".`;
     } else {
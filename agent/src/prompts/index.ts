@@ -7,3 +7,4 @@ export {
   BASE_PROMPTS,
   type PromptContext,
 } from "./dynamic.js";
+export { wrapUntrusted, UNTRUSTED_CONTENT_RULE } from "./untrusted.js";
@@ -0,0 +1,131 @@
+import { z } from "zod";
+
+/**
+ * Schema for a single page of extracted document text.
+ * Page numbers are 1-based to match what readers see in their PDF viewer.
+ */
+export const DocumentPageSchema = z.object({
+  pageNumber: z.number().int().min(1).describe("1-based page number"),
+  text: z.string().describe("Text extracted from this page"),
+});
+
+export type DocumentPage = z.infer<typeof DocumentPageSchema>;
+
+/**
+ * Schema for a citation pointing back into the source document.
+ */
+export const SourceRefSchema = z.object({
+  page: z.number().int().min(1).describe("Page number the supporting text appears on"),
+  quote: z
+    .string()
+    .describe("Short verbatim excerpt (under 40 words) from that page supporting the answer"),
+});
+
+export type SourceRef = z.infer<typeof SourceRefSchema>;
+
+/**
+ * Schema for a retrievable chunk of document text.
+ * Chunks never span pages so a retrieved chunk can always be cited.
+ */
+export const DocumentChunkSchema = z.object({
+  id: z.string().describe("Stable chunk identifier"),
+  index: z.number().int().min(0).describe("Position of the chunk in reading order"),
+  page: z.number().int().min(1).describe("Page the chunk was taken from"),
+  text: z.string().describe("Chunk text"),
+});
+
+export type DocumentChunk = z.infer<typeof DocumentChunkSchema>;
+
+/**
+ * Schema for a section of the document, running from one detected heading to the next.
+ */
+export const DocumentSectionSchema = z.object({
+  id: z.string().describe("Stable section identifier, e.g. sec-3"),
+  documentId: z.string().describe("ID of the source document the section belongs to"),
+  title: z.string().describe("Heading text (or a fallback title when no heading was found)"),
+  level: z.number().int().min(1).max(3).describe("Heading depth, 1 being a chapter"),
+  startPage: z.number().int().min(1).describe("Page the section starts on"),
+  endPage: z.number().int().min(1).describe("Page the section ends on"),
+  wordCount: z.number().int().min(0).describe("Words in the section body"),
+});
+
+export type DocumentSection = z.infer<typeof DocumentSectionSchema>;
+
+/**
+ * Schema for a table of contents entry.
+ * Only headings actually found in the document appear here; untitled front matter does not.
+ */
+export const TocEntrySchema = z.object({
+  sectionId: z.string().describe("ID of the section this entry points to"),
+  title: z.string().describe("Heading text"),
+  level: z.number().int().min(1).max(3).describe("Heading depth, 1 being a chapter"),
+  page: z.number().int().min(1).describe("Page the heading appears on"),
+});
+
+export type TocEntry = z.infer<typeof TocEntrySchema>;
+
+/**
+ * A heading reported by an extractor for formats with real heading markup (DOCX, HTML, Markdown, EPUB).
+ */
+export type DocumentHeading = Omit<TocEntry, "sectionId">;
+
+/**
+ * Schema for an uploaded file in a learning session, before it is parsed.
+ */
+export const SourceDocumentSchema = z.object({
+  id: z.string().describe("Document identifier within the session, e.g. doc-2"),
+  name: z.string().describe("Original file name"),
+  path: z.string().describe("Where the upload is stored"),
+});
+
+export type SourceDocument = z.infer<typeof SourceDocumentSchema>;
+
+/**
+ * Schema for where one source document sits in the combined parsed document.
+ */
+export const DocumentSpanSchema = z.object({
+  id: z.string().describe("ID of the source document"),
+  name: z.string().describe("Original file name"),
+  title: z.string().describe("Title from metadata or the first heading"),
+  startPage: z
+    .number()
+    .int()
+    .min(1)
+    .describe("First page of the document in the combined page numbering"),
+  endPage: z
+    .number()
+    .int()
+    .min(0)
+    .describe("Last page of the document in the combined page numbering"),
+  wordCount: z.number().int().min(0).describe("Words in the document"),
+  ocrConfidence: z
+    .number()
+    .min(0)
+    .max(100)
+    .optional()
+    .describe("Mean OCR confidence (0-100) when the text was recognised from page images"),
+});
+
+export type DocumentSpan = z.infer<typeof DocumentSpanSchema>;
+
+/**
+ * Schema for the structured document produced by the PDF parser.
+ * When a session has several source documents their pages are numbered
+ * consecutively, so page numbers (and citations) stay unique across documents.
+ */
+export const ParsedDocumentSchema = z.object({
+  title: z.string().describe("Document title from metadata or the first heading"),
+  pageCount: z.number().int().min(0).describe("Number of pages across all documents"),
+  wordCount: z.number().int().min(0).describe("Words across all pages"),
+  pages: z.array(DocumentPageSchema).describe("Page-by-page text"),
+  sections: z.array(DocumentSectionSchema).describe("Sections in reading order"),
+  toc: z.array(TocEntrySchema).describe("Table of contents built from detected headings"),
+  documents: z.array(DocumentSpanSchema).describe("Source documents in upload order"),
+});
+
+export type ParsedDocument = z.infer<typeof ParsedDocumentSchema>;
+
+/**
+ * The parsed document without page text, small enough to send to the UI.
+ */
+export type DocumentOutline = Omit<ParsedDocument, "pages">;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { ConfidenceSchema, MCQSchema, QuestionContentSchema } from "./questions.js";
 
 /**
  * Schema for a learning objective in the plan
@@ -8,10 +9,58 @@ export const LearningObjectiveSchema = z.object({
   title: z.string().describe("Short title of the learning objective"),
   description: z.string().describe("Detailed description of what will be learned"),
   difficulty: z.enum(["easy", "medium", "hard"]).describe("Difficulty level"),
+  sectionIds: z
+    .array(z.string())
+    .describe("IDs of the document sections this objective covers (empty if unknown)"),
+  documentIds: z
+    .array(z.string())
+    .describe("IDs of the source documents this objective draws on, e.g. doc-2"),
 });
 
 export type LearningObjective = z.infer<typeof LearningObjectiveSchema>;
 
+/**
+ * Schema for an objective in a plan edited at the approval step.
+ * Objectives the learner adds have no id and need only a title; the rest is filled in.
+ */
+export const PlanEditObjectiveSchema = LearningObjectiveSchema.partial().extend({
+  title: z.string().trim().min(1).describe("Short title of the learning objective"),
+});
+
+export type PlanEditObjective = z.infer<typeof PlanEditObjectiveSchema>;
+
+/**
+ * Schema for the plan approval resume value when it carries an edited plan
+ */
+export const PlanApprovalResumeSchema = z.object({
+  approved: z.boolean(),
+  plan: z
+    .array(PlanEditObjectiveSchema)
+    .min(1)
+    .optional()
+    .describe("The plan in the learner's order; omitted if it was not edited"),
+  feedback: z
+    .string()
+    .trim()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe("What to change when the plan is sent back for revision instead of approved"),
+});
+
+export type PlanApprovalResume = z.infer<typeof PlanApprovalResumeSchema>;
+
+/**
+ * Schema for the details generated for objectives the learner added by title
+ */
+export const ObjectiveDraftBatchSchema = z.object({
+  objectives: z
+    .array(LearningObjectiveSchema.omit({ id: true, title: true }))
+    .describe("One entry per new objective, in the order given"),
+});
+
+export type ObjectiveDraft = z.infer<typeof ObjectiveDraftBatchSchema>["objectives"][number];
+
 /**
  * Schema for the learning plan generated from PDF content
  */
@@ -25,21 +74,6 @@ export const LearningPlanSchema = z.object({
 
 export type LearningPlan = z.infer<typeof LearningPlanSchema>;
 
-/**
- * Schema for a multiple choice question
- */
-export const MCQSchema = z.object({
-  id: z.string().describe("Unique identifier for the question"),
-  objectiveId: z.string().describe("ID of the learning objective this question tests"),
-  question: z.string().describe("The question text"),
-  options: z.array(z.string()).length(4).describe("Exactly 4 answer options"),
-  correctAnswer: z.number().min(0).max(3).describe("Index of the correct answer (0-3)"),
-  hint: z.string().describe("A hint that helps without revealing the answer"),
-  explanation: z.string().describe("Explanation of why the correct answer is correct"),
-});
-
-export type MCQ = z.infer<typeof MCQSchema>;
-
 /**
  * Schema for a batch of MCQs for an objective
  */
@@ -50,20 +84,177 @@ export const MCQBatchSchema = z.object({
 
 export type MCQBatch = z.infer<typeof MCQBatchSchema>;
 
+/**
+ * Schema for follow-up questions on the concepts a learner missed in an objective
+ */
+export const RemediationBatchSchema = z.object({
+  explanation: z
+    .string()
+    .describe(
+      "A short explanation (2-4 sentences) of the missed concepts, addressed to the learner"
+    ),
+  questions: z
+    .array(QuestionContentSchema)
+    .min(1)
+    .max(3)
+    .describe("Follow-up questions that check the missed concepts from a new angle"),
+});
+
+export type RemediationBatch = z.infer<typeof RemediationBatchSchema>;
+
 /**
  * Schema for the progress report at the end
  */
 export const ProgressReportSchema = z.object({
   totalQuestions: z.number().describe("Total number of questions answered"),
-  correctAnswers: z.number().describe("Number of correct answers"),
-  score: z.number().describe("Percentage score (0-100)"),
+  correctAnswers: z.number().describe("Number of questions answered correctly, after retries"),
+  score: z
+    .number()
+    .describe("Percentage score (0-100), with partial credit that decays with each retry"),
+  firstTryCorrect: z.number().describe("Number of questions answered correctly on the first try"),
+  firstTryAccuracy: z
+    .number()
+    .describe("Percentage (0-100) of questions answered correctly on the first try"),
+  meanAttempts: z.number().describe("Mean attempts per answered question"),
   objectivesCompleted: z.number().describe("Number of objectives completed"),
   studyTips: z.array(z.string()).describe("Personalized study tips based on performance"),
   areasToReview: z.array(z.string()).describe("Topics that need more review"),
+  remediation: z
+    .object({
+      rounds: z.number().describe("Number of remediation rounds run"),
+      questions: z.number().describe("Follow-up questions asked"),
+      correctFirstTry: z.number().describe("Follow-up questions answered correctly first time"),
+    })
+    .optional()
+    .describe("Follow-up questions on missed concepts, counted apart from the quiz score"),
+  mastery: z
+    .array(
+      z.object({
+        objectiveId: z.string(),
+        title: z.string(),
+        probability: z.number().describe("Estimated probability (0-1) the objective is known"),
+        mastered: z.boolean(),
+      })
+    )
+    .optional()
+    .describe("Estimated mastery per objective"),
+  misconceptions: z
+    .array(
+      z.object({
+        label: z.string(),
+        count: z.number().describe("Wrong answers that revealed the misconception"),
+        objectiveTitles: z.array(z.string()),
+      })
+    )
+    .optional()
+    .describe("The misconceptions the learner showed most often"),
+  calibration: z
+    .object({
+      buckets: z.array(
+        z.object({
+          confidence: ConfidenceSchema,
+          attempts: z.number(),
+          correct: z.number(),
+          accuracy: z.number().describe("Percentage (0-100) of these attempts that were right"),
+          expectedAccuracy: z.number().describe("Accuracy a well-calibrated learner would have"),
+        })
+      ),
+      overconfidentErrors: z.number().describe("Wrong answers rated confident"),
+      underconfidentCorrect: z.number().describe("Right answers rated a guess"),
+    })
+    .optional()
+    .describe("How well the learner's confidence ratings matched their answers"),
+  timing: z
+    .object({
+      totalSeconds: z.number(),
+      estimatedSeconds: z.number().nullable().describe("The plan's estimated duration"),
+      medianQuestionSeconds: z.number(),
+      objectives: z.array(
+        z.object({
+          objectiveId: z.string(),
+          title: z.string(),
+          seconds: z.number(),
+          estimatedSeconds: z.number().nullable().describe("Share of the plan's estimate"),
+        })
+      ),
+      slowQuestions: z.array(
+        z.object({
+          questionId: z.string(),
+          objectiveTitle: z.string(),
+          question: z.string(),
+          seconds: z.number(),
+          attempts: z.number(),
+        })
+      ),
+    })
+    .optional()
+    .describe("Server-measured time per objective against the plan, and the slowest questions"),
+  exam: z
+    .object({
+      timedOut: z.boolean().describe("Whether the time limit ended the exam"),
+      review: z.array(
+        z.object({
+          questionId: z.string(),
+          objectiveTitle: z.string(),
+          question: z.string(),
+          yourAnswer: z.string().nullable().describe("Null if skipped, late or never reached"),
+          correctAnswers: z.array(z.string()),
+          isCorrect: z.boolean(),
+          explanation: z.string(),
+        })
+      ),
+    })
+    .optional()
+    .describe("Exam mode: every question with the answer given and the correct one"),
 });
 
 export type ProgressReport = z.infer<typeof ProgressReportSchema>;
 
+// Re-export document schemas
+export {
+  DocumentPageSchema,
+  SourceRefSchema,
+  DocumentChunkSchema,
+  DocumentSectionSchema,
+  TocEntrySchema,
+  SourceDocumentSchema,
+  DocumentSpanSchema,
+  ParsedDocumentSchema,
+  type DocumentPage,
+  type SourceRef,
+  type DocumentChunk,
+  type DocumentSection,
+  type TocEntry,
+  type DocumentHeading,
+  type SourceDocument,
+  type DocumentSpan,
+  type ParsedDocument,
+  type DocumentOutline,
+} from "./document.js";
+
+// Re-export question schemas
+export {
+  QUESTION_TYPES,
+  QuestionTypeSchema,
+  QuestionContentSchema,
+  MCQSchema,
+  QuizCommandSchema,
+  ConfidenceSchema,
+  RatedAnswerSchema,
+  type QuestionType,
+  type QuestionContent,
+  type MCQ,
+  type SingleChoiceQuestion,
+  type TrueFalseQuestion,
+  type MultiSelectQuestion,
+  type FillBlankQuestion,
+  type QuestionAnswer,
+  type AnswerKey,
+  type QuizCommand,
+  type Confidence,
+  type RatedAnswer,
+} from "./questions.js";
+
 // Re-export reflection schemas
 export {
   CritiqueSchema,
@@ -75,3 +266,11 @@ export {
   type RefinedMCQBatch,
   type ReflectionOptions,
 } from "./reflection.js";
+
+// Re-export session settings schemas
+export {
+  SessionSettingsSchema,
+  SessionSettingsInputSchema,
+  type SessionSettings,
+  type SessionSettingsInput,
+} from "./settings.js";
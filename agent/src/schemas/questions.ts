@@ -0,0 +1,165 @@
+import { z } from "zod";
+import { SourceRefSchema } from "./document.js";
+
+/**
+ * Supported question types.
+ * - single_choice: classic four-option MCQ with one correct answer
+ * - true_false: a statement the learner marks as true or false
+ * - multi_select: "select all that apply" with one or more correct options
+ * - fill_blank: a sentence with a blank the learner completes in free text
+ */
+export const QUESTION_TYPES = [
+  "single_choice",
+  "true_false",
+  "multi_select",
+  "fill_blank",
+] as const;
+
+export const QuestionTypeSchema = z.enum(QUESTION_TYPES);
+
+export type QuestionType = z.infer<typeof QuestionTypeSchema>;
+
+/**
+ * Fields shared by every question type.
+ */
+const sharedContentFields = {
+  question: z.string().describe("The question text"),
+  hint: z.string().describe("A hint that helps without revealing the answer"),
+  explanation: z.string().describe("Explanation of why the correct answer is correct"),
+  sourceRefs: z
+    .array(SourceRefSchema)
+    .min(1)
+    .describe("Where in the document the correct answer is supported"),
+};
+
+/**
+ * Misconception labels for the wrong options, aligned with the options shown
+ * (["True", "False"] for true_false). Optional so questions generated before
+ * labels existed still load.
+ */
+const misconceptionsField = z
+  .array(z.string().nullable())
+  .optional()
+  .describe(
+    'One entry per option: a short label (3-8 words) for the misconception that would lead a learner to pick it, e.g. "Confuses mitosis with meiosis"; null for correct options'
+  );
+
+/**
+ * Fields added once a question is attached to an objective.
+ */
+const identityFields = {
+  id: z.string().describe("Unique identifier for the question"),
+  objectiveId: z.string().describe("ID of the learning objective this question tests"),
+  documentId: z
+    .string()
+    .nullable()
+    .describe("ID of the source document the question is drawn from (null if unknown)"),
+};
+
+export const SingleChoiceContentSchema = z.object({
+  type: z.literal("single_choice"),
+  ...sharedContentFields,
+  options: z.array(z.string()).length(4).describe("Exactly 4 answer options"),
+  correctAnswer: z.number().int().min(0).max(3).describe("Index of the correct answer (0-3)"),
+  misconceptions: misconceptionsField,
+});
+
+export const TrueFalseContentSchema = z.object({
+  type: z.literal("true_false"),
+  ...sharedContentFields,
+  question: z.string().describe("A single declarative statement that is either true or false"),
+  correctAnswer: z.boolean().describe("Whether the statement is true"),
+  misconceptions: misconceptionsField,
+});
+
+export const MultiSelectContentSchema = z.object({
+  type: z.literal("multi_select"),
+  ...sharedContentFields,
+  options: z.array(z.string()).min(4).max(6).describe("4-6 answer options"),
+  correctAnswers: z
+    .array(z.number().int().min(0).max(5))
+    .min(1)
+    .describe("Indexes of every correct option (at least one)"),
+  misconceptions: misconceptionsField,
+});
+
+export const FillBlankContentSchema = z.object({
+  type: z.literal("fill_blank"),
+  ...sharedContentFields,
+  question: z.string().describe("A sentence containing a blank written as ____"),
+  acceptableAnswers: z
+    .array(z.string())
+    .min(1)
+    .describe("Short answers (1-3 words) that correctly fill the blank, including common variants"),
+});
+
+/**
+ * Question content as produced by the generator or refiner (no IDs yet).
+ */
+export const QuestionContentSchema = z.discriminatedUnion("type", [
+  SingleChoiceContentSchema,
+  TrueFalseContentSchema,
+  MultiSelectContentSchema,
+  FillBlankContentSchema,
+]);
+
+export type QuestionContent = z.infer<typeof QuestionContentSchema>;
+
+/**
+ * Schema for a quiz question attached to a learning objective.
+ * Historically every question was a four-option MCQ, so the name is kept
+ * for all question types.
+ */
+export const MCQSchema = z.discriminatedUnion("type", [
+  SingleChoiceContentSchema.extend(identityFields),
+  TrueFalseContentSchema.extend(identityFields),
+  MultiSelectContentSchema.extend(identityFields),
+  FillBlankContentSchema.extend(identityFields),
+]);
+
+export type MCQ = z.infer<typeof MCQSchema>;
+
+export type SingleChoiceQuestion = Extract<MCQ, { type: "single_choice" }>;
+export type TrueFalseQuestion = Extract<MCQ, { type: "true_false" }>;
+export type MultiSelectQuestion = Extract<MCQ, { type: "multi_select" }>;
+export type FillBlankQuestion = Extract<MCQ, { type: "fill_blank" }>;
+
+/**
+ * A learner's answer, shaped by question type:
+ * option index (single_choice), boolean (true_false),
+ * option indexes (multi_select) or free text (fill_blank).
+ */
+export type QuestionAnswer = number | boolean | number[] | string;
+
+/**
+ * A command the learner can send instead of an answer:
+ * - skip: put the question aside and come back to it before the objective ends
+ */
+export const QuizCommandSchema = z.object({
+  action: z.enum(["skip"]),
+});
+
+export type QuizCommand = z.infer<typeof QuizCommandSchema>;
+
+/**
+ * How sure the learner was of an answer, rated when submitting it
+ */
+export const ConfidenceSchema = z.enum(["guess", "unsure", "confident"]);
+
+export type Confidence = z.infer<typeof ConfidenceSchema>;
+
+/**
+ * An answer sent together with the learner's confidence rating, instead of the bare answer
+ */
+export const RatedAnswerSchema = z.object({
+  answer: z.union([z.number(), z.boolean(), z.string(), z.array(z.number())]),
+  confidence: ConfidenceSchema,
+});
+
+export type RatedAnswer = z.infer<typeof RatedAnswerSchema>;
+
+/**
+ * The answer key for a question, shaped by question type:
+ * option index, boolean, option indexes or accepted answers.
+ */
+export type AnswerKey = number | boolean | number[] | string[];
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { QuestionContentSchema } from "./questions.js";
 
 /**
  * Schema for MCQ quality critique.
@@ -24,16 +25,10 @@ export const CritiqueSchema = z.object({
 export type Critique = z.infer<typeof CritiqueSchema>;
 
 /**
- * Schema for a single refined MCQ.
- * Extends the base MCQ structure but without id/objectiveId (those are added later).
+ * Schema for a single refined question.
+ * Same shape as generated question content, without id/objectiveId (those are added later).
  */
-export const RefinedMCQSchema = z.object({
-  question: z.string().describe("The refined question text"),
-  options: z.array(z.string()).length(4).describe("Exactly 4 refined answer options"),
-  correctAnswer: z.number().min(0).max(3).describe("Index of the correct answer (0-3)"),
-  hint: z.string().describe("An improved hint that helps without revealing the answer"),
-  explanation: z.string().describe("A clearer explanation of why the correct answer is correct"),
-});
+export const RefinedMCQSchema = QuestionContentSchema;
 
 export type RefinedMCQ = z.infer<typeof RefinedMCQSchema>;
 
@@ -0,0 +1,58 @@
+import { z } from "zod";
+
+/**
+ * Schema for per-session learning settings, chosen by the learner at upload or plan time
+ */
+export const SessionSettingsSchema = z.object({
+  objectiveCount: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .nullable()
+    .describe("Number of learning objectives, or null to let the planner decide"),
+  questionsPerObjective: z
+    .number()
+    .int()
+    .min(2)
+    .max(5)
+    .describe("Questions generated for each objective"),
+  targetDifficulty: z
+    .enum(["easy", "medium", "hard", "mixed"])
+    .describe("Difficulty to pitch the objectives at, or mixed for a spread"),
+  timeBudgetMinutes: z
+    .number()
+    .int()
+    .min(5)
+    .max(240)
+    .nullable()
+    .describe("Time the learner has for the session, or null for no limit"),
+  mode: z
+    .enum(["practice", "exam"])
+    .describe(
+      "practice: retries with hints and feedback; exam: one attempt per question, no hints or feedback until the end"
+    ),
+  questionTimeLimitSeconds: z
+    .number()
+    .int()
+    .min(10)
+    .max(600)
+    .nullable()
+    .describe("Exam mode: seconds allowed for each question, or null for no limit"),
+  examTimeLimitMinutes: z
+    .number()
+    .int()
+    .min(5)
+    .max(240)
+    .nullable()
+    .describe("Exam mode: minutes allowed for the whole exam, or null for no limit"),
+});
+
+export type SessionSettings = z.infer<typeof SessionSettingsSchema>;
+
+/**
+ * Schema for settings sent by the client; anything left out keeps its default
+ */
+export const SessionSettingsInputSchema = SessionSettingsSchema.partial().strict();
+
+export type SessionSettingsInput = z.infer<typeof SessionSettingsInputSchema>;
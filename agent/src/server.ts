@@ -8,10 +8,35 @@ import { getGraph, initializeGraph, checkpointer } from "./graph.js";
 import { Command } from "@langchain/langgraph";
 import { CONFIG, validateConfig } from "./config.js";
 import { generateId } from "./utils/helpers.js";
-import { ValidationError, normalizeError } from "./utils/errors.js";
-import { InterruptHandler } from "./services/index.js";
+import { UnauthorizedError, ValidationError, normalizeError } from "./utils/errors.js";
+import {
+  InterruptHandler,
+  AnswerGrader,
+  RetrievalService,
+  ExtractorRegistry,
+  PlanEditor,
+  SessionSettingsService,
+  DeferralService,
+  ExamService,
+  CalibrationService,
+  ClientProjection,
+  TokenService,
+} from "./services/index.js";
+import { AI_CONFIG } from "./config/ai.config.js";
 import { askStudyBuddy, type StudyBuddyContext } from "./agents/studyBuddy.js";
-import { initializeSessionsTable, closePool, createSession } from "./db/index.js";
+import type { SessionSettingsInput, SourceDocument, SourceRef } from "./schemas/index.js";
+import {
+  initializeSessionsTable,
+  closePool,
+  createSession,
+  getSessionByThreadId,
+  updateSessionSettings,
+  addSessionDocuments,
+  listSessionDocuments,
+  countDueReviewItems,
+  listDueReviewItems,
+  type LearningSession,
+} from "./db/index.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -30,24 +55,32 @@ if (!fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir, { recursive: true });
 }
 
-// Configure multer for PDF uploads
+// Configure multer for document uploads
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
     cb(null, uploadsDir);
   },
   filename: (req, file, cb) => {
-    const filename = generateId(CONFIG.UPLOAD.FILE_PREFIX) + path.extname(file.originalname);
-    cb(null, filename);
+    // Keep an extension the extractor registry recognises so the parser resolves the same format
+    const extension = ExtractorRegistry.storageExtension({
+      mimeType: file.mimetype,
+      filename: file.originalname,
+    });
+    cb(null, generateId(CONFIG.UPLOAD.FILE_PREFIX) + extension);
   },
 });
 
 const upload = multer({
   storage,
   fileFilter: (req, file, cb) => {
-    if (file.mimetype === "application/pdf") {
+    if (ExtractorRegistry.isSupported({ mimeType: file.mimetype, filename: file.originalname })) {
       cb(null, true);
     } else {
-      cb(new ValidationError("Only PDF files are allowed"));
+      cb(
+        new ValidationError(
+          "Unsupported file type. Please upload a PDF, Word, EPUB, HTML, Markdown or text file."
+        )
+      );
     }
   },
   limits: {
@@ -55,6 +88,65 @@ const upload = multer({
   },
 });
 
+/**
+ * Load the documents to parse for a thread, in upload order.
+ * Only files recorded by the upload route are parsed; paths never come from the client.
+ * @throws ValidationError if nothing was uploaded to the thread
+ */
+async function loadSourceDocuments(threadId: string): Promise<SourceDocument[]> {
+  const documents = await listSessionDocuments(threadId);
+  if (documents.length === 0) {
+    throw new ValidationError("Upload a document before starting the session");
+  }
+  return documents.map((document) => ({
+    id: document.document_id,
+    name: document.filename,
+    path: document.stored_path,
+  }));
+}
+
+/**
+ * The user requireAuth authenticated. Users are also the learners reviews are scheduled for.
+ */
+function getUserId(res: express.Response): string {
+  return res.locals.userId as string;
+}
+
+/**
+ * Authenticate the request from its bearer token, or answer 401.
+ */
+const requireAuth: express.RequestHandler = (req, res, next) => {
+  try {
+    const token = TokenService.fromHeader(req.get("Authorization"));
+    if (!token) throw new UnauthorizedError();
+    res.locals.userId = TokenService.verify(token).sub;
+    next();
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      res.set("WWW-Authenticate", "Bearer");
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    next(error);
+  }
+};
+
+/**
+ * Only let the session's owner use its thread, and keep the session for the route.
+ * Someone else's thread gets the same 404 as a missing one, so thread IDs cannot be probed.
+ */
+const requireThreadOwner: express.RequestHandler = async (req, res, next) => {
+  try {
+    const session = await getSessionByThreadId(req.params.threadId);
+    if (!session || session.user_id !== getUserId(res)) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+    res.locals.session = session;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
 const app = express();
 
 // Middleware
@@ -74,26 +166,132 @@ app.get("/health", (req, res) => {
 });
 
 /**
- * Upload PDF and create a new learning session
+ * Local identity provider for development: issues a token for the requested user ID
+ * (the UI sends its learner ID) or a new one, without any credentials. Disabled in
+ * production, where tokens come from a provider signing with JWT_SECRET.
  */
-app.post("/api/upload", upload.single("pdf"), async (req, res) => {
+if (CONFIG.AUTH.DEV_LOGIN) {
+  app.post("/api/auth/dev-login", (req, res) => {
+    const userId = req.body?.userId ?? generateId("user");
+    if (!TokenService.isValidUserId(userId)) {
+      return res.status(400).json({ error: "userId must be 8-64 letters, digits, - or _" });
+    }
+    console.log(`[Server] Dev login issued a token for ${userId}`);
+    res.json(TokenService.issue(userId));
+  });
+}
+
+// Every other API route needs a token, and thread routes need the thread's owner
+app.use("/api", requireAuth);
+app.use("/api/threads/:threadId", requireThreadOwner);
+
+/**
+ * Upload one or more documents.
+ * Without a threadId this creates a new learning session; with one, the files are
+ * added to that session, which is only possible before its workflow has started.
+ * The form field is still named "pdf" for compatibility with existing clients.
+ */
+app.post("/api/upload", upload.array("pdf", CONFIG.UPLOAD.MAX_FILES), async (req, res) => {
+  const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+  const discardUploads = () => files.forEach((file) => fs.rmSync(file.path, { force: true }));
+
   try {
-    if (!req.file) {
-      return res.status(400).json({ error: "No PDF file provided" });
+    if (files.length === 0) {
+      return res.status(400).json({ error: "No file provided" });
+    }
+
+    // Optional session settings, sent as a JSON string alongside the files
+    let settings: SessionSettingsInput;
+    try {
+      settings = SessionSettingsService.parseInput(req.body.settings);
+    } catch (error) {
+      discardUploads();
+      if (error instanceof ValidationError) {
+        return res.status(error.statusCode).json({ error: error.message, details: error.details });
+      }
+      throw error;
+    }
+
+    const existingThreadId = typeof req.body.threadId === "string" ? req.body.threadId : null;
+    if (existingThreadId) {
+      const existing = await getSessionByThreadId(existingThreadId);
+      if (!existing || existing.user_id !== getUserId(res)) {
+        discardUploads();
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      const state = await getGraph().getState({ configurable: { thread_id: existingThreadId } });
+      if (Object.keys(state.values ?? {}).length > 0) {
+        discardUploads();
+        return res.status(409).json({
+          error: "Documents can only be added before the learning plan is created",
+        });
+      }
     }
 
-    const threadId = generateId("thread");
+    // The MIME types and extensions were only claims; check the content itself
+    const resolved = files.map((file) => ({
+      file,
+      extractor: ExtractorRegistry.resolve(fs.readFileSync(file.path), {
+        mimeType: file.mimetype,
+        filename: file.originalname,
+      }),
+    }));
+    const unsupported = resolved.find(({ extractor }) => !extractor);
+    if (unsupported) {
+      discardUploads();
+      return res.status(400).json({
+        error:
+          files.length > 1
+            ? `The content of ${unsupported.file.originalname} does not match a supported format`
+            : "The file's content does not match a supported format",
+      });
+    }
+
+    const threadId = existingThreadId ?? generateId("thread");
 
     // Create session record in database
-    await createSession(threadId, req.file.originalname);
+    if (!existingThreadId) {
+      await createSession(
+        threadId,
+        files[0].originalname,
+        resolved[0].extractor?.id ?? null,
+        settings,
+        getUserId(res),
+        getUserId(res)
+      );
+      console.log(`[Server] Created new thread: ${threadId}`);
+    } else if (Object.keys(settings).length > 0) {
+      await updateSessionSettings(threadId, settings);
+    }
 
-    console.log(`[Server] Created new thread: ${threadId}`);
-    console.log(`[Server] PDF uploaded: ${req.file.path}`);
+    const documents = await addSessionDocuments(
+      threadId,
+      resolved.map(({ file, extractor }) => ({
+        filename: file.originalname,
+        storedPath: file.path,
+        extractor: extractor?.id ?? null,
+      }))
+    );
+
+    for (const { file, extractor } of resolved) {
+      console.log(`[Server] ${extractor?.label} uploaded to ${threadId}: ${file.path}`);
+    }
 
     res.json({
       threadId,
-      pdfPath: req.file.path,
-      message: "PDF uploaded successfully",
+      documents: documents.map((document) => ({
+        id: document.document_id,
+        name: document.filename,
+        extractor: document.extractor,
+      })),
+      // The first file's path and format, for clients that upload one file at a time
+      pdfPath: files[0].path,
+      extractor: resolved[0].extractor?.id,
+      message:
+        files.length > 1
+          ? `${files.length} files uploaded successfully`
+          : "File uploaded successfully",
     });
   } catch (error) {
     console.error("[Server] Upload error:", error);
@@ -104,11 +302,12 @@ app.post("/api/upload", upload.single("pdf"), async (req, res) => {
 });
 
 /**
- * Start or continue the learning workflow
+ * Start the learning workflow ({ start: true }) over the documents uploaded to the thread,
+ * or continue it
  */
 app.post("/api/threads/:threadId/invoke", async (req, res) => {
   const { threadId } = req.params;
-  const { pdfPath, resumeValue } = req.body;
+  const { start, resumeValue, settings } = req.body;
 
   console.log(`[Server] Invoke called for thread: ${threadId}`);
 
@@ -120,22 +319,57 @@ app.post("/api/threads/:threadId/invoke", async (req, res) => {
     };
 
     let result;
+    // The pending interrupt and state before an answer, to tell the learner how it was graded
+    let answered: { interrupt: unknown; values: Record<string, unknown> } | null = null;
 
     const graph = getGraph();
 
     if (resumeValue !== undefined) {
       // Resume from an interrupt
       console.log(`[Server] Resuming with value:`, resumeValue);
+
+      // Reject malformed plan edits, revision requests and rated answers up front
+      // so the learner can resubmit
+      const pending = await graph.getState(config);
+      const pendingInterrupt = InterruptHandler.getInterruptData(pending.tasks) as {
+        value?: unknown;
+      } | null;
+      const pendingValue = pendingInterrupt?.value ?? pendingInterrupt;
+      if (InterruptHandler.isPlanApproval(pendingValue)) {
+        PlanEditor.parseResume(
+          resumeValue,
+          PlanEditor.revisionsLeft(pending.values.planRevisionCount ?? 0)
+        );
+      } else if (
+        InterruptHandler.isAnswerMCQ(pendingValue) ||
+        InterruptHandler.isExamQuestion(pendingValue)
+      ) {
+        CalibrationService.parseSubmission(resumeValue);
+        answered = { interrupt: pendingValue, values: pending.values };
+      }
+
       // Convert numeric values to strings to avoid falsy issues with 0
       const safeResumeValue = typeof resumeValue === "number" ? String(resumeValue) : resumeValue;
       result = await graph.invoke(new Command({ resume: safeResumeValue }), config);
-    } else if (pdfPath) {
-      // Start new workflow with PDF
-      console.log(`[Server] Starting new workflow with PDF: ${pdfPath}`);
+    } else if (start === true) {
+      // Start a new workflow with every document uploaded to the thread
+      const documents = await loadSourceDocuments(threadId);
+      // Settings sent now override those chosen at upload
+      const session = res.locals.session as LearningSession;
+      const sessionSettings = SessionSettingsService.resolve(
+        session.settings,
+        SessionSettingsService.parseInput(settings)
+      );
+      console.log(
+        `[Server] Starting new workflow with ${documents.length} document(s):`,
+        documents.map((document) => document.name)
+      );
       result = await graph.invoke(
         {
-          pdfPath,
+          documents,
           threadId,
+          learnerId: session.learner_id ?? getUserId(res),
+          settings: sessionSettings,
           currentPhase: "upload",
         },
         config
@@ -154,23 +388,33 @@ app.post("/api/threads/:threadId/invoke", async (req, res) => {
     // but the frontend expects the flat structure directly
     const interruptData = (rawInterruptData as { value?: unknown })?.value ?? rawInterruptData;
 
+    // Answer keys stay on the server; correctness comes back only for the answer just given
+    const feedback = answered
+      ? ClientProjection.grading(answered.interrupt, answered.values, result)
+      : null;
+
     if (isInterrupted) {
       console.log(`[Server] Workflow interrupted:`, interruptData);
 
       return res.json({
-        state: result,
+        state: ClientProjection.state(result),
         interrupted: true,
-        interruptData,
+        interruptData: ClientProjection.interrupt(interruptData),
+        ...(feedback && { feedback }),
       });
     }
 
     console.log(`[Server] Workflow completed, phase: ${result.currentPhase}`);
 
     res.json({
-      state: result,
+      state: ClientProjection.state(result),
       interrupted: false,
+      ...(feedback && { feedback }),
     });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(error.statusCode).json({ error: error.message, details: error.details });
+    }
     console.error("[Server] Invoke error:", error);
     res.status(500).json({
       error: error instanceof Error ? error.message : "Workflow execution failed",
@@ -195,7 +439,7 @@ app.get("/api/threads/:threadId/state", async (req, res) => {
     const state = await graph.getState(config);
 
     res.json({
-      state: state.values,
+      state: ClientProjection.state(state.values),
       next: state.next,
     });
   } catch (error) {
@@ -207,17 +451,32 @@ app.get("/api/threads/:threadId/state", async (req, res) => {
 });
 
 /**
- * Submit an answer to a question
+ * Submit an answer to a question, optionally with a confidence rating
+ * ("guess", "unsure" or "confident"), or a command such as { action: "skip" } instead
  */
 app.post("/api/threads/:threadId/answer", async (req, res) => {
   const { threadId } = req.params;
-  const { questionId, answer } = req.body;
+  const { questionId, answer, action, confidence } = req.body;
 
   console.log(
-    `[Server] Answer submitted for thread ${threadId}: question=${questionId}, answer=${answer}`
+    `[Server] Answer submitted for thread ${threadId}: question=${questionId}, ${
+      action !== undefined ? `action=${action}` : `answer=${answer}`
+    }`
   );
 
   try {
+    let resumeValue: unknown = answer;
+    if (confidence !== undefined) {
+      resumeValue = { answer, confidence };
+      CalibrationService.parseSubmission(resumeValue);
+    }
+    if (action !== undefined) {
+      resumeValue = DeferralService.parseCommand({ action });
+      if (!resumeValue) {
+        throw new ValidationError(`Unknown action: ${String(action)}`);
+      }
+    }
+
     const config = {
       configurable: {
         thread_id: threadId,
@@ -225,9 +484,13 @@ app.post("/api/threads/:threadId/answer", async (req, res) => {
     };
 
     const graph = getGraph();
+    const pending = await graph.getState(config);
+    const pendingInterrupt = InterruptHandler.getInterruptData(pending.tasks) as {
+      value?: unknown;
+    } | null;
 
-    // Resume the workflow with the answer
-    const result = await graph.invoke(new Command({ resume: answer }), config);
+    // Resume the workflow with the answer or command
+    const result = await graph.invoke(new Command({ resume: resumeValue }), config);
 
     // Check for more interrupts using InterruptHandler service
     const state = await graph.getState(config);
@@ -235,19 +498,31 @@ app.post("/api/threads/:threadId/answer", async (req, res) => {
     // Unwrap the 'value' property from LangGraph interrupt structure
     const interruptData = (rawInterruptData as { value?: unknown })?.value ?? rawInterruptData;
 
+    // Answer keys stay on the server; correctness comes back only for the answer just given
+    const feedback = ClientProjection.grading(
+      pendingInterrupt?.value ?? pendingInterrupt,
+      pending.values,
+      result
+    );
+
     if (isInterrupted) {
       return res.json({
-        state: result,
+        state: ClientProjection.state(result),
         interrupted: true,
-        interruptData,
+        interruptData: ClientProjection.interrupt(interruptData),
+        ...(feedback && { feedback }),
       });
     }
 
     res.json({
-      state: result,
+      state: ClientProjection.state(result),
       interrupted: false,
+      ...(feedback && { feedback }),
     });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(error.statusCode).json({ error: error.message, details: error.details });
+    }
     console.error("[Server] Answer error:", error);
     res.status(500).json({
       error: error instanceof Error ? error.message : "Failed to process answer",
@@ -255,6 +530,81 @@ app.post("/api/threads/:threadId/answer", async (req, res) => {
   }
 });
 
+/**
+ * List the learner's questions due for review
+ */
+app.get("/api/reviews/due", async (req, res) => {
+  const learnerId = getUserId(res);
+
+  try {
+    const [dueCount, items] = await Promise.all([
+      countDueReviewItems(learnerId),
+      listDueReviewItems(learnerId, CONFIG.REVIEW.MAX_QUESTIONS_PER_SESSION),
+    ]);
+
+    // Only what the learner needs to decide whether to review, not the answers
+    res.json({
+      dueCount,
+      items: items.map((item) => ({
+        id: item.id,
+        question: item.question.question,
+        questionType: item.question.type,
+        objectiveTitle: item.objective_title,
+        dueAt: item.due_at,
+        intervalDays: item.interval_days,
+        reviewCount: item.review_count,
+      })),
+    });
+  } catch (error) {
+    console.error("[Server] Due reviews error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to load reviews",
+    });
+  }
+});
+
+/**
+ * Start a review session over the learner's due questions.
+ * The session runs in its own thread, owned by the learner; answers go through the usual
+ * answer endpoint.
+ */
+app.post("/api/reviews/start", async (req, res) => {
+  const learnerId = getUserId(res);
+
+  try {
+    if ((await countDueReviewItems(learnerId)) === 0) {
+      return res.status(404).json({ error: "No questions are due for review" });
+    }
+
+    const threadId = generateId("review");
+    const config = { configurable: { thread_id: threadId } };
+    const graph = getGraph();
+
+    await createSession(threadId, null, null, null, learnerId, learnerId);
+    console.log(`[Server] Starting review session: ${threadId}`);
+    const result = await graph.invoke(
+      { threadId, learnerId, sessionMode: "review", currentPhase: "quiz" },
+      config
+    );
+
+    const state = await graph.getState(config);
+    const { isInterrupted, interruptData: rawInterruptData } = InterruptHandler.check(state.tasks);
+    const interruptData = (rawInterruptData as { value?: unknown })?.value ?? rawInterruptData;
+
+    res.json({
+      threadId,
+      state: ClientProjection.state(result),
+      interrupted: isInterrupted,
+      ...(isInterrupted && { interruptData: ClientProjection.interrupt(interruptData) }),
+    });
+  } catch (error) {
+    console.error("[Server] Start review error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to start review",
+    });
+  }
+});
+
 /**
  * Ask the Study Buddy agent for help (LangChain v1 Middleware Demo)
  *
@@ -287,6 +637,13 @@ app.post("/api/threads/:threadId/ask", async (req, res) => {
     const state = await graph.getState(config);
     const values = state.values || {};
 
+    // No help with the questions while an exam is being taken
+    if (ExamService.isInProgress(values)) {
+      return res.status(403).json({
+        error: "Study Buddy is not available during an exam. It will be back once you finish.",
+      });
+    }
+
     // Build context from current learning state
     const context: StudyBuddyContext = {
       threadId,
@@ -297,11 +654,6 @@ app.post("/api/threads/:threadId/ask", async (req, res) => {
         | undefined,
     };
 
-    // Add PDF content if available (truncated for context window)
-    if (values.pdfContent) {
-      context.pdfContent = values.pdfContent.slice(0, 3000);
-    }
-
     // Add current objective if in quiz phase
     if (values.learningObjectives && values.currentObjectiveIdx !== undefined) {
       const objective = values.learningObjectives[values.currentObjectiveIdx];
@@ -317,19 +669,38 @@ app.post("/api/threads/:threadId/ask", async (req, res) => {
     if (values.mcqs && values.currentMcqIdx !== undefined) {
       const mcq = values.mcqs[values.currentMcqIdx];
       if (mcq) {
-        // Get user's selected answer if they've answered this question
-        const userSelectedAnswer = values.userAnswers?.[mcq.id];
+        // Get user's answer if they've answered this question
+        const userAnswer = values.userAnswers?.[mcq.id];
 
         context.currentMcq = {
           question: mcq.question,
-          options: mcq.options,
-          correctAnswer: mcq.correctAnswer,
-          userSelectedAnswer,
+          questionType: mcq.type,
+          options: AnswerGrader.getOptions(mcq),
+          correctAnswers: AnswerGrader.getCorrectAnswerTexts(mcq),
+          sourcePages: [
+            ...new Set<number>((mcq.sourceRefs ?? []).map((ref: SourceRef) => ref.page)),
+          ],
+          ...(userAnswer !== undefined && {
+            userAnswer: AnswerGrader.describeAnswer(mcq, userAnswer),
+            userAnswerCorrect: AnswerGrader.isCorrect(mcq, userAnswer),
+          }),
         };
         context.attemptCount = values.attemptCounts?.[mcq.id] || 0;
       }
     }
 
+    // Add the document passages relevant to the learner's message and current question
+    if (values.pdfContent) {
+      const query = [question, context.currentMcq?.question, context.currentObjective?.title]
+        .filter(Boolean)
+        .join("\n");
+      context.pdfContent = await RetrievalService.buildContext(values.documentChunks ?? [], query, {
+        maxChars: AI_CONFIG.retrieval.studyBuddyMaxChars,
+        fallbackText: values.pdfContent,
+        agentName: "Study Buddy",
+      });
+    }
+
     // Invoke Study Buddy agent with middleware pipeline
     const response = await askStudyBuddy(question, context, config);
 
@@ -386,12 +757,17 @@ async function startServer() {
 
     const server = app.listen(PORT, () => {
       console.log(`\n🚀 Learning Agent Server running on http://localhost:${PORT}`);
-      console.log(`\nEndpoints:`);
-      console.log(`  POST /api/upload - Upload a PDF`);
+      console.log(`\nEndpoints (all /api routes need a bearer token):`);
+      if (CONFIG.AUTH.DEV_LOGIN) {
+        console.log(`  POST /api/auth/dev-login - Issue a development token`);
+      }
+      console.log(`  POST /api/upload - Upload documents (new session, or add to one)`);
       console.log(`  POST /api/threads/:threadId/invoke - Start/continue workflow`);
       console.log(`  GET  /api/threads/:threadId/state - Get current state`);
       console.log(`  POST /api/threads/:threadId/answer - Submit an answer`);
       console.log(`  POST /api/threads/:threadId/ask - Study Buddy (Middleware Demo)`);
+      console.log(`  GET  /api/reviews/due - Questions due for review`);
+      console.log(`  POST /api/reviews/start - Start a review session`);
       console.log(`  GET  /health - Health check\n`);
     });
 
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { createHmac } from "crypto";
+import { TokenService } from "./TokenService.js";
+import { CONFIG } from "../../config.js";
+import { UnauthorizedError } from "../../utils/errors.js";
+
+const now = new Date("2026-01-01T09:00:00Z").getTime();
+const userId = "user-1234abcd";
+
+/** Sign arbitrary claims the way another provider would */
+const signWith = (secret: string, claims: object, header: object = { alg: "HS256" }) => {
+  const unsigned = [header, claims]
+    .map((part) => Buffer.from(JSON.stringify(part)).toString("base64url"))
+    .join(".");
+  return `${unsigned}.${createHmac("sha256", secret).update(unsigned).digest("base64url")}`;
+};
+
+describe("TokenService", () => {
+  describe("issue and verify", () => {
+    it("should round-trip the user and expire after the configured lifetime", () => {
+      const issued = TokenService.issue(userId, now);
+      const claims = TokenService.verify(issued.token, now);
+
+      expect(claims.sub).toBe(userId);
+      expect(claims.iss).toBe(CONFIG.AUTH.ISSUER);
+      expect(claims.exp - claims.iat).toBe(CONFIG.AUTH.TOKEN_TTL_SECONDS);
+      expect(issued.expiresAt).toBe(new Date(claims.exp * 1000).toISOString());
+    });
+
+    it("should reject expired tokens", () => {
+      const { token } = TokenService.issue(userId, now);
+      const later = now + CONFIG.AUTH.TOKEN_TTL_SECONDS * 1000;
+
+      expect(() => TokenService.verify(token, later)).toThrow("Token expired");
+    });
+
+    it("should reject tokens whose claims were changed", () => {
+      const [header, , signature] = TokenService.issue(userId, now).token.split(".");
+      const payload = Buffer.from(
+        JSON.stringify({ sub: "someone-else", iss: CONFIG.AUTH.ISSUER, iat: 0, exp: 9e9 })
+      ).toString("base64url");
+
+      expect(() => TokenService.verify(`${header}.${payload}.${signature}`, now)).toThrow(
+        UnauthorizedError
+      );
+    });
+
+    it("should reject tokens signed with another secret or algorithm", () => {
+      const claims = { sub: userId, iss: CONFIG.AUTH.ISSUER, iat: 0, exp: now / 1000 + 60 };
+
+      expect(() => TokenService.verify(signWith("not-the-secret", claims), now)).toThrow(
+        "Invalid token signature"
+      );
+      expect(() =>
+        TokenService.verify(signWith(CONFIG.AUTH.JWT_SECRET, claims, { alg: "none" }), now)
+      ).toThrow("Malformed token");
+      expect(TokenService.verify(signWith(CONFIG.AUTH.JWT_SECRET, claims), now).sub).toBe(userId);
+    });
+
+    it("should reject tokens from another issuer", () => {
+      const claims = { sub: userId, iss: "elsewhere", iat: 0, exp: now / 1000 + 60 };
+
+      expect(() => TokenService.verify(signWith(CONFIG.AUTH.JWT_SECRET, claims), now)).toThrow(
+        "Invalid token claims"
+      );
+    });
+
+    it("should reject malformed tokens", () => {
+      for (const token of ["", "abc", "a.b", "a.b.c.d"]) {
+        expect(() => TokenService.verify(token, now)).toThrow(UnauthorizedError);
+      }
+    });
+  });
+
+  describe("fromHeader", () => {
+    it("should read bearer tokens only", () => {
+      expect(TokenService.fromHeader("Bearer abc.def.ghi")).toBe("abc.def.ghi");
+      expect(TokenService.fromHeader("bearer abc")).toBe("abc");
+      expect(TokenService.fromHeader("Basic dXNlcjpwYXNz")).toBeNull();
+      expect(TokenService.fromHeader(undefined)).toBeNull();
+    });
+  });
+
+  describe("isValidUserId", () => {
+    it("should accept the learner ID format", () => {
+      expect(TokenService.isValidUserId("0b6f1c1e-8d2a-4b8e-9f3a-2c1d5e6f7a8b")).toBe(true);
+      expect(TokenService.isValidUserId("short")).toBe(false);
+      expect(TokenService.isValidUserId("has spaces in it")).toBe(false);
+      expect(TokenService.isValidUserId(42)).toBe(false);
+    });
+  });
+});
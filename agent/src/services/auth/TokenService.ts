@@ -0,0 +1,123 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { CONFIG } from "../../config.js";
+import { UnauthorizedError } from "../../utils/errors.js";
+
+/**
+ * The claims carried by an access token.
+ */
+export interface TokenClaims {
+  /** The user the token was issued to */
+  sub: string;
+  iss: string;
+  /** Issue and expiry times, in seconds since the epoch */
+  iat: number;
+  exp: number;
+}
+
+/**
+ * A newly issued access token.
+ */
+export interface IssuedToken {
+  token: string;
+  userId: string;
+  expiresAt: string;
+}
+
+/**
+ * User IDs are stored next to learner IDs and in review rows, so they share their format.
+ */
+const USER_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+const HEADER = { alg: "HS256", typ: "JWT" };
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/**
+ * Service for issuing and checking the JWTs that authenticate API requests (HS256, signed
+ * with CONFIG.AUTH.JWT_SECRET). Any provider that can sign with the same secret can issue
+ * tokens; in development the dev login route does.
+ */
+export class TokenService {
+  /**
+   * Check a user ID can be issued a token.
+   * @param userId - The candidate ID
+   * @returns Whether the ID is 8-64 letters, digits, "-" or "_"
+   */
+  static isValidUserId(userId: unknown): userId is string {
+    return typeof userId === "string" && USER_ID_PATTERN.test(userId);
+  }
+
+  /**
+   * Issue an access token for a user.
+   * @param userId - The user to issue it to
+   * @param now - Current time in milliseconds (for tests)
+   * @returns The token and when it expires
+   */
+  static issue(userId: string, now: number = Date.now()): IssuedToken {
+    const iat = Math.floor(now / 1000);
+    const claims: TokenClaims = {
+      sub: userId,
+      iss: CONFIG.AUTH.ISSUER,
+      iat,
+      exp: iat + CONFIG.AUTH.TOKEN_TTL_SECONDS,
+    };
+    const unsigned = `${encode(HEADER)}.${encode(claims)}`;
+
+    return {
+      token: `${unsigned}.${this.sign(unsigned)}`,
+      userId,
+      expiresAt: new Date(claims.exp * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Check a token's signature, issuer and expiry.
+   * @param token - The token from the request
+   * @param now - Current time in milliseconds (for tests)
+   * @returns The token's claims
+   * @throws UnauthorizedError if the token is malformed, tampered with or expired
+   */
+  static verify(token: string, now: number = Date.now()): TokenClaims {
+    const [header, payload, signature, ...rest] = token.split(".");
+    if (!header || !payload || !signature || rest.length > 0) {
+      throw new UnauthorizedError("Malformed token");
+    }
+
+    const expected = Buffer.from(this.sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new UnauthorizedError("Invalid token signature");
+    }
+
+    let claims: Partial<TokenClaims>;
+    try {
+      const { alg } = JSON.parse(Buffer.from(header, "base64url").toString());
+      if (alg !== HEADER.alg) throw new Error(`Unsupported algorithm ${alg}`);
+      claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    } catch {
+      throw new UnauthorizedError("Malformed token");
+    }
+
+    if (claims.iss !== CONFIG.AUTH.ISSUER || !this.isValidUserId(claims.sub)) {
+      throw new UnauthorizedError("Invalid token claims");
+    }
+    if (typeof claims.exp !== "number" || claims.exp * 1000 <= now) {
+      throw new UnauthorizedError("Token expired");
+    }
+    return claims as TokenClaims;
+  }
+
+  /**
+   * Read the token from an Authorization header.
+   * @param authorization - The header value
+   * @returns The bearer token, or null if there is none
+   */
+  static fromHeader(authorization: string | undefined): string | null {
+    const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+    return match ? match[1] : null;
+  }
+
+  private static sign(unsigned: string): string {
+    return createHmac("sha256", CONFIG.AUTH.JWT_SECRET).update(unsigned).digest("base64url");
+  }
+}
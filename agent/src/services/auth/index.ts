@@ -0,0 +1 @@
+export { TokenService, type TokenClaims, type IssuedToken } from "./TokenService.js";
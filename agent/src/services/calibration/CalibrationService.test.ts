@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { CalibrationService } from "./CalibrationService.js";
+import { ValidationError } from "../../utils/errors.js";
+import { CONFIG } from "../../config.js";
+
+describe("CalibrationService", () => {
+  describe("parseSubmission", () => {
+    it("should pass bare answers through without a rating", () => {
+      expect(CalibrationService.parseSubmission("2")).toEqual({ answer: "2", confidence: null });
+      expect(CalibrationService.parseSubmission([0, 2])).toEqual({
+        answer: [0, 2],
+        confidence: null,
+      });
+    });
+
+    it("should split rated answers", () => {
+      expect(CalibrationService.parseSubmission({ answer: 1, confidence: "unsure" })).toEqual({
+        answer: 1,
+        confidence: "unsure",
+      });
+    });
+
+    it("should reject unknown ratings and missing answers", () => {
+      expect(() =>
+        CalibrationService.parseSubmission({ answer: 1, confidence: "certain" })
+      ).toThrow(ValidationError);
+      expect(() =>
+        CalibrationService.parseSubmission({ answer: null, confidence: "guess" })
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe("summarize", () => {
+    const attempts = {
+      q1: [
+        { answer: 0, isCorrect: false, confidence: "confident" as const },
+        { answer: 1, isCorrect: true, confidence: "unsure" as const },
+      ],
+      q2: [{ answer: 2, isCorrect: true, confidence: "guess" as const }],
+      q3: [{ answer: 3, isCorrect: true, confidence: "confident" as const }],
+      q4: [{ answer: 0, isCorrect: false }],
+      "obj-1-r1-q1": [{ answer: 0, isCorrect: false, confidence: "confident" as const }],
+    };
+
+    it("should bucket rated attempts and count miscalibrated ones", () => {
+      const summary = CalibrationService.summarize(attempts, ["q1", "q2", "q3", "q4"]);
+
+      expect(summary?.buckets).toEqual([
+        {
+          confidence: "guess",
+          attempts: 1,
+          correct: 1,
+          accuracy: 100,
+          expectedAccuracy: CONFIG.CALIBRATION.EXPECTED_ACCURACY.guess,
+        },
+        {
+          confidence: "unsure",
+          attempts: 1,
+          correct: 1,
+          accuracy: 100,
+          expectedAccuracy: CONFIG.CALIBRATION.EXPECTED_ACCURACY.unsure,
+        },
+        {
+          confidence: "confident",
+          attempts: 2,
+          correct: 1,
+          accuracy: 50,
+          expectedAccuracy: CONFIG.CALIBRATION.EXPECTED_ACCURACY.confident,
+        },
+      ]);
+      expect(summary?.overconfidentErrors).toBe(1);
+      expect(summary?.underconfidentCorrect).toBe(1);
+    });
+
+    it("should return null when nothing was rated", () => {
+      expect(CalibrationService.summarize(attempts, ["q4"])).toBeNull();
+    });
+  });
+});
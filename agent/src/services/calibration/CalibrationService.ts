@@ -0,0 +1,96 @@
+import { ConfidenceSchema, RatedAnswerSchema, type Confidence } from "../../schemas/index.js";
+import { CONFIG } from "../../config.js";
+import { ValidationError } from "../../utils/errors.js";
+import type { QuestionAttempt } from "../scoring/ScoreCalculator.js";
+
+/**
+ * An answer from a resume value, with the confidence rating sent alongside it.
+ */
+export interface AnswerSubmission {
+  answer: unknown;
+  confidence: Confidence | null;
+}
+
+/**
+ * How often answers at one confidence rating were right.
+ */
+export interface CalibrationBucket {
+  confidence: Confidence;
+  attempts: number;
+  correct: number;
+  /** Percentage (0-100) of these attempts that were right */
+  accuracy: number;
+  /** Accuracy a well-calibrated learner would have at this rating */
+  expectedAccuracy: number;
+}
+
+/**
+ * How well the learner's confidence matched their answers, for the progress report.
+ */
+export interface CalibrationSummary {
+  /** One bucket per rating, from guess to confident */
+  buckets: CalibrationBucket[];
+  /** Wrong answers the learner was confident about */
+  overconfidentErrors: number;
+  /** Right answers the learner called a guess */
+  underconfidentCorrect: number;
+}
+
+/**
+ * Service for confidence ratings: reading them from submitted answers and
+ * comparing them with how often the learner was actually right.
+ */
+export class CalibrationService {
+  /**
+   * Split a resume value into the answer and its confidence rating.
+   * Bare answers (without a rating) are still accepted.
+   * @param raw - The raw value from the interrupt resume
+   * @returns The answer, with its rating or null
+   * @throws ValidationError if a rated answer is malformed or the rating is unknown
+   */
+  static parseSubmission(raw: unknown): AnswerSubmission {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw) || !("answer" in raw)) {
+      return { answer: raw, confidence: null };
+    }
+
+    const result = RatedAnswerSchema.safeParse(raw);
+    if (!result.success) {
+      throw new ValidationError("Invalid rated answer", result.error.flatten());
+    }
+    return result.data;
+  }
+
+  /**
+   * Compare the confidence ratings with the answers they came with.
+   * @param attempts - Every attempt keyed by question ID
+   * @param questionIds - The questions to include, e.g. without remediation follow-ups
+   * @returns The calibration summary, or null if no attempt was rated
+   */
+  static summarize(
+    attempts: Record<string, QuestionAttempt[]>,
+    questionIds: string[]
+  ): CalibrationSummary | null {
+    const rated = questionIds
+      .flatMap((id) => attempts[id] ?? [])
+      .filter((attempt) => attempt.confidence !== undefined);
+    if (rated.length === 0) return null;
+
+    const buckets = ConfidenceSchema.options.map((confidence) => {
+      const atRating = rated.filter((attempt) => attempt.confidence === confidence);
+      const correct = atRating.filter((attempt) => attempt.isCorrect).length;
+      return {
+        confidence,
+        attempts: atRating.length,
+        correct,
+        accuracy: atRating.length > 0 ? Math.round((correct / atRating.length) * 100) : 0,
+        expectedAccuracy: CONFIG.CALIBRATION.EXPECTED_ACCURACY[confidence],
+      };
+    });
+
+    return {
+      buckets,
+      overconfidentErrors: rated.filter((a) => a.confidence === "confident" && !a.isCorrect).length,
+      underconfidentCorrect: rated.filter((a) => a.confidence === "guess" && a.isCorrect).length,
+    };
+  }
+}
@@ -0,0 +1,6 @@
+export {
+  CalibrationService,
+  type CalibrationBucket,
+  type CalibrationSummary,
+  type AnswerSubmission,
+} from "./CalibrationService.js";
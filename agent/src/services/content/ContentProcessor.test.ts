@@ -66,6 +66,26 @@ describe("ContentProcessor", () => {
     });
   });
 
+  describe("formatPages", () => {
+    it("should prefix each page with its page marker", () => {
+      const result = ContentProcessor.formatPages([
+        { pageNumber: 1, text: "Intro text" },
+        { pageNumber: 2, text: "  Second page  " },
+      ]);
+
+      expect(result).toBe("[Page 1]\nIntro text\n\n[Page 2]\nSecond page");
+    });
+
+    it("should skip pages without text", () => {
+      const result = ContentProcessor.formatPages([
+        { pageNumber: 1, text: "" },
+        { pageNumber: 2, text: "Content" },
+      ]);
+
+      expect(result).toBe("[Page 2]\nContent");
+    });
+  });
+
   describe("isValid", () => {
     it("should return true for valid string content", () => {
       expect(ContentProcessor.isValid("Hello")).toBe(true);
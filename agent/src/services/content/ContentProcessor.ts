@@ -1,5 +1,6 @@
 import { AI_CONFIG, type AIPurpose } from "../../config/ai.config.js";
 import { logAgentDecision } from "../../utils/logger.js";
+import type { DocumentPage } from "../../schemas/index.js";
 
 export interface TruncationResult {
   content: string;
@@ -50,6 +51,19 @@ export class ContentProcessor {
     };
   }
 
+  /**
+   * Join page texts with "[Page N]" markers so the model can cite page numbers.
+   * Pages without text are skipped.
+   * @param pages - The extracted document pages
+   * @returns The document text annotated with page markers
+   */
+  static formatPages(pages: DocumentPage[]): string {
+    return pages
+      .filter((page) => page.text.trim().length > 0)
+      .map((page) => `[Page ${page.pageNumber}]\n${page.text.trim()}`)
+      .join("\n\n");
+  }
+
   /**
    * Validate that content exists and is not empty.
    * @param content - The content to validate
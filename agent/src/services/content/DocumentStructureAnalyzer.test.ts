@@ -0,0 +1,258 @@
+import { describe, it, expect } from "vitest";
+import { DocumentStructureAnalyzer } from "./DocumentStructureAnalyzer.js";
+import type { DocumentPage } from "../../schemas/index.js";
+
+const pages: DocumentPage[] = [
+  {
+    pageNumber: 1,
+    text: "Cell Biology Notes\nThese notes cover the basics of the cell.\n1",
+  },
+  {
+    pageNumber: 2,
+    text: "Cell Biology Notes\nChapter 1\nThe Cell\nCells are the basic unit of life.\n2",
+  },
+  {
+    pageNumber: 3,
+    text: "Cell Biology Notes\n1.1 Cell Membranes\nThe membrane controls what enters the cell.\n3",
+  },
+  {
+    pageNumber: 4,
+    text: "Cell Biology Notes\nMembranes are made of a lipid bilayer.\nSUMMARY\nCells have parts.\n4",
+  },
+];
+
+describe("DocumentStructureAnalyzer", () => {
+  describe("detectHeading", () => {
+    it("should detect chapter labels, numbered and ALL CAPS headings", () => {
+      expect(DocumentStructureAnalyzer.detectHeading("Chapter 3")).toEqual({
+        title: "Chapter 3",
+        level: 1,
+      });
+      expect(DocumentStructureAnalyzer.detectHeading("2.1 Cell Membranes")?.level).toBe(2);
+      expect(DocumentStructureAnalyzer.detectHeading("4.2.1. Passive Diffusion")?.level).toBe(3);
+      expect(DocumentStructureAnalyzer.detectHeading("KEY CONCEPTS")?.level).toBe(1);
+    });
+
+    it("should detect Title Case headings", () => {
+      expect(DocumentStructureAnalyzer.detectHeading("The Structure of the Cell")?.level).toBe(2);
+      expect(DocumentStructureAnalyzer.detectHeading("Summary")?.level).toBe(2);
+    });
+
+    it("should reject sentences, captions and wrapped lines", () => {
+      expect(
+        DocumentStructureAnalyzer.detectHeading("Cells are the basic unit of life.")
+      ).toBeNull();
+      expect(DocumentStructureAnalyzer.detectHeading("Figure 2 Mitochondria")).toBeNull();
+      expect(DocumentStructureAnalyzer.detectHeading("3 cups of flour")).toBeNull();
+      expect(DocumentStructureAnalyzer.detectHeading("Energy Is Produced In The")).toBeNull();
+      expect(DocumentStructureAnalyzer.detectHeading("Mitochondria")).toBeNull();
+    });
+  });
+
+  describe("analyze", () => {
+    it("should build sections with page ranges and word counts", () => {
+      const doc = DocumentStructureAnalyzer.analyze(pages);
+
+      expect(doc.sections).toEqual([
+        {
+          id: "sec-1",
+          documentId: "doc-1",
+          title: "Introduction",
+          level: 1,
+          startPage: 1,
+          endPage: 1,
+          wordCount: 8,
+        },
+        {
+          id: "sec-2",
+          documentId: "doc-1",
+          title: "Chapter 1: The Cell",
+          level: 1,
+          startPage: 2,
+          endPage: 2,
+          wordCount: 7,
+        },
+        {
+          id: "sec-3",
+          documentId: "doc-1",
+          title: "1.1 Cell Membranes",
+          level: 2,
+          startPage: 3,
+          endPage: 4,
+          wordCount: 14,
+        },
+        {
+          id: "sec-4",
+          documentId: "doc-1",
+          title: "SUMMARY",
+          level: 1,
+          startPage: 4,
+          endPage: 4,
+          wordCount: 3,
+        },
+      ]);
+      expect(doc.pageCount).toBe(4);
+    });
+
+    it("should build a table of contents from headings only", () => {
+      const doc = DocumentStructureAnalyzer.analyze(pages);
+
+      expect(doc.toc.map((entry) => [entry.sectionId, entry.title, entry.page])).toEqual([
+        ["sec-2", "Chapter 1: The Cell", 2],
+        ["sec-3", "1.1 Cell Membranes", 3],
+        ["sec-4", "SUMMARY", 4],
+      ]);
+    });
+
+    it("should ignore running headers and page numbers", () => {
+      const doc = DocumentStructureAnalyzer.analyze(pages);
+
+      expect(doc.sections.map((s) => s.title)).not.toContain("Cell Biology Notes");
+    });
+
+    it("should prefer the metadata title unless it is a file name", () => {
+      expect(DocumentStructureAnalyzer.analyze(pages, { title: "Intro to Cells" }).title).toBe(
+        "Intro to Cells"
+      );
+      expect(
+        DocumentStructureAnalyzer.analyze(pages, { title: "Microsoft Word - cells.docx" }).title
+      ).toBe("Chapter 1: The Cell");
+    });
+
+    it("should use headings reported by the extractor instead of detecting them", () => {
+      const doc = DocumentStructureAnalyzer.analyze(
+        [{ pageNumber: 1, text: "Getting started\nInstall the tools first.\nKEY CONCEPTS\nText." }],
+        { headings: [{ page: 1, title: "Getting started", level: 2 }] }
+      );
+
+      expect(doc.toc).toEqual([
+        { sectionId: "sec-1", title: "Getting started", level: 2, page: 1 },
+      ]);
+      expect(doc.sections[0].wordCount).toBe(7);
+    });
+
+    it("should fall back to one section per page when there are no headings", () => {
+      const doc = DocumentStructureAnalyzer.analyze([
+        { pageNumber: 1, text: "plain text with no headings at all." },
+        { pageNumber: 2, text: "" },
+        { pageNumber: 3, text: "more plain text." },
+      ]);
+
+      expect(doc.toc).toEqual([]);
+      expect(doc.sections.map((s) => [s.title, s.wordCount])).toEqual([
+        ["Page 1", 7],
+        ["Page 3", 3],
+      ]);
+      expect(doc.title).toBe("plain text with no headings at all.");
+    });
+  });
+
+  describe("combine", () => {
+    const syllabus = DocumentStructureAnalyzer.analyze(
+      [{ pageNumber: 1, text: "1 Course Aims\nLearn how cells work." }],
+      { document: { id: "doc-2", name: "syllabus.md" } }
+    );
+
+    it("should number pages and sections consecutively across documents", () => {
+      const notes = DocumentStructureAnalyzer.analyze(pages, {
+        document: { id: "doc-1", name: "notes.pdf" },
+      });
+      const doc = DocumentStructureAnalyzer.combine([notes, syllabus]);
+
+      expect(doc.pageCount).toBe(5);
+      expect(doc.pages.map((page) => page.pageNumber)).toEqual([1, 2, 3, 4, 5]);
+      expect(doc.sections[4]).toMatchObject({
+        id: "sec-5",
+        documentId: "doc-2",
+        title: "1 Course Aims",
+        startPage: 5,
+      });
+      expect(doc.toc[doc.toc.length - 1]).toEqual({
+        sectionId: "sec-5",
+        title: "1 Course Aims",
+        level: 1,
+        page: 5,
+      });
+      expect(doc.documents.map((d) => [d.id, d.name, d.startPage, d.endPage])).toEqual([
+        ["doc-1", "notes.pdf", 1, 4],
+        ["doc-2", "syllabus.md", 5, 5],
+      ]);
+    });
+
+    it("should leave a single document unchanged", () => {
+      expect(DocumentStructureAnalyzer.combine([syllabus])).toBe(syllabus);
+    });
+  });
+
+  describe("formatOutline", () => {
+    it("should list sections with IDs, pages and word counts", () => {
+      const outline = DocumentStructureAnalyzer.formatOutline(
+        DocumentStructureAnalyzer.analyze(pages)
+      );
+
+      expect(outline).toContain("[sec-3] 1.1 Cell Membranes (pages 3-4, 14 words)");
+      expect(outline).toContain("[sec-4] SUMMARY (page 4, 3 words)");
+    });
+
+    it("should drop deeper levels first when there are too many sections", () => {
+      const doc = DocumentStructureAnalyzer.analyze([
+        { pageNumber: 1, text: "1 Cells\nText.\n1.1 Membranes\nText.\n1.2 Nucleus\nText." },
+      ]);
+
+      expect(DocumentStructureAnalyzer.formatOutline(doc, 1)).toBe(
+        "[sec-1] 1 Cells (page 1, 1 words)"
+      );
+    });
+  });
+
+  describe("formatOutline with several documents", () => {
+    it("should group sections under their document", () => {
+      const doc = DocumentStructureAnalyzer.combine([
+        DocumentStructureAnalyzer.analyze(pages, { document: { id: "doc-1", name: "notes.pdf" } }),
+        DocumentStructureAnalyzer.analyze(
+          [{ pageNumber: 1, text: "1 Course Aims\nLearn how cells work." }],
+          { document: { id: "doc-2", name: "syllabus.md" } }
+        ),
+      ]);
+
+      const lines = DocumentStructureAnalyzer.formatOutline(doc).split("\n");
+
+      expect(lines[0]).toBe('[doc-1] notes.pdf: "Chapter 1: The Cell" (pages 1-4, 56 words)');
+      expect(lines).toContain('[doc-2] syllabus.md: "1 Course Aims" (page 5, 7 words)');
+      expect(lines[lines.length - 1]).toBe("  [sec-5] 1 Course Aims (page 5, 4 words)");
+    });
+  });
+
+  describe("documentForPage", () => {
+    it("should find the document a combined page number belongs to", () => {
+      const documents = [
+        { id: "doc-1", name: "a.pdf", title: "A", startPage: 1, endPage: 4, wordCount: 100 },
+        { id: "doc-2", name: "b.pdf", title: "B", startPage: 5, endPage: 6, wordCount: 50 },
+      ];
+
+      expect(DocumentStructureAnalyzer.documentForPage(documents, 5)?.id).toBe("doc-2");
+      expect(DocumentStructureAnalyzer.documentForPage(documents, 7)).toBeNull();
+      expect(DocumentStructureAnalyzer.pagesForDocuments(documents, ["doc-2"])).toEqual([5, 6]);
+    });
+  });
+
+  describe("pagesForSections", () => {
+    it("should return every page covered by the given sections", () => {
+      const doc = DocumentStructureAnalyzer.analyze(pages);
+
+      expect(DocumentStructureAnalyzer.pagesForSections(doc.sections, ["sec-3", "sec-4"])).toEqual([
+        3, 4,
+      ]);
+      expect(DocumentStructureAnalyzer.pagesForSections(doc.sections, [])).toEqual([]);
+    });
+  });
+
+  describe("toOutline", () => {
+    it("should drop page text", () => {
+      const outline = DocumentStructureAnalyzer.toOutline(DocumentStructureAnalyzer.analyze(pages));
+
+      expect(outline).not.toHaveProperty("pages");
+      expect(outline.sections).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,463 @@
+import type {
+  DocumentHeading,
+  DocumentPage,
+  DocumentSection,
+  DocumentSpan,
+  DocumentOutline,
+  ParsedDocument,
+  TocEntry,
+} from "../../schemas/index.js";
+
+const MAX_HEADING_LENGTH = 80;
+const MAX_HEADING_WORDS = 12;
+const MAX_OUTLINE_ENTRIES = 40;
+
+/** Chapter-style labels, e.g. "Chapter 3" or "PART II" */
+const CHAPTER_PATTERN =
+  /^(Chapter|CHAPTER|Part|PART|Unit|UNIT|Module|MODULE|Lesson|LESSON)\s+(\d+|[IVXLC]+)\b/;
+
+/** Numbered headings, e.g. "2 Methods", "3.1 Cell Membranes" or "4.2.1. Diffusion" */
+const NUMBERED_PATTERN = /^(\d{1,2}(?:\.\d{1,2}){0,2})\.?\s+(\S.*)$/;
+
+/** Captions and notes that look like headings but are not */
+const CAPTION_PATTERN = /^(figure|fig\.|table|source|note|chart|image)\b/i;
+
+/** Common single-word headings; other single title-case words are too often wrapped text */
+const SINGLE_WORD_HEADINGS = new Set(
+  (
+    "introduction overview summary conclusion conclusions abstract references background " +
+    "discussion results methods methodology appendix glossary exercises bibliography preface"
+  ).split(" ")
+);
+
+/** Words left lowercase in title case */
+const MINOR_WORDS = new Set(
+  "a an the and or nor but of in on to for with by at from as into vs via".split(" ")
+);
+
+interface Heading {
+  title: string;
+  level: number;
+}
+
+export interface AnalyzeOptions {
+  /** Title from the file's metadata */
+  title?: string;
+  /** Headings from the file's markup; when given, heading detection heuristics are skipped */
+  headings?: DocumentHeading[];
+  /** The source document's ID and file name (defaults to doc-1, named after its title) */
+  document?: { id: string; name: string };
+}
+
+/**
+ * Service for recovering document structure (headings, sections, table of contents)
+ * from extracted page text. PDF text carries no markup, so headings are detected
+ * with line-level heuristics: chapter labels, section numbers, ALL CAPS and Title Case lines.
+ */
+export class DocumentStructureAnalyzer {
+  /**
+   * Build a structured document from its pages.
+   * Falls back to one section per page when no headings are detected.
+   * @param pages - The extracted document pages
+   * @param options - Metadata title and known headings, if the format provides them
+   * @returns The parsed document
+   */
+  static analyze(pages: DocumentPage[], options: AnalyzeOptions = {}): ParsedDocument {
+    const knownHeadings = options.headings
+      ? new Map(options.headings.map((h) => [`${h.page}|${h.title}`, h]))
+      : null;
+    const documentId = options.document?.id ?? "doc-1";
+    const runningLines = this.findRunningLines(pages);
+    const sections: DocumentSection[] = [];
+    const toc: TocEntry[] = [];
+    let current: DocumentSection | null = null;
+
+    for (const page of pages) {
+      for (const rawLine of page.text.split("\n")) {
+        const line = rawLine.replace(/\s+/g, " ").trim();
+        if (!line || /^\d+$/.test(line) || runningLines.has(this.lineKey(line))) continue;
+
+        const heading = knownHeadings
+          ? (knownHeadings.get(`${page.pageNumber}|${line}`) ?? null)
+          : this.detectHeading(line);
+        if (heading) {
+          // "Chapter 2" on its own line is usually followed by the chapter name
+          if (current && current.wordCount === 0 && this.isBareChapterLabel(current.title)) {
+            current.title = `${current.title}: ${heading.title}`;
+            toc[toc.length - 1].title = current.title;
+            continue;
+          }
+
+          current = {
+            id: `sec-${sections.length + 1}`,
+            documentId,
+            title: heading.title,
+            level: heading.level,
+            startPage: page.pageNumber,
+            endPage: page.pageNumber,
+            wordCount: 0,
+          };
+          sections.push(current);
+          toc.push({
+            sectionId: current.id,
+            title: heading.title,
+            level: heading.level,
+            page: page.pageNumber,
+          });
+          continue;
+        }
+
+        if (!current) {
+          // Text before the first heading (title page, front matter)
+          current = {
+            id: `sec-${sections.length + 1}`,
+            documentId,
+            title: "Introduction",
+            level: 1,
+            startPage: page.pageNumber,
+            endPage: page.pageNumber,
+            wordCount: 0,
+          };
+          sections.push(current);
+        }
+
+        current.wordCount += this.countWords(line);
+        current.endPage = page.pageNumber;
+      }
+    }
+
+    const title = this.resolveTitle(pages, toc, options.title);
+    const wordCount = pages.reduce((sum, page) => sum + this.countWords(page.text), 0);
+
+    return {
+      title,
+      pageCount: pages.length,
+      wordCount,
+      pages,
+      sections: toc.length > 0 ? sections : this.sectionsByPage(pages, documentId),
+      toc,
+      documents: [
+        {
+          id: documentId,
+          name: options.document?.name ?? title,
+          title,
+          startPage: pages[0]?.pageNumber ?? 1,
+          endPage: pages[pages.length - 1]?.pageNumber ?? 0,
+          wordCount,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Join separately analyzed documents into one, numbering pages consecutively
+   * and renumbering sections so IDs and page numbers stay unique.
+   * @param documents - Parsed documents in upload order
+   * @returns The combined document
+   */
+  static combine(documents: ParsedDocument[]): ParsedDocument {
+    if (documents.length === 1) return documents[0];
+
+    const combined: ParsedDocument = {
+      title: documents.map((document) => document.title).join(", "),
+      pageCount: 0,
+      wordCount: 0,
+      pages: [],
+      sections: [],
+      toc: [],
+      documents: [],
+    };
+
+    for (const document of documents) {
+      const pageOffset = combined.pageCount;
+      const sectionIds = new Map<string, string>();
+
+      for (const section of document.sections) {
+        const id = `sec-${combined.sections.length + 1}`;
+        sectionIds.set(section.id, id);
+        combined.sections.push({
+          ...section,
+          id,
+          startPage: section.startPage + pageOffset,
+          endPage: section.endPage + pageOffset,
+        });
+      }
+
+      combined.pages.push(
+        ...document.pages.map((page) => ({ ...page, pageNumber: page.pageNumber + pageOffset }))
+      );
+      combined.toc.push(
+        ...document.toc.map((entry) => ({
+          ...entry,
+          sectionId: sectionIds.get(entry.sectionId) ?? entry.sectionId,
+          page: entry.page + pageOffset,
+        }))
+      );
+      combined.documents.push(
+        ...document.documents.map((span) => ({
+          ...span,
+          startPage: span.startPage + pageOffset,
+          endPage: span.endPage + pageOffset,
+        }))
+      );
+      combined.pageCount += document.pageCount;
+      combined.wordCount += document.wordCount;
+    }
+
+    return combined;
+  }
+
+  /**
+   * Classify a single line as a heading.
+   * @param line - A line of page text with whitespace collapsed
+   * @returns The heading title and level, or null if the line is body text
+   */
+  static detectHeading(line: string): Heading | null {
+    if (line.length < 3 || line.length > MAX_HEADING_LENGTH) return null;
+    if (!/[A-Za-z]/.test(line) || CAPTION_PATTERN.test(line)) return null;
+    // Headings do not end in punctuation; sentences and wrapped lines do
+    if (/[.,;:!?]$/.test(line)) return null;
+
+    const words = line.split(" ");
+    if (words.length > MAX_HEADING_WORDS) return null;
+
+    if (CHAPTER_PATTERN.test(line)) {
+      return { title: line, level: 1 };
+    }
+
+    const numbered = line.match(NUMBERED_PATTERN);
+    if (numbered) {
+      // "3 cups of flour" or a numbered list sentence is not a heading
+      if (!/^[A-Z]/.test(numbered[2]) || numbered[2].split(" ").length > 10) return null;
+      return { title: line, level: Math.min(numbered[1].split(".").length, 3) };
+    }
+
+    const letters = line.replace(/[^A-Za-z]/g, "");
+    if (letters.length >= 4 && words.length <= 8 && letters === letters.toUpperCase()) {
+      return { title: line, level: 1 };
+    }
+
+    if (this.isTitleCase(words)) {
+      return { title: line, level: 2 };
+    }
+
+    return null;
+  }
+
+  /**
+   * Format the outline for a prompt: one line per section with its ID,
+   * page range and size, indented by level. Deep levels are dropped first
+   * when there are more sections than fit. With several source documents,
+   * sections are grouped under a line per document and share the budget equally.
+   * @param document - The parsed document
+   * @param maxEntries - Maximum number of sections to list
+   * @returns The outline text, or an empty string if there are no sections
+   */
+  static formatOutline(document: ParsedDocument, maxEntries: number = MAX_OUTLINE_ENTRIES): string {
+    if (document.documents.length <= 1) {
+      return this.formatSections(document.sections, maxEntries, "").join("\n");
+    }
+
+    const perDocument = Math.max(1, Math.floor(maxEntries / document.documents.length));
+    return document.documents
+      .flatMap((span) => [
+        `[${span.id}] ${span.name}: "${span.title}" (${this.formatPages(span.startPage, span.endPage)}, ${span.wordCount} words)`,
+        ...this.formatSections(
+          document.sections.filter((section) => section.documentId === span.id),
+          perDocument,
+          "  "
+        ),
+      ])
+      .join("\n");
+  }
+
+  /**
+   * Strip page text from a parsed document so it can be sent to the UI.
+   * @param document - The parsed document
+   * @returns The outline
+   */
+  static toOutline(document: ParsedDocument): DocumentOutline {
+    const { pages: _pages, ...outline } = document;
+    return outline;
+  }
+
+  /**
+   * Get every page of the given source documents.
+   * @param documents - The document spans
+   * @param documentIds - IDs of the documents to include
+   * @returns The page numbers, ascending
+   */
+  static pagesForDocuments(documents: DocumentSpan[], documentIds: string[]): number[] {
+    return documents
+      .filter((span) => documentIds.includes(span.id))
+      .flatMap((span) =>
+        Array.from({ length: span.endPage - span.startPage + 1 }, (_, i) => span.startPage + i)
+      )
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Find the source document a page belongs to.
+   * @param documents - The document spans
+   * @param page - A page number in the combined numbering
+   * @returns The document span, or null if the page is out of range
+   */
+  static documentForPage(documents: DocumentSpan[], page: number): DocumentSpan | null {
+    return documents.find((span) => page >= span.startPage && page <= span.endPage) ?? null;
+  }
+
+  /**
+   * Get every page covered by the given sections.
+   * @param sections - The document sections
+   * @param sectionIds - IDs of the sections to include
+   * @returns The page numbers, ascending
+   */
+  static pagesForSections(sections: DocumentSection[], sectionIds: string[]): number[] {
+    const pages = new Set<number>();
+    for (const section of sections) {
+      if (!sectionIds.includes(section.id)) continue;
+      for (let page = section.startPage; page <= section.endPage; page++) {
+        pages.add(page);
+      }
+    }
+    return [...pages].sort((a, b) => a - b);
+  }
+
+  /**
+   * Count the words in a block of text.
+   */
+  static countWords(text: string): number {
+    return text.split(/\s+/).filter((word) => /[A-Za-z0-9]/.test(word)).length;
+  }
+
+  /**
+   * Format sections one per line, dropping deep levels first when they do not fit.
+   */
+  private static formatSections(
+    allSections: DocumentSection[],
+    maxEntries: number,
+    baseIndent: string
+  ): string[] {
+    let sections = allSections;
+    for (let level = 2; sections.length > maxEntries && level >= 1; level--) {
+      sections = allSections.filter((section) => section.level <= level);
+    }
+
+    const lines = sections.slice(0, maxEntries).map((section) => {
+      const pages = this.formatPages(section.startPage, section.endPage);
+      const indent = baseIndent + "  ".repeat(section.level - 1);
+      return `${indent}[${section.id}] ${section.title} (${pages}, ${section.wordCount} words)`;
+    });
+
+    if (sections.length > maxEntries) {
+      lines.push(`${baseIndent}... ${sections.length - maxEntries} more sections`);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Describe a page range, e.g. "page 3" or "pages 3-5".
+   */
+  private static formatPages(startPage: number, endPage: number): string {
+    return startPage === endPage ? `page ${startPage}` : `pages ${startPage}-${endPage}`;
+  }
+
+  /**
+   * Find running headers and footers: lines repeated on more than half of the pages.
+   * Digits are ignored so "Page 3 of 10" matches "Page 4 of 10".
+   */
+  private static findRunningLines(pages: DocumentPage[]): Set<string> {
+    const running = new Set<string>();
+    if (pages.length < 3) return running;
+
+    const pageCounts = new Map<string, number>();
+    for (const page of pages) {
+      const keys = new Set(
+        page.text
+          .split("\n")
+          .map((line) => this.lineKey(line))
+          .filter(Boolean)
+      );
+      for (const key of keys) {
+        pageCounts.set(key, (pageCounts.get(key) ?? 0) + 1);
+      }
+    }
+
+    for (const [key, count] of pageCounts) {
+      if (count >= 3 && count > pages.length / 2) running.add(key);
+    }
+    return running;
+  }
+
+  /**
+   * Normalize a line for running header/footer comparison.
+   */
+  private static lineKey(line: string): string {
+    return line.replace(/\s+/g, " ").trim().toLowerCase().replace(/\d+/g, "#");
+  }
+
+  /**
+   * Check for a Title Case line: every word capitalized except minor words,
+   * which may not end the line (that is usually a wrapped sentence).
+   */
+  private static isTitleCase(words: string[]): boolean {
+    if (words.length > 8 || !/^[A-Z]/.test(words[0])) return false;
+    if (words.length === 1) {
+      return SINGLE_WORD_HEADINGS.has(words[0].toLowerCase());
+    }
+
+    const last = words[words.length - 1].toLowerCase();
+    if (MINOR_WORDS.has(last)) return false;
+
+    return words.every(
+      (word, idx) => /^[A-Z0-9(“"']/.test(word) || (idx > 0 && MINOR_WORDS.has(word.toLowerCase()))
+    );
+  }
+
+  /**
+   * Check for a chapter label with no name, e.g. "Chapter 2" or "PART IV".
+   */
+  private static isBareChapterLabel(title: string): boolean {
+    return title.match(CHAPTER_PATTERN)?.[0] === title;
+  }
+
+  /**
+   * One section per non-empty page, for documents with no detectable headings.
+   */
+  private static sectionsByPage(pages: DocumentPage[], documentId: string): DocumentSection[] {
+    return pages
+      .filter((page) => page.text.trim().length > 0)
+      .map((page, idx) => ({
+        id: `sec-${idx + 1}`,
+        documentId,
+        title: `Page ${page.pageNumber}`,
+        level: 1,
+        startPage: page.pageNumber,
+        endPage: page.pageNumber,
+        wordCount: this.countWords(page.text),
+      }));
+  }
+
+  /**
+   * Pick a document title: usable metadata, then the first heading, then the first line.
+   * Metadata titles that are just file names (e.g. "Microsoft Word - notes.docx") are ignored.
+   */
+  private static resolveTitle(
+    pages: DocumentPage[],
+    toc: TocEntry[],
+    metadataTitle?: string
+  ): string {
+    const fromMetadata = metadataTitle?.trim();
+    if (fromMetadata && !/\.(pdf|docx?|pptx?|txt)$/i.test(fromMetadata)) {
+      return fromMetadata;
+    }
+    if (toc.length > 0) return toc[0].title;
+
+    const firstLine = pages
+      .flatMap((page) => page.text.split("\n"))
+      .map((line) => line.trim())
+      .find(Boolean);
+    return firstLine ? firstLine.slice(0, MAX_HEADING_LENGTH) : "Untitled document";
+  }
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import { PlanEditor } from "./PlanEditor.js";
+import { ValidationError } from "../../utils/errors.js";
+import { CONFIG } from "../../config.js";
+import type { LearningObjective } from "../../schemas/index.js";
+import { DocumentStructureAnalyzer } from "./DocumentStructureAnalyzer.js";
+
+const original: LearningObjective[] = [
+  {
+    id: "obj-1",
+    title: "Cell structure",
+    description: "Name the parts of a cell",
+    difficulty: "easy",
+    sectionIds: ["sec-1"],
+    documentIds: ["doc-1"],
+  },
+  {
+    id: "obj-2",
+    title: "Respiration",
+    description: "Explain how cells release energy",
+    difficulty: "medium",
+    sectionIds: [],
+    documentIds: ["doc-1"],
+  },
+];
+
+const parsedDocument = DocumentStructureAnalyzer.analyze(
+  [{ pageNumber: 1, text: "Introduction\nCells are the basic unit of life." }],
+  { title: "Cells", document: { id: "doc-1", name: "cells.pdf" } }
+);
+
+describe("PlanEditor", () => {
+  describe("parseResume", () => {
+    it("should accept plain approvals and rejections", () => {
+      expect(PlanEditor.parseResume(true)).toEqual({ approved: true });
+      expect(PlanEditor.parseResume("false")).toEqual({ approved: false });
+    });
+
+    it("should accept an edited plan with only titles for unchanged fields", () => {
+      const resume = PlanEditor.parseResume({
+        approved: true,
+        plan: [{ id: "obj-2", title: "Cellular respiration" }, { title: "Photosynthesis" }],
+      });
+
+      expect(resume.plan).toHaveLength(2);
+    });
+
+    it("should reject malformed plans", () => {
+      expect(() => PlanEditor.parseResume({ approved: true, plan: [] })).toThrow(ValidationError);
+      expect(() => PlanEditor.parseResume({ approved: true, plan: [{ title: "  " }] })).toThrow(
+        ValidationError
+      );
+      expect(() =>
+        PlanEditor.parseResume({
+          approved: true,
+          plan: [{ title: "Cells", difficulty: "trivial" }],
+        })
+      ).toThrow(ValidationError);
+      expect(() => PlanEditor.parseResume("yes")).toThrow(ValidationError);
+    });
+
+    it("should reject plans listing an objective twice", () => {
+      expect(() =>
+        PlanEditor.parseResume({
+          approved: true,
+          plan: [
+            { id: "obj-1", title: "Cells" },
+            { id: "obj-1", title: "Cells again" },
+          ],
+        })
+      ).toThrow("only appear once");
+    });
+
+    it("should accept feedback only as a revision request with revisions left", () => {
+      expect(
+        PlanEditor.parseResume({ approved: false, feedback: "More focus on chapter 3" }, 1)
+      ).toEqual({ approved: false, feedback: "More focus on chapter 3" });
+      expect(() =>
+        PlanEditor.parseResume({ approved: true, feedback: "Fewer objectives" }, 1)
+      ).toThrow(ValidationError);
+      expect(() =>
+        PlanEditor.parseResume({ approved: false, feedback: "Fewer objectives" }, 0)
+      ).toThrow("No plan revisions left");
+    });
+  });
+
+  describe("revisionsLeft", () => {
+    it("should count down from the configured maximum without going negative", () => {
+      expect(PlanEditor.revisionsLeft(0)).toBe(CONFIG.LEARNING.MAX_PLAN_REVISIONS);
+      expect(PlanEditor.revisionsLeft(CONFIG.LEARNING.MAX_PLAN_REVISIONS + 1)).toBe(0);
+    });
+  });
+
+  describe("apply", () => {
+    it("should reorder, rename, re-level and delete objectives while keeping their IDs", () => {
+      const plan = PlanEditor.apply(
+        original,
+        [{ id: "obj-2", title: "Cellular respiration", difficulty: "hard" }],
+        [],
+        parsedDocument
+      );
+
+      expect(plan).toEqual([
+        {
+          id: "obj-2",
+          title: "Cellular respiration",
+          description: "Explain how cells release energy",
+          difficulty: "hard",
+          sectionIds: [],
+          documentIds: ["doc-1"],
+        },
+      ]);
+    });
+
+    it("should fill in new objectives from the drafts and give them fresh IDs", () => {
+      const plan = PlanEditor.apply(
+        original,
+        [
+          { title: "Photosynthesis" },
+          { id: "obj-1", title: "Cell structure" },
+          { title: "Mitosis", difficulty: "hard" },
+        ],
+        [
+          {
+            description: "Describe how plants make sugar",
+            difficulty: "medium",
+            sectionIds: ["sec-1", "sec-99"],
+            documentIds: [],
+          },
+        ],
+        parsedDocument
+      );
+
+      expect(plan.map((o) => o.id)).toEqual(["obj-3", "obj-1", "obj-4"]);
+      expect(plan[0]).toMatchObject({
+        description: "Describe how plants make sugar",
+        sectionIds: ["sec-1"],
+        documentIds: ["doc-1"],
+      });
+      // No draft came back for the second new objective, so it falls back to its title
+      expect(plan[2]).toMatchObject({
+        description: "Mitosis",
+        difficulty: "hard",
+        documentIds: ["doc-1"],
+      });
+    });
+  });
+});
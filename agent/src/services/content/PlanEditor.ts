@@ -0,0 +1,144 @@
+import {
+  LearningObjectiveSchema,
+  PlanApprovalResumeSchema,
+  type LearningObjective,
+  type ObjectiveDraft,
+  type ParsedDocument,
+  type PlanApprovalResume,
+  type PlanEditObjective,
+} from "../../schemas/index.js";
+import { CONFIG } from "../../config.js";
+import { ValidationError } from "../../utils/errors.js";
+
+/**
+ * Service for the learner's response to the learning plan at the approval step:
+ * edits (reordering, deleting, renaming, re-levelling and adding objectives)
+ * or feedback for a regenerated plan.
+ */
+export class PlanEditor {
+  /**
+   * Parse the plan approval resume value.
+   * A plain boolean (or "true"/"false") approves or rejects the plan as generated;
+   * a rejection with feedback asks for a revised plan.
+   * @param value - The resume value sent by the client
+   * @param revisionsLeft - How many more times the plan may be regenerated
+   * @returns The decision, with the edited plan or revision feedback if there is one
+   * @throws ValidationError if the value is not a valid decision, plan or revision request
+   */
+  static parseResume(value: unknown, revisionsLeft = Infinity): PlanApprovalResume {
+    if (typeof value === "boolean") return { approved: value };
+    if (value === "true" || value === "false") return { approved: value === "true" };
+
+    const result = PlanApprovalResumeSchema.safeParse(value);
+    if (!result.success) {
+      throw new ValidationError("Invalid plan approval", result.error.flatten());
+    }
+
+    const { approved, plan, feedback } = result.data;
+    if (feedback !== undefined && (approved || plan)) {
+      throw new ValidationError("Feedback can only be sent to ask for a revised plan");
+    }
+    if (feedback !== undefined && revisionsLeft <= 0) {
+      throw new ValidationError("No plan revisions left. Please approve or reject the plan");
+    }
+
+    if (plan && plan.length > CONFIG.LEARNING.MAX_EDITED_OBJECTIVES) {
+      throw new ValidationError(
+        `A learning plan can have at most ${CONFIG.LEARNING.MAX_EDITED_OBJECTIVES} objectives`
+      );
+    }
+
+    const ids = (plan ?? []).map((objective) => objective.id).filter(Boolean);
+    if (new Set(ids).size < ids.length) {
+      throw new ValidationError("Each objective can only appear once in the plan");
+    }
+
+    return result.data;
+  }
+
+  /**
+   * How many more times the plan may be regenerated with feedback.
+   * @param revisionCount - Revisions made so far
+   * @returns The number of revisions left
+   */
+  static revisionsLeft(revisionCount: number): number {
+    return Math.max(0, CONFIG.LEARNING.MAX_PLAN_REVISIONS - revisionCount);
+  }
+
+  /**
+   * Check whether an edited objective was added by the learner rather than generated.
+   * @param objective - An objective from the edited plan
+   * @param original - The plan as generated
+   * @returns True if the objective needs its details filled in
+   */
+  static isNew(objective: PlanEditObjective, original: LearningObjective[]): boolean {
+    return !objective.id || !original.some((o) => o.id === objective.id);
+  }
+
+  /**
+   * Apply the learner's edits to the generated plan.
+   * Edited fields override the generated ones; objectives keep their IDs so
+   * questions stay linked, and new objectives get the next free ID.
+   * @param original - The plan as generated
+   * @param edits - The edited plan, in the learner's order
+   * @param drafts - Generated details for the new objectives, in the order they appear
+   * @param parsedDocument - The document, to drop section and document IDs it does not have
+   * @returns The approved plan
+   */
+  static apply(
+    original: LearningObjective[],
+    edits: PlanEditObjective[],
+    drafts: ObjectiveDraft[],
+    parsedDocument: ParsedDocument | null
+  ): LearningObjective[] {
+    const sectionDocuments = new Map(
+      parsedDocument?.sections.map((s) => [s.id, s.documentId] as const) ?? []
+    );
+    const documents = parsedDocument?.documents ?? [];
+    const knownDocumentIds = new Set(documents.map((d) => d.id));
+
+    let nextId = Math.max(0, ...original.map((o) => Number(o.id.match(/(\d+)$/)?.[1] ?? 0))) + 1;
+    let draftIdx = 0;
+
+    return edits.map((edit) => {
+      const base: LearningObjective = this.isNew(edit, original)
+        ? {
+            ...this.fallbackDraft(edit),
+            ...drafts[draftIdx++],
+            id: `obj-${nextId++}`,
+            title: edit.title,
+          }
+        : original.find((o) => o.id === edit.id)!;
+
+      const sectionIds = (edit.sectionIds ?? base.sectionIds).filter((id) =>
+        sectionDocuments.has(id)
+      );
+      const documentIds = [
+        ...(edit.documentIds ?? base.documentIds).filter((id) => knownDocumentIds.has(id)),
+        ...sectionIds.map((id) => sectionDocuments.get(id)!),
+      ].filter((id, i, all) => all.indexOf(id) === i);
+
+      return LearningObjectiveSchema.parse({
+        id: base.id,
+        title: edit.title,
+        description: edit.description?.trim() || base.description,
+        difficulty: edit.difficulty ?? base.difficulty,
+        sectionIds,
+        documentIds:
+          documentIds.length === 0 && documents.length === 1 ? [documents[0].id] : documentIds,
+      });
+    });
+  }
+
+  /**
+   * Details for a new objective when none could be generated.
+   */
+  private static fallbackDraft(edit: PlanEditObjective): ObjectiveDraft {
+    return {
+      description: edit.title,
+      difficulty: "medium",
+      sectionIds: [],
+      documentIds: [],
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { QuestionFinalizer } from "./QuestionFinalizer.js";
+import type { MCQ } from "../../schemas/index.js";
+
+const question: MCQ = {
+  id: "obj-1-q1",
+  objectiveId: "obj-1",
+  documentId: null,
+  type: "single_choice",
+  question: "Which organelle releases energy?",
+  options: ["Nucleus", "Ribosome", "Mitochondria", "Golgi body"],
+  correctAnswer: 2,
+  hint: "A hint",
+  explanation: "An explanation",
+  sourceRefs: [],
+};
+
+describe("QuestionFinalizer", () => {
+  describe("sanitize", () => {
+    it("should reset an out-of-range answer key", () => {
+      expect(QuestionFinalizer.sanitize({ ...question, correctAnswer: 7 })).toMatchObject({
+        correctAnswer: 0,
+      });
+    });
+
+    it("should give each option one misconception label and none on correct options", () => {
+      const sanitized = QuestionFinalizer.sanitize({
+        ...question,
+        misconceptions: ["  Thinks the nucleus powers the cell ", "", "Wrongly labelled"],
+      });
+
+      expect(sanitized).toMatchObject({
+        misconceptions: ["Thinks the nucleus powers the cell", null, null, null],
+      });
+    });
+
+    it("should leave questions without labels unlabelled", () => {
+      expect(QuestionFinalizer.sanitize(question)).not.toHaveProperty("misconceptions");
+    });
+
+    it("should label only the wrong side of a true/false statement", () => {
+      const sanitized = QuestionFinalizer.sanitize({
+        id: "obj-1-q2",
+        objectiveId: "obj-1",
+        documentId: null,
+        type: "true_false",
+        question: "Mitochondria release energy.",
+        correctAnswer: true,
+        hint: "A hint",
+        explanation: "An explanation",
+        sourceRefs: [],
+        misconceptions: ["Right side", "Thinks the opposite"],
+      });
+
+      expect(sanitized).toMatchObject({ misconceptions: [null, "Thinks the opposite"] });
+    });
+  });
+});
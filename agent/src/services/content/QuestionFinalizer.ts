@@ -0,0 +1,129 @@
+import type {
+  DocumentPage,
+  DocumentSpan,
+  LearningObjective,
+  MCQ,
+  QuestionContent,
+} from "../../schemas/index.js";
+import { logAgentDecision } from "../../utils/logger.js";
+import { DocumentStructureAnalyzer } from "./DocumentStructureAnalyzer.js";
+import { SourceRefVerifier } from "./SourceRefVerifier.js";
+
+/**
+ * Service that turns generated question content into quiz questions:
+ * IDs, answer-key repair and verified citations.
+ */
+export class QuestionFinalizer {
+  /**
+   * Add IDs, validate questions and drop citations that are not in the document.
+   * Each question is attributed to the document its first citation is in,
+   * or to the objective's first document when it has no citation.
+   * @param questions - Generated question content
+   * @param objective - The objective the questions test
+   * @param pdfPages - Document pages, to verify citations against
+   * @param documents - Source documents, to attribute questions to
+   * @param agentLabel - Agent name for logging
+   * @param idPrefix - Prefix for question IDs, numbered from 1
+   * @returns The finalized questions
+   */
+  static finalize(
+    questions: QuestionContent[],
+    objective: LearningObjective,
+    pdfPages: DocumentPage[],
+    documents: DocumentSpan[],
+    agentLabel: string,
+    idPrefix = `${objective.id}-q`
+  ): MCQ[] {
+    const finalized = questions.map((q: QuestionContent, idx: number) => {
+      const sourceRefs = SourceRefVerifier.verify(q.sourceRefs ?? [], pdfPages);
+      const citedDocument = sourceRefs[0]
+        ? DocumentStructureAnalyzer.documentForPage(documents, sourceRefs[0].page)
+        : null;
+
+      return this.sanitize({
+        ...q,
+        id: `${idPrefix}${idx + 1}`,
+        objectiveId: objective.id,
+        documentId: citedDocument?.id ?? objective.documentIds?.[0] ?? null,
+        sourceRefs,
+      });
+    });
+
+    const unsupported = finalized.filter((q) => q.sourceRefs.length === 0);
+    if (unsupported.length > 0) {
+      logAgentDecision(agentLabel, "Some questions have no verifiable page citation", {
+        questionIds: unsupported.map((q) => q.id),
+      });
+    }
+
+    return finalized;
+  }
+
+  /**
+   * Repair out-of-range answer keys so every question is answerable,
+   * and line misconception labels up with the options.
+   * @param question - A question as generated
+   * @returns The question with a usable answer key
+   */
+  static sanitize(question: MCQ): MCQ {
+    switch (question.type) {
+      case "single_choice": {
+        const correctAnswer =
+          question.correctAnswer < 0 || question.correctAnswer >= question.options.length
+            ? 0
+            : question.correctAnswer;
+        return {
+          ...question,
+          correctAnswer,
+          ...this.alignMisconceptions(question.misconceptions, question.options.length, [
+            correctAnswer,
+          ]),
+        };
+      }
+      case "multi_select": {
+        const valid = [...new Set(question.correctAnswers)]
+          .filter((idx) => idx >= 0 && idx < question.options.length)
+          .sort((a, b) => a - b);
+        const correctAnswers = valid.length > 0 ? valid : [0];
+        return {
+          ...question,
+          correctAnswers,
+          ...this.alignMisconceptions(
+            question.misconceptions,
+            question.options.length,
+            correctAnswers
+          ),
+        };
+      }
+      case "fill_blank": {
+        const answers = question.acceptableAnswers.map((a) => a.trim()).filter(Boolean);
+        return answers.length > 0 ? { ...question, acceptableAnswers: answers } : question;
+      }
+      case "true_false":
+        return {
+          ...question,
+          ...this.alignMisconceptions(question.misconceptions, 2, [question.correctAnswer ? 0 : 1]),
+        };
+    }
+  }
+
+  /**
+   * Give each option one misconception label: blank labels and labels on
+   * correct options become null, and the list is padded or cut to the options.
+   * Questions generated without labels are left without them.
+   */
+  private static alignMisconceptions(
+    labels: (string | null)[] | undefined,
+    optionCount: number,
+    correctIndexes: number[]
+  ): { misconceptions?: (string | null)[] } {
+    if (!labels) return {};
+
+    return {
+      misconceptions: Array.from({ length: optionCount }, (_, idx) => {
+        const label = labels[idx]?.trim();
+        return label && !correctIndexes.includes(idx) ? label : null;
+      }),
+    };
+  }
+}
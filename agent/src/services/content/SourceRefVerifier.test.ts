@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { SourceRefVerifier } from "./SourceRefVerifier.js";
+import type { DocumentPage } from "../../schemas/index.js";
+
+const pages: DocumentPage[] = [
+  { pageNumber: 1, text: "Cells are the basic unit of life.\nEvery organism is made of cells." },
+  {
+    pageNumber: 2,
+    text: "The mitochondria produce most of the cell's en-\nergy through respiration.",
+  },
+];
+
+describe("SourceRefVerifier", () => {
+  describe("verify", () => {
+    it("should keep quotes that appear on the cited page", () => {
+      const refs = [{ page: 1, quote: "Cells are the basic unit of life." }];
+
+      expect(SourceRefVerifier.verify(refs, pages)).toEqual(refs);
+    });
+
+    it("should tolerate line breaks, hyphenation and punctuation differences", () => {
+      const refs = [{ page: 2, quote: "produce most of the cell’s energy through respiration" }];
+
+      expect(SourceRefVerifier.verify(refs, pages)).toHaveLength(1);
+    });
+
+    it("should move quotes to the page they actually appear on", () => {
+      const refs = [{ page: 2, quote: "Every organism is made of cells" }];
+
+      expect(SourceRefVerifier.verify(refs, pages)).toEqual([
+        { page: 1, quote: "Every organism is made of cells" },
+      ]);
+    });
+
+    it("should drop quotes that are not in the document", () => {
+      const refs = [
+        { page: 1, quote: "Ribosomes synthesize proteins" },
+        { page: 1, quote: "   " },
+      ];
+
+      expect(SourceRefVerifier.verify(refs, pages)).toEqual([]);
+    });
+
+    it("should return references unchanged when no pages are available", () => {
+      const refs = [{ page: 3, quote: "Anything" }];
+
+      expect(SourceRefVerifier.verify(refs, [])).toEqual(refs);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import type { DocumentPage, SourceRef } from "../../schemas/index.js";
+
+/**
+ * Service for checking that generated citations really appear in the document.
+ * Models occasionally paraphrase "quotes" or cite the wrong page, so every
+ * reference is matched against the extracted page text before it is shown.
+ */
+export class SourceRefVerifier {
+  /**
+   * Keep only references whose quote appears in the document.
+   * A quote found on a different page than cited is moved to the page it is on.
+   * @param refs - The references produced by the model
+   * @param pages - The extracted document pages
+   * @returns The verified references (unchanged if no page text is available)
+   */
+  static verify(refs: SourceRef[], pages: DocumentPage[]): SourceRef[] {
+    if (pages.length === 0) return refs;
+
+    const normalizedPages = pages.map((page) => ({
+      pageNumber: page.pageNumber,
+      text: this.normalize(page.text),
+    }));
+
+    const verified: SourceRef[] = [];
+    for (const ref of refs) {
+      const quote = this.normalize(ref.quote);
+      if (!quote) continue;
+
+      const cited = normalizedPages.find((page) => page.pageNumber === ref.page);
+      const found = cited?.text.includes(quote)
+        ? cited
+        : normalizedPages.find((page) => page.text.includes(quote));
+
+      if (found && !verified.some((v) => v.page === found.pageNumber && v.quote === ref.quote)) {
+        verified.push({ page: found.pageNumber, quote: ref.quote.trim() });
+      }
+    }
+
+    return verified;
+  }
+
+  /**
+   * Normalize text for quote matching: rejoins words hyphenated across lines,
+   * ignores case, punctuation, typographic quotes and line breaks.
+   * @param text - The text to normalize
+   * @returns The normalized text
+   */
+  static normalize(text: string): string {
+    return text
+      .replace(/(\w)-\s*\n\s*(\w)/g, "$1$2")
+      .toLowerCase()
+      .replace(/[“”‘’"'`]/g, "")
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+}
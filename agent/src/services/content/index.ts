@@ -1 +1,5 @@
 export { ContentProcessor, type TruncationResult } from "./ContentProcessor.js";
+export { SourceRefVerifier } from "./SourceRefVerifier.js";
+export { DocumentStructureAnalyzer } from "./DocumentStructureAnalyzer.js";
+export { PlanEditor } from "./PlanEditor.js";
+export { QuestionFinalizer } from "./QuestionFinalizer.js";
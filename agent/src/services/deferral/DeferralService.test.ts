@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { DeferralService } from "./DeferralService.js";
+import type { MCQ } from "../../schemas/index.js";
+
+const createMockMCQ = (id: string, objectiveId: string): MCQ => ({
+  id,
+  objectiveId,
+  documentId: null,
+  type: "single_choice",
+  question: `Question ${id}`,
+  options: ["A", "B", "C", "D"],
+  correctAnswer: 0,
+  hint: "A hint",
+  explanation: "An explanation",
+  sourceRefs: [],
+});
+
+const mcqs = [
+  createMockMCQ("obj-1-q1", "obj-1"),
+  createMockMCQ("obj-1-q2", "obj-1"),
+  createMockMCQ("obj-1-q3", "obj-1"),
+  createMockMCQ("obj-2-q1", "obj-2"),
+];
+
+describe("DeferralService", () => {
+  describe("parseCommand", () => {
+    it("should read a skip command and ignore answers", () => {
+      expect(DeferralService.parseCommand({ action: "skip" })).toEqual({ action: "skip" });
+      expect(DeferralService.parseCommand({ action: "pause" })).toBeNull();
+      expect(DeferralService.parseCommand(2)).toBeNull();
+      expect(DeferralService.parseCommand("skip")).toBeNull();
+    });
+  });
+
+  describe("canSkip", () => {
+    it("should let each question be skipped only once", () => {
+      expect(DeferralService.canSkip("obj-1-q1", [])).toBe(true);
+      expect(DeferralService.canSkip("obj-1-q1", ["obj-1-q1"])).toBe(false);
+    });
+  });
+
+  describe("pending", () => {
+    it("should list the objective's unanswered skipped questions in the order they were skipped", () => {
+      const pending = DeferralService.pending("obj-1", mcqs, ["obj-1-q3", "obj-1-q1", "obj-2-q1"], {
+        "obj-1-q2": 0,
+      });
+
+      expect(pending).toEqual([2, 0]);
+    });
+
+    it("should drop skipped questions once they are answered correctly", () => {
+      expect(
+        DeferralService.pending("obj-1", mcqs, ["obj-1-q1", "obj-1-q3"], {
+          "obj-1-q1": 0,
+          "obj-1-q3": 1,
+        })
+      ).toEqual([2]);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  QuizCommandSchema,
+  type MCQ,
+  type QuestionAnswer,
+  type QuizCommand,
+} from "../../schemas/index.js";
+import { AnswerGrader } from "../scoring/AnswerGrader.js";
+
+/**
+ * Service for skipped questions: each question can be put aside once, and the
+ * skipped questions are served again before their objective ends.
+ */
+export class DeferralService {
+  /**
+   * Read a quiz command from a resume value.
+   * @param raw - The raw value from the interrupt resume
+   * @returns The command, or null if the value is an answer
+   */
+  static parseCommand(raw: unknown): QuizCommand | null {
+    const result = QuizCommandSchema.safeParse(raw);
+    return result.success ? result.data : null;
+  }
+
+  /**
+   * Check whether a question can still be skipped.
+   * @param questionId - The question
+   * @param deferredQuestionIds - Questions skipped so far
+   * @returns False once the question has been skipped, so it has to be answered when it comes back
+   */
+  static canSkip(questionId: string, deferredQuestionIds: string[]): boolean {
+    return !deferredQuestionIds.includes(questionId);
+  }
+
+  /**
+   * Get the indexes of an objective's skipped questions that are still unanswered.
+   * @param objectiveId - The objective
+   * @param mcqs - All questions so far
+   * @param deferredQuestionIds - Questions skipped so far, in the order they were skipped
+   * @param userAnswers - Correct answers keyed by question ID
+   * @returns Question indexes, in the order the questions were skipped
+   */
+  static pending(
+    objectiveId: string,
+    mcqs: MCQ[],
+    deferredQuestionIds: string[],
+    userAnswers: Record<string, QuestionAnswer>
+  ): number[] {
+    return deferredQuestionIds
+      .map((id) => mcqs.findIndex((q) => q.id === id))
+      .filter(
+        (idx) =>
+          idx >= 0 &&
+          mcqs[idx].objectiveId === objectiveId &&
+          !AnswerGrader.isCorrect(mcqs[idx], userAnswers[mcqs[idx].id])
+      );
+  }
+}
@@ -0,0 +1 @@
+export { DeferralService } from "./DeferralService.js";
@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import { ExamService } from "./ExamService.js";
+import { SessionSettingsService } from "../workflow/SessionSettingsService.js";
+import { CONFIG } from "../../config.js";
+import type { LearningObjective, MCQ } from "../../schemas/index.js";
+
+const exam = {
+  ...SessionSettingsService.defaults(),
+  mode: "exam" as const,
+  questionTimeLimitSeconds: 60,
+  examTimeLimitMinutes: 10,
+};
+
+const objectives: LearningObjective[] = [
+  {
+    id: "obj-1",
+    title: "Cell structure",
+    description: "Name the parts of a cell",
+    difficulty: "easy",
+    sectionIds: [],
+    documentIds: [],
+  },
+];
+
+const mcqs: MCQ[] = [
+  {
+    id: "obj-1-q1",
+    objectiveId: "obj-1",
+    documentId: null,
+    type: "single_choice",
+    question: "Which organelle releases energy?",
+    options: ["Nucleus", "Ribosome", "Mitochondria", "Golgi body"],
+    correctAnswer: 2,
+    hint: "A hint",
+    explanation: "Mitochondria run cellular respiration.",
+    sourceRefs: [],
+  },
+  {
+    id: "obj-1-q2",
+    objectiveId: "obj-1",
+    documentId: null,
+    type: "true_false",
+    question: "Plant cells have a cell wall.",
+    correctAnswer: true,
+    hint: "A hint",
+    explanation: "The wall gives plant cells their shape.",
+    sourceRefs: [],
+  },
+];
+
+describe("ExamService", () => {
+  describe("isExam", () => {
+    it("should only be true in exam mode", () => {
+      expect(ExamService.isExam(exam)).toBe(true);
+      expect(ExamService.isExam(SessionSettingsService.defaults())).toBe(false);
+      expect(ExamService.isExam(null)).toBe(false);
+    });
+  });
+
+  describe("isInProgress", () => {
+    it("should cover the quiz phase of an unfinished exam", () => {
+      expect(ExamService.isInProgress({ settings: exam, currentPhase: "quiz" })).toBe(true);
+      expect(ExamService.isInProgress({ settings: exam, currentPhase: "approval" })).toBe(false);
+      expect(
+        ExamService.isInProgress({ settings: exam, currentPhase: "quiz", sessionComplete: true })
+      ).toBe(false);
+      expect(
+        ExamService.isInProgress({
+          settings: SessionSettingsService.defaults(),
+          currentPhase: "quiz",
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe("deadlines", () => {
+    it("should add the time limits to the start times", () => {
+      expect(
+        ExamService.deadlines(exam, "2026-01-01T10:00:00.000Z", "2026-01-01T10:02:00.000Z")
+      ).toEqual({
+        questionDeadline: "2026-01-01T10:03:00.000Z",
+        examDeadline: "2026-01-01T10:10:00.000Z",
+      });
+    });
+
+    it("should not let a question outlast the exam", () => {
+      expect(
+        ExamService.deadlines(exam, "2026-01-01T10:00:00.000Z", "2026-01-01T10:09:30.000Z")
+          .questionDeadline
+      ).toBe("2026-01-01T10:10:00.000Z");
+    });
+
+    it("should leave deadlines out when there is no limit", () => {
+      expect(
+        ExamService.deadlines(
+          { ...exam, questionTimeLimitSeconds: null, examTimeLimitMinutes: null },
+          "2026-01-01T10:00:00.000Z",
+          "2026-01-01T10:02:00.000Z"
+        )
+      ).toEqual({ questionDeadline: null, examDeadline: null });
+    });
+  });
+
+  describe("timing", () => {
+    const deadlines = {
+      questionDeadline: "2026-01-01T10:03:00.000Z",
+      examDeadline: "2026-01-01T10:10:00.000Z",
+    };
+    const after = (deadline: string, seconds: number) =>
+      new Date(Date.parse(deadline) + seconds * 1000);
+
+    it("should accept answers within the grace period", () => {
+      expect(
+        ExamService.timing(deadlines, after(deadlines.questionDeadline, CONFIG.EXAM.GRACE_SECONDS))
+      ).toBe("on_time");
+    });
+
+    it("should reject answers after the question or exam deadline", () => {
+      expect(
+        ExamService.timing(
+          deadlines,
+          after(deadlines.questionDeadline, CONFIG.EXAM.GRACE_SECONDS + 1)
+        )
+      ).toBe("question_expired");
+      expect(
+        ExamService.timing(deadlines, after(deadlines.examDeadline, CONFIG.EXAM.GRACE_SECONDS + 1))
+      ).toBe("exam_expired");
+    });
+
+    it("should accept any time without deadlines", () => {
+      expect(ExamService.timing({ questionDeadline: null, examDeadline: null })).toBe("on_time");
+    });
+  });
+
+  describe("review", () => {
+    it("should list every question with the answer given and the correct one", () => {
+      const review = ExamService.review(mcqs, { "obj-1-q1": 0 }, objectives);
+
+      expect(review).toEqual([
+        {
+          questionId: "obj-1-q1",
+          objectiveTitle: "Cell structure",
+          question: "Which organelle releases energy?",
+          yourAnswer: "A) Nucleus",
+          correctAnswers: ["Mitochondria"],
+          isCorrect: false,
+          explanation: "Mitochondria run cellular respiration.",
+        },
+        {
+          questionId: "obj-1-q2",
+          objectiveTitle: "Cell structure",
+          question: "Plant cells have a cell wall.",
+          yourAnswer: null,
+          correctAnswers: ["True"],
+          isCorrect: false,
+          explanation: "The wall gives plant cells their shape.",
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import type {
+  LearningObjective,
+  MCQ,
+  QuestionAnswer,
+  SessionSettings,
+} from "../../schemas/index.js";
+import { CONFIG } from "../../config.js";
+import { AnswerGrader } from "../scoring/AnswerGrader.js";
+
+/**
+ * When the current question and the exam stop accepting answers (ISO times, null for no limit).
+ */
+export interface ExamDeadlines {
+  questionDeadline: string | null;
+  examDeadline: string | null;
+}
+
+/**
+ * Whether an answer came in on time, after its question's deadline or after the exam ended.
+ */
+export type ExamTiming = "on_time" | "question_expired" | "exam_expired";
+
+/**
+ * One exam question with the learner's answer and the correct one, for the end-of-exam review.
+ */
+export interface ExamReviewItem {
+  questionId: string;
+  objectiveTitle: string;
+  question: string;
+  /** The learner's answer, or null if the question was skipped, timed out or never reached */
+  yourAnswer: string | null;
+  correctAnswers: string[];
+  isCorrect: boolean;
+  explanation: string;
+}
+
+/**
+ * Service for timed exam mode: one attempt per question with no hints or feedback,
+ * optional time limits enforced on the server, and a full answer review at the end.
+ */
+export class ExamService {
+  /**
+   * Check whether a session runs as an exam.
+   * @param settings - The session settings
+   * @returns True in exam mode
+   */
+  static isExam(settings: SessionSettings | null | undefined): boolean {
+    return settings?.mode === "exam";
+  }
+
+  /**
+   * Check whether an exam is being taken, so help with the questions must be refused.
+   * @param state - The session's settings, phase and completion
+   * @returns True from the first exam question until the summary
+   */
+  static isInProgress(state: {
+    settings?: SessionSettings | null;
+    currentPhase?: string;
+    sessionComplete?: boolean;
+  }): boolean {
+    return this.isExam(state.settings) && state.currentPhase === "quiz" && !state.sessionComplete;
+  }
+
+  /**
+   * Work out the deadlines for a question from when it and the exam were first served.
+   * A question never outlasts the exam.
+   * @param settings - The session settings with the time limits
+   * @param examStartedAt - When the first question was served
+   * @param questionStartedAt - When this question was served
+   * @returns The question and exam deadlines
+   */
+  static deadlines(
+    settings: SessionSettings,
+    examStartedAt: string | null,
+    questionStartedAt: string | null
+  ): ExamDeadlines {
+    const examDeadline =
+      settings.examTimeLimitMinutes && examStartedAt
+        ? new Date(Date.parse(examStartedAt) + settings.examTimeLimitMinutes * 60_000)
+        : null;
+    const questionDeadline =
+      settings.questionTimeLimitSeconds && questionStartedAt
+        ? new Date(Date.parse(questionStartedAt) + settings.questionTimeLimitSeconds * 1000)
+        : null;
+
+    const earliest =
+      questionDeadline && examDeadline && examDeadline < questionDeadline
+        ? examDeadline
+        : (questionDeadline ?? examDeadline);
+
+    return {
+      questionDeadline: earliest?.toISOString() ?? null,
+      examDeadline: examDeadline?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Check an answer's arrival against the deadlines, allowing CONFIG.EXAM.GRACE_SECONDS
+   * for the round trip.
+   * @param deadlines - The question's deadlines
+   * @param now - When the answer arrived
+   * @returns Whether the answer counts
+   */
+  static timing(deadlines: ExamDeadlines, now: Date = new Date()): ExamTiming {
+    const late = (deadline: string | null) =>
+      deadline !== null && now.getTime() > Date.parse(deadline) + CONFIG.EXAM.GRACE_SECONDS * 1000;
+
+    if (late(deadlines.examDeadline)) return "exam_expired";
+    if (late(deadlines.questionDeadline)) return "question_expired";
+    return "on_time";
+  }
+
+  /**
+   * Build the answer review shown when the exam ends.
+   * @param mcqs - The exam questions
+   * @param examAnswers - The answer given to each question, null if none counted
+   * @param objectives - The learning objectives, for titles
+   * @returns Every question in order, with the learner's answer and the correct one
+   */
+  static review(
+    mcqs: MCQ[],
+    examAnswers: Record<string, QuestionAnswer | null>,
+    objectives: LearningObjective[]
+  ): ExamReviewItem[] {
+    return mcqs.map((question) => {
+      const answer = examAnswers[question.id] ?? null;
+      return {
+        questionId: question.id,
+        objectiveTitle: objectives.find((o) => o.id === question.objectiveId)?.title ?? "",
+        question: question.question,
+        yourAnswer: answer === null ? null : AnswerGrader.describeAnswer(question, answer),
+        correctAnswers: AnswerGrader.getCorrectAnswerTexts(question),
+        isCorrect: answer !== null && AnswerGrader.isCorrect(question, answer),
+        explanation: question.explanation,
+      };
+    });
+  }
+}
@@ -0,0 +1,6 @@
+export {
+  ExamService,
+  type ExamDeadlines,
+  type ExamTiming,
+  type ExamReviewItem,
+} from "./ExamService.js";
@@ -0,0 +1,57 @@
+import JSZip from "jszip";
+import type { DocumentExtractor, ExtractedDocument } from "./types.js";
+import { blocksToDocument, decodeEntities, isZip, type TextBlock } from "./blocks.js";
+
+/**
+ * Extracts text from Word documents (including Google Docs "Download as .docx" exports).
+ * Paragraph styles named "Title" or "Heading N" become headings.
+ */
+export class DocxExtractor implements DocumentExtractor {
+  readonly id = "docx";
+  readonly label = "Word document";
+  readonly mimeTypes = ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"];
+  readonly extensions = [".docx"];
+  readonly hasSignature = true;
+
+  sniff(buffer: Buffer): boolean {
+    // Entry names are stored uncompressed, so the main part's name is visible in the archive
+    return isZip(buffer) && buffer.includes("word/document.xml");
+  }
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const zip = await JSZip.loadAsync(buffer);
+    const xml = await zip.file("word/document.xml")?.async("string");
+    if (!xml) {
+      throw new Error("Word document is missing word/document.xml");
+    }
+
+    const blocks: TextBlock[] = [];
+    for (const [paragraph] of xml.matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g)) {
+      const text = DocxExtractor.paragraphText(paragraph);
+      if (!text.trim()) continue;
+
+      const style = paragraph.match(/<w:pStyle\s+w:val="([^"]+)"/)?.[1] ?? "";
+      const headingLevel = /^title$/i.test(style)
+        ? 1
+        : Number(style.match(/^heading\s*(\d)$/i)?.[1]) || undefined;
+
+      blocks.push({ text, headingLevel });
+    }
+
+    const coreXml = await zip.file("docProps/core.xml")?.async("string");
+    const title = coreXml?.match(/<dc:title>([^<]*)<\/dc:title>/)?.[1];
+
+    return blocksToDocument(blocks, title ? decodeEntities(title).trim() || undefined : undefined);
+  }
+
+  /**
+   * Join the text runs of a paragraph; tabs become spaces.
+   */
+  private static paragraphText(paragraph: string): string {
+    let text = "";
+    for (const match of paragraph.matchAll(/<w:(t|tab|br)\b[^>]*?(?:\/>|>([^<]*)<\/w:t>)/g)) {
+      text += match[1] === "t" ? decodeEntities(match[2] ?? "") : " ";
+    }
+    return text;
+  }
+}
@@ -0,0 +1,66 @@
+import path from "path";
+import JSZip from "jszip";
+import type { DocumentExtractor, ExtractedDocument } from "./types.js";
+import { blocksToDocument, decodeEntities, htmlToBlocks, isZip, type TextBlock } from "./blocks.js";
+
+/**
+ * Read an attribute from a single XML tag.
+ */
+function attribute(tag: string, name: string): string | undefined {
+  return tag.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`))?.[1];
+}
+
+/**
+ * Extracts text from EPUB books, chapter by chapter in spine (reading) order.
+ * Each chapter starts on a new page.
+ */
+export class EpubExtractor implements DocumentExtractor {
+  readonly id = "epub";
+  readonly label = "EPUB book";
+  readonly mimeTypes = ["application/epub+zip"];
+  readonly extensions = [".epub"];
+  readonly hasSignature = true;
+
+  sniff(buffer: Buffer): boolean {
+    // The spec requires an uncompressed "mimetype" entry first in the archive
+    return isZip(buffer) && buffer.subarray(0, 128).includes("application/epub+zip");
+  }
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const zip = await JSZip.loadAsync(buffer);
+
+    const container = await zip.file("META-INF/container.xml")?.async("string");
+    const opfPath =
+      container && attribute(container.match(/<rootfile\b[^>]*>/)?.[0] ?? "", "full-path");
+    const opf = opfPath ? await zip.file(opfPath)?.async("string") : undefined;
+    if (!opfPath || !opf) {
+      throw new Error("EPUB is missing its package document");
+    }
+
+    const hrefs = new Map<string, string>();
+    for (const [tag] of opf.matchAll(/<item\b[^>]*>/g)) {
+      const id = attribute(tag, "id");
+      const href = attribute(tag, "href");
+      if (id && href) hrefs.set(id, href);
+    }
+
+    const baseDir = path.posix.dirname(opfPath);
+    const blocks: TextBlock[] = [];
+    for (const [tag] of opf.matchAll(/<itemref\b[^>]*>/g)) {
+      const href = hrefs.get(attribute(tag, "idref") ?? "");
+      if (!href) continue;
+
+      const chapterPath = path.posix.normalize(path.posix.join(baseDir, decodeURIComponent(href)));
+      const html = await zip.file(chapterPath)?.async("string");
+      if (!html) continue;
+
+      htmlToBlocks(html).forEach((block, idx) =>
+        blocks.push(idx === 0 ? { ...block, pageBreakBefore: true } : block)
+      );
+    }
+
+    const title = opf.match(/<dc:title\b[^>]*>([^<]*)<\/dc:title>/)?.[1];
+
+    return blocksToDocument(blocks, title ? decodeEntities(title).trim() || undefined : undefined);
+  }
+}
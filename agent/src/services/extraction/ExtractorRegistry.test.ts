@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { ExtractorRegistry } from "./ExtractorRegistry.js";
+
+const pdf = Buffer.from("%PDF-1.4\n%âãÏÓ\n1 0 obj\n<<>>\nendobj\n");
+const markdown = Buffer.from("# Cells\n\nCells are the basic unit of life.\n");
+const binary = Buffer.from([0x00, 0x01, 0x02, 0x03, 0x00]);
+
+async function buildDocx(): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file("[Content_Types].xml", "<Types/>");
+  zip.file("word/document.xml", "<w:document><w:body></w:body></w:document>");
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+describe("ExtractorRegistry", () => {
+  describe("resolve", () => {
+    it("should identify binary formats from magic bytes whatever the client claims", async () => {
+      expect(ExtractorRegistry.resolve(pdf, { mimeType: "text/plain" })?.id).toBe("pdf");
+      expect(ExtractorRegistry.resolve(await buildDocx(), { filename: "notes.bin" })?.id).toBe(
+        "docx"
+      );
+    });
+
+    it("should use the extension, then the MIME type, for text formats", () => {
+      expect(
+        ExtractorRegistry.resolve(markdown, { filename: "cells.md", mimeType: "text/plain" })?.id
+      ).toBe("markdown");
+      expect(ExtractorRegistry.resolve(markdown, { mimeType: "text/html" })?.id).toBe("html");
+    });
+
+    it("should reject files whose content does not match the claimed format", () => {
+      expect(ExtractorRegistry.resolve(markdown, { filename: "cells.pdf" })).toBeNull();
+      expect(ExtractorRegistry.resolve(binary, { filename: "cells.md" })).toBeNull();
+    });
+
+    it("should read unclaimed text as plain text", () => {
+      expect(ExtractorRegistry.resolve(markdown, { filename: "cells" })?.id).toBe("text");
+      expect(ExtractorRegistry.resolve(binary)).toBeNull();
+    });
+  });
+
+  describe("isSupported", () => {
+    it("should accept known MIME types or extensions", () => {
+      expect(ExtractorRegistry.isSupported({ mimeType: "application/epub+zip" })).toBe(true);
+      expect(
+        ExtractorRegistry.isSupported({ mimeType: "application/octet-stream", filename: "a.EPUB" })
+      ).toBe(true);
+      expect(ExtractorRegistry.isSupported({ mimeType: "image/png", filename: "a.png" })).toBe(
+        false
+      );
+    });
+  });
+
+  describe("storageExtension", () => {
+    it("should keep known extensions and derive unknown ones from the MIME type", () => {
+      expect(ExtractorRegistry.storageExtension({ filename: "Notes.MD" })).toBe(".md");
+      expect(
+        ExtractorRegistry.storageExtension({ filename: "notes", mimeType: "text/markdown" })
+      ).toBe(".md");
+      expect(ExtractorRegistry.storageExtension({ filename: "notes.bin" })).toBe(".bin");
+    });
+  });
+});
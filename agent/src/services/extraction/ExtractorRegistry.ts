@@ -0,0 +1,98 @@
+import path from "path";
+import type { DocumentExtractor } from "./types.js";
+import { PdfExtractor } from "./PdfExtractor.js";
+import { DocxExtractor } from "./DocxExtractor.js";
+import { EpubExtractor } from "./EpubExtractor.js";
+import { HtmlExtractor, MarkdownExtractor, PlainTextExtractor } from "./markup.js";
+
+export interface ExtractorHints {
+  /** MIME type reported by the client */
+  mimeType?: string;
+  /** Original or stored file name, used for its extension */
+  filename?: string;
+}
+
+/**
+ * Registry of document extractors, keyed by MIME type, file extension and magic bytes.
+ */
+export class ExtractorRegistry {
+  private static extractors: DocumentExtractor[] = [
+    new PdfExtractor(),
+    new DocxExtractor(),
+    new EpubExtractor(),
+    new HtmlExtractor(),
+    new MarkdownExtractor(),
+    new PlainTextExtractor(),
+  ];
+
+  /**
+   * Register an extractor, replacing any existing one with the same ID.
+   * @param extractor - The extractor to add
+   */
+  static register(extractor: DocumentExtractor): void {
+    this.extractors = [...this.extractors.filter((e) => e.id !== extractor.id), extractor];
+  }
+
+  /**
+   * Get every registered extractor.
+   */
+  static list(): readonly DocumentExtractor[] {
+    return this.extractors;
+  }
+
+  /**
+   * Check whether an upload looks supported before its content is available.
+   * @param hints - The client MIME type and file name
+   * @returns True if an extractor handles the MIME type or extension
+   */
+  static isSupported(hints: ExtractorHints): boolean {
+    const extension = this.extensionOf(hints.filename);
+    return this.extractors.some(
+      (e) => e.mimeTypes.includes(hints.mimeType ?? "") || e.extensions.includes(extension)
+    );
+  }
+
+  /**
+   * Pick the extractor for a file.
+   * Magic bytes win over what the client claims. Otherwise the claimed format (by
+   * extension, then MIME type) is used if the content passes its sniff check, so a file
+   * named .pdf that is not a PDF is rejected. Unclaimed text is read as plain text.
+   * @param buffer - The file content
+   * @param hints - The client MIME type and file name
+   * @returns The extractor, or null if the file is not in a supported format
+   */
+  static resolve(buffer: Buffer, hints: ExtractorHints = {}): DocumentExtractor | null {
+    const bySignature = this.extractors.find((e) => e.hasSignature && e.sniff(buffer));
+    if (bySignature) return bySignature;
+
+    const extension = this.extensionOf(hints.filename);
+    const claimed =
+      this.extractors.find((e) => e.extensions.includes(extension)) ??
+      this.extractors.find((e) => e.mimeTypes.includes(hints.mimeType ?? ""));
+    if (claimed) return claimed.sniff(buffer) ? claimed : null;
+
+    return this.extractors.find((e) => e.id === "text" && e.sniff(buffer)) ?? null;
+  }
+
+  /**
+   * Choose the extension to store an upload under, so the stored file resolves
+   * to the same extractor as the upload. Unknown extensions are replaced by the
+   * extension of the format the MIME type names.
+   * @param hints - The client MIME type and file name
+   * @returns The extension including the dot, or an empty string
+   */
+  static storageExtension(hints: ExtractorHints): string {
+    const extension = this.extensionOf(hints.filename);
+    if (this.extractors.some((e) => e.extensions.includes(extension))) return extension;
+
+    const byMimeType = this.extractors.find((e) => e.mimeTypes.includes(hints.mimeType ?? ""));
+    return byMimeType?.extensions[0] ?? extension;
+  }
+
+  /**
+   * Lowercase extension of a file name, including the dot.
+   */
+  private static extensionOf(filename?: string): string {
+    return filename ? path.extname(filename).toLowerCase() : "";
+  }
+}
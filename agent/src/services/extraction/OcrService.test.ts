@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { OcrService, type OcrResult } from "./OcrService.js";
+
+function words(count: number): string {
+  return Array.from({ length: count }, (_, i) => `word${i}`).join(" ");
+}
+
+function ocrResult(overrides: Partial<OcrResult> = {}): OcrResult {
+  return {
+    text: "",
+    pages: [],
+    confidence: 90,
+    pageCount: 3,
+    recognisedPages: 3,
+    ...overrides,
+  };
+}
+
+describe("OcrService", () => {
+  describe("needsOcr", () => {
+    it("should flag PDFs with too little text overall", () => {
+      expect(OcrService.needsOcr([{ pageNumber: 1, text: words(12) }])).toBe(true);
+    });
+
+    it("should flag PDFs whose pages are mostly empty", () => {
+      const pages = Array.from({ length: 20 }, (_, i) => ({
+        pageNumber: i + 1,
+        text: i === 0 ? words(80) : "",
+      }));
+
+      expect(OcrService.needsOcr(pages)).toBe(true);
+    });
+
+    it("should leave PDFs with a real text layer alone", () => {
+      const pages = [1, 2, 3].map((pageNumber) => ({ pageNumber, text: words(120) }));
+
+      expect(OcrService.needsOcr(pages)).toBe(false);
+    });
+  });
+
+  describe("buildWarnings", () => {
+    it("should report the OCR confidence", () => {
+      expect(OcrService.buildWarnings(ocrResult({ confidence: 91.6 }))).toEqual([
+        "This document looks scanned, so its text was read with OCR (92% confidence).",
+      ]);
+    });
+
+    it("should warn about misreads when confidence is low", () => {
+      const [warning] = OcrService.buildWarnings(ocrResult({ confidence: 41 }));
+
+      expect(warning).toContain("low confidence (41%)");
+      expect(warning).toContain("may be misread");
+    });
+
+    it("should mention pages skipped by the page limit", () => {
+      const warnings = OcrService.buildWarnings(ocrResult({ pageCount: 90, recognisedPages: 40 }));
+
+      expect(warnings[1]).toBe("Only the first 40 of 90 pages were read.");
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { createRequire } from "module";
+import Tesseract from "tesseract.js";
+import { pdf } from "pdf-to-img";
+import { CONFIG } from "../../config.js";
+import type { DocumentPage } from "../../schemas/index.js";
+import { DocumentStructureAnalyzer } from "../content/DocumentStructureAnalyzer.js";
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Shape of the @tesseract.js-data language packages, which ship the trained data
+ * with the install so OCR never downloads anything at runtime.
+ */
+interface LanguageData {
+  code: string;
+  gzip: boolean;
+  langPath: string;
+}
+
+/**
+ * Text recognised from a scanned PDF.
+ */
+export interface OcrResult {
+  text: string;
+  pages: DocumentPage[];
+  /** Mean confidence (0-100), weighting each page by the words recognised on it */
+  confidence: number;
+  /** Pages in the PDF */
+  pageCount: number;
+  /** Pages actually recognised, at most CONFIG.OCR.MAX_PAGES */
+  recognisedPages: number;
+}
+
+/**
+ * Local OCR for scanned PDFs: renders each page to an image and runs Tesseract on it.
+ */
+export class OcrService {
+  /**
+   * Check whether a PDF's text layer is too thin to learn from, as with scanned handouts.
+   * @param pages - Pages from the text extractor
+   * @returns True if the pages should be recognised with OCR instead
+   */
+  static needsOcr(pages: DocumentPage[]): boolean {
+    const wordCount = pages.reduce(
+      (sum, page) => sum + DocumentStructureAnalyzer.countWords(page.text),
+      0
+    );
+
+    return (
+      wordCount < CONFIG.PDF.MIN_WORD_COUNT ||
+      wordCount / Math.max(pages.length, 1) < CONFIG.OCR.MIN_WORDS_PER_PAGE
+    );
+  }
+
+  /**
+   * Rasterize a PDF and recognise the text on each page.
+   * @param buffer - The PDF file content
+   * @returns Page-by-page text with the overall recognition confidence
+   */
+  static async recognizePdf(buffer: Buffer): Promise<OcrResult> {
+    const language = require("@tesseract.js-data/eng") as LanguageData;
+    const document = await pdf(buffer, { scale: CONFIG.OCR.RENDER_SCALE });
+    const worker = await Tesseract.createWorker(language.code, undefined, {
+      langPath: language.langPath,
+      gzip: language.gzip,
+      cacheMethod: "none",
+    });
+
+    const pageCount = document.length;
+    const recognisedPages = Math.min(pageCount, CONFIG.OCR.MAX_PAGES);
+    const pages: DocumentPage[] = [];
+    let weightedConfidence = 0;
+    let wordCount = 0;
+
+    try {
+      for (let pageNumber = 1; pageNumber <= recognisedPages; pageNumber++) {
+        const image = await document.getPage(pageNumber);
+        const { data } = await worker.recognize(image);
+        const text = data.text.trim();
+        const words = DocumentStructureAnalyzer.countWords(text);
+
+        pages.push({ pageNumber, text });
+        weightedConfidence += data.confidence * words;
+        wordCount += words;
+      }
+    } finally {
+      await worker.terminate();
+      await document.destroy();
+    }
+
+    return {
+      text: pages.map((page) => page.text).join("\n\n"),
+      pages,
+      confidence: wordCount > 0 ? weightedConfidence / wordCount : 0,
+      pageCount,
+      recognisedPages,
+    };
+  }
+
+  /**
+   * Build the learner-facing warnings for a document read with OCR.
+   * @param result - The OCR result
+   * @returns Warnings to show alongside the learning plan
+   */
+  static buildWarnings(result: OcrResult): string[] {
+    const confidence = Math.round(result.confidence);
+    const warnings = [
+      confidence < CONFIG.OCR.LOW_CONFIDENCE
+        ? `This document looks scanned, so its text was read with OCR at low confidence (${confidence}%). Some words may be misread; check questions against the original.`
+        : `This document looks scanned, so its text was read with OCR (${confidence}% confidence).`,
+    ];
+
+    if (result.recognisedPages < result.pageCount) {
+      warnings.push(
+        `Only the first ${result.recognisedPages} of ${result.pageCount} pages were read.`
+      );
+    }
+
+    return warnings;
+  }
+}
@@ -0,0 +1,62 @@
+import pdfParse from "pdf-parse";
+import type { DocumentPage } from "../../schemas/index.js";
+import type { DocumentExtractor, ExtractedDocument } from "./types.js";
+
+/**
+ * Minimal view of the pdf.js page object passed to pdf-parse's pagerender hook.
+ */
+interface PdfPageData {
+  pageIndex: number;
+  getTextContent: (options: Record<string, boolean>) => Promise<{
+    items: Array<{ str: string; transform: number[] }>;
+  }>;
+}
+
+/**
+ * Extracts text from PDFs with pdf-parse, keeping page boundaries.
+ */
+export class PdfExtractor implements DocumentExtractor {
+  readonly id = "pdf";
+  readonly label = "PDF";
+  readonly mimeTypes = ["application/pdf"];
+  readonly extensions = [".pdf"];
+  readonly hasSignature = true;
+
+  sniff(buffer: Buffer): boolean {
+    // The header may follow up to 1KB of junk, which readers tolerate
+    return buffer.subarray(0, 1024).includes("%PDF-");
+  }
+
+  /**
+   * Mirrors pdf-parse's default page renderer (new line whenever the text baseline
+   * changes) but also records each page's text so questions can cite page numbers.
+   */
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const pages: DocumentPage[] = [];
+
+    const renderPage = async (pageData: PdfPageData): Promise<string> => {
+      const textContent = await pageData.getTextContent({
+        normalizeWhitespace: false,
+        disableCombineTextItems: false,
+      });
+
+      let lastY: number | undefined;
+      let text = "";
+      for (const item of textContent.items) {
+        const y = item.transform[5];
+        text += lastY === y || lastY === undefined ? item.str : `\n${item.str}`;
+        lastY = y;
+      }
+
+      pages.push({ pageNumber: pageData.pageIndex + 1, text: text.trim() });
+      return text;
+    };
+
+    const pdfData = await pdfParse(buffer, { pagerender: renderPage });
+    pages.sort((a, b) => a.pageNumber - b.pageNumber);
+
+    const title = typeof pdfData.info?.Title === "string" ? pdfData.info.Title : undefined;
+
+    return { text: pdfData.text, pages, title };
+  }
+}
@@ -0,0 +1,184 @@
+import type { DocumentHeading, DocumentPage } from "../../schemas/index.js";
+import type { ExtractedDocument } from "./types.js";
+
+/** Target page length for formats without fixed pages */
+const WORDS_PER_PAGE = 500;
+
+/**
+ * A paragraph or heading in reading order, the common output of the markup extractors.
+ */
+export interface TextBlock {
+  text: string;
+  /** 1-6 for headings */
+  headingLevel?: number;
+  /** Start a new page before this block (e.g. a new EPUB chapter) */
+  pageBreakBefore?: boolean;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+};
+
+/**
+ * Block-level HTML elements that end a line of text.
+ */
+const BLOCK_TAG_PATTERN =
+  /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>|<\/?(?:p|div|br|hr|li|tr|td|th|section|article|blockquote|pre|table|ul|ol|dl|dd|dt|header|footer|aside|figure|figcaption|main)\b[^>]*>/gi;
+
+/**
+ * Decode HTML/XML character references.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value =
+        code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1));
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Remove tags and decode entities from an HTML fragment.
+ */
+export function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Split an HTML document into paragraphs and headings.
+ * Scripts, styles and the document head are dropped.
+ */
+export function htmlToBlocks(html: string): TextBlock[] {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<(script|style|head|svg|nav)\b[\s\S]*?<\/\1\s*>/gi, " ");
+
+  const blocks: TextBlock[] = [];
+  const pushText = (fragment: string) => {
+    const text = stripTags(fragment);
+    if (text) blocks.push({ text });
+  };
+
+  let last = 0;
+  for (const match of body.matchAll(BLOCK_TAG_PATTERN)) {
+    pushText(body.slice(last, match.index));
+    if (match[1]) {
+      const text = stripTags(match[2]);
+      if (text) blocks.push({ text, headingLevel: Number(match[1]) });
+    }
+    last = (match.index ?? 0) + match[0].length;
+  }
+  pushText(body.slice(last));
+
+  return blocks;
+}
+
+/**
+ * Get the <title> of an HTML document.
+ */
+export function htmlTitle(html: string): string | undefined {
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i)?.[1];
+  return title ? stripTags(title) || undefined : undefined;
+}
+
+/**
+ * Group blocks into pages of roughly WORDS_PER_PAGE words.
+ * Top-level headings always start a new page, like chapters in a book.
+ * @param blocks - Paragraphs and headings in reading order
+ * @param wordsPerPage - Target page length
+ * @returns The pages and the headings found on them
+ */
+export function paginateBlocks(
+  blocks: TextBlock[],
+  wordsPerPage: number = WORDS_PER_PAGE
+): { pages: DocumentPage[]; headings: DocumentHeading[] } {
+  const pages: DocumentPage[] = [];
+  const headings: DocumentHeading[] = [];
+  let lines: string[] = [];
+  let words = 0;
+
+  const flush = () => {
+    if (lines.length === 0) return;
+    pages.push({ pageNumber: pages.length + 1, text: lines.join("\n") });
+    lines = [];
+    words = 0;
+  };
+
+  for (const block of blocks) {
+    const text = block.text.replace(/\s+/g, " ").trim();
+    if (!text) continue;
+
+    if (
+      words >= wordsPerPage ||
+      (words > 0 && (block.pageBreakBefore || block.headingLevel === 1))
+    ) {
+      flush();
+    }
+    if (block.headingLevel) {
+      headings.push({
+        page: pages.length + 1,
+        title: text,
+        level: Math.min(block.headingLevel, 3),
+      });
+    }
+
+    lines.push(text);
+    words += text.split(" ").length;
+  }
+  flush();
+
+  return { pages, headings };
+}
+
+/**
+ * Build an extracted document from blocks.
+ * @param blocks - Paragraphs and headings in reading order
+ * @param title - Title from the file's metadata, if any
+ * @returns The extracted document; headings are omitted when the markup had none
+ */
+export function blocksToDocument(blocks: TextBlock[], title?: string): ExtractedDocument {
+  const { pages, headings } = paginateBlocks(blocks);
+  return {
+    text: pages.map((page) => page.text).join("\n\n"),
+    pages,
+    title,
+    headings: headings.length > 0 ? headings : undefined,
+  };
+}
+
+/**
+ * Check the start of a buffer looks like text rather than binary data.
+ */
+export function looksLikeText(buffer: Buffer): boolean {
+  return !buffer.subarray(0, 4096).includes(0);
+}
+
+/**
+ * Decode a text file, dropping a UTF-8 byte order mark.
+ */
+export function decodeText(buffer: Buffer): string {
+  return buffer.toString("utf8").replace(/^\uFEFF/, "");
+}
+
+/**
+ * Check for a ZIP archive (DOCX and EPUB are both ZIP containers).
+ */
+export function isZip(buffer: Buffer): boolean {
+  return buffer.length > 4 && buffer.readUInt32LE(0) === 0x04034b50;
+}
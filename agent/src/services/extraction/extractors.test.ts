@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { DocxExtractor } from "./DocxExtractor.js";
+import { EpubExtractor } from "./EpubExtractor.js";
+import { HtmlExtractor, MarkdownExtractor, PlainTextExtractor } from "./markup.js";
+import { paginateBlocks } from "./blocks.js";
+
+function docxParagraph(text: string, style?: string): string {
+  const props = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : "";
+  return `<w:p>${props}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+describe("extractors", () => {
+  describe("DocxExtractor", () => {
+    it("should read paragraphs, heading styles and the document title", async () => {
+      const zip = new JSZip();
+      zip.file(
+        "word/document.xml",
+        `<w:document><w:body>${[
+          docxParagraph("Cell Biology", "Title"),
+          docxParagraph("Membranes", "Heading2"),
+          docxParagraph("Lipids &amp; proteins form the membrane."),
+          "<w:tbl><w:tr><w:tc>" + docxParagraph("Table cell") + "</w:tc></w:tr></w:tbl>",
+        ].join("")}</w:body></w:document>`
+      );
+      zip.file(
+        "docProps/core.xml",
+        "<cp:coreProperties><dc:title>Bio 101</dc:title></cp:coreProperties>"
+      );
+      const buffer = await zip.generateAsync({ type: "nodebuffer" });
+
+      const doc = await new DocxExtractor().extract(buffer);
+
+      expect(doc.title).toBe("Bio 101");
+      expect(doc.pages[0].text).toBe(
+        "Cell Biology\nMembranes\nLipids & proteins form the membrane.\nTable cell"
+      );
+      expect(doc.headings).toEqual([
+        { page: 1, title: "Cell Biology", level: 1 },
+        { page: 1, title: "Membranes", level: 2 },
+      ]);
+    });
+  });
+
+  describe("EpubExtractor", () => {
+    it("should read chapters in spine order, each on a new page", async () => {
+      const zip = new JSZip();
+      zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
+      zip.file(
+        "META-INF/container.xml",
+        '<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>'
+      );
+      zip.file(
+        "OEBPS/content.opf",
+        `<package><metadata><dc:title>The Cell</dc:title></metadata>
+        <manifest>
+          <item id="c1" href="text/one.xhtml" media-type="application/xhtml+xml"/>
+          <item id="c2" href="text/two.xhtml" media-type="application/xhtml+xml"/>
+        </manifest>
+        <spine><itemref idref="c2"/><itemref idref="c1"/></spine></package>`
+      );
+      zip.file(
+        "OEBPS/text/one.xhtml",
+        "<html><body><h2>Second</h2><p>Later text.</p></body></html>"
+      );
+      zip.file(
+        "OEBPS/text/two.xhtml",
+        "<html><body><h2>First</h2><p>Early text.</p></body></html>"
+      );
+      const buffer = await zip.generateAsync({ type: "nodebuffer" });
+
+      const extractor = new EpubExtractor();
+      const doc = await extractor.extract(buffer);
+
+      expect(extractor.sniff(buffer)).toBe(true);
+      expect(doc.title).toBe("The Cell");
+      expect(doc.pages.map((page) => page.text)).toEqual([
+        "First\nEarly text.",
+        "Second\nLater text.",
+      ]);
+      expect(doc.headings?.map((h) => [h.page, h.title])).toEqual([
+        [1, "First"],
+        [2, "Second"],
+      ]);
+    });
+  });
+
+  describe("HtmlExtractor", () => {
+    it("should drop scripts and styles and keep headings", async () => {
+      const html = `<html><head><title>Cells &amp; Life</title><style>p{}</style></head>
+        <body><script>alert(1)</script><h1>Cells</h1><p>The <b>basic</b> unit&nbsp;of life.</p></body></html>`;
+
+      const doc = await new HtmlExtractor().extract(Buffer.from(html));
+
+      expect(doc.title).toBe("Cells & Life");
+      expect(doc.text).toBe("Cells\nThe basic unit of life.");
+      expect(doc.headings).toEqual([{ page: 1, title: "Cells", level: 1 }]);
+    });
+  });
+
+  describe("MarkdownExtractor", () => {
+    it("should strip Markdown syntax and keep ATX and setext headings", async () => {
+      const markdown = [
+        "---",
+        "layout: page",
+        "---",
+        "Getting started",
+        "===============",
+        "Read the [setup guide](https://example.com) **first**.",
+        "## Install `node`",
+        "- Use snake_case names",
+        "```",
+        "# not a heading",
+        "```",
+      ].join("\n");
+
+      const doc = await new MarkdownExtractor().extract(Buffer.from(markdown));
+
+      expect(doc.text).toBe(
+        "Getting started\nRead the setup guide first.\nInstall node\nUse snake_case names\n# not a heading"
+      );
+      expect(doc.headings).toEqual([
+        { page: 1, title: "Getting started", level: 1 },
+        { page: 1, title: "Install node", level: 2 },
+      ]);
+    });
+  });
+
+  describe("PlainTextExtractor", () => {
+    it("should leave heading detection to structure analysis", async () => {
+      const doc = await new PlainTextExtractor().extract(
+        Buffer.from("\uFEFFIntroduction\r\nSome text.")
+      );
+
+      expect(doc.text).toBe("Introduction\nSome text.");
+      expect(doc.headings).toBeUndefined();
+    });
+  });
+
+  describe("paginateBlocks", () => {
+    it("should start a new page once a page is full or at a top-level heading", () => {
+      const { pages, headings } = paginateBlocks(
+        [
+          { text: "one two three" },
+          { text: "four five" },
+          { text: "six" },
+          { text: "Chapter", headingLevel: 1 },
+          { text: "seven" },
+        ],
+        4
+      );
+
+      expect(pages.map((page) => page.text)).toEqual([
+        "one two three\nfour five",
+        "six",
+        "Chapter\nseven",
+      ]);
+      expect(headings).toEqual([{ page: 3, title: "Chapter", level: 1 }]);
+    });
+  });
+});
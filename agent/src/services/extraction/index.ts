@@ -0,0 +1,8 @@
+export { ExtractorRegistry, type ExtractorHints } from "./ExtractorRegistry.js";
+export { PdfExtractor } from "./PdfExtractor.js";
+export { DocxExtractor } from "./DocxExtractor.js";
+export { EpubExtractor } from "./EpubExtractor.js";
+export { HtmlExtractor, MarkdownExtractor, PlainTextExtractor } from "./markup.js";
+export { OcrService, type OcrResult } from "./OcrService.js";
+export { paginateBlocks, type TextBlock } from "./blocks.js";
+export type { DocumentExtractor, ExtractedDocument } from "./types.js";
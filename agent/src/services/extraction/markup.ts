@@ -0,0 +1,120 @@
+import type { DocumentExtractor, ExtractedDocument } from "./types.js";
+import {
+  blocksToDocument,
+  decodeText,
+  htmlTitle,
+  htmlToBlocks,
+  looksLikeText,
+  stripTags,
+  type TextBlock,
+} from "./blocks.js";
+
+/**
+ * Strip inline Markdown syntax (links, images, emphasis, code spans, inline HTML).
+ */
+function stripInlineMarkdown(text: string): string {
+  return stripTags(
+    text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+      .replace(/`([^`]+)`/g, "$1")
+      .replace(/(\*\*|__|\*|~~)(\S(?:.*?\S)?)\1/g, "$2")
+      .replace(/(^|\W)_(\S(?:.*?\S)?)_(?=\W|$)/g, "$1$2")
+      .replace(/\s*\|\s*/g, " ")
+  );
+}
+
+/**
+ * Split Markdown into paragraphs and headings (ATX "# Title" and setext "Title\n===").
+ */
+function markdownToBlocks(markdown: string): TextBlock[] {
+  const lines = markdown.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, "").split(/\r?\n/);
+  const blocks: TextBlock[] = [];
+  let inFence = false;
+  let previousLine = "";
+
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (inFence) {
+      blocks.push({ text: line });
+    } else if (/^\s*(=+|-+)\s*$/.test(line) && previousLine.trim() && blocks.length > 0) {
+      // Setext underline: the previous line was a heading
+      blocks[blocks.length - 1].headingLevel = line.trim()[0] === "=" ? 1 : 2;
+    } else if (/^\s*([-*_]\s*){3,}$/.test(line)) {
+      // Horizontal rule
+    } else {
+      const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)[\s#]*$/);
+      if (heading) {
+        blocks.push({ text: stripInlineMarkdown(heading[2]), headingLevel: heading[1].length });
+      } else {
+        const text = line.replace(/^\s*>\s?/, "").replace(/^\s*([-*+]|\d+[.)])\s+/, "");
+        blocks.push({ text: stripInlineMarkdown(text) });
+      }
+    }
+    previousLine = line;
+  }
+
+  return blocks;
+}
+
+/**
+ * Extracts text from HTML pages, using <h1>-<h6> as headings.
+ */
+export class HtmlExtractor implements DocumentExtractor {
+  readonly id = "html";
+  readonly label = "HTML page";
+  readonly mimeTypes = ["text/html", "application/xhtml+xml"];
+  readonly extensions = [".html", ".htm", ".xhtml"];
+  readonly hasSignature = false;
+
+  sniff(buffer: Buffer): boolean {
+    return looksLikeText(buffer);
+  }
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const html = decodeText(buffer);
+    return blocksToDocument(htmlToBlocks(html), htmlTitle(html));
+  }
+}
+
+/**
+ * Extracts text from Markdown files, such as wiki exports.
+ */
+export class MarkdownExtractor implements DocumentExtractor {
+  readonly id = "markdown";
+  readonly label = "Markdown";
+  readonly mimeTypes = ["text/markdown", "text/x-markdown"];
+  readonly extensions = [".md", ".markdown", ".mdown"];
+  readonly hasSignature = false;
+
+  sniff(buffer: Buffer): boolean {
+    return looksLikeText(buffer);
+  }
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    return blocksToDocument(markdownToBlocks(decodeText(buffer)));
+  }
+}
+
+/**
+ * Extracts plain text files line by line. Headings are left to structure detection.
+ */
+export class PlainTextExtractor implements DocumentExtractor {
+  readonly id = "text";
+  readonly label = "Plain text";
+  readonly mimeTypes = ["text/plain"];
+  readonly extensions = [".txt", ".text"];
+  readonly hasSignature = false;
+
+  sniff(buffer: Buffer): boolean {
+    return looksLikeText(buffer);
+  }
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const blocks = decodeText(buffer)
+      .split(/\r?\n/)
+      .map((line) => ({ text: line }));
+    return blocksToDocument(blocks);
+  }
+}
@@ -0,0 +1,39 @@
+import type { DocumentHeading, DocumentPage } from "../../schemas/index.js";
+
+/**
+ * Text pulled out of an uploaded file, ready for validation and structure analysis.
+ */
+export interface ExtractedDocument {
+  /** Full text in reading order */
+  text: string;
+  /**
+   * Page-by-page text. Formats without fixed pages (DOCX, HTML, Markdown, EPUB, text)
+   * are split into pages of roughly equal length so citations still point somewhere.
+   */
+  pages: DocumentPage[];
+  /** Title from the file's metadata, if any */
+  title?: string;
+  /** Headings from the file's markup; when absent, headings are detected from the text */
+  headings?: DocumentHeading[];
+}
+
+/**
+ * A pluggable text extractor for one file format.
+ */
+export interface DocumentExtractor {
+  /** Identifier recorded on the learning session, e.g. "pdf" or "epub" */
+  readonly id: string;
+  /** Human-readable format name */
+  readonly label: string;
+  readonly mimeTypes: readonly string[];
+  /** Lowercase file extensions including the dot, e.g. ".md" */
+  readonly extensions: readonly string[];
+  /**
+   * Whether sniff() checks a file signature (magic bytes). Signature formats are
+   * recognised from content alone; the others only use sniff() to reject binary data.
+   */
+  readonly hasSignature: boolean;
+  /** Check the file content is plausibly in this format */
+  sniff(buffer: Buffer): boolean;
+  extract(buffer: Buffer): Promise<ExtractedDocument>;
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { LeakClassifier } from "./LeakClassifier.js";
+import { LexicalLeakJudge, type GuardedQuestion, type LeakJudge } from "./judges.js";
+
+// Mock the logger to prevent console output during tests
+vi.mock("../../utils/logger.js", () => ({
+  logAgentError: vi.fn(),
+}));
+
+const question: GuardedQuestion = {
+  question: "Which organelle produces most of the cell's ATP?",
+  questionType: "single_choice",
+  options: ["Nucleus", "Mitochondria", "Ribosome", "Golgi apparatus"],
+  correctAnswers: ["Mitochondria"],
+};
+
+describe("LexicalLeakJudge", () => {
+  const judge = new LexicalLeakJudge();
+
+  it("should flag drafts that steer towards the correct answer", async () => {
+    const verdict = await judge.score(
+      "Energy production happens in one place. You'll want to go with mitochondria here.",
+      question
+    );
+
+    expect(verdict.likelihood).toBe(1);
+  });
+
+  it("should score mentions without steering below the threshold", async () => {
+    const verdict = await judge.score(
+      "Cells have many organelles, such as the nucleus, ribosomes and mitochondria.",
+      question
+    );
+
+    expect(verdict.likelihood).toBeGreaterThan(0);
+    expect(verdict.likelihood).toBeLessThan(0.5);
+  });
+
+  it("should only flag true/false drafts that state the correct value", async () => {
+    const statement: GuardedQuestion = {
+      question: "Ribosomes make proteins.",
+      questionType: "true_false",
+      options: ["True", "False"],
+      correctAnswers: ["True"],
+    };
+
+    expect((await judge.score("Yes, that's true!", statement)).likelihood).toBeGreaterThan(0.5);
+    expect((await judge.score("Think about what ribosomes read.", statement)).likelihood).toBe(0);
+  });
+});
+
+describe("LeakClassifier", () => {
+  afterEach(() => {
+    LeakClassifier.setJudge(null);
+  });
+
+  it("should flag verdicts at or above the threshold", async () => {
+    LeakClassifier.setJudge({
+      name: "stub",
+      score: vi.fn().mockResolvedValue({ likelihood: 0.8, reason: "Paraphrases the answer" }),
+    });
+
+    const result = await LeakClassifier.classify("The powerhouse of the cell.", question);
+
+    expect(result).toEqual({
+      likelihood: 0.8,
+      reason: "Paraphrases the answer",
+      judge: "stub",
+      isLeak: true,
+    });
+  });
+
+  it("should fall back to the lexical judge when the judge fails", async () => {
+    const failing: LeakJudge = {
+      name: "failing",
+      score: vi.fn().mockRejectedValue(new Error("offline")),
+    };
+    LeakClassifier.setJudge(failing);
+
+    const result = await LeakClassifier.classify("The answer is mitochondria.", question);
+
+    expect(failing.score).toHaveBeenCalled();
+    expect(result.judge).toBe("lexical");
+    expect(result.isLeak).toBe(true);
+  });
+});
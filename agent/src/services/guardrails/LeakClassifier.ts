@@ -0,0 +1,74 @@
+import { AI_CONFIG } from "../../config/ai.config.js";
+import { logAgentError } from "../../utils/logger.js";
+import {
+  LexicalLeakJudge,
+  LlmLeakJudge,
+  type GuardedQuestion,
+  type LeakJudge,
+  type LeakVerdict,
+} from "./judges.js";
+
+/**
+ * A leak verdict with the judge that gave it.
+ */
+export interface LeakClassification extends LeakVerdict {
+  judge: string;
+  isLeak: boolean;
+}
+
+/**
+ * Service for scoring Study Buddy drafts for answer leaks the reveal patterns miss.
+ * The judge is pluggable: an LLM in production, word overlap offline and in tests.
+ */
+export class LeakClassifier {
+  private static judge: LeakJudge | null = null;
+  private static readonly lexical = new LexicalLeakJudge();
+
+  /**
+   * Get the configured judge (the LLM unless LEAK_JUDGE=lexical).
+   */
+  static getJudge(): LeakJudge {
+    if (!this.judge) {
+      this.judge = AI_CONFIG.guardrails.leakJudge === "lexical" ? this.lexical : new LlmLeakJudge();
+    }
+    return this.judge;
+  }
+
+  /**
+   * Replace the judge (e.g. a stub in tests or a different provider).
+   * @param judge - The judge to use, or null to restore the configured default
+   */
+  static setJudge(judge: LeakJudge | null): void {
+    this.judge = judge;
+  }
+
+  /**
+   * Score a draft against the question it must not give away.
+   * Falls back to the lexical judge if the configured one fails.
+   * @param draft - The draft response
+   * @param question - The question the student is working on
+   * @returns The verdict, flagged as a leak at or above AI_CONFIG.guardrails.leakThreshold
+   */
+  static async classify(draft: string, question: GuardedQuestion): Promise<LeakClassification> {
+    const judge = this.getJudge();
+    let verdict: LeakVerdict;
+    let judgeName = judge.name;
+    try {
+      verdict = await judge.score(draft, question);
+    } catch (error) {
+      if (judge === this.lexical) throw error;
+      logAgentError("Guardrails", "Leak judge failed, using lexical judge", {
+        judge: judge.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      verdict = await this.lexical.score(draft, question);
+      judgeName = this.lexical.name;
+    }
+
+    return {
+      ...verdict,
+      judge: judgeName,
+      isLeak: verdict.likelihood >= AI_CONFIG.guardrails.leakThreshold,
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { OptionMatcher } from "./OptionMatcher.js";
+import type { GuardedQuestion } from "./judges.js";
+
+const organelles: GuardedQuestion = {
+  question: "Which organelle produces most of the cell's ATP?",
+  questionType: "single_choice",
+  options: ["Nucleus", "Mitochondria", "Ribosome", "Golgi apparatus"],
+  correctAnswers: ["Mitochondria"],
+};
+
+describe("OptionMatcher", () => {
+  describe("terms", () => {
+    it("should compare inflections and accents equal", () => {
+      expect(OptionMatcher.terms("Oxidized proteins")).toEqual(
+        OptionMatcher.terms("oxidizes PROTEIN")
+      );
+      expect(OptionMatcher.terms("Café reactions")).toEqual(OptionMatcher.terms("cafe reaction"));
+      expect(OptionMatcher.terms("dependent")).toEqual(OptionMatcher.terms("depend"));
+    });
+  });
+
+  describe("identifyingPhrases", () => {
+    it("should keep only the phrases other options do not share", () => {
+      const phrases = OptionMatcher.identifyingPhrases("Light-dependent reactions", [
+        "Light-independent reactions",
+        "Glycolysis",
+      ]);
+
+      expect(phrases.has("depend")).toBe(true);
+      expect(phrases.has("light")).toBe(false);
+      expect(phrases.has("reaction")).toBe(false);
+    });
+  });
+
+  describe("referencedOptions", () => {
+    it("should find options referenced by letter or position", () => {
+      expect([...OptionMatcher.referencedOptions("I'd go with (B) here", 4)]).toEqual([1]);
+      expect([...OptionMatcher.referencedOptions("Look at option C again", 4)]).toEqual([2]);
+      expect([...OptionMatcher.referencedOptions("The second choice fits", 4)]).toEqual([1]);
+      expect([...OptionMatcher.referencedOptions("Compare A) and D)", 4)]).toEqual([0, 3]);
+      expect([...OptionMatcher.referencedOptions("The last option is tempting", 4)]).toEqual([3]);
+    });
+
+    it("should not mistake articles or letters beyond the options for references", () => {
+      expect(OptionMatcher.referencedOptions("A cell needs an answer a day", 4).size).toBe(0);
+      expect(OptionMatcher.referencedOptions("Option E is not listed", 4).size).toBe(0);
+    });
+  });
+
+  describe("findReveal", () => {
+    it("should report how the draft points at the correct option", () => {
+      expect(OptionMatcher.findReveal("Pick the mitochondria.", organelles)).toMatchObject({
+        answer: "Mitochondria",
+        via: "text",
+      });
+      expect(OptionMatcher.findReveal("Think about option B.", organelles)).toMatchObject({
+        via: "letter",
+      });
+    });
+
+    it("should leave true/false questions to the reveal patterns", () => {
+      const statement: GuardedQuestion = {
+        question: "Ribosomes make proteins.",
+        questionType: "true_false",
+        options: ["True", "False"],
+        correctAnswers: ["True"],
+      };
+
+      expect(OptionMatcher.findReveal("The correct choice is (A).", statement)).toBeNull();
+    });
+  });
+});
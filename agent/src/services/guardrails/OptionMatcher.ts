@@ -0,0 +1,205 @@
+import type { GuardedQuestion } from "./judges.js";
+import { Bm25Index } from "../retrieval/Bm25Index.js";
+
+/**
+ * Where a draft points at a correct answer, and how.
+ */
+export interface OptionReveal {
+  /** The correct answer the draft points at */
+  answer: string;
+  /** "letter" for "(B)" or "the second choice", "text" for a phrase only that answer has */
+  via: "letter" | "text";
+  /** The sentence that gives it away */
+  sentence: string;
+}
+
+/**
+ * Words that steer the student towards a choice rather than explain a concept.
+ */
+const STEERING_CUE =
+  /\b(answer|correct|right|should|pick|choose|select|go with|want|best|is the one)\b/i;
+
+const ORDINALS = ["first", "second", "third", "fourth", "fifth", "sixth"];
+
+/**
+ * Suffixes stripped by the stemmer, longest first so "ational" wins over "al".
+ */
+const SUFFIXES: Array<[RegExp, string]> = [
+  [/ational$/, "ate"],
+  [/ization$/, "ize"],
+  [/iveness$/, "ive"],
+  [/fulness$/, "ful"],
+  [/ousness$/, "ous"],
+  [/ies$/, "y"],
+  [/(ss|sh|ch|x|z)es$/, "$1"],
+  [/ments?$/, ""],
+  [/(ence|ent)$/, ""],
+  [/ings?$/, ""],
+  [/edly$/, ""],
+  [/ed$/, ""],
+  [/ly$/, ""],
+  [/(?<!s)s$/, ""],
+];
+
+/**
+ * Phrase lengths compared between options, in terms.
+ */
+const MAX_PHRASE_TERMS = 3;
+
+/**
+ * Service for finding where a draft points at a correct option without quoting it exactly:
+ * by letter or position, or by a paraphrase sharing the phrases that set it apart from
+ * the distractors.
+ */
+export class OptionMatcher {
+  /**
+   * Reduce a word to a rough stem so "oxidized", "oxidizes" and "oxidize" compare equal,
+   * as do "depend" and "dependent".
+   * @param word - A lowercase word
+   * @returns The stem
+   */
+  static stem(word: string): string {
+    if (word.length <= 4) return word;
+
+    let stemmed = word;
+    const rule = SUFFIXES.find(([suffix]) => suffix.test(word));
+    if (rule) {
+      const candidate = word.replace(rule[0], rule[1]);
+      if (candidate.length >= 3) stemmed = candidate;
+    }
+    return stemmed.length > 4 ? stemmed.replace(/e$/, "") : stemmed;
+  }
+
+  /**
+   * Normalize text into stemmed terms: lowercase, accents and punctuation removed,
+   * stopwords dropped.
+   * @param text - The text to normalize
+   * @returns The stemmed terms in order
+   */
+  static terms(text: string): string[] {
+    const plain = text.normalize("NFKD").replace(/\p{M}/gu, "");
+    return Bm25Index.tokenize(plain).map((term) => this.stem(term));
+  }
+
+  /**
+   * Every phrase of one to MAX_PHRASE_TERMS consecutive terms.
+   * @param terms - Stemmed terms
+   * @returns The phrases, joined with spaces
+   */
+  static ngrams(terms: string[]): Set<string> {
+    const phrases = new Set<string>();
+    for (let n = 1; n <= MAX_PHRASE_TERMS; n++) {
+      for (let i = 0; i + n <= terms.length; i++) {
+        phrases.add(terms.slice(i, i + n).join(" "));
+      }
+    }
+    return phrases;
+  }
+
+  /**
+   * The phrases of an option that no other option shares, so finding one in a draft
+   * points at this option alone. "Light-dependent reactions" against "light-independent
+   * reactions" is identified by "dependent", not by "light" or "reaction".
+   * @param option - The option text
+   * @param others - The other options
+   * @returns The identifying phrases
+   */
+  static identifyingPhrases(option: string, others: string[]): Set<string> {
+    const shared = new Set(others.flatMap((other) => [...this.ngrams(this.terms(other))]));
+    return new Set([...this.ngrams(this.terms(option))].filter((phrase) => !shared.has(phrase)));
+  }
+
+  /**
+   * Find a sentence that points at a correct option: by its letter or position when no
+   * other option is mentioned alongside it, or by its identifying phrases next to a
+   * steering cue such as "answer" or "you should".
+   * True/false questions are left to the reveal patterns, as "true" and "false" are too
+   * common to match.
+   * @param draft - The draft response
+   * @param question - The question the draft must not give away
+   * @returns The first reveal found, or null
+   */
+  static findReveal(draft: string, question: GuardedQuestion): OptionReveal | null {
+    if (question.questionType === "true_false") return null;
+
+    const sentences = draft.split(/(?<=[.!?])\s+|\n+/).filter((s) => s.trim());
+    const distractors = question.options.filter(
+      (option) => !question.correctAnswers.includes(option)
+    );
+    const distractorPhrases = distractors.map((distractor) =>
+      this.identifyingPhrases(
+        distractor,
+        question.options.filter((o) => o !== distractor)
+      )
+    );
+
+    for (const answer of question.correctAnswers) {
+      const index = question.options.indexOf(answer);
+      const identifying = this.identifyingPhrases(answer, distractors);
+      const answerTerms = new Set(this.terms(answer));
+
+      for (const sentence of sentences) {
+        if (index >= 0) {
+          const referenced = this.referencedOptions(sentence, question.options.length);
+          if (referenced.size === 1 && referenced.has(index)) {
+            return { answer, via: "letter", sentence };
+          }
+        }
+
+        if (!STEERING_CUE.test(sentence) || identifying.size === 0) continue;
+
+        const sentenceTerms = this.terms(sentence);
+        const phrases = this.ngrams(sentenceTerms);
+        const termSet = new Set(sentenceTerms);
+        const coverage = [...answerTerms].filter((term) => termSet.has(term)).length;
+        const pointsAtAnswer =
+          [...identifying].some((phrase) => phrases.has(phrase)) &&
+          coverage * 2 >= answerTerms.size;
+        const mentionsDistractor = distractorPhrases.some((set) =>
+          [...set].some((phrase) => phrases.has(phrase))
+        );
+
+        if (pointsAtAnswer && !mentionsDistractor) {
+          return { answer, via: "text", sentence };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * The options a sentence refers to by letter ("(B)", "option B", "B)") or by position
+   * ("the second choice", "the last option").
+   * @param sentence - One sentence of the draft
+   * @param optionCount - How many options the question has
+   * @returns Zero-based option indexes
+   */
+  static referencedOptions(sentence: string, optionCount: number): Set<number> {
+    const referenced = new Set<number>();
+    const letters = "ABCDEF".slice(0, optionCount);
+    if (letters.length === 0) return referenced;
+
+    const letterPatterns = [
+      new RegExp(`\\(([${letters}])\\)`, "g"),
+      new RegExp(`\\b(?:[Oo]ption|[Cc]hoice|[Aa]nswer|[Ll]etter)\\s+\\(?([${letters}])\\b`, "g"),
+      new RegExp(`(?:^|\\s)([${letters}])\\)`, "g"),
+    ];
+    for (const pattern of letterPatterns) {
+      for (const match of sentence.matchAll(pattern)) {
+        referenced.add(letters.indexOf(match[1]));
+      }
+    }
+
+    const positions = new RegExp(
+      `\\bthe\\s+(${[...ORDINALS.slice(0, optionCount), "last"].join("|")})\\s+(?:option|choice|answer)\\b`,
+      "gi"
+    );
+    for (const match of sentence.matchAll(positions)) {
+      const word = match[1].toLowerCase();
+      referenced.add(word === "last" ? optionCount - 1 : ORDINALS.indexOf(word));
+    }
+
+    return referenced;
+  }
+}
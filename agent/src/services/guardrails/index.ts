@@ -0,0 +1,16 @@
+export {
+  LlmLeakJudge,
+  LexicalLeakJudge,
+  type GuardedQuestion,
+  type LeakJudge,
+  type LeakVerdict,
+} from "./judges.js";
+export { LeakClassifier, type LeakClassification } from "./LeakClassifier.js";
+export { OptionMatcher, type OptionReveal } from "./OptionMatcher.js";
+export {
+  ContentSanitizer,
+  REMOVED_MARKER,
+  type InjectionFinding,
+  type InjectionKind,
+  type SanitizedDocument,
+} from "./ContentSanitizer.js";
@@ -0,0 +1,137 @@
+import { ChatOpenAI } from "@langchain/openai";
+import { z } from "zod";
+import { AI_CONFIG } from "../../config/ai.config.js";
+import type { QuestionType } from "../../schemas/index.js";
+import { OptionMatcher } from "./OptionMatcher.js";
+
+/**
+ * The parts of a question a judge needs to tell whether a draft gives its answer away.
+ */
+export interface GuardedQuestion {
+  question: string;
+  questionType: QuestionType;
+  /** Display options (empty for fill-in-the-blank) */
+  options: string[];
+  /** Text of every correct answer */
+  correctAnswers: string[];
+}
+
+/**
+ * How likely a draft is to give the answer away, from 0 (not at all) to 1 (certainly).
+ */
+export interface LeakVerdict {
+  likelihood: number;
+  reason: string;
+}
+
+/**
+ * A pluggable scorer for answer leaks in Study Buddy drafts.
+ */
+export interface LeakJudge {
+  readonly name: string;
+  score(draft: string, question: GuardedQuestion): Promise<LeakVerdict>;
+}
+
+const LeakVerdictSchema = z.object({
+  likelihood: z
+    .number()
+    .min(0)
+    .max(1)
+    .describe("How likely the response lets the student work out the answer, 0 to 1"),
+  reason: z.string().describe("One sentence on what gives the answer away, or why nothing does"),
+});
+
+/**
+ * Asks a model whether the draft lets the student work out the answer, including
+ * paraphrases and hints the pattern checks cannot see.
+ */
+export class LlmLeakJudge implements LeakJudge {
+  readonly name = "llm";
+  private model: ReturnType<ChatOpenAI["withStructuredOutput"]> | null = null;
+
+  constructor(private readonly modelName: string = AI_CONFIG.guardrails.leakJudgeModel) {}
+
+  async score(draft: string, question: GuardedQuestion): Promise<LeakVerdict> {
+    this.model ??= new ChatOpenAI({ model: this.modelName, temperature: 0 }).withStructuredOutput(
+      LeakVerdictSchema,
+      { name: "leak_verdict" }
+    );
+
+    const options = question.options.length
+      ? `\nOptions: ${question.options.map((opt, i) => `${String.fromCharCode(65 + i)}) ${opt}`).join(", ")}`
+      : "";
+    const verdict = await this.model.invoke([
+      {
+        role: "system",
+        content: `You review a tutor's reply to a student who is answering a quiz question.
+Score how likely the reply lets the student work out the answer without understanding the concept:
+naming or paraphrasing the correct answer, pointing at its option, ruling out every other option,
+or saying whether the statement is true or false. Explaining the underlying concept is fine.`,
+      },
+      {
+        role: "user",
+        content: `Question: ${question.question}${options}
+Correct answer: ${question.correctAnswers.join("; ")}
+
+Tutor's reply:
+${draft}`,
+      },
+    ]);
+
+    return LeakVerdictSchema.parse(verdict);
+  }
+}
+
+/**
+ * Words that steer the student towards a choice rather than explain a concept.
+ */
+const STEERING_CUE = /\b(answer|correct|right|should|pick|choose|select|go with|want)\b/i;
+
+const TRUE_FALSE_CLAIM =
+  /\b(it is|it's|that is|that's|statement is|is actually)\s+(true|false)\b/gi;
+
+/**
+ * Deterministic stand-in for the LLM judge: scores how much of the correct answer
+ * the draft repeats (stemmed, so inflections count), weighted up when the same sentence steers towards a choice.
+ * Needs no network access, so tests and offline runs use it.
+ */
+export class LexicalLeakJudge implements LeakJudge {
+  readonly name = "lexical";
+
+  async score(draft: string, question: GuardedQuestion): Promise<LeakVerdict> {
+    if (question.questionType === "true_false") {
+      const claims = [...draft.matchAll(TRUE_FALSE_CLAIM)].map((m) => m[2].toLowerCase());
+      const correct = question.correctAnswers.map((answer) => answer.toLowerCase());
+      return claims.some((claim) => correct.includes(claim))
+        ? { likelihood: 0.9, reason: "States whether the statement is true or false" }
+        : { likelihood: 0, reason: "Makes no claim about the statement" };
+    }
+
+    const sentences = draft.split(/(?<=[.!?])\s+|\n+/).filter(Boolean);
+    let best: LeakVerdict = { likelihood: 0, reason: "Does not repeat the answer" };
+
+    for (const answer of question.correctAnswers) {
+      const terms = new Set(OptionMatcher.terms(answer));
+      if (terms.size === 0) continue;
+
+      for (const sentence of sentences) {
+        const sentenceTerms = new Set(OptionMatcher.terms(sentence));
+        const coverage = [...terms].filter((term) => sentenceTerms.has(term)).length / terms.size;
+        if (coverage === 0) continue;
+
+        const steers = STEERING_CUE.test(sentence);
+        const likelihood = coverage * (steers ? 1 : 0.45);
+        if (likelihood > best.likelihood) {
+          best = {
+            likelihood,
+            reason: steers
+              ? `Steers towards "${answer}"`
+              : `Mentions "${answer}" without steering towards it`,
+          };
+        }
+      }
+    }
+
+    return best;
+  }
+}
@@ -2,13 +2,123 @@
 export { AIModelFactory } from "./ai/index.js";
 
 // Content Services
-export { ContentProcessor, type TruncationResult } from "./content/index.js";
+export {
+  ContentProcessor,
+  SourceRefVerifier,
+  DocumentStructureAnalyzer,
+  PlanEditor,
+  QuestionFinalizer,
+  type TruncationResult,
+} from "./content/index.js";
+
+// Extraction Services
+export {
+  ExtractorRegistry,
+  OcrService,
+  type ExtractorHints,
+  type OcrResult,
+  type DocumentExtractor,
+  type ExtractedDocument,
+} from "./extraction/index.js";
 
 // Scoring Services
-export { ScoreCalculator, type ScoreResult, type ObjectivePerformance } from "./scoring/index.js";
+export {
+  ScoreCalculator,
+  AnswerGrader,
+  DifficultyAdapter,
+  MasteryTracker,
+  type ScoreResult,
+  type AttemptScoreResult,
+  type QuestionAttempt,
+  type ObjectivePerformance,
+  type DifficultyDecision,
+  type BktParams,
+  type ObjectiveMastery,
+} from "./scoring/index.js";
+
+// Remediation Services
+export {
+  RemediationService,
+  type RemediationRound,
+  type MissedQuestion,
+  type RemediationSummary,
+} from "./remediation/index.js";
+
+// Deferral Services
+export { DeferralService } from "./deferral/index.js";
+
+// Exam Services
+export {
+  ExamService,
+  type ExamDeadlines,
+  type ExamTiming,
+  type ExamReviewItem,
+} from "./exam/index.js";
+
+// Calibration Services
+export {
+  CalibrationService,
+  type CalibrationBucket,
+  type CalibrationSummary,
+  type AnswerSubmission,
+} from "./calibration/index.js";
+
+// Timing Services
+export {
+  TimingService,
+  type ObjectiveTiming,
+  type SlowQuestion,
+  type TimingSummary,
+} from "./timing/index.js";
+
+// Misconception Services
+export { MisconceptionService, type MisconceptionSummary } from "./misconceptions/index.js";
+
+// Review Services
+export { Sm2Scheduler, type ReviewSchedule } from "./review/index.js";
+
+// Auth Services
+export { TokenService, type TokenClaims, type IssuedToken } from "./auth/index.js";
 
 // Workflow Services
-export { InterruptHandler, type InterruptResult, NodeResponse } from "./workflow/index.js";
+export {
+  InterruptHandler,
+  type InterruptResult,
+  ClientProjection,
+  type ClientQuestion,
+  type GradedAnswer,
+  NodeResponse,
+  SessionSettingsService,
+} from "./workflow/index.js";
+
+// Retrieval Services
+export {
+  Chunker,
+  Bm25Index,
+  RetrievalService,
+  LexicalBackend,
+  EmbeddingBackend,
+  type RetrievalBackend,
+  type RetrievalOptions,
+  type ScoredChunk,
+} from "./retrieval/index.js";
 
 // Reflection Services
 export { ReflectionService, type ReflectionResult } from "./reflection/index.js";
+
+// Guardrail Services
+export {
+  ContentSanitizer,
+  LeakClassifier,
+  LlmLeakJudge,
+  LexicalLeakJudge,
+  OptionMatcher,
+  type GuardedQuestion,
+  type InjectionFinding,
+  type InjectionKind,
+  type LeakClassification,
+  type LeakJudge,
+  type LeakVerdict,
+  type OptionReveal,
+  type SanitizedDocument,
+} from "./guardrails/index.js";
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { MisconceptionService } from "./MisconceptionService.js";
+import type { LearningObjective, MCQ } from "../../schemas/index.js";
+
+const shared = {
+  documentId: null,
+  hint: "A hint",
+  explanation: "An explanation",
+  sourceRefs: [],
+};
+
+const singleChoice: MCQ = {
+  ...shared,
+  id: "obj-1-q1",
+  objectiveId: "obj-1",
+  type: "single_choice",
+  question: "Which organelle releases energy?",
+  options: ["Nucleus", "Ribosome", "Mitochondria", "Golgi body"],
+  correctAnswer: 2,
+  misconceptions: ["Thinks the nucleus powers the cell", "Confuses energy with protein", null, ""],
+};
+
+const trueFalse: MCQ = {
+  ...shared,
+  id: "obj-2-q1",
+  objectiveId: "obj-2",
+  type: "true_false",
+  question: "Plants respire only at night.",
+  correctAnswer: false,
+  misconceptions: ["Thinks photosynthesis replaces respiration by day", null],
+};
+
+const multiSelect: MCQ = {
+  ...shared,
+  id: "obj-2-q2",
+  objectiveId: "obj-2",
+  type: "multi_select",
+  question: "Which are products of respiration?",
+  options: ["Carbon dioxide", "Water", "Oxygen", "Glucose"],
+  correctAnswers: [0, 1],
+  misconceptions: [
+    null,
+    null,
+    "Reverses respiration and photosynthesis",
+    "Mixes up inputs and outputs",
+  ],
+};
+
+const objectives: LearningObjective[] = [
+  {
+    id: "obj-1",
+    title: "Cell structure",
+    description: "Name the parts of a cell",
+    difficulty: "easy",
+    sectionIds: [],
+    documentIds: [],
+  },
+  {
+    id: "obj-2",
+    title: "Respiration",
+    description: "Explain how cells release energy",
+    difficulty: "medium",
+    sectionIds: [],
+    documentIds: [],
+  },
+];
+
+describe("MisconceptionService", () => {
+  describe("labelsFor", () => {
+    it("should return the label of the wrong option picked", () => {
+      expect(MisconceptionService.labelsFor(singleChoice, 0)).toEqual([
+        "Thinks the nucleus powers the cell",
+      ]);
+      expect(MisconceptionService.labelsFor(singleChoice, 2)).toEqual([]);
+      expect(MisconceptionService.labelsFor(singleChoice, 3)).toEqual([]);
+    });
+
+    it("should map true/false answers onto the True and False options", () => {
+      expect(MisconceptionService.labelsFor(trueFalse, true)).toEqual([
+        "Thinks photosynthesis replaces respiration by day",
+      ]);
+      expect(MisconceptionService.labelsFor(trueFalse, false)).toEqual([]);
+    });
+
+    it("should return every wrong option picked in a multi-select answer", () => {
+      expect(MisconceptionService.labelsFor(multiSelect, [0, 2, 3])).toEqual([
+        "Reverses respiration and photosynthesis",
+        "Mixes up inputs and outputs",
+      ]);
+    });
+
+    it("should return nothing for questions without labels", () => {
+      const { misconceptions: _, ...unlabelled } = singleChoice;
+      expect(MisconceptionService.labelsFor(unlabelled as MCQ, 0)).toEqual([]);
+    });
+  });
+
+  describe("top", () => {
+    it("should rank misconceptions by how often they came up, grouping by label", () => {
+      const top = MisconceptionService.top(
+        {
+          "obj-1-q1": ["Thinks the nucleus powers the cell"],
+          "obj-2-q1": ["Thinks photosynthesis replaces respiration by day"],
+          "obj-2-q2": [
+            "Reverses respiration and photosynthesis",
+            "reverses respiration and photosynthesis ",
+          ],
+        },
+        [singleChoice, trueFalse, multiSelect],
+        objectives,
+        2
+      );
+
+      expect(top).toEqual([
+        {
+          label: "Reverses respiration and photosynthesis",
+          count: 2,
+          objectiveTitles: ["Respiration"],
+        },
+        {
+          label: "Thinks the nucleus powers the cell",
+          count: 1,
+          objectiveTitles: ["Cell structure"],
+        },
+      ]);
+    });
+  });
+});
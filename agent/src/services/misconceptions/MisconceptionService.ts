@@ -0,0 +1,79 @@
+import type { LearningObjective, MCQ, QuestionAnswer } from "../../schemas/index.js";
+
+/**
+ * A misconception the learner showed, for the progress report.
+ */
+export interface MisconceptionSummary {
+  label: string;
+  /** Wrong answers that revealed it */
+  count: number;
+  objectiveTitles: string[];
+}
+
+/**
+ * Service for misconception labels on wrong options: which misconceptions a
+ * wrong answer reveals, and which ones came up most over a session.
+ */
+export class MisconceptionService {
+  /**
+   * Get the misconceptions revealed by an answer.
+   * Correct options, unlabelled options and fill-in-the-blank answers reveal none.
+   * @param question - The question answered
+   * @param answer - The learner's answer
+   * @returns The misconception labels of the wrong options picked
+   */
+  static labelsFor(question: MCQ, answer: QuestionAnswer): string[] {
+    if (question.type === "fill_blank" || !question.misconceptions) return [];
+
+    const picked =
+      question.type === "true_false"
+        ? typeof answer === "boolean"
+          ? [answer ? 0 : 1]
+          : []
+        : question.type === "multi_select"
+          ? Array.isArray(answer)
+            ? answer
+            : []
+          : typeof answer === "number"
+            ? [answer]
+            : [];
+
+    const labels = question.misconceptions;
+    return picked.map((idx) => labels[idx]).filter((label): label is string => Boolean(label));
+  }
+
+  /**
+   * Rank the misconceptions recorded over a session.
+   * Labels are grouped case-insensitively; ties keep the order they were first seen in.
+   * @param hits - Misconception labels hit, keyed by question ID
+   * @param mcqs - Questions asked, to find each label's objective
+   * @param objectives - The learning objectives
+   * @param limit - How many to return
+   * @returns The most frequent misconceptions, most frequent first
+   */
+  static top(
+    hits: Record<string, string[]>,
+    mcqs: MCQ[],
+    objectives: LearningObjective[],
+    limit: number
+  ): MisconceptionSummary[] {
+    const grouped = new Map<string, MisconceptionSummary>();
+
+    for (const [questionId, labels] of Object.entries(hits)) {
+      const objectiveId = mcqs.find((q) => q.id === questionId)?.objectiveId;
+      const objectiveTitle = objectives.find((o) => o.id === objectiveId)?.title;
+
+      for (const label of labels) {
+        const key = label.trim().toLowerCase();
+        const entry = grouped.get(key) ?? { label: label.trim(), count: 0, objectiveTitles: [] };
+        entry.count++;
+        if (objectiveTitle && !entry.objectiveTitles.includes(objectiveTitle)) {
+          entry.objectiveTitles.push(objectiveTitle);
+        }
+        grouped.set(key, entry);
+      }
+    }
+
+    return [...grouped.values()].sort((a, b) => b.count - a.count).slice(0, limit);
+  }
+}
@@ -0,0 +1 @@
+export { MisconceptionService, type MisconceptionSummary } from "./MisconceptionService.js";
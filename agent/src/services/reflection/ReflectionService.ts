@@ -8,7 +8,7 @@ import {
   type ReflectionOptions,
   DEFAULT_REFLECTION_OPTIONS,
 } from "../../schemas/index.js";
-import { BASE_PROMPTS, type PromptContext } from "../../prompts/index.js";
+import { BASE_PROMPTS, wrapUntrusted, type PromptContext } from "../../prompts/index.js";
 import { logger, logAgentThinking, logAgentSuccess } from "../../utils/logger.js";
 
 /**
@@ -38,12 +38,14 @@ export class ReflectionService {
    * @param content - The MCQ batch content to critique (as JSON string or object)
    * @param context - The prompt context for critique
    * @param config - Optional LangChain RunnableConfig for tracing
+   * @param evidence - Optional document excerpts to check answers and citations against
    * @returns The critique result
    */
   static async critiqueContent(
     content: unknown,
     context: PromptContext,
-    config?: RunnableConfig
+    config?: RunnableConfig,
+    evidence?: string
   ): Promise<Critique> {
     logAgentThinking("Reflection", "Starting critique phase", {
       purpose: context.purpose,
@@ -60,6 +62,13 @@ export class ReflectionService {
     });
 
     const contentString = typeof content === "string" ? content : JSON.stringify(content, null, 2);
+    const evidenceSection = evidence
+      ? `
+
+## Source Excerpts
+Use these excerpts from the document to verify answers and sourceRefs:
+${wrapUntrusted(evidence)}`
+      : "";
 
     const critique = await structuredModel.invoke(
       [
@@ -69,11 +78,14 @@ export class ReflectionService {
         },
         {
           role: "user",
-          content: `Please critique the following MCQ content for the learning objective "${context.objectiveTitle || "unknown"}":
+          content: `Please critique the following quiz questions for the learning objective "${context.objectiveTitle || "unknown"}":
 
 ${contentString}
 
-Evaluate for factual accuracy, clarity, educational value, and overall quality.`,
+Evaluate for factual accuracy, clarity, educational value, and overall quality.
+Check that each question follows the rules for its "type" and that its answer key is correct.
+Check that every sourceRefs quote supports the correct answer; flag missing or irrelevant citations.
+Check that every misconception label is a plausible reason to pick its wrong option.${evidenceSection}`,
         },
       ],
       config
@@ -143,7 +155,8 @@ ${contentString}
 - Has Errors: ${critique.hasErrors}
 - Educationally Sound: ${critique.isEducationallySound}
 
-Please address all issues and implement the suggestions while maintaining the educational intent.`,
+Please address all issues and implement the suggestions while maintaining the educational intent.
+Keep each question's "type" unless the critique says the type is unsuitable.`,
         },
       ],
       config
@@ -164,13 +177,15 @@ Please address all issues and implement the suggestions while maintaining the ed
    * @param context - The prompt context
    * @param options - Reflection options (uses defaults if not provided)
    * @param config - Optional LangChain RunnableConfig for tracing
+   * @param getEvidence - Optional lookup of document excerpts relevant to the current output
    * @returns The reflection result with final output
    */
   static async withReflection<T extends { questions: unknown[] }>(
     generateFn: () => Promise<T>,
     context: PromptContext,
     options: Partial<ReflectionOptions> = {},
-    config?: RunnableConfig
+    config?: RunnableConfig,
+    getEvidence?: (output: T) => Promise<string>
   ): Promise<ReflectionResult<T>> {
     const opts: ReflectionOptions = {
       ...DEFAULT_REFLECTION_OPTIONS,
@@ -205,7 +220,8 @@ Please address all issues and implement the suggestions while maintaining the ed
       iterations++;
 
       // Critique the current output
-      const critique = await this.critiqueContent(currentOutput, context, config);
+      const evidence = getEvidence ? await getEvidence(currentOutput) : undefined;
+      const critique = await this.critiqueContent(currentOutput, context, config, evidence);
       lastCritique = critique;
 
       // Check if refinement is needed
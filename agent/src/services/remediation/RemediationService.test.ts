@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import { RemediationService, type RemediationRound } from "./RemediationService.js";
+import { CONFIG } from "../../config.js";
+import type { MCQ, SingleChoiceQuestion } from "../../schemas/index.js";
+
+const createMockMCQ = (id: string, objectiveId: string): MCQ => ({
+  id,
+  objectiveId,
+  documentId: null,
+  type: "single_choice",
+  question: `Question ${id}`,
+  options: ["Nucleus", "Ribosome", "Mitochondria", "Golgi body"],
+  correctAnswer: 2,
+  hint: "A hint",
+  explanation: "An explanation",
+  sourceRefs: [],
+});
+
+const mcqs = [
+  createMockMCQ("obj-1-q1", "obj-1"),
+  createMockMCQ("obj-1-q2", "obj-1"),
+  createMockMCQ("obj-2-q1", "obj-2"),
+];
+
+const round: RemediationRound = {
+  objectiveId: "obj-1",
+  missedQuestionIds: ["obj-1-q1"],
+  questionIds: ["obj-1-r1-q1"],
+  explanation: "Mitochondria release energy from food.",
+};
+
+describe("RemediationService", () => {
+  describe("missedQuestions", () => {
+    it("should list the objective's questions with wrong attempts and the answers given", () => {
+      const missed = RemediationService.missedQuestions(
+        "obj-1",
+        mcqs,
+        { "obj-1-q1": 2, "obj-2-q1": 1 },
+        { "obj-1-q1": [0, 1] },
+        []
+      );
+
+      expect(missed).toEqual([{ question: mcqs[0], wrongAttempts: 2, wrongAnswers: [0, 1] }]);
+    });
+
+    it("should ignore misses on follow-up questions", () => {
+      const followUp = createMockMCQ("obj-1-r1-q1", "obj-1");
+      const missed = RemediationService.missedQuestions(
+        "obj-1",
+        [...mcqs, followUp],
+        { "obj-1-r1-q1": 3 },
+        {},
+        [round]
+      );
+
+      expect(missed).toEqual([]);
+    });
+  });
+
+  describe("needsRemediation", () => {
+    const missed = [{ question: mcqs[0], wrongAttempts: 1, wrongAnswers: [0] }];
+
+    it("should start a round once the objective reaches the wrong-attempt trigger", () => {
+      const struggled = [
+        { ...missed[0], wrongAttempts: CONFIG.REMEDIATION.TRIGGER_WRONG_ATTEMPTS },
+      ];
+
+      expect(RemediationService.needsRemediation(struggled, "obj-1", [])).toBe(true);
+      expect(
+        RemediationService.needsRemediation(
+          [{ ...missed[0], wrongAttempts: CONFIG.REMEDIATION.TRIGGER_WRONG_ATTEMPTS - 1 }],
+          "obj-1",
+          []
+        )
+      ).toBe(false);
+    });
+
+    it("should stop at the per-objective and per-session caps", () => {
+      const struggled = [{ ...missed[0], wrongAttempts: 10 }];
+      const otherRounds = Array.from({ length: CONFIG.REMEDIATION.MAX_ROUNDS_PER_SESSION }, () => ({
+        ...round,
+        objectiveId: "obj-9",
+      }));
+
+      expect(
+        RemediationService.needsRemediation(
+          struggled,
+          "obj-1",
+          Array(CONFIG.REMEDIATION.MAX_ROUNDS_PER_OBJECTIVE).fill(round)
+        )
+      ).toBe(false);
+      expect(RemediationService.needsRemediation(struggled, "obj-1", otherRounds)).toBe(false);
+    });
+
+    it("should skip objectives the learner has mastered despite the misses", () => {
+      const struggled = [{ ...missed[0], wrongAttempts: 10 }];
+
+      expect(
+        RemediationService.needsRemediation(struggled, "obj-1", [], CONFIG.MASTERY.MASTERED_AT)
+      ).toBe(false);
+      expect(RemediationService.needsRemediation(struggled, "obj-1", [], 0.5)).toBe(true);
+    });
+  });
+
+  describe("describeMisses", () => {
+    it("should show the correct answer and the wrong options chosen", () => {
+      const text = RemediationService.describeMisses([
+        { question: mcqs[0], wrongAttempts: 2, wrongAnswers: [0, 1] },
+      ]);
+
+      expect(text).toContain("Question obj-1-q1");
+      expect(text).toContain("Correct answer: Mitochondria");
+      expect(text).toContain("Learner chose: A) Nucleus; B) Ribosome");
+    });
+
+    it("should name the misconceptions behind the wrong options", () => {
+      const question: MCQ = {
+        ...(mcqs[0] as SingleChoiceQuestion),
+        misconceptions: ["Thinks the nucleus makes energy", null, null, null],
+      };
+      const text = RemediationService.describeMisses([
+        { question, wrongAttempts: 2, wrongAnswers: [0, 0] },
+      ]);
+
+      expect(text).toContain("Likely misconceptions: Thinks the nucleus makes energy");
+    });
+  });
+
+  describe("summarize", () => {
+    it("should count follow-up questions apart, with first-try correct answers", () => {
+      const rounds = [{ ...round, questionIds: ["obj-1-r1-q1", "obj-1-r1-q2"] }];
+
+      expect(
+        RemediationService.summarize(
+          rounds,
+          { "obj-1-r1-q1": 2, "obj-1-r1-q2": 2 },
+          { "obj-1-r1-q2": 1 }
+        )
+      ).toEqual({ rounds: 1, questions: 2, correctFirstTry: 1 });
+    });
+  });
+});
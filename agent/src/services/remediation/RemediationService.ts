@@ -0,0 +1,163 @@
+import type { MCQ, QuestionAnswer } from "../../schemas/index.js";
+import { CONFIG } from "../../config.js";
+import { AnswerGrader } from "../scoring/AnswerGrader.js";
+import { MasteryTracker } from "../scoring/MasteryTracker.js";
+import { MisconceptionService } from "../misconceptions/MisconceptionService.js";
+
+/**
+ * A remediation round run for an objective before the workflow moved on.
+ */
+export interface RemediationRound {
+  objectiveId: string;
+  /** Questions the learner needed several attempts on */
+  missedQuestionIds: string[];
+  /** Follow-up questions generated for the round (empty if generation failed) */
+  questionIds: string[];
+  /** Short explanation of the missed concepts, shown with the follow-up questions */
+  explanation: string;
+}
+
+/**
+ * A question the learner got wrong, with the wrong answers they gave.
+ */
+export interface MissedQuestion {
+  question: MCQ;
+  wrongAttempts: number;
+  wrongAnswers: QuestionAnswer[];
+}
+
+/**
+ * Summary of the remediation rounds for the progress report.
+ */
+export interface RemediationSummary {
+  rounds: number;
+  questions: number;
+  correctFirstTry: number;
+}
+
+/**
+ * Service for remediation: deciding when a learner's misses in an objective
+ * call for follow-up questions, and keeping those questions apart from the quiz score.
+ */
+export class RemediationService {
+  /**
+   * Get the objective's quiz questions the learner answered wrongly at least once.
+   * Follow-up questions are left out, so misses on them never start another round.
+   * @param objectiveId - The objective
+   * @param mcqs - All questions so far
+   * @param attemptCounts - Wrong attempts keyed by question ID
+   * @param wrongAnswers - Wrong answers keyed by question ID
+   * @param rounds - Remediation rounds so far
+   * @returns The missed questions with the wrong answers given
+   */
+  static missedQuestions(
+    objectiveId: string,
+    mcqs: MCQ[],
+    attemptCounts: Record<string, number>,
+    wrongAnswers: Record<string, QuestionAnswer[]>,
+    rounds: RemediationRound[]
+  ): MissedQuestion[] {
+    const followUpIds = this.followUpQuestionIds(rounds);
+
+    return mcqs
+      .filter(
+        (q) =>
+          q.objectiveId === objectiveId && !followUpIds.has(q.id) && (attemptCounts[q.id] ?? 0) > 0
+      )
+      .map((question) => ({
+        question,
+        wrongAttempts: attemptCounts[question.id],
+        wrongAnswers: wrongAnswers[question.id] ?? [],
+      }));
+  }
+
+  /**
+   * Check whether an objective needs a remediation round before moving on.
+   * @param missed - The objective's missed questions
+   * @param objectiveId - The objective
+   * @param rounds - Remediation rounds so far
+   * @param mastery - Estimated mastery of the objective, if known
+   * @returns True if the learner struggled enough, has not mastered the objective
+   * and the caps allow another round
+   */
+  static needsRemediation(
+    missed: MissedQuestion[],
+    objectiveId: string,
+    rounds: RemediationRound[],
+    mastery?: number
+  ): boolean {
+    const wrongAttempts = missed.reduce((sum, m) => sum + m.wrongAttempts, 0);
+    const objectiveRounds = rounds.filter((r) => r.objectiveId === objectiveId).length;
+
+    return (
+      wrongAttempts >= CONFIG.REMEDIATION.TRIGGER_WRONG_ATTEMPTS &&
+      !(mastery !== undefined && MasteryTracker.isMastered(mastery)) &&
+      objectiveRounds < CONFIG.REMEDIATION.MAX_ROUNDS_PER_OBJECTIVE &&
+      rounds.length < CONFIG.REMEDIATION.MAX_ROUNDS_PER_SESSION
+    );
+  }
+
+  /**
+   * Describe the missed questions for the remediation prompt.
+   * @param missed - The missed questions
+   * @returns Each question with the correct answer, the wrong answers chosen and
+   * the misconceptions behind them
+   */
+  static describeMisses(missed: MissedQuestion[]): string {
+    return missed
+      .map(({ question, wrongAnswers }, idx) => {
+        const wrong = wrongAnswers.map((a) => AnswerGrader.describeAnswer(question, a));
+        const labels = [
+          ...new Set(wrongAnswers.flatMap((a) => MisconceptionService.labelsFor(question, a))),
+        ];
+        return [
+          `${idx + 1}. ${question.question}`,
+          `   Correct answer: ${AnswerGrader.getCorrectAnswerTexts(question).join(", ")}`,
+          `   Learner chose: ${wrong.length > 0 ? wrong.join("; ") : "(not recorded)"}`,
+          ...(labels.length > 0 ? [`   Likely misconceptions: ${labels.join("; ")}`] : []),
+        ].join("\n");
+      })
+      .join("\n");
+  }
+
+  /**
+   * Get the IDs of every follow-up question asked so far.
+   * @param rounds - Remediation rounds so far
+   * @returns The follow-up question IDs
+   */
+  static followUpQuestionIds(rounds: RemediationRound[]): Set<string> {
+    return new Set(rounds.flatMap((r) => r.questionIds));
+  }
+
+  /**
+   * Find the round a follow-up question belongs to.
+   * @param rounds - Remediation rounds so far
+   * @param questionId - The question
+   * @returns The round, or undefined for quiz questions
+   */
+  static roundFor(rounds: RemediationRound[], questionId: string): RemediationRound | undefined {
+    return rounds.find((r) => r.questionIds.includes(questionId));
+  }
+
+  /**
+   * Summarize the remediation rounds for the progress report.
+   * @param rounds - Remediation rounds so far
+   * @param userAnswers - Correct answers keyed by question ID
+   * @param attemptCounts - Wrong attempts keyed by question ID
+   * @returns Counts of rounds, follow-up questions and first-try correct answers
+   */
+  static summarize(
+    rounds: RemediationRound[],
+    userAnswers: Record<string, QuestionAnswer>,
+    attemptCounts: Record<string, number>
+  ): RemediationSummary {
+    const questionIds = [...this.followUpQuestionIds(rounds)];
+    return {
+      rounds: rounds.length,
+      questions: questionIds.length,
+      correctFirstTry: questionIds.filter(
+        (id) => userAnswers[id] !== undefined && !attemptCounts[id]
+      ).length,
+    };
+  }
+}
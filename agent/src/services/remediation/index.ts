@@ -0,0 +1,6 @@
+export {
+  RemediationService,
+  type RemediationRound,
+  type MissedQuestion,
+  type RemediationSummary,
+} from "./RemediationService.js";
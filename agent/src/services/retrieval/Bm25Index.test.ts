@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { Bm25Index } from "./Bm25Index.js";
+import type { DocumentChunk } from "../../schemas/index.js";
+
+const chunk = (index: number, text: string): DocumentChunk => ({
+  id: `chunk-${index + 1}`,
+  index,
+  page: index + 1,
+  text,
+});
+
+const chunks = [
+  chunk(0, "Photosynthesis converts light energy into chemical energy in plants."),
+  chunk(1, "Mitochondria are the site of cellular respiration and ATP production."),
+  chunk(2, "The French Revolution began in 1789 and reshaped European politics."),
+];
+
+describe("Bm25Index", () => {
+  it("should rank the chunk that matches the query first", () => {
+    const results = new Bm25Index(chunks).search("How do mitochondria produce ATP?", 3);
+
+    expect(results[0].chunk.id).toBe("chunk-2");
+    expect(results.every((r) => r.score > 0)).toBe(true);
+  });
+
+  it("should only return chunks that share a term with the query", () => {
+    const results = new Bm25Index(chunks).search("revolution", 3);
+
+    expect(results.map((r) => r.chunk.id)).toEqual(["chunk-3"]);
+  });
+
+  it("should return nothing for stopword-only queries", () => {
+    expect(new Bm25Index(chunks).search("what is the", 3)).toEqual([]);
+  });
+
+  it("should respect topK", () => {
+    expect(new Bm25Index(chunks).search("energy production politics", 1)).toHaveLength(1);
+  });
+
+  describe("tokenize", () => {
+    it("should lowercase, split on punctuation and drop stopwords", () => {
+      expect(Bm25Index.tokenize("The cell's ATP-synthase is a motor!")).toEqual([
+        "cell",
+        "atp",
+        "synthase",
+        "motor",
+      ]);
+    });
+  });
+});
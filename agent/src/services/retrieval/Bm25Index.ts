@@ -0,0 +1,101 @@
+import type { DocumentChunk } from "../../schemas/index.js";
+
+/**
+ * Common English words that carry no retrieval signal.
+ */
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by can do does for from has have how i in is it its me of on or " +
+    "so than that the their them then there these they this to was we were what when where " +
+    "which while who why will with would you your"
+  ).split(" ")
+);
+
+export interface ScoredChunk {
+  chunk: DocumentChunk;
+  score: number;
+}
+
+/**
+ * Okapi BM25 lexical index over document chunks.
+ * Pure in-memory and dependency-free so retrieval works fully offline.
+ */
+export class Bm25Index {
+  private readonly termFrequencies: Map<string, number>[];
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly lengths: number[];
+  private readonly averageLength: number;
+
+  /**
+   * @param chunks - The chunks to index
+   * @param k1 - Term frequency saturation (default 1.5)
+   * @param b - Length normalization strength (default 0.75)
+   */
+  constructor(
+    private readonly chunks: DocumentChunk[],
+    private readonly k1 = 1.5,
+    private readonly b = 0.75
+  ) {
+    this.termFrequencies = chunks.map((chunk) => {
+      const frequencies = new Map<string, number>();
+      for (const term of Bm25Index.tokenize(chunk.text)) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      }
+      for (const term of frequencies.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      }
+      return frequencies;
+    });
+
+    this.lengths = this.termFrequencies.map((frequencies) =>
+      [...frequencies.values()].reduce((sum, count) => sum + count, 0)
+    );
+    this.averageLength =
+      this.lengths.length > 0
+        ? this.lengths.reduce((sum, length) => sum + length, 0) / this.lengths.length
+        : 0;
+  }
+
+  /**
+   * Rank chunks against a query.
+   * @param query - Free-text query
+   * @param topK - Maximum number of results
+   * @returns Chunks with a positive score, best first
+   */
+  search(query: string, topK: number): ScoredChunk[] {
+    const queryTerms = [...new Set(Bm25Index.tokenize(query))];
+    if (queryTerms.length === 0 || this.chunks.length === 0) return [];
+
+    const total = this.chunks.length;
+    const results: ScoredChunk[] = [];
+
+    this.termFrequencies.forEach((frequencies, idx) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = frequencies.get(term);
+        if (!tf) continue;
+        const df = this.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        const norm = 1 - this.b + this.b * (this.lengths[idx] / (this.averageLength || 1));
+        score += idf * ((tf * (this.k1 + 1)) / (tf + this.k1 * norm));
+      }
+      if (score > 0) {
+        results.push({ chunk: this.chunks[idx], score });
+      }
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  /**
+   * Split text into lowercase terms, dropping stopwords and single characters.
+   * @param text - The text to tokenize
+   * @returns The terms in order
+   */
+  static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((term) => term.length > 1 && !STOPWORDS.has(term));
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { Chunker } from "./Chunker.js";
+
+const options = { chunkSize: 100, chunkOverlap: 20 };
+
+describe("Chunker", () => {
+  describe("splitText", () => {
+    it("should keep short text as a single chunk", () => {
+      expect(Chunker.splitText("A short paragraph.", options)).toEqual(["A short paragraph."]);
+    });
+
+    it("should return no chunks for empty text", () => {
+      expect(Chunker.splitText("   ", options)).toEqual([]);
+    });
+
+    it("should split long text near sentence boundaries within the size limit", () => {
+      const text = Array.from({ length: 12 }, (_, i) => `Sentence number ${i} is here.`).join(" ");
+
+      const chunks = Chunker.splitText(text, options);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(options.chunkSize));
+      expect(chunks[0].endsWith(".")).toBe(true);
+    });
+
+    it("should overlap consecutive chunks", () => {
+      const text = Array.from({ length: 12 }, (_, i) => `Sentence number ${i} is here.`).join(" ");
+
+      const [first, second] = Chunker.splitText(text, options);
+      const tail = first.slice(-10);
+
+      expect(second).toContain(tail.trim().split(" ").pop());
+    });
+  });
+
+  describe("chunkPages", () => {
+    it("should number chunks in reading order and keep their page", () => {
+      const chunks = Chunker.chunkPages(
+        [
+          { pageNumber: 1, text: "First page text." },
+          { pageNumber: 2, text: "" },
+          { pageNumber: 3, text: "Third page text." },
+        ],
+        options
+      );
+
+      expect(chunks).toEqual([
+        { id: "chunk-1", index: 0, page: 1, text: "First page text." },
+        { id: "chunk-2", index: 1, page: 3, text: "Third page text." },
+      ]);
+    });
+  });
+});
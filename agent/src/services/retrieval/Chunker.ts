@@ -0,0 +1,107 @@
+import { AI_CONFIG } from "../../config/ai.config.js";
+import type { DocumentChunk, DocumentPage } from "../../schemas/index.js";
+
+export interface ChunkOptions {
+  /** Target chunk size in characters */
+  chunkSize: number;
+  /** Characters repeated between consecutive chunks on the same page */
+  chunkOverlap: number;
+}
+
+/**
+ * Service for splitting document pages into retrievable chunks.
+ */
+export class Chunker {
+  /**
+   * Split pages into chunks, preferring paragraph and sentence boundaries.
+   * Chunks never cross a page boundary so every chunk keeps its page number.
+   * @param pages - The extracted document pages
+   * @param options - Chunk size and overlap (defaults from AI_CONFIG.retrieval)
+   * @returns The chunks in reading order
+   */
+  static chunkPages(
+    pages: DocumentPage[],
+    options: ChunkOptions = AI_CONFIG.retrieval
+  ): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+
+    for (const page of pages) {
+      for (const text of this.splitText(page.text, options)) {
+        chunks.push({
+          id: `chunk-${chunks.length + 1}`,
+          index: chunks.length,
+          page: page.pageNumber,
+          text,
+        });
+      }
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Split a block of text into overlapping windows of roughly chunkSize characters.
+   * @param text - The text to split
+   * @param options - Chunk size and overlap
+   * @returns The chunk texts
+   */
+  static splitText(text: string, options: ChunkOptions): string[] {
+    const normalized = text.replace(/[ \t]+/g, " ").trim();
+    if (!normalized) return [];
+    if (normalized.length <= options.chunkSize) return [normalized];
+
+    const chunks: string[] = [];
+    let start = 0;
+
+    while (start < normalized.length) {
+      let end = Math.min(start + options.chunkSize, normalized.length);
+
+      if (end < normalized.length) {
+        end = this.findBreak(normalized, start, end);
+      }
+
+      const chunk = normalized.slice(start, end).trim();
+      if (chunk) chunks.push(chunk);
+      if (end >= normalized.length) break;
+
+      // Step back for overlap, but always make progress
+      const next = end - options.chunkOverlap;
+      start = next > start ? this.findWordStart(normalized, next) : end;
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Find the best place to end a chunk: a paragraph break, then a sentence end,
+   * then a space, searching back from the hard limit but no further than halfway.
+   */
+  private static findBreak(text: string, start: number, end: number): number {
+    const minEnd = start + Math.floor((end - start) / 2);
+    const window = text.slice(minEnd, end);
+
+    const paragraph = window.lastIndexOf("\n\n");
+    if (paragraph >= 0) return minEnd + paragraph;
+
+    const sentence = Math.max(
+      window.lastIndexOf(". "),
+      window.lastIndexOf("? "),
+      window.lastIndexOf("! "),
+      window.lastIndexOf(".\n")
+    );
+    if (sentence >= 0) return minEnd + sentence + 1;
+
+    const space = window.lastIndexOf(" ");
+    if (space >= 0) return minEnd + space;
+
+    return end;
+  }
+
+  /**
+   * Move forward to the start of the next word so overlaps don't begin mid-word.
+   */
+  private static findWordStart(text: string, position: number): number {
+    const space = text.indexOf(" ", position);
+    return space >= 0 && space - position < 30 ? space + 1 : position;
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { RetrievalService } from "./RetrievalService.js";
+import type { RetrievalBackend } from "./backends.js";
+import type { DocumentChunk } from "../../schemas/index.js";
+
+// Mock the logger to prevent console output during tests
+vi.mock("../../utils/logger.js", () => ({
+  logAgentDecision: vi.fn(),
+  logAgentError: vi.fn(),
+}));
+
+const chunks: DocumentChunk[] = [
+  "Chapter one introduces cells and their membranes.",
+  "Chapter two covers photosynthesis in chloroplasts.",
+  "Chapter three explains cellular respiration in mitochondria.",
+  "Chapter four describes DNA replication and repair.",
+].map((text, index) => ({ id: `chunk-${index + 1}`, index, page: index + 1, text }));
+
+describe("RetrievalService", () => {
+  afterEach(() => {
+    RetrievalService.setBackend(null);
+  });
+
+  describe("retrieve", () => {
+    it("should return relevant chunks from anywhere in the document", async () => {
+      const result = await RetrievalService.retrieve(chunks, "DNA replication", {
+        maxChars: 1000,
+      });
+
+      expect(result[0].id).toBe("chunk-4");
+    });
+
+    it("should respect the character budget", async () => {
+      const result = await RetrievalService.retrieve(chunks, "chapter", { maxChars: 60 });
+
+      expect(result).toHaveLength(1);
+    });
+
+    it("should fall back to an even spread when nothing matches", async () => {
+      const result = await RetrievalService.retrieve(chunks, "quantum chromodynamics", {
+        maxChars: 110,
+      });
+
+      expect(result.map((c) => c.id)).toEqual(["chunk-1", "chunk-3"]);
+    });
+
+    it("should fall back to lexical search when the backend fails", async () => {
+      const failing: RetrievalBackend = {
+        name: "failing",
+        search: vi.fn().mockRejectedValue(new Error("offline")),
+      };
+      RetrievalService.setBackend(failing);
+
+      const result = await RetrievalService.retrieve(chunks, "photosynthesis", {
+        maxChars: 1000,
+      });
+
+      expect(failing.search).toHaveBeenCalled();
+      expect(result[0].id).toBe("chunk-2");
+    });
+  });
+
+  describe("retrieveForQueries", () => {
+    it("should union the chunks for each query in reading order", async () => {
+      const result = await RetrievalService.retrieveForQueries(
+        chunks,
+        ["mitochondria respiration", "cell membranes"],
+        { maxChars: 200 }
+      );
+
+      expect(result.map((c) => c.id)).toEqual(["chunk-1", "chunk-3"]);
+    });
+  });
+
+  describe("buildContext", () => {
+    it("should mark each chunk with its page", async () => {
+      const context = await RetrievalService.buildContext(chunks, "photosynthesis", {
+        maxChars: 60,
+      });
+
+      expect(context).toBe("[Page 2]\nChapter two covers photosynthesis in chloroplasts.");
+    });
+
+    it("should cover the whole document when there is no query", async () => {
+      const context = await RetrievalService.buildContext(chunks, null, { maxChars: 110 });
+
+      expect(context).toContain("[Page 1]");
+      expect(context).toContain("[Page 3]");
+    });
+
+    it("should truncate the fallback text when there are no chunks", async () => {
+      const context = await RetrievalService.buildContext([], "anything", {
+        maxChars: 10,
+        fallbackText: "x".repeat(50),
+      });
+
+      expect(context).toBe(`${"x".repeat(10)}...`);
+    });
+  });
+});
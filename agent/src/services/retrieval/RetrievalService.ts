@@ -0,0 +1,196 @@
+import { AI_CONFIG } from "../../config/ai.config.js";
+import type { DocumentChunk } from "../../schemas/index.js";
+import { truncateContent } from "../../utils/helpers.js";
+import { logAgentDecision, logAgentError } from "../../utils/logger.js";
+import { EmbeddingBackend, LexicalBackend, type RetrievalBackend } from "./backends.js";
+
+export interface RetrievalOptions {
+  /** Character budget for the selected chunks */
+  maxChars: number;
+  /** Maximum chunks to rank (defaults to AI_CONFIG.retrieval.topK) */
+  topK?: number;
+  /** Text to truncate instead when the document has no chunks (older sessions) */
+  fallbackText?: string;
+  /** Agent name for logging */
+  agentName?: string;
+}
+
+/**
+ * Service for selecting the parts of a document relevant to a task.
+ * Replaces head-truncation so later sections of long documents are reachable.
+ */
+export class RetrievalService {
+  private static backend: RetrievalBackend | null = null;
+  private static readonly lexical = new LexicalBackend();
+
+  /**
+   * Get the configured ranking backend (lexical unless RETRIEVAL_BACKEND=embedding).
+   */
+  static getBackend(): RetrievalBackend {
+    if (!this.backend) {
+      this.backend =
+        AI_CONFIG.retrieval.backend === "embedding" ? new EmbeddingBackend() : this.lexical;
+    }
+    return this.backend;
+  }
+
+  /**
+   * Replace the ranking backend (e.g. a different embedding provider).
+   * @param backend - The backend to use, or null to restore the configured default
+   */
+  static setBackend(backend: RetrievalBackend | null): void {
+    this.backend = backend;
+  }
+
+  /**
+   * Retrieve the chunks most relevant to a query, within a character budget.
+   * Falls back to an even spread over the document when nothing matches.
+   * @param chunks - All document chunks
+   * @param query - What the caller is looking for (objective, question, learner message)
+   * @param options - Budget and logging options
+   * @returns Selected chunks in reading order
+   */
+  static async retrieve(
+    chunks: DocumentChunk[],
+    query: string,
+    options: RetrievalOptions
+  ): Promise<DocumentChunk[]> {
+    const topK = options.topK ?? AI_CONFIG.retrieval.topK;
+    const ranked = await this.rank(chunks, query, topK, options.agentName);
+
+    if (ranked.length === 0) {
+      return this.selectRepresentative(chunks, options.maxChars);
+    }
+
+    const selected: DocumentChunk[] = [];
+    let used = 0;
+    for (const chunk of ranked) {
+      if (used + chunk.text.length > options.maxChars && selected.length > 0) continue;
+      selected.push(chunk);
+      used += chunk.text.length;
+    }
+
+    if (options.agentName) {
+      logAgentDecision(options.agentName, "Retrieved relevant document chunks", {
+        backend: this.getBackend().name,
+        selected: selected.length,
+        pages: [...new Set(selected.map((chunk) => chunk.page))],
+        characters: used,
+      });
+    }
+
+    return selected.sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Retrieve chunks for several queries at once, sharing the budget between them.
+   * Used to ground a batch of questions where each question needs its own evidence.
+   * @param chunks - All document chunks
+   * @param queries - One query per item
+   * @param options - Total budget and logging options
+   * @returns Union of the selected chunks in reading order
+   */
+  static async retrieveForQueries(
+    chunks: DocumentChunk[],
+    queries: string[],
+    options: RetrievalOptions
+  ): Promise<DocumentChunk[]> {
+    if (queries.length === 0) return [];
+
+    const perQuery = Math.floor(options.maxChars / queries.length);
+    const selected = new Map<string, DocumentChunk>();
+    for (const query of queries) {
+      const results = await this.retrieve(chunks, query, {
+        ...options,
+        maxChars: perQuery,
+        topK: Math.max(1, Math.ceil((options.topK ?? AI_CONFIG.retrieval.topK) / queries.length)),
+        agentName: undefined,
+      });
+      results.forEach((chunk) => selected.set(chunk.id, chunk));
+    }
+
+    return [...selected.values()].sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Pick chunks spread evenly across the whole document, within a character budget.
+   * Used when there is no query yet (planning) so every section is represented.
+   * @param chunks - All document chunks
+   * @param maxChars - Character budget
+   * @returns Selected chunks in reading order
+   */
+  static selectRepresentative(chunks: DocumentChunk[], maxChars: number): DocumentChunk[] {
+    const totalChars = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+    if (totalChars <= maxChars) return chunks;
+
+    const averageLength = totalChars / chunks.length;
+    const count = Math.max(1, Math.floor(maxChars / averageLength));
+    const step = chunks.length / count;
+
+    const selected: DocumentChunk[] = [];
+    let used = 0;
+    for (let i = 0; i < count; i++) {
+      const chunk = chunks[Math.floor(i * step)];
+      if (used + chunk.text.length > maxChars && selected.length > 0) break;
+      selected.push(chunk);
+      used += chunk.text.length;
+    }
+
+    return selected;
+  }
+
+  /**
+   * Format chunks for a prompt, marking each with its page number.
+   * @param chunks - The chunks to format
+   * @returns Prompt-ready text with "[Page N]" markers
+   */
+  static formatChunks(chunks: DocumentChunk[]): string {
+    return chunks.map((chunk) => `[Page ${chunk.page}]\n${chunk.text}`).join("\n\n");
+  }
+
+  /**
+   * Build prompt context for a task: retrieved chunks when a query is given,
+   * an even spread when it is not, or truncated fallback text without chunks.
+   * @param chunks - All document chunks
+   * @param query - What the caller is looking for, or null for whole-document tasks
+   * @param options - Budget, fallback text and logging options
+   * @returns Prompt-ready document context
+   */
+  static async buildContext(
+    chunks: DocumentChunk[],
+    query: string | null,
+    options: RetrievalOptions
+  ): Promise<string> {
+    if (chunks.length === 0) {
+      return truncateContent(options.fallbackText ?? "", options.maxChars);
+    }
+
+    const selected = query
+      ? await this.retrieve(chunks, query, options)
+      : this.selectRepresentative(chunks, options.maxChars);
+
+    return this.formatChunks(selected);
+  }
+
+  /**
+   * Rank chunks with the configured backend, falling back to lexical search if it fails.
+   */
+  private static async rank(
+    chunks: DocumentChunk[],
+    query: string,
+    topK: number,
+    agentName?: string
+  ): Promise<DocumentChunk[]> {
+    const backend = this.getBackend();
+    try {
+      return (await backend.search(chunks, query, topK)).map((result) => result.chunk);
+    } catch (error) {
+      if (backend === this.lexical) throw error;
+      logAgentError(agentName ?? "Retrieval", "Retrieval backend failed, using lexical search", {
+        backend: backend.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return (await this.lexical.search(chunks, query, topK)).map((result) => result.chunk);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { createHash } from "crypto";
+import { OpenAIEmbeddings } from "@langchain/openai";
+import { AI_CONFIG } from "../../config/ai.config.js";
+import type { DocumentChunk } from "../../schemas/index.js";
+import { Bm25Index, type ScoredChunk } from "./Bm25Index.js";
+
+/**
+ * A pluggable ranking strategy for document chunks.
+ */
+export interface RetrievalBackend {
+  readonly name: string;
+  search(chunks: DocumentChunk[], query: string, topK: number): Promise<ScoredChunk[]>;
+}
+
+/**
+ * BM25 ranking. Needs no network access or API key.
+ */
+export class LexicalBackend implements RetrievalBackend {
+  readonly name = "lexical";
+
+  async search(chunks: DocumentChunk[], query: string, topK: number): Promise<ScoredChunk[]> {
+    return new Bm25Index(chunks).search(query, topK);
+  }
+}
+
+/**
+ * Cosine-similarity ranking over OpenAI embeddings.
+ * Chunk vectors are cached by content hash, so each chunk is embedded once per process.
+ */
+export class EmbeddingBackend implements RetrievalBackend {
+  readonly name = "embedding";
+  private readonly cache = new Map<string, number[]>();
+  private readonly embeddings: OpenAIEmbeddings;
+
+  constructor(model: string = AI_CONFIG.retrieval.embeddingModel) {
+    this.embeddings = new OpenAIEmbeddings({ model });
+  }
+
+  async search(chunks: DocumentChunk[], query: string, topK: number): Promise<ScoredChunk[]> {
+    if (chunks.length === 0 || !query.trim()) return [];
+
+    const keys = chunks.map((chunk) => createHash("sha1").update(chunk.text).digest("hex"));
+    const missing = keys.flatMap((key, idx) => (this.cache.has(key) ? [] : [idx]));
+    if (missing.length > 0) {
+      const vectors = await this.embeddings.embedDocuments(missing.map((idx) => chunks[idx].text));
+      missing.forEach((chunkIdx, n) => this.cache.set(keys[chunkIdx], vectors[n]));
+    }
+
+    const queryVector = await this.embeddings.embedQuery(query);
+
+    return chunks
+      .map((chunk, idx) => ({
+        chunk,
+        score: cosineSimilarity(queryVector, this.cache.get(keys[idx]) ?? []),
+      }))
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is empty).
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
@@ -0,0 +1,9 @@
+export { Chunker, type ChunkOptions } from "./Chunker.js";
+export { Bm25Index, type ScoredChunk } from "./Bm25Index.js";
+export {
+  LexicalBackend,
+  EmbeddingBackend,
+  cosineSimilarity,
+  type RetrievalBackend,
+} from "./backends.js";
+export { RetrievalService, type RetrievalOptions } from "./RetrievalService.js";
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { Sm2Scheduler } from "./Sm2Scheduler.js";
+import { CONFIG } from "../../config.js";
+
+const now = new Date("2026-01-01T09:00:00Z");
+const daysLater = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+describe("Sm2Scheduler", () => {
+  describe("quality", () => {
+    it("should grade by the wrong attempts before the correct answer", () => {
+      expect(Sm2Scheduler.quality(0)).toBe(5);
+      expect(Sm2Scheduler.quality(1)).toBe(3);
+      expect(Sm2Scheduler.quality(4)).toBe(1);
+    });
+  });
+
+  describe("next", () => {
+    it("should space successful reviews at 1 day, 6 days, then by the ease factor", () => {
+      const first = Sm2Scheduler.next(Sm2Scheduler.initial(now), 5, now);
+      expect(first).toMatchObject({ repetitions: 1, intervalDays: 1, dueAt: daysLater(1) });
+      expect(first.easeFactor).toBeCloseTo(CONFIG.REVIEW.INITIAL_EASE + 0.1);
+
+      const second = Sm2Scheduler.next(first, 5, now);
+      expect(second).toMatchObject({ repetitions: 2, intervalDays: 6, dueAt: daysLater(6) });
+
+      const third = Sm2Scheduler.next(second, 5, now);
+      expect(third.repetitions).toBe(3);
+      expect(third.intervalDays).toBe(Math.round(6 * third.easeFactor));
+    });
+
+    it("should lower the ease factor for hesitant answers", () => {
+      const next = Sm2Scheduler.next(Sm2Scheduler.initial(now), 3, now);
+
+      expect(next.easeFactor).toBeCloseTo(CONFIG.REVIEW.INITIAL_EASE - 0.14);
+      expect(next.repetitions).toBe(1);
+    });
+
+    it("should start a lapsed question over the next day without dropping below the minimum ease", () => {
+      const learned = { easeFactor: 1.4, intervalDays: 30, repetitions: 5, dueAt: now };
+      const next = Sm2Scheduler.next(learned, 1, now);
+
+      expect(next).toMatchObject({
+        easeFactor: CONFIG.REVIEW.MIN_EASE,
+        intervalDays: 1,
+        repetitions: 0,
+        dueAt: daysLater(1),
+      });
+    });
+  });
+});
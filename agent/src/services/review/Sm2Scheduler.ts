@@ -0,0 +1,80 @@
+import { CONFIG } from "../../config.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Where a question stands in its spaced repetition schedule.
+ */
+export interface ReviewSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  /** Successful reviews in a row */
+  repetitions: number;
+  dueAt: Date;
+}
+
+/**
+ * SM-2 spaced repetition scheduler.
+ * Each answer is graded 0-5; a grade below 3 is a lapse and starts the question over.
+ */
+export class Sm2Scheduler {
+  /**
+   * Grade an answer from the wrong attempts before the correct one.
+   * @param wrongAttempts - Wrong attempts on the question
+   * @returns 5 for first try, 3 after one wrong attempt, 1 after more (a lapse)
+   */
+  static quality(wrongAttempts: number): number {
+    if (wrongAttempts <= 0) return 5;
+    if (wrongAttempts === 1) return 3;
+    return 1;
+  }
+
+  /**
+   * Get the schedule of a question that has never been reviewed.
+   * @param now - The current time
+   * @returns A schedule due immediately
+   */
+  static initial(now: Date = new Date()): ReviewSchedule {
+    return {
+      easeFactor: CONFIG.REVIEW.INITIAL_EASE,
+      intervalDays: 0,
+      repetitions: 0,
+      dueAt: now,
+    };
+  }
+
+  /**
+   * Schedule the next review after an answer.
+   * @param schedule - The question's current schedule
+   * @param quality - The answer's grade (0-5)
+   * @param now - When the answer was given
+   * @returns The updated schedule
+   */
+  static next(schedule: ReviewSchedule, quality: number, now: Date = new Date()): ReviewSchedule {
+    const easeFactor = Math.max(
+      CONFIG.REVIEW.MIN_EASE,
+      schedule.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    if (quality < 3) {
+      return { easeFactor, intervalDays: 1, repetitions: 0, dueAt: this.addDays(now, 1) };
+    }
+
+    const repetitions = schedule.repetitions + 1;
+    const intervalDays =
+      repetitions === 1
+        ? 1
+        : repetitions === 2
+          ? 6
+          : Math.round(schedule.intervalDays * easeFactor);
+
+    return { easeFactor, intervalDays, repetitions, dueAt: this.addDays(now, intervalDays) };
+  }
+
+  /**
+   * Add whole days to a date.
+   */
+  private static addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * DAY_MS);
+  }
+}
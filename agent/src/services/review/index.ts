@@ -0,0 +1 @@
+export { Sm2Scheduler, type ReviewSchedule } from "./Sm2Scheduler.js";
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { AnswerGrader } from "./AnswerGrader.js";
+import type {
+  SingleChoiceQuestion,
+  TrueFalseQuestion,
+  MultiSelectQuestion,
+  FillBlankQuestion,
+} from "../../schemas/index.js";
+
+const base = {
+  id: "q1",
+  objectiveId: "obj-1",
+  documentId: null,
+  hint: "A hint",
+  explanation: "An explanation",
+  sourceRefs: [{ page: 1, quote: "A supporting quote" }],
+};
+
+const singleChoice: SingleChoiceQuestion = {
+  ...base,
+  type: "single_choice",
+  question: "Which organelle produces energy?",
+  options: ["Nucleus", "Mitochondria", "Ribosome", "Golgi"],
+  correctAnswer: 1,
+};
+
+const trueFalse: TrueFalseQuestion = {
+  ...base,
+  type: "true_false",
+  question: "Mitochondria have their own DNA.",
+  correctAnswer: true,
+};
+
+const multiSelect: MultiSelectQuestion = {
+  ...base,
+  type: "multi_select",
+  question: "Which are prime numbers?",
+  options: ["2", "3", "4", "9"],
+  correctAnswers: [0, 1],
+};
+
+const fillBlank: FillBlankQuestion = {
+  ...base,
+  type: "fill_blank",
+  question: "The powerhouse of the cell is the ____.",
+  acceptableAnswers: ["mitochondria", "mitochondrion"],
+};
+
+describe("AnswerGrader", () => {
+  describe("parseAnswer", () => {
+    it("should parse option indexes for single choice", () => {
+      expect(AnswerGrader.parseAnswer(singleChoice, 2)).toBe(2);
+      expect(AnswerGrader.parseAnswer(singleChoice, "1")).toBe(1);
+      expect(AnswerGrader.parseAnswer(singleChoice, "abc")).toBeNull();
+    });
+
+    it("should parse booleans for true/false", () => {
+      expect(AnswerGrader.parseAnswer(trueFalse, true)).toBe(true);
+      expect(AnswerGrader.parseAnswer(trueFalse, "False")).toBe(false);
+      expect(AnswerGrader.parseAnswer(trueFalse, "maybe")).toBeNull();
+    });
+
+    it("should parse sorted, de-duplicated indexes for multi-select", () => {
+      expect(AnswerGrader.parseAnswer(multiSelect, [1, 0, 1])).toEqual([0, 1]);
+      expect(AnswerGrader.parseAnswer(multiSelect, "[2,0]")).toEqual([0, 2]);
+      expect(AnswerGrader.parseAnswer(multiSelect, "3,1")).toEqual([1, 3]);
+      expect(AnswerGrader.parseAnswer(multiSelect, "a,b")).toBeNull();
+    });
+
+    it("should keep free text for fill-in-the-blank", () => {
+      expect(AnswerGrader.parseAnswer(fillBlank, " Mitochondria ")).toBe(" Mitochondria ");
+      expect(AnswerGrader.parseAnswer(fillBlank, { text: "x" })).toBeNull();
+    });
+  });
+
+  describe("isCorrect", () => {
+    it("should return false for unanswered questions", () => {
+      expect(AnswerGrader.isCorrect(singleChoice, undefined)).toBe(false);
+    });
+
+    it("should grade single choice by index", () => {
+      expect(AnswerGrader.isCorrect(singleChoice, 1)).toBe(true);
+      expect(AnswerGrader.isCorrect(singleChoice, 0)).toBe(false);
+    });
+
+    it("should grade true/false by boolean", () => {
+      expect(AnswerGrader.isCorrect(trueFalse, true)).toBe(true);
+      expect(AnswerGrader.isCorrect(trueFalse, false)).toBe(false);
+    });
+
+    it("should require the exact set of correct options for multi-select", () => {
+      expect(AnswerGrader.isCorrect(multiSelect, [1, 0])).toBe(true);
+      expect(AnswerGrader.isCorrect(multiSelect, [0])).toBe(false);
+      expect(AnswerGrader.isCorrect(multiSelect, [0, 1, 2])).toBe(false);
+    });
+
+    it("should match fill-in-the-blank answers loosely", () => {
+      expect(AnswerGrader.isCorrect(fillBlank, "The Mitochondria.")).toBe(true);
+      expect(AnswerGrader.isCorrect(fillBlank, "mitochondrion")).toBe(true);
+      expect(AnswerGrader.isCorrect(fillBlank, "nucleus")).toBe(false);
+      expect(AnswerGrader.isCorrect(fillBlank, "   ")).toBe(false);
+    });
+  });
+
+  describe("getOptions", () => {
+    it("should expose True/False labels and no options for blanks", () => {
+      expect(AnswerGrader.getOptions(trueFalse)).toEqual(["True", "False"]);
+      expect(AnswerGrader.getOptions(fillBlank)).toEqual([]);
+      expect(AnswerGrader.getOptions(multiSelect)).toEqual(multiSelect.options);
+    });
+  });
+
+  describe("getCorrectAnswerTexts", () => {
+    it("should return the text of every correct answer", () => {
+      expect(AnswerGrader.getCorrectAnswerTexts(singleChoice)).toEqual(["Mitochondria"]);
+      expect(AnswerGrader.getCorrectAnswerTexts(trueFalse)).toEqual(["True"]);
+      expect(AnswerGrader.getCorrectAnswerTexts(multiSelect)).toEqual(["2", "3"]);
+      expect(AnswerGrader.getCorrectAnswerTexts(fillBlank)).toEqual(fillBlank.acceptableAnswers);
+    });
+  });
+
+  describe("describeAnswer", () => {
+    it("should render answers as readable text", () => {
+      expect(AnswerGrader.describeAnswer(singleChoice, 1)).toBe("B) Mitochondria");
+      expect(AnswerGrader.describeAnswer(trueFalse, false)).toBe("False");
+      expect(AnswerGrader.describeAnswer(multiSelect, [0, 1])).toBe("A) 2, B) 3");
+      expect(AnswerGrader.describeAnswer(fillBlank, "cell")).toBe('"cell"');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import type { MCQ, QuestionAnswer, AnswerKey } from "../../schemas/index.js";
+
+const TRUE_FALSE_OPTIONS = ["True", "False"];
+
+/**
+ * Service for interpreting and grading answers across all question types.
+ */
+export class AnswerGrader {
+  /**
+   * Coerce a raw resume value into an answer of the right shape for the question.
+   * Resume values arrive as strings when they pass through the API (e.g. "2",
+   * "true", "[0,2]"), so every type accepts both native and string forms.
+   * @param question - The question being answered
+   * @param raw - The raw value from the interrupt resume
+   * @returns The parsed answer, or null if it cannot be interpreted
+   */
+  static parseAnswer(question: MCQ, raw: unknown): QuestionAnswer | null {
+    switch (question.type) {
+      case "single_choice": {
+        const index = typeof raw === "number" ? raw : parseInt(String(raw), 10);
+        return Number.isInteger(index) ? index : null;
+      }
+      case "true_false": {
+        if (typeof raw === "boolean") return raw;
+        const text = String(raw).trim().toLowerCase();
+        if (text === "true") return true;
+        if (text === "false") return false;
+        return null;
+      }
+      case "multi_select": {
+        let values: unknown = raw;
+        if (typeof raw === "string") {
+          try {
+            values = JSON.parse(raw);
+          } catch {
+            values = raw.split(",").map((part) => parseInt(part, 10));
+          }
+        }
+        if (!Array.isArray(values)) return null;
+        const indexes = values.filter((v): v is number => Number.isInteger(v));
+        return indexes.length === values.length
+          ? [...new Set(indexes)].sort((a, b) => a - b)
+          : null;
+      }
+      case "fill_blank":
+        return typeof raw === "string" || typeof raw === "number" ? String(raw) : null;
+    }
+  }
+
+  /**
+   * Check whether an answer is correct for the given question.
+   * @param question - The question being graded
+   * @param answer - The learner's answer (undefined if unanswered)
+   * @returns True if the answer is correct
+   */
+  static isCorrect(question: MCQ, answer: QuestionAnswer | undefined): boolean {
+    if (answer === undefined) return false;
+
+    switch (question.type) {
+      case "single_choice":
+        return answer === question.correctAnswer;
+      case "true_false":
+        return answer === question.correctAnswer;
+      case "multi_select": {
+        if (!Array.isArray(answer)) return false;
+        const expected = new Set(question.correctAnswers);
+        const given = new Set(answer);
+        return given.size === expected.size && [...given].every((idx) => expected.has(idx));
+      }
+      case "fill_blank": {
+        if (typeof answer !== "string") return false;
+        const normalized = this.normalizeText(answer);
+        return (
+          normalized.length > 0 &&
+          question.acceptableAnswers.some((accepted) => this.normalizeText(accepted) === normalized)
+        );
+      }
+    }
+  }
+
+  /**
+   * Get the answer key for a question in a type-independent shape.
+   * @param question - The question
+   * @returns The correct option index(es), boolean or accepted answers
+   */
+  static getAnswerKey(question: MCQ): AnswerKey {
+    switch (question.type) {
+      case "single_choice":
+      case "true_false":
+        return question.correctAnswer;
+      case "multi_select":
+        return question.correctAnswers;
+      case "fill_blank":
+        return question.acceptableAnswers;
+    }
+  }
+
+  /**
+   * Get the options shown to the learner.
+   * True/false questions expose fixed "True"/"False" labels; fill-in-the-blank has none.
+   * @param question - The question
+   * @returns The display options
+   */
+  static getOptions(question: MCQ): string[] {
+    switch (question.type) {
+      case "single_choice":
+      case "multi_select":
+        return question.options;
+      case "true_false":
+        return TRUE_FALSE_OPTIONS;
+      case "fill_blank":
+        return [];
+    }
+  }
+
+  /**
+   * Get the text of every correct answer (used by guardrails to spot leaks).
+   * @param question - The question
+   * @returns The correct option texts or accepted answers
+   */
+  static getCorrectAnswerTexts(question: MCQ): string[] {
+    switch (question.type) {
+      case "single_choice":
+        return [question.options[question.correctAnswer]].filter(Boolean);
+      case "true_false":
+        return [question.correctAnswer ? "True" : "False"];
+      case "multi_select":
+        return question.correctAnswers.map((idx) => question.options[idx]).filter(Boolean);
+      case "fill_blank":
+        return question.acceptableAnswers;
+    }
+  }
+
+  /**
+   * Render a learner's answer as readable text, e.g. "B) Mitochondria".
+   * @param question - The question
+   * @param answer - The learner's answer
+   * @returns A human-readable description of the answer
+   */
+  static describeAnswer(question: MCQ, answer: QuestionAnswer): string {
+    switch (question.type) {
+      case "single_choice":
+        return typeof answer === "number" ? this.labelOption(question.options, answer) : "";
+      case "true_false":
+        return typeof answer === "boolean" ? (answer ? "True" : "False") : "";
+      case "multi_select":
+        return Array.isArray(answer)
+          ? answer.map((idx) => this.labelOption(question.options, idx)).join(", ")
+          : "";
+      case "fill_blank":
+        return `"${String(answer)}"`;
+    }
+  }
+
+  /**
+   * Format an option as "B) text".
+   */
+  private static labelOption(options: string[], index: number): string {
+    return `${String.fromCharCode(65 + index)}) ${options[index] ?? ""}`.trim();
+  }
+
+  /**
+   * Normalize free text for comparison: case, surrounding punctuation,
+   * leading articles and repeated whitespace are ignored.
+   * @param text - The text to normalize
+   * @returns The normalized text
+   */
+  static normalizeText(text: string): string {
+    return text
+      .toLowerCase()
+      .trim()
+      .replace(/[“”"'`.,;:!?()[\]]/g, "")
+      .replace(/^(the|a|an)\s+/, "")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+}
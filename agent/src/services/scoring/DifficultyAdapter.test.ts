@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import { DifficultyAdapter } from "./DifficultyAdapter.js";
+import { CONFIG } from "../../config.js";
+import type { MCQ, LearningObjective } from "../../schemas/index.js";
+
+const createMockMCQ = (id: string, objectiveId: string): MCQ => ({
+  id,
+  objectiveId,
+  documentId: null,
+  type: "single_choice",
+  question: `Question ${id}`,
+  options: ["A", "B", "C", "D"],
+  correctAnswer: 0,
+  hint: "A hint",
+  explanation: "An explanation",
+  sourceRefs: [],
+});
+
+const createMockObjective = (
+  id: string,
+  difficulty: LearningObjective["difficulty"]
+): LearningObjective => ({
+  id,
+  title: `Objective ${id}`,
+  description: `Description for ${id}`,
+  difficulty,
+  sectionIds: [],
+  documentIds: [],
+});
+
+const objectives = [
+  createMockObjective("obj-1", "medium"),
+  createMockObjective("obj-2", "medium"),
+  createMockObjective("obj-3", "easy"),
+];
+
+// The first objective is finished: every question answered correctly, some after retries
+const mcqs = ["q1", "q2", "q3"].map((id) => createMockMCQ(id, "obj-1"));
+const userAnswers = { q1: 0, q2: 0, q3: 0 };
+
+describe("DifficultyAdapter", () => {
+  it("should keep the planned difficulty until there are enough answers", () => {
+    const decision = DifficultyAdapter.decide(objectives[1], objectives, mcqs, { q1: 0 }, {});
+
+    expect(decision).toMatchObject({
+      difficulty: "medium",
+      adjustment: "kept",
+      firstTryAccuracy: null,
+      questionsConsidered: 1,
+    });
+  });
+
+  it("should raise the difficulty when earlier questions were answered on the first try", () => {
+    const decision = DifficultyAdapter.decide(objectives[1], objectives, mcqs, userAnswers, {});
+
+    expect(decision).toMatchObject({
+      plannedDifficulty: "medium",
+      difficulty: "hard",
+      adjustment: "raised",
+      firstTryAccuracy: 100,
+    });
+  });
+
+  it("should hold the difficulty when correct answers were slow", () => {
+    const slow = Object.fromEntries(
+      ["q1", "q2", "q3"].map((id) => [
+        id,
+        [
+          {
+            answer: 0,
+            isCorrect: true,
+            durationMs: (CONFIG.ADAPTIVE.HOLD_ABOVE_SECONDS + 30) * 1000,
+          },
+        ],
+      ])
+    );
+    const decision = DifficultyAdapter.decide(
+      objectives[1],
+      objectives,
+      mcqs,
+      userAnswers,
+      {},
+      slow
+    );
+
+    expect(decision).toMatchObject({
+      difficulty: "medium",
+      adjustment: "kept",
+      firstTryAccuracy: 100,
+      medianSeconds: CONFIG.ADAPTIVE.HOLD_ABOVE_SECONDS + 30,
+    });
+  });
+
+  it("should lower the difficulty when earlier questions needed retries", () => {
+    const decision = DifficultyAdapter.decide(objectives[1], objectives, mcqs, userAnswers, {
+      q1: 2,
+      q2: 1,
+    });
+
+    expect(decision).toMatchObject({
+      difficulty: "easy",
+      adjustment: "lowered",
+      firstTryAccuracy: 33,
+    });
+  });
+
+  it("should lower the difficulty after wrong exam answers, which leave no userAnswers", () => {
+    // Exam answers get one attempt each; only the correct one is kept in userAnswers
+    const examAttempts = {
+      q1: [{ answer: 1, isCorrect: false }],
+      q2: [{ answer: 2, isCorrect: false }],
+      q3: [{ answer: 0, isCorrect: true }],
+    };
+    const decision = DifficultyAdapter.decide(
+      objectives[1],
+      objectives,
+      mcqs,
+      { q3: 0 },
+      {},
+      examAttempts
+    );
+
+    expect(decision).toMatchObject({
+      difficulty: "easy",
+      adjustment: "lowered",
+      firstTryAccuracy: 33,
+      questionsConsidered: 3,
+    });
+  });
+
+  it("should not go below the easiest level", () => {
+    const decision = DifficultyAdapter.decide(objectives[2], objectives, mcqs, userAnswers, {
+      q1: 1,
+      q2: 1,
+      q3: 1,
+    });
+
+    expect(decision).toMatchObject({ difficulty: "easy", adjustment: "kept", firstTryAccuracy: 0 });
+  });
+
+  it("should only count questions from earlier objectives", () => {
+    const withCurrent = [...mcqs, createMockMCQ("q4", "obj-2")];
+    const decision = DifficultyAdapter.decide(
+      objectives[1],
+      objectives,
+      withCurrent,
+      { ...userAnswers, q4: 0 },
+      { q4: 3 }
+    );
+
+    expect(decision.questionsConsidered).toBe(3);
+    expect(decision.adjustment).toBe("raised");
+  });
+});
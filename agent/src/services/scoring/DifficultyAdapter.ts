@@ -0,0 +1,125 @@
+import type { LearningObjective, MCQ, QuestionAnswer } from "../../schemas/index.js";
+import { CONFIG } from "../../config.js";
+import type { QuestionAttempt } from "./ScoreCalculator.js";
+import { TimingService } from "../timing/TimingService.js";
+
+type Difficulty = LearningObjective["difficulty"];
+
+const LEVELS: Difficulty[] = ["easy", "medium", "hard"];
+
+export interface DifficultyDecision {
+  objectiveId: string;
+  plannedDifficulty: Difficulty;
+  difficulty: Difficulty;
+  adjustment: "raised" | "lowered" | "kept";
+  /** Share of recent questions answered correctly on the first try (0-100), null without evidence */
+  firstTryAccuracy: number | null;
+  /** Median server-measured time on the recent questions, null if none were timed */
+  medianSeconds: number | null;
+  questionsConsidered: number;
+  reason: string;
+}
+
+/**
+ * Service for adapting each objective's difficulty to how the learner is doing
+ * on the objectives before it.
+ */
+export class DifficultyAdapter {
+  /**
+   * Decide the difficulty to generate an objective's questions at.
+   * Only questions from earlier objectives count, so a decision made for a prefetch
+   * can be compared with the one made when the objective actually starts.
+   * @param objective - The objective about to be generated
+   * @param objectives - The approved plan, in order
+   * @param mcqs - Questions generated so far
+   * @param userAnswers - Correct answers keyed by question ID
+   * @param attemptCounts - Wrong attempts keyed by question ID
+   * @param attempts - Every attempt keyed by question ID, for first tries and response times
+   * @returns The difficulty to use and why
+   */
+  static decide(
+    objective: LearningObjective,
+    objectives: LearningObjective[],
+    mcqs: MCQ[],
+    userAnswers: Record<string, QuestionAnswer>,
+    attemptCounts: Record<string, number>,
+    attempts: Record<string, QuestionAttempt[]> = {}
+  ): DifficultyDecision {
+    const earlierIds = new Set(
+      objectives
+        .slice(
+          0,
+          objectives.findIndex((o) => o.id === objective.id)
+        )
+        .map((o) => o.id)
+    );
+    const recent = mcqs
+      .filter(
+        (q) =>
+          earlierIds.has(q.objectiveId) &&
+          ((attempts[q.id]?.length ?? 0) > 0 || userAnswers[q.id] !== undefined)
+      )
+      .slice(-CONFIG.ADAPTIVE.WINDOW);
+    const seconds = TimingService.questionSeconds(attempts);
+    const medianSeconds = TimingService.median(
+      recent.filter((q) => seconds[q.id] !== undefined).map((q) => seconds[q.id])
+    );
+
+    const decision = (
+      difficulty: Difficulty,
+      reason: string,
+      firstTryAccuracy: number | null = null
+    ): DifficultyDecision => ({
+      objectiveId: objective.id,
+      plannedDifficulty: objective.difficulty,
+      difficulty,
+      adjustment:
+        difficulty === objective.difficulty
+          ? "kept"
+          : LEVELS.indexOf(difficulty) > LEVELS.indexOf(objective.difficulty)
+            ? "raised"
+            : "lowered",
+      firstTryAccuracy,
+      medianSeconds,
+      questionsConsidered: recent.length,
+      reason,
+    });
+
+    if (recent.length < CONFIG.ADAPTIVE.MIN_EVIDENCE) {
+      return decision(objective.difficulty, "Not enough answers yet to adapt");
+    }
+
+    // The first recorded attempt says it directly; userAnswers only holds correct answers, so
+    // exam questions answered wrong appear nowhere else. Checkpoints from before attempts were
+    // recorded fall back to correct answers that needed no retries.
+    const firstTryCorrect = recent.filter((q) => {
+      const first = attempts[q.id]?.[0];
+      if (first) return first.isCorrect;
+      return userAnswers[q.id] !== undefined && (attemptCounts[q.id] ?? 0) === 0;
+    }).length;
+    const firstTryAccuracy = Math.round((firstTryCorrect / recent.length) * 100);
+    const summary = `${firstTryAccuracy}% of recent questions answered correctly on the first try`;
+
+    const level = LEVELS.indexOf(objective.difficulty);
+    if (firstTryAccuracy >= CONFIG.ADAPTIVE.RAISE_AT && level < LEVELS.length - 1) {
+      // Right but slow answers mean the current level is still hard work
+      if (medianSeconds !== null && medianSeconds > CONFIG.ADAPTIVE.HOLD_ABOVE_SECONDS) {
+        return decision(
+          objective.difficulty,
+          `${summary}, but with a median of ${medianSeconds}s per question; keeping the planned difficulty`,
+          firstTryAccuracy
+        );
+      }
+      return decision(LEVELS[level + 1], summary, firstTryAccuracy);
+    }
+    if (firstTryAccuracy < CONFIG.ADAPTIVE.LOWER_BELOW && level > 0) {
+      return decision(LEVELS[level - 1], summary, firstTryAccuracy);
+    }
+
+    return decision(
+      objective.difficulty,
+      `${summary}; keeping the planned difficulty`,
+      firstTryAccuracy
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { MasteryTracker } from "./MasteryTracker.js";
+import { CONFIG } from "../../config.js";
+import type { LearningObjective } from "../../schemas/index.js";
+
+const params = { prior: 0.3, learn: 0.1, slip: 0.1, guess: 0.2 };
+
+const createMockObjective = (id: string): LearningObjective => ({
+  id,
+  title: `Objective ${id}`,
+  description: `Description for ${id}`,
+  difficulty: "medium",
+  sectionIds: [],
+  documentIds: [],
+});
+
+describe("MasteryTracker", () => {
+  describe("estimate", () => {
+    it("should start from the prior until the objective has attempts", () => {
+      expect(MasteryTracker.estimate("obj-1", {}, params)).toBe(0.3);
+      expect(MasteryTracker.estimate("obj-1", { "obj-1": 0.7 }, params)).toBe(0.7);
+    });
+  });
+
+  describe("update", () => {
+    it("should apply the observation then the chance of learning", () => {
+      // Correct: 0.3 * 0.9 / (0.27 + 0.7 * 0.2) = 0.6585, then + 0.3415 * 0.1
+      expect(MasteryTracker.update(0.3, true, params)).toBeCloseTo(0.6927, 4);
+      // Wrong: 0.3 * 0.1 / (0.03 + 0.7 * 0.8) = 0.0508, then + 0.9492 * 0.1
+      expect(MasteryTracker.update(0.3, false, params)).toBeCloseTo(0.1458, 4);
+    });
+
+    it("should climb towards mastery with consecutive correct answers", () => {
+      let probability = params.prior;
+      for (let i = 0; i < 4; i++) {
+        const next = MasteryTracker.update(probability, true, params);
+        expect(next).toBeGreaterThan(probability);
+        probability = next;
+      }
+
+      expect(MasteryTracker.isMastered(probability)).toBe(true);
+    });
+
+    it("should stay between 0 and 1", () => {
+      expect(MasteryTracker.update(1, false, params)).toBeLessThanOrEqual(1);
+      expect(MasteryTracker.update(0, true, params)).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe("summarize", () => {
+    it("should report only objectives with attempts, in plan order", () => {
+      const objectives = ["obj-1", "obj-2", "obj-3"].map(createMockObjective);
+      const summary = MasteryTracker.summarize(objectives, { "obj-3": 0.456, "obj-1": 0.99 });
+
+      expect(summary).toEqual([
+        { objectiveId: "obj-1", title: "Objective obj-1", probability: 0.99, mastered: true },
+        { objectiveId: "obj-3", title: "Objective obj-3", probability: 0.46, mastered: false },
+      ]);
+    });
+  });
+
+  describe("identifyAreasToReview", () => {
+    it("should list objectives below the review threshold", () => {
+      const objectives = ["obj-1", "obj-2", "obj-3"].map(createMockObjective);
+      const areas = MasteryTracker.identifyAreasToReview(objectives, {
+        "obj-1": CONFIG.MASTERY.REVIEW_BELOW,
+        "obj-2": CONFIG.MASTERY.REVIEW_BELOW - 0.01,
+      });
+
+      expect(areas).toEqual(["Objective obj-2"]);
+    });
+  });
+});
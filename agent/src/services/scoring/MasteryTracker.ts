@@ -0,0 +1,120 @@
+import type { LearningObjective } from "../../schemas/index.js";
+import { CONFIG } from "../../config.js";
+
+/**
+ * Bayesian Knowledge Tracing parameters, all probabilities between 0 and 1.
+ */
+export interface BktParams {
+  /** Chance the learner knows the objective before any attempt */
+  prior: number;
+  /** Chance of learning the objective at each attempt */
+  learn: number;
+  /** Chance of answering wrongly despite knowing the objective */
+  slip: number;
+  /** Chance of answering correctly without knowing the objective */
+  guess: number;
+}
+
+/**
+ * Estimated mastery of one objective, for the progress report.
+ */
+export interface ObjectiveMastery {
+  objectiveId: string;
+  title: string;
+  probability: number;
+  mastered: boolean;
+}
+
+/**
+ * Service estimating how well the learner knows each objective with Bayesian
+ * Knowledge Tracing: every attempt updates the probability that the objective
+ * is known, allowing for slips and lucky guesses.
+ */
+export class MasteryTracker {
+  /**
+   * Get the configured BKT parameters.
+   */
+  static params(): BktParams {
+    return {
+      prior: CONFIG.MASTERY.PRIOR,
+      learn: CONFIG.MASTERY.LEARN,
+      slip: CONFIG.MASTERY.SLIP,
+      guess: CONFIG.MASTERY.GUESS,
+    };
+  }
+
+  /**
+   * Get the current mastery estimate for an objective.
+   * @param objectiveId - The objective
+   * @param mastery - Mastery probabilities keyed by objective ID
+   * @param params - BKT parameters
+   * @returns The estimate, or the prior if nothing was answered yet
+   */
+  static estimate(
+    objectiveId: string,
+    mastery: Record<string, number>,
+    params: BktParams = this.params()
+  ): number {
+    return mastery[objectiveId] ?? params.prior;
+  }
+
+  /**
+   * Update a mastery estimate after one attempt.
+   * The observation is applied first, then the chance of learning from the attempt.
+   * @param probability - Mastery before the attempt
+   * @param correct - Whether the attempt was correct
+   * @param params - BKT parameters
+   * @returns Mastery after the attempt
+   */
+  static update(probability: number, correct: boolean, params: BktParams = this.params()): number {
+    const { learn, slip, guess } = params;
+
+    const posterior = correct
+      ? (probability * (1 - slip)) / (probability * (1 - slip) + (1 - probability) * guess)
+      : (probability * slip) / (probability * slip + (1 - probability) * (1 - guess));
+
+    return posterior + (1 - posterior) * learn;
+  }
+
+  /**
+   * Check whether a mastery estimate counts as mastered.
+   */
+  static isMastered(probability: number): boolean {
+    return probability >= CONFIG.MASTERY.MASTERED_AT;
+  }
+
+  /**
+   * Build the mastery breakdown for the objectives the learner answered questions on.
+   * @param objectives - The learning objectives, in plan order
+   * @param mastery - Mastery probabilities keyed by objective ID
+   * @returns Mastery per objective, rounded to two decimals
+   */
+  static summarize(
+    objectives: LearningObjective[],
+    mastery: Record<string, number>
+  ): ObjectiveMastery[] {
+    return objectives
+      .filter((o) => mastery[o.id] !== undefined)
+      .map((o) => ({
+        objectiveId: o.id,
+        title: o.title,
+        probability: Math.round(mastery[o.id] * 100) / 100,
+        mastered: this.isMastered(mastery[o.id]),
+      }));
+  }
+
+  /**
+   * Identify objectives whose estimated mastery is still low.
+   * @param objectives - The learning objectives, in plan order
+   * @param mastery - Mastery probabilities keyed by objective ID
+   * @returns Titles of the objectives below the review threshold
+   */
+  static identifyAreasToReview(
+    objectives: LearningObjective[],
+    mastery: Record<string, number>
+  ): string[] {
+    return objectives
+      .filter((o) => mastery[o.id] !== undefined && mastery[o.id] < CONFIG.MASTERY.REVIEW_BELOW)
+      .map((o) => o.title);
+  }
+}
@@ -6,11 +6,14 @@ import type { MCQ, LearningObjective } from "../../schemas/index.js";
 const createMockMCQ = (id: string, objectiveId: string, correctAnswer: number): MCQ => ({
   id,
   objectiveId,
+  documentId: null,
+  type: "single_choice",
   question: `Question ${id}`,
   options: ["A", "B", "C", "D"],
   correctAnswer,
   hint: "A hint",
   explanation: "An explanation",
+  sourceRefs: [{ page: 1, quote: "A supporting quote" }],
 });
 
 // Helper to create mock objectives
@@ -19,6 +22,8 @@ const createMockObjective = (id: string, title: string): LearningObjective => ({
   title,
   description: `Description for ${title}`,
   difficulty: "medium",
+  sectionIds: [],
+  documentIds: [],
 });
 
 describe("ScoreCalculator", () => {
@@ -84,6 +89,52 @@ describe("ScoreCalculator", () => {
       expect(result.score).toBe(50);
     });
 
+    it("should grade mixed question types", () => {
+      const mcqs: MCQ[] = [
+        createMockMCQ("q1", "obj-1", 0),
+        {
+          id: "q2",
+          objectiveId: "obj-1",
+          documentId: null,
+          type: "true_false",
+          question: "The sky is blue.",
+          correctAnswer: true,
+          hint: "A hint",
+          explanation: "An explanation",
+          sourceRefs: [],
+        },
+        {
+          id: "q3",
+          objectiveId: "obj-1",
+          documentId: null,
+          type: "multi_select",
+          question: "Select the primes",
+          options: ["2", "3", "4", "6"],
+          correctAnswers: [0, 1],
+          hint: "A hint",
+          explanation: "An explanation",
+          sourceRefs: [],
+        },
+        {
+          id: "q4",
+          objectiveId: "obj-1",
+          documentId: null,
+          type: "fill_blank",
+          question: "Water is made of hydrogen and ____.",
+          acceptableAnswers: ["oxygen"],
+          hint: "A hint",
+          explanation: "An explanation",
+          sourceRefs: [],
+        },
+      ];
+      const userAnswers = { q1: 0, q2: true, q3: [1, 0], q4: "Oxygen" };
+
+      const result = ScoreCalculator.calculateScore(mcqs, userAnswers);
+
+      expect(result.correctCount).toBe(4);
+      expect(result.score).toBe(100);
+    });
+
     it("should round scores correctly", () => {
       const mcqs: MCQ[] = [
         createMockMCQ("q1", "obj-1", 0),
@@ -98,6 +149,67 @@ describe("ScoreCalculator", () => {
     });
   });
 
+  describe("calculateAttemptScore", () => {
+    const mcqs: MCQ[] = [
+      createMockMCQ("q1", "obj-1", 0),
+      createMockMCQ("q2", "obj-1", 1),
+      createMockMCQ("q3", "obj-2", 2),
+      createMockMCQ("q4", "obj-2", 3),
+    ];
+    const wrong = { answer: 3, isCorrect: false };
+
+    it("should give full credit only for first-try answers", () => {
+      const result = ScoreCalculator.calculateAttemptScore(
+        mcqs,
+        {
+          q1: [{ answer: 0, isCorrect: true }],
+          q2: [wrong, { answer: 1, isCorrect: true }],
+          q3: [wrong, wrong, { answer: 2, isCorrect: true }],
+          q4: [{ answer: 0, isCorrect: false }],
+        },
+        0.5
+      );
+
+      // 1 + 0.5 + 0.25 + 0 of 4 marks
+      expect(result).toEqual({
+        totalQuestions: 4,
+        correctCount: 3,
+        score: 44,
+        firstTryCorrect: 1,
+        firstTryAccuracy: 25,
+        meanAttempts: 1.75,
+      });
+    });
+
+    it("should not report 100% when every question was eventually answered", () => {
+      const result = ScoreCalculator.calculateAttemptScore(mcqs.slice(0, 2), {
+        q1: [{ answer: 0, isCorrect: true }],
+        q2: [wrong, { answer: 1, isCorrect: true }],
+      });
+
+      expect(result.correctCount).toBe(2);
+      expect(result.score).toBeLessThan(100);
+      expect(result.firstTryAccuracy).toBe(50);
+    });
+
+    it("should count unanswered questions against the score but not the mean attempts", () => {
+      const result = ScoreCalculator.calculateAttemptScore(mcqs, {
+        q1: [{ answer: 0, isCorrect: true }],
+      });
+
+      expect(result.score).toBe(25);
+      expect(result.meanAttempts).toBe(1);
+    });
+
+    it("should handle sessions without attempts", () => {
+      expect(ScoreCalculator.calculateAttemptScore([], {})).toMatchObject({
+        score: 0,
+        firstTryAccuracy: 0,
+        meanAttempts: 0,
+      });
+    });
+  });
+
   describe("calculateObjectivePerformance", () => {
     it("should group performance by objective", () => {
       const mcqs: MCQ[] = [
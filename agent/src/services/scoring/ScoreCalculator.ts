@@ -1,4 +1,6 @@
-import type { MCQ, LearningObjective } from "../../schemas/index.js";
+import type { MCQ, LearningObjective, QuestionAnswer, Confidence } from "../../schemas/index.js";
+import { CONFIG } from "../../config.js";
+import { AnswerGrader } from "./AnswerGrader.js";
 
 export interface ScoreResult {
   totalQuestions: number;
@@ -6,6 +8,31 @@ export interface ScoreResult {
   score: number;
 }
 
+/**
+ * One answer submitted to a question, right or wrong.
+ */
+export interface QuestionAttempt {
+  /** The answer given, or null if it could not be read */
+  answer: QuestionAnswer | null;
+  isCorrect: boolean;
+  /** How sure the learner said they were, if they rated it */
+  confidence?: Confidence;
+  /** Server-measured time from the question being served to this answer */
+  durationMs?: number;
+}
+
+/**
+ * Scores that account for every attempt, not just the final correct answers.
+ */
+export interface AttemptScoreResult extends ScoreResult {
+  /** Questions answered correctly on the first attempt */
+  firstTryCorrect: number;
+  /** Percentage (0-100) of questions answered correctly on the first attempt */
+  firstTryAccuracy: number;
+  /** Mean attempts per attempted question, to two decimals */
+  meanAttempts: number;
+}
+
 export interface ObjectivePerformance {
   objectiveId: string;
   total: number;
@@ -23,13 +50,12 @@ export class ScoreCalculator {
    * @param userAnswers - Record of user answers keyed by question ID
    * @returns Score result with counts and percentage
    */
-  static calculateScore(mcqs: MCQ[], userAnswers: Record<string, number>): ScoreResult {
+  static calculateScore(mcqs: MCQ[], userAnswers: Record<string, QuestionAnswer>): ScoreResult {
     const totalQuestions = mcqs.length;
     let correctCount = 0;
 
     for (const mcq of mcqs) {
-      const userAnswer = userAnswers[mcq.id];
-      if (userAnswer === mcq.correctAnswer) {
+      if (AnswerGrader.isCorrect(mcq, userAnswers[mcq.id])) {
         correctCount++;
       }
     }
@@ -41,6 +67,55 @@ export class ScoreCalculator {
     };
   }
 
+  /**
+   * Calculate scores from every attempt made.
+   * A question answered correctly on attempt n earns decay^(n-1) of a mark, so the score
+   * is full marks only for first-try answers; unanswered questions earn nothing.
+   * @param mcqs - Array of MCQ questions
+   * @param attempts - Every attempt keyed by question ID, in order
+   * @param decay - Share of the credit kept per extra attempt (0-1)
+   * @returns Attempt-weighted score with first-try accuracy and mean attempts
+   */
+  static calculateAttemptScore(
+    mcqs: MCQ[],
+    attempts: Record<string, QuestionAttempt[]>,
+    decay: number = CONFIG.SCORING.PARTIAL_CREDIT_DECAY
+  ): AttemptScoreResult {
+    const totalQuestions = mcqs.length;
+    let correctCount = 0;
+    let firstTryCorrect = 0;
+    let credit = 0;
+    let attempted = 0;
+    let attemptTotal = 0;
+
+    for (const mcq of mcqs) {
+      const history = attempts[mcq.id] ?? [];
+      if (history.length === 0) continue;
+
+      attempted++;
+      attemptTotal += history.length;
+
+      const correctAt = history.findIndex((attempt) => attempt.isCorrect);
+      if (correctAt < 0) continue;
+
+      correctCount++;
+      if (correctAt === 0) firstTryCorrect++;
+      credit += Math.pow(decay, correctAt);
+    }
+
+    const percentage = (value: number) =>
+      totalQuestions > 0 ? Math.round((value / totalQuestions) * 100) : 0;
+
+    return {
+      totalQuestions,
+      correctCount,
+      score: percentage(credit),
+      firstTryCorrect,
+      firstTryAccuracy: percentage(firstTryCorrect),
+      meanAttempts: attempted > 0 ? Math.round((attemptTotal / attempted) * 100) / 100 : 0,
+    };
+  }
+
   /**
    * Calculate performance breakdown by learning objective.
    * @param mcqs - Array of MCQ questions
@@ -49,14 +124,14 @@ export class ScoreCalculator {
    */
   static calculateObjectivePerformance(
     mcqs: MCQ[],
-    userAnswers: Record<string, number>
+    userAnswers: Record<string, QuestionAnswer>
   ): ObjectivePerformance[] {
     const performanceMap = new Map<string, { total: number; correct: number }>();
 
     for (const mcq of mcqs) {
       const current = performanceMap.get(mcq.objectiveId) || { total: 0, correct: 0 };
       current.total++;
-      if (userAnswers[mcq.id] === mcq.correctAnswer) {
+      if (AnswerGrader.isCorrect(mcq, userAnswers[mcq.id])) {
         current.correct++;
       }
       performanceMap.set(mcq.objectiveId, current);
@@ -79,7 +154,7 @@ export class ScoreCalculator {
    */
   static identifyAreasToReview(
     mcqs: MCQ[],
-    userAnswers: Record<string, number>,
+    userAnswers: Record<string, QuestionAnswer>,
     objectives: LearningObjective[]
   ): string[] {
     const performance = this.calculateObjectivePerformance(mcqs, userAnswers);
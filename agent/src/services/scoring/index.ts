@@ -1 +1,10 @@
-export { ScoreCalculator, type ScoreResult, type ObjectivePerformance } from "./ScoreCalculator.js";
+export {
+  ScoreCalculator,
+  type ScoreResult,
+  type AttemptScoreResult,
+  type QuestionAttempt,
+  type ObjectivePerformance,
+} from "./ScoreCalculator.js";
+export { AnswerGrader } from "./AnswerGrader.js";
+export { DifficultyAdapter, type DifficultyDecision } from "./DifficultyAdapter.js";
+export { MasteryTracker, type BktParams, type ObjectiveMastery } from "./MasteryTracker.js";
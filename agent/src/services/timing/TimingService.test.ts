@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { TimingService } from "./TimingService.js";
+import { CONFIG } from "../../config.js";
+import type { LearningObjective, MCQ } from "../../schemas/index.js";
+
+const objectives: LearningObjective[] = [
+  {
+    id: "obj-1",
+    title: "Cell structure",
+    description: "Name the parts of a cell",
+    difficulty: "easy",
+    sectionIds: [],
+    documentIds: [],
+  },
+  {
+    id: "obj-2",
+    title: "Respiration",
+    description: "Explain how cells release energy",
+    difficulty: "medium",
+    sectionIds: [],
+    documentIds: [],
+  },
+];
+
+const question = (id: string, objectiveId: string): MCQ => ({
+  id,
+  objectiveId,
+  documentId: null,
+  type: "true_false",
+  question: `Question ${id}`,
+  correctAnswer: true,
+  hint: "A hint",
+  explanation: "An explanation",
+  sourceRefs: [],
+});
+
+const mcqs = [
+  question("obj-1-q1", "obj-1"),
+  question("obj-1-q2", "obj-1"),
+  question("obj-2-q1", "obj-2"),
+  question("obj-2-q2", "obj-2"),
+];
+
+describe("TimingService", () => {
+  describe("elapsedMs", () => {
+    it("should measure from the serve time and cap long breaks", () => {
+      const now = new Date("2026-01-01T10:00:00.000Z");
+      expect(TimingService.elapsedMs("2026-01-01T09:59:48.500Z", now)).toBe(11_500);
+      expect(TimingService.elapsedMs("2026-01-01T08:00:00.000Z", now)).toBe(
+        CONFIG.TIMING.MAX_ATTEMPT_SECONDS * 1000
+      );
+      expect(TimingService.elapsedMs(null, now)).toBeUndefined();
+    });
+  });
+
+  describe("parseDuration", () => {
+    it("should read the planner's estimates", () => {
+      expect(TimingService.parseDuration("30 minutes")).toBe(1800);
+      expect(TimingService.parseDuration("1 hour 30 mins")).toBe(5400);
+      expect(TimingService.parseDuration("1-2 hours")).toBe(5400);
+      expect(TimingService.parseDuration("about 45 min")).toBe(2700);
+      expect(TimingService.parseDuration("a while")).toBeNull();
+    });
+  });
+
+  describe("summarize", () => {
+    it("should report time per objective against the estimate and flag slow questions", () => {
+      const summary = TimingService.summarize(
+        mcqs,
+        {
+          "obj-1-q1": [{ answer: true, isCorrect: true, durationMs: 10_000 }],
+          "obj-1-q2": [
+            { answer: false, isCorrect: false, durationMs: 50_000 },
+            { answer: true, isCorrect: true, durationMs: 40_000 },
+          ],
+          "obj-2-q1": [{ answer: true, isCorrect: true, durationMs: 12_000 }],
+          "obj-2-q2": [{ answer: true, isCorrect: true }],
+        },
+        objectives,
+        "20 minutes"
+      );
+
+      expect(summary).toMatchObject({
+        totalSeconds: 112,
+        estimatedSeconds: 1200,
+        medianQuestionSeconds: 12,
+        objectives: [
+          { objectiveId: "obj-1", seconds: 100, estimatedSeconds: 600 },
+          { objectiveId: "obj-2", seconds: 12, estimatedSeconds: 600 },
+        ],
+      });
+      expect(summary?.slowQuestions).toEqual([
+        {
+          questionId: "obj-1-q2",
+          objectiveTitle: "Cell structure",
+          question: "Question obj-1-q2",
+          seconds: 90,
+          attempts: 2,
+        },
+      ]);
+    });
+
+    it("should return null when no attempt was timed", () => {
+      expect(
+        TimingService.summarize(
+          mcqs,
+          { "obj-1-q1": [{ answer: true, isCorrect: true }] },
+          objectives,
+          null
+        )
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import type { LearningObjective, MCQ } from "../../schemas/index.js";
+import { CONFIG } from "../../config.js";
+import type { QuestionAttempt } from "../scoring/ScoreCalculator.js";
+
+/**
+ * Time spent on one objective, next to its share of the plan's estimate.
+ */
+export interface ObjectiveTiming {
+  objectiveId: string;
+  title: string;
+  seconds: number;
+  /** The objective's share of the plan's estimated duration, null without an estimate */
+  estimatedSeconds: number | null;
+}
+
+/**
+ * A question that took much longer than the learner's typical question.
+ */
+export interface SlowQuestion {
+  questionId: string;
+  objectiveTitle: string;
+  question: string;
+  seconds: number;
+  attempts: number;
+}
+
+/**
+ * Where the learner's time went, for the progress report.
+ */
+export interface TimingSummary {
+  totalSeconds: number;
+  /** The plan's estimated duration, null if it could not be read */
+  estimatedSeconds: number | null;
+  medianQuestionSeconds: number;
+  objectives: ObjectiveTiming[];
+  /** Slowest first, at most CONFIG.TIMING.MAX_SLOW_QUESTIONS */
+  slowQuestions: SlowQuestion[];
+}
+
+const UNIT_SECONDS: Record<string, number> = { h: 3600, m: 60 };
+
+/**
+ * Service for response times. Every time comes from the server clock: when a question
+ * was served and when its answer arrived, so nothing the client sends is trusted.
+ */
+export class TimingService {
+  /**
+   * Measure an attempt from when its question was served.
+   * Capped at CONFIG.TIMING.MAX_ATTEMPT_SECONDS so a break does not count as thinking time.
+   * @param issuedAt - When the question was served (ISO time)
+   * @param now - When the answer arrived
+   * @returns The duration in milliseconds, or undefined if the serve time is unknown
+   */
+  static elapsedMs(
+    issuedAt: string | null | undefined,
+    now: Date = new Date()
+  ): number | undefined {
+    const start = issuedAt ? Date.parse(issuedAt) : NaN;
+    if (Number.isNaN(start)) return undefined;
+    return Math.min(Math.max(0, now.getTime() - start), CONFIG.TIMING.MAX_ATTEMPT_SECONDS * 1000);
+  }
+
+  /**
+   * Read a duration written by the planner, e.g. "45 minutes", "1 hour 30 minutes" or
+   * "1-2 hours" (ranges count as their midpoint).
+   * @param text - The estimated duration
+   * @returns The duration in seconds, or null if it could not be read
+   */
+  static parseDuration(text: string | null | undefined): number | null {
+    if (!text) return null;
+
+    const pattern =
+      /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(h(?:ours?|rs?)?|m(?:inutes?|ins?)?)\b/gi;
+    let seconds = 0;
+    for (const [, low, high, unit] of text.matchAll(pattern)) {
+      const amount = high ? (Number(low) + Number(high)) / 2 : Number(low);
+      seconds += amount * UNIT_SECONDS[unit[0].toLowerCase()];
+    }
+    return seconds > 0 ? Math.round(seconds) : null;
+  }
+
+  /**
+   * Total the timed attempts of each question.
+   * @param attempts - Every attempt keyed by question ID
+   * @returns Seconds spent per question, for questions with at least one timed attempt
+   */
+  static questionSeconds(attempts: Record<string, QuestionAttempt[]>): Record<string, number> {
+    return Object.fromEntries(
+      Object.entries(attempts)
+        .map(([id, list]) => {
+          const timed = list.filter((attempt) => attempt.durationMs !== undefined);
+          const ms = timed.reduce((sum, attempt) => sum + attempt.durationMs!, 0);
+          return [id, timed.length > 0 ? Math.round(ms / 1000) : null] as const;
+        })
+        .filter((entry): entry is readonly [string, number] => entry[1] !== null)
+    );
+  }
+
+  /**
+   * Middle value of a list of times.
+   * @returns The median, or null for an empty list
+   */
+  static median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  }
+
+  /**
+   * Work out where the learner's time went.
+   * The plan's estimate is split evenly across its objectives, since the planner
+   * only estimates the whole session.
+   * @param mcqs - The session's questions, follow-ups included
+   * @param attempts - Every attempt keyed by question ID
+   * @param objectives - The learning objectives, in order
+   * @param estimatedDuration - The planner's estimate for the session
+   * @returns The timing summary, or null if no attempt was timed
+   */
+  static summarize(
+    mcqs: MCQ[],
+    attempts: Record<string, QuestionAttempt[]>,
+    objectives: LearningObjective[],
+    estimatedDuration: string | null
+  ): TimingSummary | null {
+    const seconds = this.questionSeconds(attempts);
+    const timed = mcqs.filter((q) => seconds[q.id] !== undefined);
+    if (timed.length === 0) return null;
+
+    const estimatedSeconds = this.parseDuration(estimatedDuration);
+    const perObjective =
+      estimatedSeconds !== null && objectives.length > 0
+        ? Math.round(estimatedSeconds / objectives.length)
+        : null;
+    const titleOf = (objectiveId: string) =>
+      objectives.find((o) => o.id === objectiveId)?.title ?? "";
+
+    const medianQuestionSeconds = this.median(timed.map((q) => seconds[q.id]))!;
+    const slowAbove = Math.max(
+      medianQuestionSeconds * CONFIG.TIMING.SLOW_FACTOR,
+      CONFIG.TIMING.MIN_SLOW_SECONDS
+    );
+
+    return {
+      totalSeconds: timed.reduce((sum, q) => sum + seconds[q.id], 0),
+      estimatedSeconds,
+      medianQuestionSeconds,
+      objectives: objectives
+        .filter((o) => timed.some((q) => q.objectiveId === o.id))
+        .map((o) => ({
+          objectiveId: o.id,
+          title: o.title,
+          seconds: timed
+            .filter((q) => q.objectiveId === o.id)
+            .reduce((sum, q) => sum + seconds[q.id], 0),
+          estimatedSeconds: perObjective,
+        })),
+      slowQuestions: timed
+        .filter((q) => seconds[q.id] > slowAbove)
+        .sort((a, b) => seconds[b.id] - seconds[a.id])
+        .slice(0, CONFIG.TIMING.MAX_SLOW_QUESTIONS)
+        .map((q) => ({
+          questionId: q.id,
+          objectiveTitle: titleOf(q.objectiveId),
+          question: q.question,
+          seconds: seconds[q.id],
+          attempts: attempts[q.id].length,
+        })),
+    };
+  }
+}
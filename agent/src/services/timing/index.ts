@@ -0,0 +1,6 @@
+export {
+  TimingService,
+  type ObjectiveTiming,
+  type SlowQuestion,
+  type TimingSummary,
+} from "./TimingService.js";
@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+import { ClientProjection } from "./ClientProjection.js";
+import { SessionSettingsService } from "./SessionSettingsService.js";
+import type { MCQ } from "../../schemas/index.js";
+import type { AnswerMCQInterrupt } from "../../types/interrupts.js";
+
+const sourceRefs = [{ page: 3, quote: "Mitochondria release energy from glucose." }];
+
+const mcqs: MCQ[] = [
+  {
+    id: "obj-1-q1",
+    objectiveId: "obj-1",
+    documentId: null,
+    type: "single_choice",
+    question: "Which organelle releases energy?",
+    options: ["Nucleus", "Ribosome", "Mitochondria", "Golgi body"],
+    correctAnswer: 2,
+    misconceptions: ["Thinks the nucleus powers the cell", null, null, null],
+    hint: "Think about respiration.",
+    explanation: "Mitochondria run cellular respiration.",
+    sourceRefs,
+  },
+  {
+    id: "obj-1-q2",
+    objectiveId: "obj-1",
+    documentId: null,
+    type: "fill_blank",
+    question: "Plants make sugar by ____.",
+    acceptableAnswers: ["photosynthesis"],
+    hint: "It needs light.",
+    explanation: "Photosynthesis turns light into sugar.",
+    sourceRefs,
+  },
+];
+
+const pending: AnswerMCQInterrupt = {
+  type: "answer_mcq",
+  questionId: "obj-1-q1",
+  objectiveId: "obj-1",
+  questionType: "single_choice",
+  question: "Which organelle releases energy?",
+  options: ["Nucleus", "Ribosome", "Mitochondria", "Golgi body"],
+  correctAnswer: 2,
+  hint: "Think about respiration.",
+  explanation: "Mitochondria run cellular respiration.",
+  sourceRefs,
+  currentIndex: 0,
+  totalQuestions: 2,
+  attemptCount: 1,
+  wasSkipped: false,
+};
+
+describe("ClientProjection", () => {
+  describe("state", () => {
+    it("should strip answer keys, explanations and excerpts from every question", () => {
+      const projected = ClientProjection.state({
+        mcqs,
+        prefetchedMcqs: [mcqs[1]],
+        currentMcqIdx: 0,
+      });
+      const json = JSON.stringify(projected);
+
+      expect(projected.currentMcqIdx).toBe(0);
+      expect(projected.mcqs?.[0]).toMatchObject({
+        id: "obj-1-q1",
+        options: ["Nucleus", "Ribosome", "Mitochondria", "Golgi body"],
+        hint: "Think about respiration.",
+        sourceRefs: [{ page: 3 }],
+      });
+      for (const secret of [
+        "correctAnswer",
+        "acceptableAnswers",
+        "photosynthesis",
+        "explanation",
+        "misconceptions",
+        "release energy from glucose",
+      ]) {
+        expect(json).not.toContain(secret);
+      }
+    });
+
+    it("should withhold everything that shows grading while an exam is in progress", () => {
+      const graded = {
+        mcqs,
+        settings: SessionSettingsService.resolve({ mode: "exam" }),
+        currentPhase: "quiz" as const,
+        sessionComplete: false,
+        examAnswers: { "obj-1-q1": 0 },
+        attempts: { "obj-1-q1": [{ answer: 0, isCorrect: false }] },
+        attemptCounts: { "obj-1-q1": 1 },
+        userAnswers: { "obj-1-q2": "photosynthesis" },
+        correctAnswers: 1,
+        wrongAnswers: { "obj-1-q1": [0] },
+        misconceptions: { "obj-1-q1": ["Thinks the nucleus powers the cell"] },
+        mastery: { "obj-1": 0.2 },
+        difficultyDecisions: {},
+      };
+
+      const during = ClientProjection.state(graded);
+      const json = JSON.stringify(during);
+      for (const field of [
+        "attempts",
+        "attemptCounts",
+        "userAnswers",
+        "correctAnswers",
+        "wrongAnswers",
+        "misconceptions",
+        "mastery",
+        "difficultyDecisions",
+        "isCorrect",
+      ]) {
+        expect(json).not.toContain(field);
+      }
+      expect(during.examAnswers).toEqual({ "obj-1-q1": 0 });
+
+      const after = ClientProjection.state({ ...graded, sessionComplete: true });
+      expect(after).toMatchObject({ correctAnswers: 1, mastery: { "obj-1": 0.2 } });
+    });
+  });
+
+  describe("interrupt", () => {
+    it("should strip the answer from answer_mcq and pass other interrupts through", () => {
+      const projected = ClientProjection.interrupt(pending) as Record<string, unknown>;
+
+      expect(projected).not.toHaveProperty("correctAnswer");
+      expect(projected).not.toHaveProperty("explanation");
+      expect(projected).toMatchObject({ questionId: "obj-1-q1", sourceRefs: [{ page: 3 }] });
+
+      const approval = { type: "plan_approval", plan: [], revisionsLeft: 1 };
+      expect(ClientProjection.interrupt(approval)).toBe(approval);
+    });
+  });
+
+  describe("grading", () => {
+    it("should report a wrong answer without revealing the key", () => {
+      const graded = ClientProjection.grading(
+        pending,
+        { attempts: {} },
+        { mcqs, attempts: { "obj-1-q1": [{ answer: 0, isCorrect: false }] } }
+      );
+
+      expect(graded).toEqual({ questionId: "obj-1-q1", isCorrect: false, attempts: 1 });
+    });
+
+    it("should reveal the key, explanation and excerpts once the answer is correct", () => {
+      const graded = ClientProjection.grading(
+        pending,
+        { attempts: { "obj-1-q1": [{ answer: 0, isCorrect: false }] } },
+        {
+          mcqs,
+          attempts: {
+            "obj-1-q1": [
+              { answer: 0, isCorrect: false },
+              { answer: 2, isCorrect: true },
+            ],
+          },
+        }
+      );
+
+      expect(graded).toEqual({
+        questionId: "obj-1-q1",
+        isCorrect: true,
+        attempts: 2,
+        correctAnswer: 2,
+        explanation: "Mitochondria run cellular respiration.",
+        sourceRefs,
+      });
+    });
+
+    it("should return null when nothing was graded", () => {
+      expect(
+        ClientProjection.grading(pending, { attempts: {} }, { mcqs, attempts: {} })
+      ).toBeNull();
+      expect(
+        ClientProjection.grading({ type: "exam_question", questionId: "obj-1-q1" }, {}, {})
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import type { LearningState } from "../../state.js";
+import type { AnswerKey, MCQ, SourceRef } from "../../schemas/index.js";
+import { isAnswerMCQInterrupt, type AnswerMCQInterrupt } from "../../types/interrupts.js";
+import { AnswerGrader } from "../scoring/AnswerGrader.js";
+import { ExamService } from "../exam/ExamService.js";
+
+/** Omit that keeps each member of a union, so type-specific fields survive */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * A question as the browser sees it: no answer key, explanation or misconception labels,
+ * and source references reduced to their pages (the excerpts support the answer).
+ */
+export type ClientQuestion = DistributiveOmit<
+  MCQ,
+  | "correctAnswer"
+  | "correctAnswers"
+  | "acceptableAnswers"
+  | "explanation"
+  | "misconceptions"
+  | "sourceRefs"
+> & { sourceRefs: Pick<SourceRef, "page">[] };
+
+/**
+ * The answer_mcq interrupt as the browser sees it.
+ */
+export type ClientAnswerMCQInterrupt = Omit<
+  AnswerMCQInterrupt,
+  "correctAnswer" | "explanation" | "sourceRefs"
+> & { sourceRefs: Pick<SourceRef, "page">[] };
+
+const HIDDEN_QUESTION_FIELDS = new Set([
+  "correctAnswer",
+  "correctAnswers",
+  "acceptableAnswers",
+  "explanation",
+  "misconceptions",
+]);
+
+/**
+ * State that tells whether exam answers were right, withheld until the exam ends
+ * (exam mode gives no feedback before the review).
+ */
+const EXAM_HIDDEN_STATE_FIELDS = new Set([
+  "attempts",
+  "attemptCounts",
+  "userAnswers",
+  "correctAnswers",
+  "wrongAnswers",
+  "misconceptions",
+  "mastery",
+  "difficultyDecisions",
+]);
+
+/**
+ * How the answer just submitted was graded. The answer key, explanation and supporting
+ * excerpts only come back once the question is answered correctly.
+ */
+export interface GradedAnswer {
+  questionId: string;
+  isCorrect: boolean;
+  /** Attempts made at this question so far, this one included */
+  attempts: number;
+  correctAnswer?: AnswerKey;
+  explanation?: string;
+  sourceRefs?: SourceRef[];
+}
+
+/**
+ * Service for what the workflow sends to the browser. The graph keeps full questions in
+ * its state and interrupts; everything leaving the server goes through here so answer
+ * keys never reach the client before the question is graded (checkpoints written before
+ * this existed included).
+ */
+export class ClientProjection {
+  /**
+   * Strip the answer key and everything that gives it away from a question.
+   * @param question - The question from state
+   * @returns The question without its answer
+   */
+  static question(question: MCQ): ClientQuestion {
+    const visible = Object.fromEntries(
+      Object.entries(question).filter(([field]) => !HIDDEN_QUESTION_FIELDS.has(field))
+    ) as DistributiveOmit<ClientQuestion, "sourceRefs">;
+    return {
+      ...visible,
+      sourceRefs: (question.sourceRefs ?? []).map(({ page }) => ({ page })),
+    } as ClientQuestion;
+  }
+
+  /**
+   * Project workflow state for the client, with every question stripped of its answer,
+   * and during an exam without anything that shows how the answers were graded.
+   * @param values - The state values from the graph
+   * @returns The state to send
+   */
+  static state<T extends Partial<LearningState>>(
+    values: T
+  ): Omit<T, "mcqs" | "prefetchedMcqs"> & {
+    mcqs?: ClientQuestion[];
+    prefetchedMcqs?: ClientQuestion[];
+  } {
+    const visible = ExamService.isInProgress(values)
+      ? (Object.fromEntries(
+          Object.entries(values).filter(([field]) => !EXAM_HIDDEN_STATE_FIELDS.has(field))
+        ) as T)
+      : values;
+    return {
+      ...visible,
+      ...(values.mcqs && { mcqs: values.mcqs.map((q) => this.question(q)) }),
+      ...(values.prefetchedMcqs && {
+        prefetchedMcqs: values.prefetchedMcqs.map((q) => this.question(q)),
+      }),
+    };
+  }
+
+  /**
+   * Project an interrupt payload for the client. Only answer_mcq carries answers;
+   * other interrupts pass through unchanged.
+   * @param data - The unwrapped interrupt value
+   * @returns The interrupt to send
+   */
+  static interrupt(data: unknown): unknown {
+    if (!isAnswerMCQInterrupt(data)) return data;
+
+    const { correctAnswer: _correctAnswer, explanation: _explanation, sourceRefs, ...rest } = data;
+    const projected: ClientAnswerMCQInterrupt = {
+      ...rest,
+      sourceRefs: (sourceRefs ?? []).map(({ page }) => ({ page })),
+    };
+    return projected;
+  }
+
+  /**
+   * Work out how the answer to a pending answer_mcq interrupt was graded, by comparing
+   * the attempts recorded before and after the graph resumed.
+   * @param pending - The interrupt the answer was given to
+   * @param before - State values before resuming
+   * @param after - State values after resuming
+   * @returns The grading, or null if nothing was graded (a skip, an exam question or no question)
+   */
+  static grading(
+    pending: unknown,
+    before: Partial<LearningState>,
+    after: Partial<LearningState>
+  ): GradedAnswer | null {
+    if (!isAnswerMCQInterrupt(pending)) return null;
+
+    const { questionId } = pending;
+    const attempts = after.attempts?.[questionId] ?? [];
+    if (attempts.length <= (before.attempts?.[questionId]?.length ?? 0)) return null;
+
+    const { isCorrect } = attempts[attempts.length - 1];
+    const question = after.mcqs?.find((q) => q.id === questionId);
+    return {
+      questionId,
+      isCorrect,
+      attempts: attempts.length,
+      ...(isCorrect &&
+        question && {
+          correctAnswer: AnswerGrader.getAnswerKey(question),
+          explanation: question.explanation,
+          sourceRefs: question.sourceRefs ?? [],
+        }),
+    };
+  }
+}
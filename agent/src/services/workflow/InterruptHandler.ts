@@ -1,10 +1,12 @@
 import {
   isPlanApprovalInterrupt,
   isAnswerMCQInterrupt,
+  isExamQuestionInterrupt,
   isKnownInterrupt,
   type InterruptPayload,
   type PlanApprovalInterrupt,
   type AnswerMCQInterrupt,
+  type ExamQuestionInterrupt,
 } from "../../types/interrupts.js";
 
 interface TaskWithInterrupts {
@@ -73,6 +75,13 @@ export class InterruptHandler {
     return isAnswerMCQInterrupt(data);
   }
 
+  /**
+   * Type guard: Check if interrupt is an exam question.
+   */
+  static isExamQuestion(data: unknown): data is ExamQuestionInterrupt {
+    return isExamQuestionInterrupt(data);
+  }
+
   /**
    * Type guard: Check if interrupt is a known type.
    */
@@ -82,4 +91,4 @@ export class InterruptHandler {
 }
 
 // Re-export types for convenience
-export type { InterruptPayload, PlanApprovalInterrupt, AnswerMCQInterrupt };
+export type { InterruptPayload, PlanApprovalInterrupt, AnswerMCQInterrupt, ExamQuestionInterrupt };
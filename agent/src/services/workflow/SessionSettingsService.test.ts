@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { SessionSettingsService } from "./SessionSettingsService.js";
+import { ValidationError } from "../../utils/errors.js";
+import { CONFIG } from "../../config.js";
+
+describe("SessionSettingsService", () => {
+  describe("parseInput", () => {
+    it("should accept objects and JSON strings, and nothing at all", () => {
+      expect(SessionSettingsService.parseInput({ questionsPerObjective: 4 })).toEqual({
+        questionsPerObjective: 4,
+      });
+      expect(SessionSettingsService.parseInput('{"targetDifficulty":"hard"}')).toEqual({
+        targetDifficulty: "hard",
+      });
+      expect(SessionSettingsService.parseInput(undefined)).toEqual({});
+      expect(SessionSettingsService.parseInput("")).toEqual({});
+    });
+
+    it("should reject out-of-range, unknown or malformed settings", () => {
+      expect(() => SessionSettingsService.parseInput({ questionsPerObjective: 9 })).toThrow(
+        ValidationError
+      );
+      expect(() => SessionSettingsService.parseInput({ objectiveCount: 2.5 })).toThrow(
+        ValidationError
+      );
+      expect(() => SessionSettingsService.parseInput({ questionCount: 3 })).toThrow(
+        ValidationError
+      );
+      expect(() => SessionSettingsService.parseInput("{not json")).toThrow("valid JSON");
+    });
+  });
+
+  describe("resolve", () => {
+    it("should fill in defaults and let later inputs win", () => {
+      const settings = SessionSettingsService.resolve(
+        { objectiveCount: 4, targetDifficulty: "easy" },
+        { targetDifficulty: "hard", timeBudgetMinutes: 20 }
+      );
+
+      expect(settings).toEqual({
+        objectiveCount: 4,
+        questionsPerObjective: CONFIG.LEARNING.MCQS_PER_OBJECTIVE,
+        targetDifficulty: "hard",
+        timeBudgetMinutes: 20,
+        mode: "practice",
+        questionTimeLimitSeconds: null,
+        examTimeLimitMinutes: null,
+      });
+    });
+
+    it("should ignore missing inputs", () => {
+      expect(SessionSettingsService.resolve(null, undefined)).toEqual(
+        SessionSettingsService.defaults()
+      );
+    });
+  });
+
+  describe("objectiveRange", () => {
+    it("should use the chosen count, or the configured range when there is none", () => {
+      const defaults = SessionSettingsService.defaults();
+
+      expect(SessionSettingsService.objectiveRange({ ...defaults, objectiveCount: 2 })).toEqual({
+        min: 2,
+        max: 2,
+      });
+      expect(SessionSettingsService.objectiveRange(defaults)).toEqual({
+        min: CONFIG.LEARNING.MIN_OBJECTIVES,
+        max: CONFIG.LEARNING.MAX_OBJECTIVES,
+      });
+    });
+  });
+
+  describe("expectedQuestionCount", () => {
+    it("should multiply the objectives by the questions per objective", () => {
+      const settings = { ...SessionSettingsService.defaults(), questionsPerObjective: 5 };
+
+      expect(SessionSettingsService.expectedQuestionCount(settings, 4)).toBe(20);
+    });
+  });
+});
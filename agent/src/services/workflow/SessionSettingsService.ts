@@ -0,0 +1,91 @@
+import {
+  SessionSettingsInputSchema,
+  type SessionSettings,
+  type SessionSettingsInput,
+} from "../../schemas/index.js";
+import { CONFIG } from "../../config.js";
+import { ValidationError } from "../../utils/errors.js";
+
+/**
+ * Service for per-session learning settings: objective count, questions per objective,
+ * target difficulty, time budget and practice or exam mode. Settings left out fall back
+ * to CONFIG.LEARNING.
+ */
+export class SessionSettingsService {
+  /**
+   * Get the settings used when the learner chose none.
+   * @returns The default settings
+   */
+  static defaults(): SessionSettings {
+    return {
+      objectiveCount: null,
+      questionsPerObjective: CONFIG.LEARNING.MCQS_PER_OBJECTIVE,
+      targetDifficulty: "mixed",
+      timeBudgetMinutes: null,
+      mode: "practice",
+      questionTimeLimitSeconds: null,
+      examTimeLimitMinutes: null,
+    };
+  }
+
+  /**
+   * Parse settings sent by the client, as an object or a JSON string (multipart uploads).
+   * @param value - The raw settings value
+   * @returns The validated settings, empty if none were sent
+   * @throws ValidationError if the settings are malformed or out of range
+   */
+  static parseInput(value: unknown): SessionSettingsInput {
+    if (value === undefined || value === null || value === "") return {};
+
+    let raw = value;
+    if (typeof value === "string") {
+      try {
+        raw = JSON.parse(value);
+      } catch {
+        throw new ValidationError("Session settings must be valid JSON");
+      }
+    }
+
+    const result = SessionSettingsInputSchema.safeParse(raw);
+    if (!result.success) {
+      throw new ValidationError("Invalid session settings", result.error.flatten());
+    }
+    return result.data;
+  }
+
+  /**
+   * Merge settings over the defaults; later inputs win.
+   * @param inputs - Settings in increasing priority, e.g. stored at upload then sent at plan time
+   * @returns The complete settings
+   */
+  static resolve(...inputs: (SessionSettingsInput | null | undefined)[]): SessionSettings {
+    return inputs.reduce<SessionSettings>(
+      (settings, input) => ({
+        ...settings,
+        ...Object.fromEntries(Object.entries(input ?? {}).filter(([, v]) => v !== undefined)),
+      }),
+      this.defaults()
+    );
+  }
+
+  /**
+   * Get how many objectives the planner should produce.
+   * @param settings - The session settings
+   * @returns The allowed range (equal bounds when the learner chose a count)
+   */
+  static objectiveRange(settings: SessionSettings): { min: number; max: number } {
+    return settings.objectiveCount
+      ? { min: settings.objectiveCount, max: settings.objectiveCount }
+      : { min: CONFIG.LEARNING.MIN_OBJECTIVES, max: CONFIG.LEARNING.MAX_OBJECTIVES };
+  }
+
+  /**
+   * Get the number of questions expected across the whole plan.
+   * @param settings - The session settings
+   * @param objectiveCount - Objectives in the approved plan
+   * @returns The expected question count
+   */
+  static expectedQuestionCount(settings: SessionSettings, objectiveCount: number): number {
+    return objectiveCount * settings.questionsPerObjective;
+  }
+}
@@ -6,4 +6,11 @@ export {
   type PlanApprovalInterrupt,
   type AnswerMCQInterrupt,
 } from "./InterruptHandler.js";
+export {
+  ClientProjection,
+  type ClientQuestion,
+  type ClientAnswerMCQInterrupt,
+  type GradedAnswer,
+} from "./ClientProjection.js";
 export { NodeResponse } from "./NodeResponse.js";
+export { SessionSettingsService } from "./SessionSettingsService.js";
@@ -1,6 +1,20 @@
 import { Annotation } from "@langchain/langgraph";
 import { BaseMessage } from "@langchain/core/messages";
-import type { LearningObjective, MCQ, ProgressReport } from "./schemas/index.js";
+import type {
+  LearningObjective,
+  MCQ,
+  ProgressReport,
+  QuestionAnswer,
+  DocumentChunk,
+  ParsedDocument,
+  SourceDocument,
+  SessionSettings,
+} from "./schemas/index.js";
+import { SessionSettingsService } from "./services/workflow/SessionSettingsService.js";
+import type { DifficultyDecision } from "./services/scoring/DifficultyAdapter.js";
+import type { RemediationRound } from "./services/remediation/RemediationService.js";
+import type { QuestionAttempt } from "./services/scoring/ScoreCalculator.js";
+import type { InjectionFinding } from "./services/guardrails/ContentSanitizer.js";
 
 /**
  * State annotation for the learning agent workflow.
@@ -13,21 +27,57 @@ export const LearningStateAnnotation = Annotation.Root({
     default: () => [],
   }),
 
-  // PDF content
-  pdfPath: Annotation<string | null>({
+  // Uploaded documents, in upload order; a session may span several files
+  documents: Annotation<SourceDocument[]>({
     reducer: (_, update) => update,
-    default: () => null,
+    default: () => [],
   }),
   pdfContent: Annotation<string>({
     reducer: (_, update) => update,
     default: () => "",
   }),
+  // Pages, sections and table of contents; pages let questions cite where answers come from
+  parsedDocument: Annotation<ParsedDocument | null>({
+    reducer: (_, update) => update,
+    default: () => null,
+  }),
+  // Retrievable chunks, so each step can pull the passages relevant to it
+  documentChunks: Annotation<DocumentChunk[]>({
+    reducer: (_, update) => update,
+    default: () => [],
+  }),
+  // Non-fatal problems with the document for the UI to show, e.g. OCR on a scanned PDF
+  warnings: Annotation<string[]>({
+    reducer: (_, update) => update,
+    default: () => [],
+  }),
+  // Instruction-like text removed from the documents before prompting, kept for audit
+  injectionFindings: Annotation<InjectionFinding[]>({
+    reducer: (_, update) => update,
+    default: () => [],
+  }),
 
   // Thread identifier for session tracking
   threadId: Annotation<string | null>({
     reducer: (_, update) => update,
     default: () => null,
   }),
+  // Learner the session belongs to, for spaced repetition across sessions
+  learnerId: Annotation<string | null>({
+    reducer: (_, update) => update,
+    default: () => null,
+  }),
+  // "learn" works through uploaded documents; "review" replays questions due for review
+  sessionMode: Annotation<"learn" | "review">({
+    reducer: (_, update) => update,
+    default: () => "learn",
+  }),
+
+  // Learner-chosen counts, difficulty and time budget for this session
+  settings: Annotation<SessionSettings>({
+    reducer: (_, update) => update,
+    default: () => SessionSettingsService.defaults(),
+  }),
 
   // Learning plan
   learningObjectives: Annotation<LearningObjective[]>({
@@ -38,6 +88,20 @@ export const LearningStateAnnotation = Annotation.Root({
     reducer: (_, update) => update,
     default: () => false,
   }),
+  // What the learner wants changed in the next plan revision, and how many revisions were made
+  planFeedback: Annotation<string | null>({
+    reducer: (_, update) => update,
+    default: () => null,
+  }),
+  planRevisionCount: Annotation<number>({
+    reducer: (_, update) => update,
+    default: () => 0,
+  }),
+  // The planner's estimate for the whole session, e.g. "30 minutes"
+  estimatedDuration: Annotation<string | null>({
+    reducer: (_, update) => update,
+    default: () => null,
+  }),
 
   // Current progress through objectives
   currentObjectiveIdx: Annotation<number>({
@@ -68,9 +132,20 @@ export const LearningStateAnnotation = Annotation.Root({
     reducer: (_, update) => update,
     default: () => -1, // -1 means no prefetch available
   }),
+  // Difficulty the prefetched questions were generated at
+  prefetchDifficulty: Annotation<LearningObjective["difficulty"] | null>({
+    reducer: (_, update) => update,
+    default: () => null,
+  }),
+
+  // Adaptive difficulty decision per objective ID
+  difficultyDecisions: Annotation<Record<string, DifficultyDecision>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({}),
+  }),
 
   // User answers and scoring
-  userAnswers: Annotation<Record<string, number>>({
+  userAnswers: Annotation<Record<string, QuestionAnswer>>({
     reducer: (current, update) => ({ ...current, ...update }),
     default: () => ({}),
   }),
@@ -79,11 +154,73 @@ export const LearningStateAnnotation = Annotation.Root({
     default: () => 0,
   }),
 
+  // Every answer submitted, right or wrong, keyed by question ID in order
+  attempts: Annotation<Record<string, QuestionAttempt[]>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({}),
+  }),
+
+  // When each question's pending attempt was served (ISO time, server clock), null once answered
+  attemptIssuedAt: Annotation<Record<string, string | null>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({}),
+  }),
+
   // Track attempt counts per question for dynamic hints
   attemptCounts: Annotation<Record<string, number>>({
     reducer: (current, update) => ({ ...current, ...update }),
     default: () => ({}),
   }),
+  // Wrong answers per question, so remediation can address the misconceptions behind them
+  wrongAnswers: Annotation<Record<string, QuestionAnswer[]>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({}),
+  }),
+  // Questions the learner skipped, in order; each comes back before its objective ends
+  deferredQuestionIds: Annotation<string[]>({
+    reducer: (_, update) => update,
+    default: () => [],
+  }),
+  // Misconception labels of the wrong options picked, keyed by question ID
+  misconceptions: Annotation<Record<string, string[]>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({}),
+  }),
+
+  // Remediation: the objective waiting for follow-up questions, and the rounds run so far
+  remediationObjectiveId: Annotation<string | null>({
+    reducer: (_, update) => update,
+    default: () => null,
+  }),
+  remediationRounds: Annotation<RemediationRound[]>({
+    reducer: (_, update) => update,
+    default: () => [],
+  }),
+
+  // Estimated mastery (BKT probability) per objective, updated after every attempt
+  mastery: Annotation<Record<string, number>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({}),
+  }),
+
+  // Exam mode: when the exam and each question were first served (ISO times), and the one
+  // answer that counted per question (null if skipped or too late)
+  examStartedAt: Annotation<string | null>({
+    reducer: (_, update) => update,
+    default: () => null,
+  }),
+  questionStartedAt: Annotation<Record<string, string>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({}),
+  }),
+  examAnswers: Annotation<Record<string, QuestionAnswer | null>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({}),
+  }),
+  examTimedOut: Annotation<boolean>({
+    reducer: (_, update) => update,
+    default: () => false,
+  }),
 
   // Progress report
   progressReport: Annotation<ProgressReport | null>({
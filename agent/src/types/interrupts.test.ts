@@ -2,9 +2,11 @@ import { describe, it, expect } from "vitest";
 import {
   isPlanApprovalInterrupt,
   isAnswerMCQInterrupt,
+  isExamQuestionInterrupt,
   isKnownInterrupt,
   type PlanApprovalInterrupt,
   type AnswerMCQInterrupt,
+  type ExamQuestionInterrupt,
 } from "./interrupts.js";
 
 describe("isPlanApprovalInterrupt", () => {
@@ -18,8 +20,11 @@ describe("isPlanApprovalInterrupt", () => {
           title: "Test Objective",
           description: "A test objective",
           difficulty: "easy",
+          sectionIds: [],
+          documentIds: [],
         },
       ],
+      revisionsLeft: 3,
     };
 
     expect(isPlanApprovalInterrupt(interrupt)).toBe(true);
@@ -30,14 +35,17 @@ describe("isPlanApprovalInterrupt", () => {
       type: "answer_mcq",
       questionId: "q-1",
       objectiveId: "obj-1",
+      questionType: "single_choice",
       question: "What is 2+2?",
       options: ["2", "3", "4", "5"],
       correctAnswer: 2,
       hint: "Think about basic arithmetic",
       explanation: "2+2=4",
+      sourceRefs: [],
       currentIndex: 0,
       totalQuestions: 5,
       attemptCount: 1,
+      wasSkipped: false,
     };
 
     expect(isPlanApprovalInterrupt(interrupt)).toBe(false);
@@ -84,14 +92,38 @@ describe("isAnswerMCQInterrupt", () => {
       type: "answer_mcq",
       questionId: "q-1",
       objectiveId: "obj-1",
+      questionType: "single_choice",
       question: "What is 2+2?",
       options: ["2", "3", "4", "5"],
       correctAnswer: 2,
       hint: "Think about basic arithmetic",
       explanation: "2+2=4",
+      sourceRefs: [],
       currentIndex: 0,
       totalQuestions: 5,
       attemptCount: 1,
+      wasSkipped: false,
+    };
+
+    expect(isAnswerMCQInterrupt(interrupt)).toBe(true);
+  });
+
+  it("should return true for a fill-in-the-blank interrupt with no options", () => {
+    const interrupt: AnswerMCQInterrupt = {
+      type: "answer_mcq",
+      questionId: "q-2",
+      objectiveId: "obj-1",
+      questionType: "fill_blank",
+      question: "The powerhouse of the cell is the ____.",
+      options: [],
+      correctAnswer: ["mitochondria", "mitochondrion"],
+      hint: "Think about energy production",
+      explanation: "Mitochondria produce ATP",
+      sourceRefs: [],
+      currentIndex: 1,
+      totalQuestions: 5,
+      attemptCount: 1,
+      wasSkipped: false,
     };
 
     expect(isAnswerMCQInterrupt(interrupt)).toBe(true);
@@ -102,6 +134,7 @@ describe("isAnswerMCQInterrupt", () => {
       type: "plan_approval",
       message: "Please approve",
       plan: [],
+      revisionsLeft: 0,
     };
 
     expect(isAnswerMCQInterrupt(interrupt)).toBe(false);
@@ -137,12 +170,39 @@ describe("isAnswerMCQInterrupt", () => {
   });
 });
 
+describe("isExamQuestionInterrupt", () => {
+  it("should return true for a valid exam question interrupt", () => {
+    const interrupt: ExamQuestionInterrupt = {
+      type: "exam_question",
+      questionId: "q-1",
+      objectiveId: "obj-1",
+      questionType: "single_choice",
+      question: "What is 2+2?",
+      options: ["2", "3", "4", "5"],
+      currentIndex: 0,
+      totalQuestions: 5,
+      questionDeadline: null,
+      examDeadline: "2026-01-01T10:30:00.000Z",
+    };
+
+    expect(isExamQuestionInterrupt(interrupt)).toBe(true);
+    expect(isKnownInterrupt(interrupt)).toBe(true);
+  });
+
+  it("should return false for practice questions", () => {
+    expect(
+      isExamQuestionInterrupt({ type: "answer_mcq", questionId: "q-1", question: "?", options: [] })
+    ).toBe(false);
+  });
+});
+
 describe("isKnownInterrupt", () => {
   it("should return true for plan approval interrupt", () => {
     const interrupt: PlanApprovalInterrupt = {
       type: "plan_approval",
       message: "test",
       plan: [],
+      revisionsLeft: 0,
     };
 
     expect(isKnownInterrupt(interrupt)).toBe(true);
@@ -153,14 +213,17 @@ describe("isKnownInterrupt", () => {
       type: "answer_mcq",
       questionId: "q-1",
       objectiveId: "obj-1",
+      questionType: "single_choice",
       question: "What is 2+2?",
       options: ["2", "3", "4", "5"],
       correctAnswer: 2,
       hint: "hint",
       explanation: "explanation",
+      sourceRefs: [],
       currentIndex: 0,
       totalQuestions: 5,
       attemptCount: 1,
+      wasSkipped: false,
     };
 
     expect(isKnownInterrupt(interrupt)).toBe(true);
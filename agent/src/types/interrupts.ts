@@ -1,12 +1,16 @@
-import type { LearningObjective } from "../schemas/index.js";
+import type { LearningObjective, QuestionType, AnswerKey, SourceRef } from "../schemas/index.js";
 
 /**
  * Interrupt payload for plan approval.
+ * Resumed with a boolean, or a PlanApprovalResume carrying the learner's edited plan
+ * or their feedback for a revised plan.
  */
 export interface PlanApprovalInterrupt {
   type: "plan_approval";
   message: string;
   plan: LearningObjective[];
+  /** How many more times the plan can be regenerated with feedback */
+  revisionsLeft: number;
 }
 
 /**
@@ -16,21 +20,52 @@ export interface AnswerMCQInterrupt {
   type: "answer_mcq";
   questionId: string;
   objectiveId: string;
+  questionType: QuestionType;
   question: string;
+  /** Display options ("True"/"False" for true_false, empty for fill_blank) */
   options: string[];
-  correctAnswer: number;
+  /** Option index, boolean, option indexes or accepted answers depending on questionType */
+  correctAnswer: AnswerKey;
   hint: string;
   explanation: string;
+  /** Pages and quotes in the document that support the correct answer */
+  sourceRefs: SourceRef[];
   currentIndex: number;
   totalQuestions: number;
   /** Number of attempts on this question (starts at 1) */
   attemptCount: number;
+  /** Whether the question was skipped before; skipped questions must be answered when they come back */
+  wasSkipped: boolean;
+  /** Set on follow-up questions about concepts missed earlier in the objective */
+  remediation?: {
+    explanation: string;
+  };
+}
+
+/**
+ * Interrupt payload for a question in exam mode.
+ * Carries no answer key, hint or explanation: answers are only reviewed at the end.
+ */
+export interface ExamQuestionInterrupt {
+  type: "exam_question";
+  questionId: string;
+  objectiveId: string;
+  questionType: QuestionType;
+  question: string;
+  /** Display options ("True"/"False" for true_false, empty for fill_blank) */
+  options: string[];
+  currentIndex: number;
+  totalQuestions: number;
+  /** ISO time after which an answer to this question is not accepted, or null for no limit */
+  questionDeadline: string | null;
+  /** ISO time at which the exam ends, or null for no limit */
+  examDeadline: string | null;
 }
 
 /**
  * Union type of all interrupt payloads.
  */
-export type InterruptPayload = PlanApprovalInterrupt | AnswerMCQInterrupt;
+export type InterruptPayload = PlanApprovalInterrupt | AnswerMCQInterrupt | ExamQuestionInterrupt;
 
 /**
  * Type guard for PlanApprovalInterrupt.
@@ -55,9 +90,25 @@ export function isAnswerMCQInterrupt(data: unknown): data is AnswerMCQInterrupt
   );
 }
 
+/**
+ * Type guard for ExamQuestionInterrupt.
+ */
+export function isExamQuestionInterrupt(data: unknown): data is ExamQuestionInterrupt {
+  if (typeof data !== "object" || data === null) return false;
+  const obj = data as Record<string, unknown>;
+  return (
+    obj.type === "exam_question" &&
+    typeof obj.questionId === "string" &&
+    typeof obj.question === "string" &&
+    Array.isArray(obj.options)
+  );
+}
+
 /**
  * Type guard for any known interrupt payload.
  */
 export function isKnownInterrupt(data: unknown): data is InterruptPayload {
-  return isPlanApprovalInterrupt(data) || isAnswerMCQInterrupt(data);
+  return (
+    isPlanApprovalInterrupt(data) || isAnswerMCQInterrupt(data) || isExamQuestionInterrupt(data)
+  );
 }
@@ -31,6 +31,12 @@ export class NotFoundError extends BaseError {
   }
 }
 
+export class UnauthorizedError extends BaseError {
+  constructor(message = "Authentication required") {
+    super(message, 401);
+  }
+}
+
 export class ApiError extends BaseError {
   constructor(
     message: string,
@@ -29,7 +29,7 @@ export function truncateContent(text: string, maxLength: number): string {
 }
 
 /**
- * Validate PDF content has sufficient substance
+ * Validate extracted document content has sufficient substance
  */
 export interface ValidationResult {
   valid: boolean;
@@ -41,7 +41,7 @@ export function validatePdfContent(content: string): ValidationResult {
   if (!content) {
     return {
       valid: false,
-      error: "PDF content is empty",
+      error: "Document content is empty",
     };
   }
 
@@ -54,7 +54,7 @@ export function validatePdfContent(content: string): ValidationResult {
   if (wordCount < MIN_WORD_COUNT) {
     return {
       valid: false,
-      error: `PDF must contain at least ${MIN_WORD_COUNT} words. Found: ${wordCount}`,
+      error: `Document must contain at least ${MIN_WORD_COUNT} words. Found: ${wordCount}`,
       wordCount,
     };
   }
@@ -64,7 +64,7 @@ export function validatePdfContent(content: string): ValidationResult {
   if (!hasReadableText) {
     return {
       valid: false,
-      error: "PDF appears to contain no readable text content",
+      error: "Document appears to contain no readable text content",
       wordCount,
     };
   }
@@ -74,7 +74,7 @@ export function validatePdfContent(content: string): ValidationResult {
   if (uniqueWords.size < MIN_WORD_COUNT / 2) {
     return {
       valid: false,
-      error: "PDF content appears to be repetitive or invalid",
+      error: "Document content appears to be repetitive or invalid",
       wordCount,
     };
   }
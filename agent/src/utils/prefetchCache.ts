@@ -3,11 +3,12 @@
  * Stores background generation promises keyed by thread ID.
  */
 
-import type { MCQ } from "../schemas/index.js";
+import type { LearningObjective, MCQ } from "../schemas/index.js";
 
 interface PrefetchEntry {
   promise: Promise<MCQ[]>;
   objectiveIdx: number;
+  difficulty: LearningObjective["difficulty"];
 }
 
 const cache = new Map<string, PrefetchEntry>();
@@ -19,6 +19,8 @@ export function CustomChatInput() {
 
   const isLoading = copilotLoading || studyBuddyLoading;
   const isQuizPhase = state.phase === "quiz";
+  // No quiz help while an exam is being taken (the server refuses it too)
+  const isExam = isQuizPhase && !!state.currentMcq?.exam;
 
   // Send to Copilot (default behavior)
   const sendToCopilot = useCallback(() => {
@@ -84,8 +86,13 @@ export function CustomChatInput() {
 
   return (
     <div className="flex flex-col gap-2 p-3 border-t border-gray-200">
-      {/* Study Buddy button - only shown during quiz phase */}
-      {isQuizPhase && (
+      {/* Study Buddy button - only shown during quiz phase, and never in an exam */}
+      {isExam && (
+        <p className="text-xs text-gray-500 text-center">
+          Study Buddy is off during the exam. It will be back once you finish.
+        </p>
+      )}
+      {isQuizPhase && !isExam && (
         <button
           onClick={sendToStudyBuddy}
           disabled={!inputValue.trim() || isLoading}
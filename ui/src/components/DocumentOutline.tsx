@@ -0,0 +1,70 @@
+"use client";
+
+import type { DocumentOutline as DocumentOutlineData } from "@/lib/types";
+
+interface DocumentOutlineProps {
+  outline: DocumentOutlineData;
+  /** Sections covered by the learning plan, shown highlighted */
+  highlightedSectionIds?: string[];
+}
+
+function formatPages(startPage: number, endPage: number): string {
+  return startPage === endPage ? `p. ${startPage}` : `pp. ${startPage}-${endPage}`;
+}
+
+/**
+ * Collapsible outline of the uploaded documents: sections with page ranges and word counts,
+ * grouped under each file name when the session has several documents
+ */
+export function DocumentOutline({ outline, highlightedSectionIds = [] }: DocumentOutlineProps) {
+  if (outline.sections.length === 0) return null;
+
+  const documents = outline.documents ?? [];
+  const documentHeading = (index: number): string | null => {
+    if (documents.length < 2) return null;
+    const documentId = outline.sections[index].documentId;
+    if (index > 0 && outline.sections[index - 1].documentId === documentId) return null;
+    return documents.find((document) => document.id === documentId)?.name ?? null;
+  };
+
+  return (
+    <details className="bg-white border border-gray-200 rounded-lg shadow-sm mb-6">
+      <summary className="cursor-pointer select-none px-4 py-3 flex items-center justify-between gap-4">
+        <span className="font-medium text-gray-800 truncate">📑 {outline.title}</span>
+        <span className="text-sm text-gray-500 flex-shrink-0">
+          {outline.pageCount} pages · {outline.wordCount.toLocaleString()} words
+        </span>
+      </summary>
+      <ul className="border-t border-gray-100 px-4 py-3 space-y-1">
+        {outline.sections.map((section, index) => {
+          const highlighted = highlightedSectionIds.includes(section.id);
+          const heading = documentHeading(index);
+          return [
+            heading && (
+              <li
+                key={`${section.id}-document`}
+                className="pt-2 text-xs font-semibold uppercase tracking-wide text-gray-500"
+              >
+                📄 {heading}
+              </li>
+            ),
+            <li
+              key={section.id}
+              className={`flex items-baseline justify-between gap-4 text-sm rounded px-2 py-1 ${
+                highlighted ? "bg-primary-50 text-primary-700" : "text-gray-700"
+              }`}
+              style={{ paddingLeft: `${0.5 + (section.level - 1) * 1.25}rem` }}
+            >
+              <span className={section.level === 1 ? "font-medium" : undefined}>
+                {section.title}
+              </span>
+              <span className="text-xs text-gray-400 flex-shrink-0">
+                {formatPages(section.startPage, section.endPage)} · {section.wordCount} words
+              </span>
+            </li>,
+          ];
+        })}
+      </ul>
+    </details>
+  );
+}
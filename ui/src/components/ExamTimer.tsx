@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { ExamDeadlines } from "@/lib/types";
+
+interface ExamTimerProps {
+  deadlines: ExamDeadlines;
+  /** Called once when the question or the exam runs out of time */
+  onExpire: () => void;
+}
+
+const WARN_BELOW_SECONDS = 10;
+
+function secondsLeft(deadline: string | null, now: number): number | null {
+  return deadline === null ? null : Math.max(0, Math.ceil((Date.parse(deadline) - now) / 1000));
+}
+
+function formatSeconds(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Countdown for an exam question and the exam as a whole.
+ * The server enforces the deadlines; this only shows them and moves on when time is up.
+ */
+export function ExamTimer({ deadlines, onExpire }: ExamTimerProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const expiredRef = useRef(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const questionLeft = secondsLeft(deadlines.questionDeadline, now);
+  const examLeft = secondsLeft(deadlines.examDeadline, now);
+  const expired = questionLeft === 0 || examLeft === 0;
+
+  useEffect(() => {
+    if (expired && !expiredRef.current) {
+      expiredRef.current = true;
+      onExpire();
+    }
+  }, [expired, onExpire]);
+
+  if (questionLeft === null && examLeft === null) return null;
+
+  return (
+    <div className="flex gap-4 text-sm font-medium mb-4" role="timer" aria-live="off">
+      {questionLeft !== null && (
+        <span className={questionLeft <= WARN_BELOW_SECONDS ? "text-red-600" : "text-gray-700"}>
+          Question: {formatSeconds(questionLeft)}
+        </span>
+      )}
+      {examLeft !== null && (
+        <span className={examLeft <= WARN_BELOW_SECONDS ? "text-red-600" : "text-gray-500"}>
+          Exam: {formatSeconds(examLeft)} left
+        </span>
+      )}
+    </div>
+  );
+}
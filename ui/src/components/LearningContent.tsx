@@ -1,7 +1,7 @@
 "use client";
 
 import { useLearningContext } from "@/contexts";
-import { useLearningWorkflow, useCopilotSetup } from "@/hooks";
+import { useLearningWorkflow, useCopilotSetup, useDueReviews } from "@/hooks";
 import { PDFUpload } from "./PDFUpload";
 import { PlanApproval } from "./PlanApproval";
 import { MCQPanel } from "./MCQPanel";
@@ -10,9 +10,19 @@ import { LoadingState } from "./LoadingState";
 import { ErrorDisplay } from "./ErrorDisplay";
 
 export function LearningContent() {
-  const { state } = useLearningContext();
-  const { handleUpload, handleApproval, handleAnswer, handleContinue, handleRetry, handleRestart } =
-    useLearningWorkflow();
+  const { state, actions } = useLearningContext();
+  const {
+    handleUpload,
+    handleStart,
+    handleStartReview,
+    handleApproval,
+    handleRevise,
+    handleAnswer,
+    handleSkip,
+    handleContinue,
+    handleRetry,
+    handleRestart,
+  } = useLearningWorkflow();
 
   // Set up CopilotKit integration
   useCopilotSetup();
@@ -21,9 +31,14 @@ export function LearningContent() {
     phase,
     isLoading,
     error,
+    documents,
+    settings,
+    outline,
+    warnings,
     objectives,
     planSummary,
     estimatedTime,
+    planRevisionsLeft,
     currentMcq,
     mcqIndex,
     totalMcqs,
@@ -31,6 +46,8 @@ export function LearningContent() {
     answerFeedback,
   } = state;
 
+  const { dueCount } = useDueReviews(phase === "upload");
+
   // Show error if present
   if (error) {
     return <ErrorDisplay message={error} onRetry={handleRestart} />;
@@ -39,10 +56,21 @@ export function LearningContent() {
   // Render based on phase
   switch (phase) {
     case "upload":
-      return <PDFUpload onUpload={handleUpload} isLoading={isLoading} />;
+      return (
+        <PDFUpload
+          documents={documents}
+          settings={settings}
+          onSettingsChange={actions.updateSettings}
+          onUpload={handleUpload}
+          onStart={handleStart}
+          isLoading={isLoading}
+          dueReviewCount={dueCount}
+          onStartReview={handleStartReview}
+        />
+      );
 
     case "parsing":
-      return <LoadingState message="Analyzing your PDF..." />;
+      return <LoadingState message="Analyzing your document..." />;
 
     case "planning":
       return <LoadingState message="Creating your learning plan..." />;
@@ -51,9 +79,13 @@ export function LearningContent() {
       return (
         <PlanApproval
           objectives={objectives}
+          outline={outline}
+          warnings={warnings}
           summary={planSummary}
           estimatedTime={estimatedTime}
-          onApprove={() => handleApproval(true)}
+          onApprove={(plan) => handleApproval(true, plan)}
+          onRevise={handleRevise}
+          revisionsLeft={planRevisionsLeft}
           onReject={() => handleApproval(false)}
           isLoading={isLoading}
         />
@@ -67,7 +99,9 @@ export function LearningContent() {
           currentIndex={mcqIndex}
           totalQuestions={totalMcqs}
           objectiveTitle={currentObjective?.title}
+          documents={outline?.documents}
           onAnswer={handleAnswer}
+          onSkip={handleSkip}
           onContinue={handleContinue}
           onRetry={handleRetry}
           isLoading={isLoading}
@@ -86,6 +120,17 @@ export function LearningContent() {
       );
 
     default:
-      return <PDFUpload onUpload={handleUpload} isLoading={isLoading} />;
+      return (
+        <PDFUpload
+          documents={documents}
+          settings={settings}
+          onSettingsChange={actions.updateSettings}
+          onUpload={handleUpload}
+          onStart={handleStart}
+          isLoading={isLoading}
+          dueReviewCount={dueCount}
+          onStartReview={handleStartReview}
+        />
+      );
   }
 }
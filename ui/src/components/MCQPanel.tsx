@@ -1,16 +1,23 @@
 "use client";
 
 import { useState, useCallback, useEffect } from "react";
-import { MCQ, AnswerFeedback } from "@/lib/types";
+import { MCQ, AnswerFeedback, QuestionAnswer, DocumentSpan, Confidence } from "@/lib/types";
 import { Button, ProgressBar } from "@/components/common";
-import { classNames } from "@/lib/utils";
+import { QuestionInput, SourceRefList } from "@/components/questions";
+import { QUESTION_TYPE_LABELS, CONFIDENCE_LABELS, isAnswerComplete } from "@/lib/questions";
+import { ExamTimer } from "./ExamTimer";
 
 interface MCQPanelProps {
   question: MCQ;
   currentIndex: number;
   totalQuestions: number;
   objectiveTitle?: string;
-  onAnswer: (answer: number) => void;
+  /** Source documents, to name the file each cited page comes from */
+  documents?: DocumentSpan[];
+  /** Submit an answer, with how sure the learner is if they said */
+  onAnswer: (answer: QuestionAnswer, confidence?: Confidence) => void;
+  /** Put the question aside until the end of the objective (or leave it unanswered in an exam) */
+  onSkip?: () => void;
   onContinue: () => void;
   onRetry: () => void;
   isLoading: boolean;
@@ -22,83 +29,56 @@ export function MCQPanel({
   currentIndex,
   totalQuestions,
   objectiveTitle,
+  documents,
   onAnswer,
+  onSkip,
   onContinue,
   onRetry,
   isLoading,
   answerFeedback,
 }: MCQPanelProps) {
-  const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const [selectedAnswer, setSelectedAnswer] = useState<QuestionAnswer | null>(null);
+  const [confidence, setConfidence] = useState<Confidence | null>(null);
 
-  // Reset selection when question changes
+  // Reset selection and rating when question changes
   useEffect(() => {
-    setSelectedOption(null);
+    setSelectedAnswer(null);
+    setConfidence(null);
   }, [question.id]);
 
-  // When showing feedback, set the selected option to the user's answer
+  // When showing feedback, set the selection to the user's answer
   // When feedback is cleared (e.g., Continue clicked), also clear selection
   useEffect(() => {
     if (answerFeedback) {
-      setSelectedOption(answerFeedback.selectedAnswer);
+      setSelectedAnswer(answerFeedback.selectedAnswer);
     } else {
-      setSelectedOption(null);
+      setSelectedAnswer(null);
     }
   }, [answerFeedback]);
 
-  const handleOptionSelect = useCallback(
-    (index: number) => {
+  const handleChange = useCallback(
+    (answer: QuestionAnswer) => {
       if (isLoading || answerFeedback) return;
-      setSelectedOption(index);
+      setSelectedAnswer(answer);
     },
     [isLoading, answerFeedback]
   );
 
   const handleSubmit = useCallback(() => {
-    if (selectedOption === null || isLoading) return;
-    onAnswer(selectedOption);
-  }, [selectedOption, onAnswer, isLoading]);
+    if (!isAnswerComplete(selectedAnswer) || isLoading) return;
+    onAnswer(selectedAnswer, confidence ?? undefined);
+  }, [selectedAnswer, confidence, onAnswer, isLoading]);
 
   const handleRetry = useCallback(() => {
-    setSelectedOption(null);
+    setSelectedAnswer(null);
+    setConfidence(null);
     onRetry();
   }, [onRetry]);
 
-  const getOptionClass = (index: number) => {
-    const base = "mcq-option flex items-center gap-3 w-full";
-
-    // If we have feedback, show correct/incorrect highlighting
-    if (answerFeedback) {
-      // Only show correct answer (green) when user got it right
-      if (index === answerFeedback.correctAnswer && answerFeedback.isCorrect) {
-        return classNames(base, "correct");
-      }
-      if (index === answerFeedback.selectedAnswer && !answerFeedback.isCorrect) {
-        return classNames(base, "incorrect");
-      }
-      return base;
-    }
-
-    return classNames(base, selectedOption === index && "selected");
-  };
-
-  const getRadioClass = (index: number) => {
-    const base = "w-6 h-6 rounded-full border-2 flex items-center justify-center flex-shrink-0";
-
-    if (answerFeedback) {
-      // Only show correct answer (green) when user got it right
-      if (index === answerFeedback.correctAnswer && answerFeedback.isCorrect) {
-        return `${base} border-green-500 bg-green-500`;
-      }
-      if (index === answerFeedback.selectedAnswer && !answerFeedback.isCorrect) {
-        return `${base} border-red-500 bg-red-500`;
-      }
-      return `${base} border-gray-300`;
-    }
-
-    return selectedOption === index
-      ? `${base} border-primary-500 bg-primary-500`
-      : `${base} border-gray-300`;
-  };
+  // Out of time: the server would not count an answer now, so move on
+  const handleExpire = useCallback(() => {
+    if (!isLoading) onSkip?.();
+  }, [isLoading, onSkip]);
 
   return (
     <div className="flex flex-col h-full p-6 overflow-auto">
@@ -117,31 +97,39 @@ export function MCQPanel({
           className="mb-6"
         />
 
+        {/* Exam countdown */}
+        {question.exam && (
+          <ExamTimer key={question.id} deadlines={question.exam} onExpire={handleExpire} />
+        )}
+
+        {/* Explanation of missed concepts before follow-up questions */}
+        {question.remediation && (
+          <div className="bg-primary-50 border border-primary-200 rounded-xl p-4 mb-6">
+            <p className="text-sm font-medium text-primary-800">
+              Let&apos;s revisit what tripped you up
+            </p>
+            <p className="mt-1 text-sm text-primary-700">{question.remediation.explanation}</p>
+          </div>
+        )}
+
         {/* Question */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+          <p className="text-xs font-medium uppercase tracking-wide text-primary-600 mb-2">
+            {QUESTION_TYPE_LABELS[question.type]}
+            {question.remediation && " · Follow-up"}
+            {question.wasSkipped && " · Skipped earlier"}
+            {question.exam && " · Exam"}
+          </p>
           <h2 className="text-xl font-medium text-gray-800 mb-6">{question.question}</h2>
 
-          {/* Options */}
-          <div className="space-y-3">
-            {question.options.map((option, index) => (
-              <button
-                key={index}
-                onClick={() => handleOptionSelect(index)}
-                disabled={isLoading || !!answerFeedback}
-                className={getOptionClass(index)}
-              >
-                <div className={getRadioClass(index)}>
-                  {(selectedOption === index ||
-                    (answerFeedback &&
-                      (index === answerFeedback.correctAnswer ||
-                        index === answerFeedback.selectedAnswer))) && (
-                    <div className="w-2 h-2 rounded-full bg-white" />
-                  )}
-                </div>
-                <span className="text-gray-700">{option}</span>
-              </button>
-            ))}
-          </div>
+          {/* Answer input for this question type */}
+          <QuestionInput
+            question={question}
+            value={selectedAnswer}
+            onChange={handleChange}
+            disabled={isLoading || !!answerFeedback}
+            answerFeedback={answerFeedback}
+          />
 
           {/* Feedback section */}
           {answerFeedback && (
@@ -166,21 +154,51 @@ export function MCQPanel({
               >
                 {answerFeedback.isCorrect ? answerFeedback.explanation : answerFeedback.hint}
               </p>
+              {/* Excerpts support the correct answer, so the server only sends them once it is found */}
+              <SourceRefList
+                refs={answerFeedback.sourceRefs ?? question.sourceRefs}
+                showExcerpts={answerFeedback.isCorrect}
+                documents={documents}
+                className="mt-3"
+              />
             </div>
           )}
         </div>
 
+        {/* Optional confidence rating, sent with the answer */}
+        {!answerFeedback && (
+          <div className="flex items-center gap-2 mb-4" role="group" aria-label="How sure are you?">
+            <span className="text-sm text-gray-600 mr-1">How sure are you?</span>
+            {(Object.keys(CONFIDENCE_LABELS) as Confidence[]).map((level) => (
+              <button
+                key={level}
+                type="button"
+                onClick={() => setConfidence(confidence === level ? null : level)}
+                disabled={isLoading}
+                aria-pressed={confidence === level}
+                className={`px-3 py-1 text-sm rounded-full border disabled:opacity-50 ${
+                  confidence === level
+                    ? "bg-primary-600 border-primary-600 text-white"
+                    : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {CONFIDENCE_LABELS[level]}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Action buttons */}
         <div className="flex gap-4">
           {!answerFeedback ? (
             <Button
               onClick={handleSubmit}
-              disabled={selectedOption === null}
+              disabled={!isAnswerComplete(selectedAnswer)}
               isLoading={isLoading}
               loadingText="Submitting..."
               fullWidth
             >
-              Submit Answer
+              {question.exam ? "Submit and Continue" : "Submit Answer"}
             </Button>
           ) : answerFeedback.isCorrect ? (
             <Button
@@ -196,6 +214,19 @@ export function MCQPanel({
               Try Again
             </Button>
           )}
+          {onSkip && question.exam ? (
+            <Button onClick={onSkip} disabled={isLoading} variant="ghost">
+              Leave unanswered
+            </Button>
+          ) : (
+            onSkip &&
+            !question.wasSkipped &&
+            !answerFeedback?.isCorrect && (
+              <Button onClick={onSkip} disabled={isLoading} variant="ghost">
+                Skip for now
+              </Button>
+            )
+          )}
         </div>
       </div>
     </div>
@@ -1,28 +1,72 @@
 "use client";
 
 import { useCallback, useState } from "react";
+import { UI_CONFIG } from "@/config/constants";
+import { validateDocumentFile } from "@/lib/validation";
+import type { SessionSettings, UploadedDocument } from "@/lib/types";
+import { Button } from "@/components/common";
+import { SessionSettingsForm } from "./SessionSettingsForm";
+
+const ACCEPTED_FILES = [...UI_CONFIG.FILE.ALLOWED_TYPES, ...UI_CONFIG.FILE.ALLOWED_EXTENSIONS].join(
+  ","
+);
 
 interface PDFUploadProps {
-  onUpload: (file: File) => void;
+  /** Documents already added to this session */
+  documents: UploadedDocument[];
+  settings: SessionSettings;
+  onSettingsChange: (settings: Partial<SessionSettings>) => void;
+  onUpload: (files: File[]) => void;
+  onStart: () => void;
   isLoading: boolean;
+  /** Questions from earlier sessions due for spaced review */
+  dueReviewCount?: number;
+  onStartReview?: () => void;
 }
 
-export function PDFUpload({ onUpload, isLoading }: PDFUploadProps) {
+export function PDFUpload({
+  documents,
+  settings,
+  onSettingsChange,
+  onUpload,
+  onStart,
+  isLoading,
+  dueReviewCount = 0,
+  onStartReview,
+}: PDFUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
-  const [fileName, setFileName] = useState<string | null>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const selectFiles = useCallback(
+    (fileList: FileList | null | undefined) => {
+      const files = Array.from(fileList ?? []);
+      if (files.length === 0) return;
+
+      // Upload the valid files and report the first rejected one
+      const errors: string[] = [];
+      const accepted = files.filter((file) => {
+        const validation = validateDocumentFile(file);
+        if (!validation.valid) {
+          errors.push(`${file.name}: ${validation.error ?? "Unsupported file"}`);
+        }
+        return validation.valid;
+      });
+
+      setValidationError(errors[0] ?? null);
+      if (accepted.length > 0) {
+        onUpload(accepted);
+      }
+    },
+    [onUpload]
+  );
 
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
       setIsDragging(false);
-
-      const file = e.dataTransfer.files[0];
-      if (file && file.type === "application/pdf") {
-        setFileName(file.name);
-        onUpload(file);
-      }
+      selectFiles(e.dataTransfer.files);
     },
-    [onUpload]
+    [selectFiles]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
@@ -36,13 +80,11 @@ export function PDFUpload({ onUpload, isLoading }: PDFUploadProps) {
 
   const handleFileSelect = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file && file.type === "application/pdf") {
-        setFileName(file.name);
-        onUpload(file);
-      }
+      selectFiles(e.target.files);
+      // Allow the same file to be picked again after an error
+      e.target.value = "";
     },
-    [onUpload]
+    [selectFiles]
   );
 
   return (
@@ -52,9 +94,22 @@ export function PDFUpload({ onUpload, isLoading }: PDFUploadProps) {
           Memorang Learning Agent
         </h1>
         <p className="text-gray-600 mb-8 text-center">
-          Upload a PDF to start your personalized learning journey
+          Upload one or more documents to start your personalized learning journey
         </p>
 
+        {documents.length === 0 && dueReviewCount > 0 && onStartReview && (
+          <div className="mb-6 flex items-center justify-between gap-4 rounded-lg border border-primary-200 bg-primary-50 px-4 py-3">
+            <p className="text-sm text-primary-800">
+              {dueReviewCount === 1
+                ? "1 question is due for review"
+                : `${dueReviewCount} questions are due for review`}
+            </p>
+            <Button onClick={onStartReview} isLoading={isLoading} size="sm">
+              Start review
+            </Button>
+          </div>
+        )}
+
         <div
           onDrop={handleDrop}
           onDragOver={handleDragOver}
@@ -72,7 +127,8 @@ export function PDFUpload({ onUpload, isLoading }: PDFUploadProps) {
         >
           <input
             type="file"
-            accept="application/pdf"
+            accept={ACCEPTED_FILES}
+            multiple
             onChange={handleFileSelect}
             className="hidden"
             id="pdf-upload"
@@ -100,24 +156,59 @@ export function PDFUpload({ onUpload, isLoading }: PDFUploadProps) {
                   <div className="w-5 h-5 border-2 border-primary-500 border-t-transparent rounded-full animate-spin" />
                   <span className="text-gray-600">Processing...</span>
                 </div>
-              ) : fileName ? (
+              ) : documents.length > 0 ? (
                 <div className="text-gray-700">
-                  <span className="font-medium">{fileName}</span>
+                  <span className="font-medium">Add more documents</span>
                   <p className="text-sm text-gray-500 mt-1">
-                    Click or drag to upload a different file
+                    Click or drag to add files to this session
                   </p>
                 </div>
               ) : (
                 <>
                   <span className="text-gray-700 font-medium">
-                    Drop your PDF here, or click to browse
+                    Drop your documents here, or click to browse
+                  </span>
+                  <span className="text-sm text-gray-500">
+                    PDF, Word (.docx), EPUB, HTML, Markdown or text files up to{" "}
+                    {UI_CONFIG.FILE.MAX_SIZE_MB}MB
                   </span>
-                  <span className="text-sm text-gray-500">Supports PDF files up to 10MB</span>
                 </>
               )}
             </div>
           </label>
         </div>
+
+        {validationError && (
+          <p className="mt-4 text-sm text-red-600 text-center" role="alert">
+            {validationError}
+          </p>
+        )}
+
+        {documents.length > 0 && (
+          <div className="mt-6">
+            <h2 className="text-sm font-semibold text-gray-700 mb-2">
+              {documents.length === 1 ? "1 document" : `${documents.length} documents`} in this
+              session
+            </h2>
+            <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white">
+              {documents.map((document) => (
+                <li key={document.id} className="px-4 py-2 text-sm text-gray-700 truncate">
+                  📄 {document.name}
+                </li>
+              ))}
+            </ul>
+            <div className="mt-4">
+              <SessionSettingsForm
+                settings={settings}
+                onChange={onSettingsChange}
+                disabled={isLoading}
+              />
+            </div>
+            <Button onClick={onStart} isLoading={isLoading} fullWidth className="mt-4">
+              Create learning plan
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,30 +1,75 @@
 "use client";
 
-import { LearningObjective } from "@/lib/types";
+import { useState } from "react";
+import {
+  LearningObjective,
+  PlanEditObjective,
+  DocumentOutline as DocumentOutlineData,
+} from "@/lib/types";
+import { DocumentOutline } from "./DocumentOutline";
+import { PlanEditor, toPlanEditItems, type PlanEditItem } from "./PlanEditor";
 
 interface PlanApprovalProps {
   objectives: LearningObjective[];
+  outline?: DocumentOutlineData | null;
+  /** Non-fatal problems with the document, e.g. that it was read with OCR */
+  warnings?: string[];
   estimatedTime?: string;
   summary?: string;
-  onApprove: () => void;
+  /** Called with the edited plan if the learner changed it */
+  onApprove: (plan?: PlanEditObjective[]) => void;
+  /** Send the plan back with feedback for the agent to regenerate it */
+  onRevise: (feedback: string) => void;
+  /** How many more times the plan can be regenerated */
+  revisionsLeft: number;
   onReject: () => void;
   isLoading: boolean;
 }
 
 const difficultyColors = {
-  beginner: "bg-green-100 text-green-700",
-  intermediate: "bg-yellow-100 text-yellow-700",
-  advanced: "bg-red-100 text-red-700",
+  easy: "bg-green-100 text-green-700",
+  medium: "bg-yellow-100 text-yellow-700",
+  hard: "bg-red-100 text-red-700",
 };
 
 export function PlanApproval({
   objectives,
+  outline,
+  warnings = [],
   estimatedTime,
   summary,
   onApprove,
+  onRevise,
+  revisionsLeft,
   onReject,
   isLoading,
 }: PlanApprovalProps) {
+  // Objectives being edited, or null while the plan is shown as generated
+  const [editItems, setEditItems] = useState<PlanEditItem[] | null>(null);
+  // Feedback for a revised plan, or null while the feedback form is closed
+  const [feedback, setFeedback] = useState<string | null>(null);
+
+  const editedPlan = editItems?.map((item) => ({
+    ...item.objective,
+    title: item.objective.title.trim(),
+  }));
+  const isEdited =
+    editedPlan !== undefined && JSON.stringify(editedPlan) !== JSON.stringify(objectives);
+  const isValid = !editedPlan || editedPlan.every((objective) => objective.title.length > 0);
+
+  const sectionTitles = (objective: LearningObjective): string[] =>
+    (objective.sectionIds ?? [])
+      .map((id) => outline?.sections.find((section) => section.id === id)?.title)
+      .filter((title): title is string => Boolean(title));
+
+  // Only worth naming the source when the plan spans several documents
+  const documentNames = (objective: LearningObjective): string[] =>
+    outline?.documents && outline.documents.length > 1
+      ? (objective.documentIds ?? [])
+          .map((id) => outline.documents?.find((document) => document.id === id)?.name)
+          .filter((name): name is string => Boolean(name))
+      : [];
+
   return (
     <div className="flex flex-col h-full p-6 overflow-auto">
       <div className="max-w-2xl mx-auto w-full">
@@ -33,6 +78,16 @@ export function PlanApproval({
           {summary || "Review your personalized learning objectives"}
         </p>
 
+        {warnings.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6" role="status">
+            {warnings.map((warning, index) => (
+              <p key={index} className="text-sm text-yellow-800">
+                {warning}
+              </p>
+            ))}
+          </div>
+        )}
+
         {estimatedTime && (
           <div className="bg-primary-50 rounded-lg p-4 mb-6">
             <div className="flex items-center gap-2">
@@ -54,33 +109,121 @@ export function PlanApproval({
           </div>
         )}
 
-        <div className="space-y-4 mb-8">
-          {objectives.map((objective, index) => (
-            <div
-              key={objective.id}
-              className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm"
-            >
-              <div className="flex items-start justify-between gap-4">
-                <div className="flex items-start gap-3">
-                  <div className="w-8 h-8 bg-primary-100 rounded-full flex items-center justify-center flex-shrink-0">
-                    <span className="text-primary-700 font-medium">{index + 1}</span>
+        {outline && (
+          <DocumentOutline
+            outline={outline}
+            highlightedSectionIds={objectives.flatMap((objective) => objective.sectionIds ?? [])}
+          />
+        )}
+
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold text-gray-700">Objectives</h3>
+          <button
+            type="button"
+            onClick={() => setEditItems(editItems ? null : toPlanEditItems(objectives))}
+            disabled={isLoading}
+            className="text-sm font-medium text-primary-700 hover:underline disabled:opacity-50"
+          >
+            {editItems ? "Discard changes" : "Edit plan"}
+          </button>
+        </div>
+
+        {editItems ? (
+          <PlanEditor items={editItems} onChange={setEditItems} disabled={isLoading} />
+        ) : (
+          <div className="space-y-4 mb-8">
+            {objectives.map((objective, index) => (
+              <div
+                key={objective.id}
+                className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex items-start gap-3">
+                    <div className="w-8 h-8 bg-primary-100 rounded-full flex items-center justify-center flex-shrink-0">
+                      <span className="text-primary-700 font-medium">{index + 1}</span>
+                    </div>
+                    <div>
+                      <h3 className="font-medium text-gray-800">{objective.title}</h3>
+                      <p className="text-sm text-gray-600 mt-1">{objective.description}</p>
+                      {sectionTitles(objective).length > 0 && (
+                        <p className="text-xs text-gray-500 mt-2">
+                          📑 {sectionTitles(objective).join(" · ")}
+                        </p>
+                      )}
+                      {documentNames(objective).length > 0 && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          📄 {documentNames(objective).join(" · ")}
+                        </p>
+                      )}
+                    </div>
                   </div>
-                  <div>
-                    <h3 className="font-medium text-gray-800">{objective.title}</h3>
-                    <p className="text-sm text-gray-600 mt-1">{objective.description}</p>
+                  <span
+                    className={`px-2 py-1 text-xs font-medium rounded-full flex-shrink-0 ${
+                      difficultyColors[objective.difficulty]
+                    }`}
+                  >
+                    {objective.difficulty}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {revisionsLeft > 0 && !editItems && (
+          <div className="mb-6">
+            {feedback === null ? (
+              <button
+                type="button"
+                onClick={() => setFeedback("")}
+                disabled={isLoading}
+                className="text-sm font-medium text-primary-700 hover:underline disabled:opacity-50"
+              >
+                Not quite right? Ask for a revised plan
+              </button>
+            ) : (
+              <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+                <label htmlFor="plan-feedback" className="text-sm font-medium text-gray-700">
+                  What should change?
+                </label>
+                <textarea
+                  id="plan-feedback"
+                  value={feedback}
+                  onChange={(e) => setFeedback(e.target.value)}
+                  disabled={isLoading}
+                  maxLength={1000}
+                  rows={3}
+                  placeholder="e.g. More focus on chapter 3, fewer objectives"
+                  className="mt-2 w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                />
+                <div className="flex items-center justify-between mt-2">
+                  <span className="text-xs text-gray-500">
+                    {revisionsLeft === 1 ? "1 revision left" : `${revisionsLeft} revisions left`}
+                  </span>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setFeedback(null)}
+                      disabled={isLoading}
+                      className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onRevise(feedback.trim())}
+                      disabled={isLoading || !feedback.trim()}
+                      className="px-3 py-1.5 text-sm font-medium bg-primary-600 text-white rounded-md
+                        hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Revise plan
+                    </button>
                   </div>
                 </div>
-                <span
-                  className={`px-2 py-1 text-xs font-medium rounded-full flex-shrink-0 ${
-                    difficultyColors[objective.difficulty]
-                  }`}
-                >
-                  {objective.difficulty}
-                </span>
               </div>
-            </div>
-          ))}
-        </div>
+            )}
+          </div>
+        )}
 
         <div className="flex gap-4">
           <button
@@ -92,8 +235,8 @@ export function PlanApproval({
             Reject Plan
           </button>
           <button
-            onClick={onApprove}
-            disabled={isLoading}
+            onClick={() => onApprove(isEdited ? editedPlan : undefined)}
+            disabled={isLoading || !isValid}
             className="flex-1 px-6 py-3 bg-primary-600 text-white rounded-lg font-medium
               hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed
               flex items-center justify-center gap-2"
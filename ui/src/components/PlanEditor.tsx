@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import { UI_CONFIG } from "@/config/constants";
+import type { ObjectiveDifficulty, PlanEditObjective } from "@/lib/types";
+
+/**
+ * An objective being edited, with a stable key for objectives that have no id yet
+ */
+export interface PlanEditItem {
+  key: string;
+  objective: PlanEditObjective;
+}
+
+interface PlanEditorProps {
+  items: PlanEditItem[];
+  onChange: (items: PlanEditItem[]) => void;
+  disabled?: boolean;
+}
+
+const DIFFICULTIES: ObjectiveDifficulty[] = ["easy", "medium", "hard"];
+const MAX_OBJECTIVES = UI_CONFIG.LEARNING.MAX_EDITED_OBJECTIVES;
+
+let nextKey = 0;
+
+/**
+ * Wrap objectives for editing
+ */
+export function toPlanEditItems(objectives: PlanEditObjective[]): PlanEditItem[] {
+  return objectives.map((objective) => ({ key: `item-${nextKey++}`, objective }));
+}
+
+/**
+ * Editable list of learning objectives: reorder, rename, re-level, delete and add.
+ * New objectives only need a title; the agent fills in the rest.
+ */
+export function PlanEditor({ items, onChange, disabled }: PlanEditorProps) {
+  const [newTitle, setNewTitle] = useState("");
+
+  const update = (index: number, changes: Partial<PlanEditObjective>) =>
+    onChange(
+      items.map((item, idx) =>
+        idx === index ? { ...item, objective: { ...item.objective, ...changes } } : item
+      )
+    );
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const remove = (index: number) => onChange(items.filter((_, idx) => idx !== index));
+
+  const add = () => {
+    const title = newTitle.trim();
+    if (!title || items.length >= MAX_OBJECTIVES) return;
+    onChange([...items, ...toPlanEditItems([{ title }])]);
+    setNewTitle("");
+  };
+
+  return (
+    <div className="space-y-3 mb-8">
+      {items.map(({ key, objective }, index) => (
+        <div key={key} className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+          <div className="flex items-center gap-2">
+            <div className="flex flex-col">
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={disabled || index === 0}
+                className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                aria-label="Move up"
+              >
+                ▲
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={disabled || index === items.length - 1}
+                className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                aria-label="Move down"
+              >
+                ▼
+              </button>
+            </div>
+            <input
+              type="text"
+              value={objective.title}
+              onChange={(e) => update(index, { title: e.target.value })}
+              disabled={disabled}
+              className="flex-1 min-w-0 border border-gray-300 rounded-md px-3 py-2 text-sm text-gray-800"
+              aria-label={`Objective ${index + 1} title`}
+            />
+            <select
+              value={objective.difficulty ?? ""}
+              onChange={(e) =>
+                update(index, {
+                  difficulty: (e.target.value || undefined) as ObjectiveDifficulty | undefined,
+                })
+              }
+              disabled={disabled}
+              className="border border-gray-300 rounded-md px-2 py-2 text-sm text-gray-700"
+              aria-label={`Objective ${index + 1} difficulty`}
+            >
+              {!objective.id && <option value="">auto</option>}
+              {DIFFICULTIES.map((difficulty) => (
+                <option key={difficulty} value={difficulty}>
+                  {difficulty}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => remove(index)}
+              disabled={disabled || items.length === 1}
+              className="px-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+              aria-label={`Remove objective ${index + 1}`}
+            >
+              ✕
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2 ml-8">
+            {objective.description || "Description will be written when you approve the plan"}
+          </p>
+        </div>
+      ))}
+
+      {items.length < MAX_OBJECTIVES && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") add();
+            }}
+            disabled={disabled}
+            placeholder="Add an objective, e.g. Compare mitosis and meiosis"
+            className="flex-1 border border-dashed border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+          <button
+            type="button"
+            onClick={add}
+            disabled={disabled || !newTitle.trim()}
+            className="px-4 py-2 text-sm font-medium text-primary-700 border border-primary-300 rounded-md
+              hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
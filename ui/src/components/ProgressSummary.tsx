@@ -1,12 +1,17 @@
 "use client";
 
 import { ProgressReport } from "@/lib/types";
+import { CONFIDENCE_LABELS } from "@/lib/questions";
 
 interface ProgressSummaryProps {
   report: ProgressReport;
   onRestart: () => void;
 }
 
+function formatDuration(seconds: number): string {
+  return seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 60)} min`;
+}
+
 export function ProgressSummary({ report, onRestart }: ProgressSummaryProps) {
   const getScoreColor = (score: number) => {
     if (score >= 80) return "text-success-600";
@@ -26,8 +31,13 @@ export function ProgressSummary({ report, onRestart }: ProgressSummaryProps) {
     <div className="flex flex-col h-full p-6 overflow-auto">
       <div className="max-w-2xl mx-auto w-full">
         <div className="text-center mb-8">
-          <h2 className="text-3xl font-bold text-gray-800 mb-2">Session Complete!</h2>
+          <h2 className="text-3xl font-bold text-gray-800 mb-2">
+            {report.exam ? "Exam Complete!" : "Session Complete!"}
+          </h2>
           <p className="text-gray-600">{getScoreEmoji(report.score)}</p>
+          {report.exam?.timedOut && (
+            <p className="text-sm text-red-600 mt-1">Time ran out before the end of the exam.</p>
+          )}
         </div>
 
         {/* Score card */}
@@ -35,13 +45,25 @@ export function ProgressSummary({ report, onRestart }: ProgressSummaryProps) {
           <div className={`text-6xl font-bold mb-2 ${getScoreColor(report.score)}`}>
             {report.score}%
           </div>
+          <p className="text-xs text-gray-400 mb-3">Retries earn partial credit</p>
           <p className="text-gray-600">
-            {report.correctAnswers} of {report.totalQuestions} questions correct
+            {report.firstTryCorrect} of {report.totalQuestions} questions correct on the first try (
+            {report.firstTryAccuracy}%)
+          </p>
+          <p className="text-sm text-gray-500 mt-1">
+            {report.correctAnswers} correct after retries · {report.meanAttempts} attempts per
+            question on average
           </p>
           <div className="mt-4 pt-4 border-t border-gray-100">
             <p className="text-sm text-gray-500">
               {report.objectivesCompleted} learning objectives completed
             </p>
+            {report.remediation && report.remediation.questions > 0 && (
+              <p className="text-sm text-gray-500 mt-1">
+                {report.remediation.correctFirstTry} of {report.remediation.questions} follow-up
+                questions on missed concepts correct first time (not counted in the score)
+              </p>
+            )}
           </div>
         </div>
 
@@ -70,6 +92,200 @@ export function ProgressSummary({ report, onRestart }: ProgressSummaryProps) {
           </div>
         )}
 
+        {/* Mastery by objective */}
+        {report.mastery && report.mastery.length > 0 && (
+          <div className="bg-white border border-gray-200 rounded-xl p-6 mb-6">
+            <h3 className="font-medium text-gray-800 mb-4">Estimated Mastery</h3>
+            <ul className="space-y-3">
+              {report.mastery.map((objective) => {
+                const percentage = Math.round(objective.probability * 100);
+                return (
+                  <li key={objective.objectiveId}>
+                    <div className="flex justify-between text-sm text-gray-700 mb-1">
+                      <span className="truncate pr-4">{objective.title}</span>
+                      <span className={objective.mastered ? "text-green-600 font-medium" : ""}>
+                        {percentage}%{objective.mastered && " · mastered"}
+                      </span>
+                    </div>
+                    <div
+                      className="h-2 bg-gray-100 rounded-full overflow-hidden"
+                      role="progressbar"
+                      aria-valuenow={percentage}
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                      aria-label={`${objective.title} mastery`}
+                    >
+                      <div
+                        className={`h-full rounded-full ${
+                          objective.mastered ? "bg-green-500" : "bg-primary-500"
+                        }`}
+                        style={{ width: `${percentage}%` }}
+                      />
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        {/* Confidence calibration: accuracy at each rating against what that rating should mean */}
+        {report.calibration && (
+          <div className="bg-white border border-gray-200 rounded-xl p-6 mb-6">
+            <h3 className="font-medium text-gray-800 mb-1">Confidence Calibration</h3>
+            <p className="text-xs text-gray-500 mb-4">
+              Bars show how often you were right; the marker shows how often you should be.
+            </p>
+            <ul className="space-y-3">
+              {report.calibration.buckets
+                .filter((bucket) => bucket.attempts > 0)
+                .map((bucket) => (
+                  <li key={bucket.confidence}>
+                    <div className="flex justify-between text-sm text-gray-700 mb-1">
+                      <span>{CONFIDENCE_LABELS[bucket.confidence]}</span>
+                      <span>
+                        {bucket.accuracy}% right ({bucket.correct} of {bucket.attempts})
+                      </span>
+                    </div>
+                    <div
+                      className="relative h-2 bg-gray-100 rounded-full"
+                      role="progressbar"
+                      aria-valuenow={bucket.accuracy}
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                      aria-label={`Accuracy when rated ${CONFIDENCE_LABELS[bucket.confidence]}`}
+                    >
+                      <div
+                        className={`h-full rounded-full ${
+                          bucket.accuracy < bucket.expectedAccuracy
+                            ? "bg-yellow-500"
+                            : "bg-primary-500"
+                        }`}
+                        style={{ width: `${bucket.accuracy}%` }}
+                      />
+                      <div
+                        className="absolute -top-1 h-4 w-0.5 bg-gray-700"
+                        style={{ left: `${bucket.expectedAccuracy}%` }}
+                        title={`Expected ${bucket.expectedAccuracy}%`}
+                      />
+                    </div>
+                  </li>
+                ))}
+            </ul>
+            {(report.calibration.overconfidentErrors > 0 ||
+              report.calibration.underconfidentCorrect > 0) && (
+              <ul className="mt-4 space-y-1 text-sm">
+                {report.calibration.overconfidentErrors > 0 && (
+                  <li className="text-red-700">
+                    {report.calibration.overconfidentErrors} wrong{" "}
+                    {report.calibration.overconfidentErrors === 1 ? "answer" : "answers"} you were
+                    confident about
+                  </li>
+                )}
+                {report.calibration.underconfidentCorrect > 0 && (
+                  <li className="text-gray-600">
+                    {report.calibration.underconfidentCorrect} right{" "}
+                    {report.calibration.underconfidentCorrect === 1 ? "answer" : "answers"} you
+                    called a guess
+                  </li>
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Time spent per objective against the plan, and the slowest questions */}
+        {report.timing && (
+          <div className="bg-white border border-gray-200 rounded-xl p-6 mb-6">
+            <h3 className="font-medium text-gray-800 mb-1">Time Spent</h3>
+            <p className="text-xs text-gray-500 mb-4">
+              {formatDuration(report.timing.totalSeconds)} answering
+              {report.timing.estimatedSeconds !== null &&
+                ` (planned ${formatDuration(report.timing.estimatedSeconds)})`}{" "}
+              · typical question {formatDuration(report.timing.medianQuestionSeconds)}
+            </p>
+            <ul className="space-y-3">
+              {report.timing.objectives.map((objective) => {
+                const share =
+                  objective.estimatedSeconds !== null && objective.estimatedSeconds > 0
+                    ? Math.round((objective.seconds / objective.estimatedSeconds) * 100)
+                    : null;
+                return (
+                  <li key={objective.objectiveId}>
+                    <div className="flex justify-between text-sm text-gray-700 mb-1">
+                      <span className="truncate pr-4">{objective.title}</span>
+                      <span className={share !== null && share > 100 ? "text-yellow-700" : ""}>
+                        {formatDuration(objective.seconds)}
+                        {objective.estimatedSeconds !== null &&
+                          ` of ${formatDuration(objective.estimatedSeconds)}`}
+                      </span>
+                    </div>
+                    {share !== null && (
+                      <div
+                        className="h-2 bg-gray-100 rounded-full overflow-hidden"
+                        role="progressbar"
+                        aria-valuenow={share}
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-label={`${objective.title} time against the plan`}
+                      >
+                        <div
+                          className={`h-full rounded-full ${
+                            share > 100 ? "bg-yellow-500" : "bg-primary-500"
+                          }`}
+                          style={{ width: `${Math.min(100, share)}%` }}
+                        />
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+            {report.timing.slowQuestions.length > 0 && (
+              <div className="mt-4">
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  Questions that took longest
+                </p>
+                <ul className="space-y-1 text-sm text-gray-600">
+                  {report.timing.slowQuestions.map((question) => (
+                    <li key={question.questionId} className="flex justify-between gap-4">
+                      <span className="truncate">{question.question}</span>
+                      <span className="shrink-0">
+                        {formatDuration(question.seconds)}
+                        {question.attempts > 1 && ` · ${question.attempts} attempts`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Misconceptions */}
+        {report.misconceptions && report.misconceptions.length > 0 && (
+          <div className="bg-red-50 rounded-xl p-6 mb-6">
+            <h3 className="font-medium text-red-800 mb-4">Misconceptions to Work On</h3>
+            <ul className="space-y-2">
+              {report.misconceptions.map((misconception) => (
+                <li key={misconception.label} className="flex items-start gap-2 text-red-700">
+                  <span className="text-red-400 mt-1">•</span>
+                  <span>
+                    {misconception.label}
+                    <span className="text-sm text-red-500">
+                      {" "}
+                      ({misconception.count === 1 ? "once" : `${misconception.count} times`}
+                      {misconception.objectiveTitles.length > 0 &&
+                        `, ${misconception.objectiveTitles.join(", ")}`}
+                      )
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Areas to review */}
         {report.areasToReview && report.areasToReview.length > 0 && (
           <div className="bg-yellow-50 rounded-xl p-6 mb-6">
@@ -95,6 +311,35 @@ export function ProgressSummary({ report, onRestart }: ProgressSummaryProps) {
           </div>
         )}
 
+        {/* Exam answer review */}
+        {report.exam && report.exam.review.length > 0 && (
+          <div className="bg-white border border-gray-200 rounded-xl p-6 mb-6">
+            <h3 className="font-medium text-gray-800 mb-4">Answer Review</h3>
+            <ol className="space-y-4">
+              {report.exam.review.map((item, index) => (
+                <li key={item.questionId} className="border-b border-gray-100 pb-4 last:border-0">
+                  <p className="text-xs text-gray-500 mb-1">
+                    Question {index + 1}
+                    {item.objectiveTitle && ` · ${item.objectiveTitle}`}
+                  </p>
+                  <p className="font-medium text-gray-800">{item.question}</p>
+                  <p
+                    className={`mt-2 text-sm ${item.isCorrect ? "text-green-700" : "text-red-700"}`}
+                  >
+                    {item.isCorrect ? "✓" : "✗"} Your answer: {item.yourAnswer ?? "No answer"}
+                  </p>
+                  {!item.isCorrect && (
+                    <p className="text-sm text-gray-700">
+                      Correct answer: {item.correctAnswers.join(", ")}
+                    </p>
+                  )}
+                  <p className="mt-1 text-sm text-gray-500">{item.explanation}</p>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
         {/* Restart button */}
         <button
           onClick={onRestart}
@@ -0,0 +1,159 @@
+"use client";
+
+import { UI_CONFIG } from "@/config/constants";
+import type { SessionSettings } from "@/lib/types";
+
+interface SessionSettingsFormProps {
+  settings: SessionSettings;
+  onChange: (settings: Partial<SessionSettings>) => void;
+  disabled?: boolean;
+}
+
+const DIFFICULTY_OPTIONS: { value: SessionSettings["targetDifficulty"]; label: string }[] = [
+  { value: "mixed", label: "Mixed" },
+  { value: "easy", label: "Easy" },
+  { value: "medium", label: "Medium" },
+  { value: "hard", label: "Hard" },
+];
+
+const selectClassName =
+  "mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm text-gray-700 bg-white";
+
+/**
+ * Session settings chosen before the plan is created: objective count,
+ * questions per objective, target difficulty, time budget and practice or exam mode
+ */
+export function SessionSettingsForm({ settings, onChange, disabled }: SessionSettingsFormProps) {
+  return (
+    <fieldset
+      disabled={disabled}
+      className="grid grid-cols-2 gap-3 rounded-lg border border-gray-200 bg-white p-4"
+    >
+      <legend className="px-1 text-sm font-semibold text-gray-700">Session settings</legend>
+
+      <label className="text-xs font-medium text-gray-600">
+        Objectives
+        <select
+          value={settings.objectiveCount ?? ""}
+          onChange={(e) =>
+            onChange({ objectiveCount: e.target.value ? Number(e.target.value) : null })
+          }
+          className={selectClassName}
+        >
+          <option value="">Let the planner decide</option>
+          {UI_CONFIG.LEARNING.OBJECTIVE_COUNTS.map((count) => (
+            <option key={count} value={count}>
+              {count}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="text-xs font-medium text-gray-600">
+        Questions per objective
+        <select
+          value={settings.questionsPerObjective}
+          onChange={(e) => onChange({ questionsPerObjective: Number(e.target.value) })}
+          className={selectClassName}
+        >
+          {UI_CONFIG.LEARNING.QUESTIONS_PER_OBJECTIVE.map((count) => (
+            <option key={count} value={count}>
+              {count}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="text-xs font-medium text-gray-600">
+        Difficulty
+        <select
+          value={settings.targetDifficulty}
+          onChange={(e) =>
+            onChange({
+              targetDifficulty: e.target.value as SessionSettings["targetDifficulty"],
+            })
+          }
+          className={selectClassName}
+        >
+          {DIFFICULTY_OPTIONS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="text-xs font-medium text-gray-600">
+        Time budget
+        <select
+          value={settings.timeBudgetMinutes ?? ""}
+          onChange={(e) =>
+            onChange({ timeBudgetMinutes: e.target.value ? Number(e.target.value) : null })
+          }
+          className={selectClassName}
+        >
+          <option value="">No limit</option>
+          {UI_CONFIG.LEARNING.TIME_BUDGETS_MINUTES.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {minutes} minutes
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="text-xs font-medium text-gray-600">
+        Mode
+        <select
+          value={settings.mode}
+          onChange={(e) => onChange({ mode: e.target.value as SessionSettings["mode"] })}
+          className={selectClassName}
+        >
+          <option value="practice">Practice (hints and retries)</option>
+          <option value="exam">Exam (one attempt, no hints)</option>
+        </select>
+      </label>
+
+      {settings.mode === "exam" && (
+        <>
+          <label className="text-xs font-medium text-gray-600">
+            Time per question
+            <select
+              value={settings.questionTimeLimitSeconds ?? ""}
+              onChange={(e) =>
+                onChange({
+                  questionTimeLimitSeconds: e.target.value ? Number(e.target.value) : null,
+                })
+              }
+              className={selectClassName}
+            >
+              <option value="">No limit</option>
+              {UI_CONFIG.LEARNING.QUESTION_TIME_LIMITS_SECONDS.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {seconds} seconds
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="text-xs font-medium text-gray-600">
+            Exam time limit
+            <select
+              value={settings.examTimeLimitMinutes ?? ""}
+              onChange={(e) =>
+                onChange({ examTimeLimitMinutes: e.target.value ? Number(e.target.value) : null })
+              }
+              className={selectClassName}
+            >
+              <option value="">No limit</option>
+              {UI_CONFIG.LEARNING.EXAM_TIME_LIMITS_MINUTES.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes} minutes
+                </option>
+              ))}
+            </select>
+          </label>
+        </>
+      )}
+    </fieldset>
+  );
+}
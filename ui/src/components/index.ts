@@ -1,6 +1,7 @@
 export { MainLayout } from "./MainLayout";
 export { PDFUpload } from "./PDFUpload";
 export { PlanApproval } from "./PlanApproval";
+export { DocumentOutline } from "./DocumentOutline";
 export { MCQPanel } from "./MCQPanel";
 export { ProgressSummary } from "./ProgressSummary";
 export { LoadingState } from "./LoadingState";
@@ -0,0 +1,33 @@
+"use client";
+
+import { classNames } from "@/lib/utils";
+import type { QuestionInputProps } from "./types";
+
+/**
+ * Fill in the blank: free-text answer, graded leniently by the backend
+ */
+export function FillBlankQuestion({
+  value,
+  onChange,
+  disabled,
+  answerFeedback,
+}: QuestionInputProps) {
+  const text = typeof value === "string" ? value : "";
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      placeholder="Type your answer"
+      aria-label="Your answer"
+      className={classNames(
+        "w-full px-4 py-3 rounded-lg border-2 text-gray-700 focus:outline-none",
+        !answerFeedback && "border-gray-300 focus:border-primary-500",
+        answerFeedback?.isCorrect && "border-green-500 bg-green-50",
+        answerFeedback && !answerFeedback.isCorrect && "border-red-500 bg-red-50"
+      )}
+    />
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { OptionList } from "./OptionList";
+import type { QuestionInputProps } from "./types";
+
+/**
+ * Select all that apply: toggle any number of options
+ */
+export function MultiSelectQuestion({
+  question,
+  value,
+  onChange,
+  disabled,
+  answerFeedback,
+}: QuestionInputProps) {
+  const selected = Array.isArray(value) ? value : [];
+
+  const handleToggle = (index: number) => {
+    const next = selected.includes(index)
+      ? selected.filter((idx) => idx !== index)
+      : [...selected, index].sort((a, b) => a - b);
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-gray-500 mb-3">Select all options that apply.</p>
+      <OptionList
+        options={question.options}
+        selected={selected}
+        onToggle={handleToggle}
+        disabled={disabled}
+        mode="checkbox"
+        graded={answerFeedback ?? undefined}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { classNames } from "@/lib/utils";
+
+interface OptionListProps {
+  options: string[];
+  selected: number[];
+  onToggle: (index: number) => void;
+  disabled: boolean;
+  /** "radio" for one answer, "checkbox" for select-all-that-apply */
+  mode: "radio" | "checkbox";
+  /** Set once the answer has been graded */
+  graded?: { isCorrect: boolean };
+}
+
+/**
+ * Clickable list of answer options with correct/incorrect highlighting
+ */
+export function OptionList({
+  options,
+  selected,
+  onToggle,
+  disabled,
+  mode,
+  graded,
+}: OptionListProps) {
+  const getOptionClass = (index: number) => {
+    const base = "mcq-option flex items-center gap-3 w-full";
+    const isSelected = selected.includes(index);
+
+    // Only show the learner's own choices as correct (green) or incorrect (red)
+    if (graded) {
+      if (isSelected) {
+        return classNames(base, graded.isCorrect ? "correct" : "incorrect");
+      }
+      return base;
+    }
+
+    return classNames(base, isSelected && "selected");
+  };
+
+  const getIndicatorClass = (index: number) => {
+    const shape = mode === "radio" ? "rounded-full" : "rounded-md";
+    const base = `w-6 h-6 ${shape} border-2 flex items-center justify-center flex-shrink-0`;
+    const isSelected = selected.includes(index);
+
+    if (graded) {
+      if (isSelected) {
+        return graded.isCorrect
+          ? `${base} border-green-500 bg-green-500`
+          : `${base} border-red-500 bg-red-500`;
+      }
+      return `${base} border-gray-300`;
+    }
+
+    return isSelected ? `${base} border-primary-500 bg-primary-500` : `${base} border-gray-300`;
+  };
+
+  return (
+    <div className="space-y-3" role={mode === "radio" ? "radiogroup" : "group"}>
+      {options.map((option, index) => (
+        <button
+          key={index}
+          type="button"
+          role={mode}
+          aria-checked={selected.includes(index)}
+          onClick={() => onToggle(index)}
+          disabled={disabled}
+          className={getOptionClass(index)}
+        >
+          <div className={getIndicatorClass(index)}>
+            {selected.includes(index) &&
+              (mode === "radio" ? (
+                <div className="w-2 h-2 rounded-full bg-white" />
+              ) : (
+                <span className="text-white text-xs font-bold">✓</span>
+              ))}
+          </div>
+          <span className="text-gray-700">{option}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
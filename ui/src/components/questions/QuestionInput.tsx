@@ -0,0 +1,24 @@
+"use client";
+
+import { SingleChoiceQuestion } from "./SingleChoiceQuestion";
+import { TrueFalseQuestion } from "./TrueFalseQuestion";
+import { MultiSelectQuestion } from "./MultiSelectQuestion";
+import { FillBlankQuestion } from "./FillBlankQuestion";
+import type { QuestionInputProps } from "./types";
+
+/**
+ * Render the answer input that matches the question type
+ */
+export function QuestionInput(props: QuestionInputProps) {
+  switch (props.question.type) {
+    case "true_false":
+      return <TrueFalseQuestion {...props} />;
+    case "multi_select":
+      return <MultiSelectQuestion {...props} />;
+    case "fill_blank":
+      return <FillBlankQuestion {...props} />;
+    case "single_choice":
+    default:
+      return <SingleChoiceQuestion {...props} />;
+  }
+}
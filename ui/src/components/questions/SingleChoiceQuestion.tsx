@@ -0,0 +1,26 @@
+"use client";
+
+import { OptionList } from "./OptionList";
+import type { QuestionInputProps } from "./types";
+
+/**
+ * Classic multiple choice: pick exactly one option
+ */
+export function SingleChoiceQuestion({
+  question,
+  value,
+  onChange,
+  disabled,
+  answerFeedback,
+}: QuestionInputProps) {
+  return (
+    <OptionList
+      options={question.options}
+      selected={typeof value === "number" ? [value] : []}
+      onToggle={onChange}
+      disabled={disabled}
+      mode="radio"
+      graded={answerFeedback ?? undefined}
+    />
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import type { DocumentSpan, SourceRef } from "@/lib/types";
+import { formatSourcePages, formatPageLabel } from "@/lib/questions";
+
+interface SourceRefListProps {
+  refs: SourceRef[];
+  /** Show the quoted excerpts (only once the answer is no longer a secret) */
+  showExcerpts: boolean;
+  /** Source documents, when the session has several */
+  documents?: DocumentSpan[];
+  className?: string;
+}
+
+/**
+ * "See page N" citation with the supporting excerpts from the document
+ */
+export function SourceRefList({ refs, showExcerpts, documents, className }: SourceRefListProps) {
+  if (refs.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <p className="text-sm font-medium text-gray-700">📄 {formatSourcePages(refs, documents)}</p>
+      {showExcerpts && (
+        <ul className="mt-2 space-y-2">
+          {refs
+            .filter((ref) => ref.quote)
+            .map((ref, index) => (
+              <li key={index}>
+                <blockquote className="border-l-4 border-gray-300 pl-3 text-sm italic text-gray-600">
+                  &ldquo;{ref.quote}&rdquo;
+                  <span className="not-italic text-gray-400">
+                    {" "}
+                    ({formatPageLabel(ref.page, documents)})
+                  </span>
+                </blockquote>
+              </li>
+            ))}
+        </ul>
+      )}
+    </div>
+  );
+}
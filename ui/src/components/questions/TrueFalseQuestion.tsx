@@ -0,0 +1,29 @@
+"use client";
+
+import { OptionList } from "./OptionList";
+import type { QuestionInputProps } from "./types";
+
+const TRUE_FALSE_OPTIONS = ["True", "False"];
+
+/**
+ * True/false statement: "True" maps to index 0, "False" to index 1
+ */
+export function TrueFalseQuestion({
+  value,
+  onChange,
+  disabled,
+  answerFeedback,
+}: QuestionInputProps) {
+  const selected = typeof value === "boolean" ? [value ? 0 : 1] : [];
+
+  return (
+    <OptionList
+      options={TRUE_FALSE_OPTIONS}
+      selected={selected}
+      onToggle={(index) => onChange(index === 0)}
+      disabled={disabled}
+      mode="radio"
+      graded={answerFeedback ?? undefined}
+    />
+  );
+}
@@ -0,0 +1,11 @@
+/**
+ * Export all question input components from a single location
+ */
+
+export { QuestionInput } from "./QuestionInput";
+export { SingleChoiceQuestion } from "./SingleChoiceQuestion";
+export { TrueFalseQuestion } from "./TrueFalseQuestion";
+export { MultiSelectQuestion } from "./MultiSelectQuestion";
+export { FillBlankQuestion } from "./FillBlankQuestion";
+export { SourceRefList } from "./SourceRefList";
+export type { QuestionInputProps } from "./types";
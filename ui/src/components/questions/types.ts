@@ -0,0 +1,12 @@
+import type { MCQ, QuestionAnswer, AnswerFeedback } from "@/lib/types";
+
+/**
+ * Props shared by every question input component
+ */
+export interface QuestionInputProps {
+  question: MCQ;
+  value: QuestionAnswer | null;
+  onChange: (answer: QuestionAnswer) => void;
+  disabled: boolean;
+  answerFeedback: AnswerFeedback | null;
+}
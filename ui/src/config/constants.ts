@@ -15,8 +15,30 @@ export const UI_CONFIG = {
   FILE: {
     MAX_SIZE_MB: 10,
     MAX_SIZE_BYTES: 10 * 1024 * 1024,
-    ALLOWED_TYPES: ["application/pdf"],
-    ALLOWED_EXTENSIONS: [".pdf"],
+    // Keep in sync with the extractors registered in the agent's ExtractorRegistry
+    ALLOWED_TYPES: [
+      "application/pdf",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "application/epub+zip",
+      "text/html",
+      "application/xhtml+xml",
+      "text/markdown",
+      "text/x-markdown",
+      "text/plain",
+    ],
+    ALLOWED_EXTENSIONS: [
+      ".pdf",
+      ".docx",
+      ".epub",
+      ".html",
+      ".htm",
+      ".xhtml",
+      ".md",
+      ".markdown",
+      ".mdown",
+      ".txt",
+      ".text",
+    ],
   },
 
   // UI Behavior
@@ -32,6 +54,13 @@ export const UI_CONFIG = {
   LEARNING: {
     MIN_OBJECTIVES: 3,
     MAX_OBJECTIVES: 5,
+    MAX_EDITED_OBJECTIVES: 10, // Keep in sync with the agent's CONFIG.LEARNING
+    // Choices offered for the session settings (the agent validates the same ranges)
+    OBJECTIVE_COUNTS: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+    QUESTIONS_PER_OBJECTIVE: [2, 3, 4, 5],
+    TIME_BUDGETS_MINUTES: [15, 30, 45, 60, 90],
+    QUESTION_TIME_LIMITS_SECONDS: [30, 60, 90, 120],
+    EXAM_TIME_LIMITS_MINUTES: [10, 20, 30, 45, 60],
     MCQS_PER_OBJECTIVE: 3,
     MIN_PASSING_SCORE: 70, // percentage
     HINT_UNLOCK_AFTER_ATTEMPTS: 2,
@@ -52,6 +81,8 @@ export const UI_CONFIG = {
     THEME: "memorang_theme",
     SESSION_ID: "memorang_session",
     PREFERENCES: "memorang_preferences",
+    LEARNER_ID: "memorang_learner",
+    AUTH_TOKEN: "memorang_auth",
   },
 
   // Validation
@@ -36,6 +36,21 @@ describe("LearningContext", () => {
       expect(result.current.state.pdfPath).toBe("/path/to/pdf");
     });
 
+    it("should append uploaded documents", () => {
+      const { result } = renderHook(() => useLearningContext(), { wrapper });
+
+      act(() => {
+        result.current.actions.addDocuments([{ id: "doc-1", name: "notes.pdf", extractor: "pdf" }]);
+      });
+      act(() => {
+        result.current.actions.addDocuments([
+          { id: "doc-2", name: "syllabus.md", extractor: "markdown" },
+        ]);
+      });
+
+      expect(result.current.state.documents.map((d) => d.id)).toEqual(["doc-1", "doc-2"]);
+    });
+
     it("should set phase", () => {
       const { result } = renderHook(() => useLearningContext(), { wrapper });
 
@@ -78,6 +93,65 @@ describe("LearningContext", () => {
       expect(result.current.state.error).toBeNull();
     });
 
+    it("should set document outline", () => {
+      const { result } = renderHook(() => useLearningContext(), { wrapper });
+      const outline = {
+        title: "Cell Biology",
+        pageCount: 3,
+        wordCount: 420,
+        sections: [
+          { id: "sec-1", title: "1 Cells", level: 1, startPage: 1, endPage: 3, wordCount: 420 },
+        ],
+        toc: [{ sectionId: "sec-1", title: "1 Cells", level: 1, page: 1 }],
+      };
+
+      act(() => {
+        result.current.actions.setOutline(outline);
+      });
+
+      expect(result.current.state.outline).toEqual(outline);
+    });
+
+    it("should set document warnings", () => {
+      const { result } = renderHook(() => useLearningContext(), { wrapper });
+      const warnings = [
+        "This document looks scanned, so its text was read with OCR (92% confidence).",
+      ];
+
+      act(() => {
+        result.current.actions.setWarnings(warnings);
+      });
+
+      expect(result.current.state.warnings).toEqual(warnings);
+    });
+
+    it("should merge session settings updates", () => {
+      const { result } = renderHook(() => useLearningContext(), { wrapper });
+
+      act(() => {
+        result.current.actions.updateSettings({ questionsPerObjective: 5 });
+      });
+      act(() => {
+        result.current.actions.updateSettings({ targetDifficulty: "hard" });
+      });
+
+      expect(result.current.state.settings).toMatchObject({
+        questionsPerObjective: 5,
+        targetDifficulty: "hard",
+        objectiveCount: null,
+      });
+    });
+
+    it("should set the number of plan revisions left", () => {
+      const { result } = renderHook(() => useLearningContext(), { wrapper });
+
+      act(() => {
+        result.current.actions.setPlanRevisionsLeft(2);
+      });
+
+      expect(result.current.state.planRevisionsLeft).toBe(2);
+    });
+
     it("should set objectives with optional summary and time", () => {
       const { result } = renderHook(() => useLearningContext(), { wrapper });
 
@@ -86,7 +160,7 @@ describe("LearningContext", () => {
           id: "obj-1",
           title: "Learn React",
           description: "Basics",
-          difficulty: "beginner" as const,
+          difficulty: "easy" as const,
         },
       ];
 
@@ -105,11 +179,11 @@ describe("LearningContext", () => {
       const mcq = {
         id: "q1",
         objectiveId: "obj-1",
+        type: "single_choice" as const,
         question: "What is React?",
         options: ["A", "B", "C", "D"],
-        correctAnswer: 0,
         hint: "Think about UI",
-        explanation: "React is a UI library",
+        sourceRefs: [{ page: 1, quote: "React is a library for building user interfaces" }],
       };
 
       act(() => {
@@ -127,7 +201,10 @@ describe("LearningContext", () => {
       const report = {
         totalQuestions: 10,
         correctAnswers: 8,
-        score: 80,
+        score: 70,
+        firstTryCorrect: 6,
+        firstTryAccuracy: 60,
+        meanAttempts: 1.3,
         objectivesCompleted: 3,
         studyTips: ["Keep practicing"],
         areasToReview: ["Advanced topics"],
@@ -1,21 +1,39 @@
 "use client";
 
 import { createContext, useContext, useReducer, useCallback, type ReactNode } from "react";
-import type { Phase, LearningObjective, MCQ, ProgressReport, AnswerFeedback } from "@/lib/types";
+import type {
+  Phase,
+  LearningObjective,
+  MCQ,
+  ProgressReport,
+  AnswerFeedback,
+  DocumentOutline,
+  UploadedDocument,
+  SessionSettings,
+} from "@/lib/types";
+import { UI_CONFIG } from "@/config/constants";
 
 // State interface
 export interface LearningSessionState {
   // Session
   threadId: string | null;
   pdfPath: string | null;
+  /** Files uploaded so far; more can be added until the workflow starts */
+  documents: UploadedDocument[];
+  /** Counts, difficulty and time budget sent when the plan is created */
+  settings: SessionSettings;
   phase: Phase;
   isLoading: boolean;
   error: string | null;
 
   // Learning content
+  outline: DocumentOutline | null;
+  warnings: string[];
   objectives: LearningObjective[];
   planSummary: string;
   estimatedTime: string;
+  /** How many more times the plan can be regenerated with feedback */
+  planRevisionsLeft: number;
   currentMcq: MCQ | null;
   mcqIndex: number;
   totalMcqs: number;
@@ -30,15 +48,20 @@ export interface LearningSessionState {
 // Action types
 type LearningAction =
   | { type: "SET_THREAD"; threadId: string; pdfPath: string }
+  | { type: "ADD_DOCUMENTS"; documents: UploadedDocument[] }
+  | { type: "UPDATE_SETTINGS"; settings: Partial<SessionSettings> }
   | { type: "SET_PHASE"; phase: Phase }
   | { type: "SET_LOADING"; isLoading: boolean }
   | { type: "SET_ERROR"; error: string | null }
+  | { type: "SET_OUTLINE"; outline: DocumentOutline | null }
+  | { type: "SET_WARNINGS"; warnings: string[] }
   | {
       type: "SET_OBJECTIVES";
       objectives: LearningObjective[];
       summary?: string;
       estimatedTime?: string;
     }
+  | { type: "SET_PLAN_REVISIONS_LEFT"; revisionsLeft: number }
   | { type: "SET_MCQ"; mcq: MCQ | null; index?: number; total?: number }
   | { type: "SET_PROGRESS_REPORT"; report: ProgressReport }
   | { type: "INCREMENT_ATTEMPT"; questionId: string }
@@ -49,12 +72,25 @@ type LearningAction =
 const initialState: LearningSessionState = {
   threadId: null,
   pdfPath: null,
+  documents: [],
+  settings: {
+    objectiveCount: null,
+    questionsPerObjective: UI_CONFIG.LEARNING.MCQS_PER_OBJECTIVE,
+    targetDifficulty: "mixed",
+    timeBudgetMinutes: null,
+    mode: "practice",
+    questionTimeLimitSeconds: null,
+    examTimeLimitMinutes: null,
+  },
   phase: "upload",
   isLoading: false,
   error: null,
+  outline: null,
+  warnings: [],
   objectives: [],
   planSummary: "",
   estimatedTime: "",
+  planRevisionsLeft: 0,
   currentMcq: null,
   mcqIndex: 0,
   totalMcqs: 0,
@@ -72,12 +108,20 @@ function learningReducer(
   switch (action.type) {
     case "SET_THREAD":
       return { ...state, threadId: action.threadId, pdfPath: action.pdfPath };
+    case "ADD_DOCUMENTS":
+      return { ...state, documents: [...state.documents, ...action.documents] };
+    case "UPDATE_SETTINGS":
+      return { ...state, settings: { ...state.settings, ...action.settings } };
     case "SET_PHASE":
       return { ...state, phase: action.phase };
     case "SET_LOADING":
       return { ...state, isLoading: action.isLoading };
     case "SET_ERROR":
       return { ...state, error: action.error };
+    case "SET_OUTLINE":
+      return { ...state, outline: action.outline };
+    case "SET_WARNINGS":
+      return { ...state, warnings: action.warnings };
     case "SET_OBJECTIVES":
       return {
         ...state,
@@ -85,6 +129,8 @@ function learningReducer(
         planSummary: action.summary ?? state.planSummary,
         estimatedTime: action.estimatedTime ?? state.estimatedTime,
       };
+    case "SET_PLAN_REVISIONS_LEFT":
+      return { ...state, planRevisionsLeft: action.revisionsLeft };
     case "SET_MCQ":
       return {
         ...state,
@@ -117,14 +163,19 @@ interface LearningContextValue {
   dispatch: React.Dispatch<LearningAction>;
   actions: {
     setThread: (threadId: string, pdfPath: string) => void;
+    addDocuments: (documents: UploadedDocument[]) => void;
+    updateSettings: (settings: Partial<SessionSettings>) => void;
     setPhase: (phase: Phase) => void;
     setLoading: (isLoading: boolean) => void;
     setError: (error: string | null) => void;
+    setOutline: (outline: DocumentOutline | null) => void;
+    setWarnings: (warnings: string[]) => void;
     setObjectives: (
       objectives: LearningObjective[],
       summary?: string,
       estimatedTime?: string
     ) => void;
+    setPlanRevisionsLeft: (revisionsLeft: number) => void;
     setMcq: (mcq: MCQ | null, index?: number, total?: number) => void;
     setProgressReport: (report: ProgressReport) => void;
     incrementAttempt: (questionId: string) => void;
@@ -145,6 +196,12 @@ export function LearningProvider({ children }: { children: ReactNode }) {
     setThread: useCallback((threadId: string, pdfPath: string) => {
       dispatch({ type: "SET_THREAD", threadId, pdfPath });
     }, []),
+    addDocuments: useCallback((documents: UploadedDocument[]) => {
+      dispatch({ type: "ADD_DOCUMENTS", documents });
+    }, []),
+    updateSettings: useCallback((settings: Partial<SessionSettings>) => {
+      dispatch({ type: "UPDATE_SETTINGS", settings });
+    }, []),
     setPhase: useCallback((phase: Phase) => {
       dispatch({ type: "SET_PHASE", phase });
     }, []),
@@ -154,12 +211,21 @@ export function LearningProvider({ children }: { children: ReactNode }) {
     setError: useCallback((error: string | null) => {
       dispatch({ type: "SET_ERROR", error });
     }, []),
+    setOutline: useCallback((outline: DocumentOutline | null) => {
+      dispatch({ type: "SET_OUTLINE", outline });
+    }, []),
+    setWarnings: useCallback((warnings: string[]) => {
+      dispatch({ type: "SET_WARNINGS", warnings });
+    }, []),
     setObjectives: useCallback(
       (objectives: LearningObjective[], summary?: string, estimatedTime?: string) => {
         dispatch({ type: "SET_OBJECTIVES", objectives, summary, estimatedTime });
       },
       []
     ),
+    setPlanRevisionsLeft: useCallback((revisionsLeft: number) => {
+      dispatch({ type: "SET_PLAN_REVISIONS_LEFT", revisionsLeft });
+    }, []),
     setMcq: useCallback((mcq: MCQ | null, index?: number, total?: number) => {
       dispatch({ type: "SET_MCQ", mcq, index, total });
     }, []),
@@ -1,3 +1,4 @@
 export { useLearningWorkflow } from "./useLearningWorkflow";
 export { useCopilotSetup } from "./useCopilotSetup";
 export { useStudyBuddy } from "./useStudyBuddy";
+export { useDueReviews } from "./useDueReviews";
@@ -3,6 +3,7 @@
 import { useCopilotReadable, useCopilotAction } from "@copilotkit/react-core";
 import { useLearningContext } from "@/contexts";
 import { LEARNING_ASSISTANT_PROMPT } from "@/app/api/copilotkit/systemPrompt";
+import { describeAnswer } from "@/lib/questions";
 
 /**
  * Sets up CopilotKit readables and actions for the learning assistant.
@@ -44,28 +45,31 @@ export function useCopilotSetup() {
 
   // Enhanced MCQ context for smarter assistance
   // IMPORTANT: We intentionally do NOT share correctAnswer to prevent the AI from revealing it
+  // Exam questions are not shared at all, so the assistant cannot help with them
   useCopilotReadable({
     description: "Current MCQ context (answer hidden for educational integrity)",
-    value: currentMcq
-      ? {
-          question: currentMcq.question,
-          options: currentMcq.options,
-          hasHint: Boolean(currentMcq.hint),
-          currentObjective: objectives.find((o) => o.id === currentMcq.objectiveId),
-          attemptCount: userAttempts[currentMcq.id] || 0,
-          questionNumber: mcqIndex + 1,
-          totalQuestions: totalMcqs,
-          // User's answer state (if they've answered)
-          userAnswer: answerFeedback
-            ? {
-                selectedOption: answerFeedback.selectedAnswer,
-                selectedText: currentMcq.options[answerFeedback.selectedAnswer],
-                wasCorrect: answerFeedback.isCorrect,
-              }
-            : null,
-          // correctAnswer: INTENTIONALLY OMITTED - AI should not know the answer
-        }
-      : null,
+    value:
+      currentMcq && !currentMcq.exam
+        ? {
+            question: currentMcq.question,
+            questionType: currentMcq.type,
+            options: currentMcq.options,
+            hasHint: Boolean(currentMcq.hint),
+            currentObjective: objectives.find((o) => o.id === currentMcq.objectiveId),
+            attemptCount: userAttempts[currentMcq.id] || 0,
+            questionNumber: mcqIndex + 1,
+            totalQuestions: totalMcqs,
+            // User's answer state (if they've answered)
+            userAnswer: answerFeedback
+              ? {
+                  selectedOption: answerFeedback.selectedAnswer,
+                  selectedText: describeAnswer(currentMcq, answerFeedback.selectedAnswer),
+                  wasCorrect: answerFeedback.isCorrect,
+                }
+              : null,
+            // correctAnswer: INTENTIONALLY OMITTED - AI should not know the answer
+          }
+        : null,
   });
 
   // Learning objectives context
@@ -90,6 +94,10 @@ export function useCopilotSetup() {
       ? {
           score: progressReport.score,
           correctAnswers: progressReport.correctAnswers,
+          firstTryAccuracy: progressReport.firstTryAccuracy,
+          meanAttempts: progressReport.meanAttempts,
+          calibration: progressReport.calibration,
+          timing: progressReport.timing,
           totalQuestions: progressReport.totalQuestions,
           areasToReview: progressReport.areasToReview,
           currentStreak: 0,
@@ -111,6 +119,7 @@ export function useCopilotSetup() {
     ],
     handler: async ({ level }) => {
       if (!currentMcq) return "No question is currently active.";
+      if (currentMcq.exam) return "Hints are not available during an exam.";
 
       const attempts = userAttempts[currentMcq.id] || 0;
       const hintLevel = level || Math.min(attempts + 1, 3);
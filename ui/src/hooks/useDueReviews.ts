@@ -0,0 +1,31 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getDueReviews } from "@/lib/api";
+
+/**
+ * Hook for the number of questions due for spaced review.
+ * Loaded once on the upload screen; failures just hide the review prompt.
+ */
+export function useDueReviews(enabled: boolean) {
+  const [dueCount, setDueCount] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    getDueReviews()
+      .then((result) => {
+        if (!cancelled) setDueCount(result.dueCount);
+      })
+      .catch(() => {
+        if (!cancelled) setDueCount(0);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return { dueCount };
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { LearningProvider, useLearningContext } from "@/contexts";
+import { submitAnswer } from "@/lib/api";
+import { useLearningWorkflow } from "./useLearningWorkflow";
+
+vi.mock("@/lib/api", () => ({
+  uploadDocuments: vi.fn(),
+  invokeWorkflow: vi.fn(),
+  submitAnswer: vi.fn(),
+  skipQuestion: vi.fn(),
+  startReview: vi.fn(),
+}));
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <LearningProvider>{children}</LearningProvider>
+);
+
+const mcq = {
+  id: "q3",
+  objectiveId: "obj-1",
+  type: "single_choice" as const,
+  question: "Which organelle releases energy?",
+  options: ["Nucleus", "Ribosome", "Mitochondria", "Golgi body"],
+  hint: "Think about respiration.",
+  sourceRefs: [{ page: 3 }],
+};
+
+const report = {
+  totalQuestions: 3,
+  correctAnswers: 3,
+  score: 100,
+  firstTryCorrect: 3,
+  firstTryAccuracy: 100,
+  meanAttempts: 1,
+  objectivesCompleted: 1,
+  studyTips: ["Keep practicing"],
+  areasToReview: [],
+};
+
+const renderWorkflow = () =>
+  renderHook(() => ({ workflow: useLearningWorkflow(), context: useLearningContext() }), {
+    wrapper,
+  });
+
+describe("useLearningWorkflow", () => {
+  beforeEach(() => {
+    vi.mocked(submitAnswer).mockReset();
+  });
+
+  it("should show the grading of the last question before the summary", async () => {
+    vi.mocked(submitAnswer).mockResolvedValue({
+      state: { currentPhase: "summary", sessionComplete: true, progressReport: report },
+      interrupted: false,
+      feedback: {
+        questionId: "q3",
+        isCorrect: true,
+        attempts: 1,
+        correctAnswer: 2,
+        explanation: "Mitochondria run cellular respiration.",
+        sourceRefs: [{ page: 3, quote: "Mitochondria release energy from glucose." }],
+      },
+    });
+    const { result } = renderWorkflow();
+
+    act(() => {
+      result.current.context.actions.setThread("thread-1", "/uploads/doc.pdf");
+      result.current.context.actions.setMcq(mcq, 2, 3);
+      result.current.context.actions.setPhase("quiz");
+    });
+    await act(async () => {
+      await result.current.workflow.handleAnswer(2);
+    });
+
+    expect(result.current.context.state.phase).toBe("quiz");
+    expect(result.current.context.state.currentMcq?.id).toBe("q3");
+    expect(result.current.context.state.answerFeedback).toMatchObject({
+      isCorrect: true,
+      selectedAnswer: 2,
+      explanation: "Mitochondria run cellular respiration.",
+      sourceRefs: [{ page: 3, quote: "Mitochondria release energy from glucose." }],
+    });
+
+    act(() => {
+      result.current.workflow.handleContinue();
+    });
+
+    expect(result.current.context.state.phase).toBe("summary");
+    expect(result.current.context.state.progressReport).toEqual(report);
+    expect(result.current.context.state.answerFeedback).toBeNull();
+  });
+});
@@ -2,35 +2,68 @@
 
 import { useCallback, useRef } from "react";
 import { useLearningContext } from "@/contexts";
-import { uploadPdf, invokeWorkflow, submitAnswer } from "@/lib/api";
-import type { Phase, LearningObjective, MCQ, ProgressReport, InterruptData } from "@/lib/types";
+import {
+  uploadDocuments,
+  invokeWorkflow,
+  submitAnswer,
+  skipQuestion,
+  startReview,
+} from "@/lib/api";
+import { fromStateQuestion } from "@/lib/questions";
+import type {
+  Phase,
+  LearningObjective,
+  MCQ,
+  ProgressReport,
+  InterruptData,
+  QuestionAnswer,
+  GradedAnswer,
+  Confidence,
+  ParsedDocument,
+  PlanEditObjective,
+} from "@/lib/types";
 
 interface WorkflowResponse {
   state: Record<string, unknown>;
   interrupted: boolean;
   interruptData?: unknown;
+  feedback?: GradedAnswer;
 }
 
 export function useLearningWorkflow() {
   const { state, actions } = useLearningContext();
 
-  // Store current MCQ data for answer validation
+  // The interrupt behind the current question (remediation and skip state)
   const currentMcqDataRef = useRef<InterruptData | null>(null);
 
   // Store pending next question to apply when Continue is clicked
   const pendingNextMcqRef = useRef<{ mcq: MCQ; index: number; total: number } | null>(null);
 
+  // The report after the last question, shown once its feedback has been read
+  const pendingReportRef = useRef<ProgressReport | null>(null);
+
   // Process workflow response from backend
   // selectedAnswer param is passed directly from handleAnswer to avoid stale state closure
   const processResponse = useCallback(
-    (response: WorkflowResponse, selectedAnswer?: number) => {
-      const { state: responseState, interrupted, interruptData } = response;
+    (response: WorkflowResponse, selectedAnswer?: QuestionAnswer) => {
+      const { state: responseState, interrupted, interruptData, feedback } = response;
 
       // Track if we stored a pending next MCQ (to skip responseState.mcqs update)
       let storedPendingNextMcq = false;
+      // Exam questions are shown as sent, without the answers the state carries
+      let showingExamQuestion = false;
+
+      // Only grading of the question on screen counts (not a skip or a stale response)
+      const graded =
+        selectedAnswer !== undefined && feedback?.questionId === state.currentMcq?.id
+          ? feedback
+          : undefined;
+      // Grading with no question to follow (the last one): keep the question and its
+      // feedback on screen until Continue, then show the summary
+      const gradedLast = graded !== undefined && !(interrupted && interruptData);
 
       // Update phase
-      if (responseState.currentPhase) {
+      if (responseState.currentPhase && !gradedLast) {
         actions.setPhase(responseState.currentPhase as Phase);
       }
 
@@ -40,6 +73,17 @@ export function useLearningWorkflow() {
         return;
       }
 
+      // Keep the document outline (without page text) for display
+      if (responseState.parsedDocument) {
+        const { pages: _pages, ...outline } = responseState.parsedDocument as ParsedDocument;
+        actions.setOutline(outline);
+      }
+
+      // Non-fatal document problems, e.g. a scanned PDF read with OCR
+      if (Array.isArray(responseState.warnings)) {
+        actions.setWarnings(responseState.warnings as string[]);
+      }
+
       // Handle interrupts
       if (interrupted && interruptData) {
         const data = interruptData as InterruptData;
@@ -51,45 +95,43 @@ export function useLearningWorkflow() {
             data.plan.estimatedTime || ""
           );
           actions.setPhase("approval");
+        } else if (data.type === "plan_approval") {
+          actions.setPlanRevisionsLeft(data.revisionsLeft ?? 0);
         } else if (data.type === "answer_mcq") {
-          // Store full MCQ data for local answer validation
           currentMcqDataRef.current = data;
 
+          // The interrupt carries no answer key; correctness comes from the server's grading
           const mcq: MCQ = {
             id: data.questionId || "",
             objectiveId: data.objectiveId || "",
+            type: data.questionType || "single_choice",
             question: data.question || "",
             options: data.options || [],
-            correctAnswer: data.correctAnswer ?? -1,
             hint: data.hint || "",
-            explanation: data.explanation || "",
+            sourceRefs: data.sourceRefs || [],
+            ...(data.remediation && { remediation: data.remediation }),
+            ...(data.wasSkipped && { wasSkipped: true }),
           };
 
-          // Check if this is a retry (same question, wrong answer) vs new question
-          const isSameQuestion = state.currentMcq?.id === data.questionId;
-          const isRetry = isSameQuestion && (data.attemptCount ?? 1) > 1;
-          const justSubmittedAnswer = selectedAnswer !== undefined;
-          const movedToNextQuestion = justSubmittedAnswer && !isSameQuestion;
-
-          if (isRetry) {
+          if (graded && !graded.isCorrect) {
             // Wrong answer - show feedback with progressive hint from backend
             actions.setAnswerFeedback({
               isCorrect: false,
               selectedAnswer: selectedAnswer ?? 0,
-              correctAnswer: data.correctAnswer ?? -1,
               hint: data.hint, // Progressive hint from backend
-              explanation: data.explanation,
-              attemptCount: data.attemptCount,
+              attemptCount: graded.attempts,
             });
             // Update the MCQ with the new hint
             actions.setMcq(mcq, data.currentIndex || 0, data.totalQuestions || 0);
-          } else if (movedToNextQuestion) {
+          } else if (graded) {
             // Correct answer - show success feedback with CURRENT question still displayed
             actions.setAnswerFeedback({
               isCorrect: true,
               selectedAnswer: selectedAnswer ?? 0,
-              correctAnswer: state.currentMcq?.correctAnswer ?? -1,
-              explanation: state.currentMcq?.explanation,
+              correctAnswer: graded.correctAnswer,
+              explanation: graded.explanation,
+              sourceRefs: graded.sourceRefs,
+              attemptCount: graded.attempts,
             });
             // Store next question to apply when Continue is clicked
             // DON'T set new MCQ here - keep showing current question with feedback
@@ -106,13 +148,51 @@ export function useLearningWorkflow() {
             // Clear any previous feedback when showing new question
             actions.setAnswerFeedback(null);
           }
+        } else if (data.type === "exam_question") {
+          // No grading or feedback in an exam: show the next question straight away
+          currentMcqDataRef.current = data;
+          actions.setMcq(
+            {
+              id: data.questionId || "",
+              objectiveId: data.objectiveId || "",
+              type: data.questionType || "single_choice",
+              question: data.question || "",
+              options: data.options || [],
+              hint: "",
+              sourceRefs: [],
+              exam: {
+                questionDeadline: data.questionDeadline ?? null,
+                examDeadline: data.examDeadline ?? null,
+              },
+            },
+            data.currentIndex || 0,
+            data.totalQuestions || 0
+          );
+          actions.setPhase("quiz");
+          actions.setAnswerFeedback(null);
+          showingExamQuestion = true;
         }
       }
 
+      if (gradedLast) {
+        actions.setAnswerFeedback({
+          isCorrect: graded.isCorrect,
+          selectedAnswer: selectedAnswer ?? 0,
+          correctAnswer: graded.correctAnswer,
+          explanation: graded.explanation,
+          sourceRefs: graded.sourceRefs,
+          attemptCount: graded.attempts,
+        });
+      }
+
       // Handle completion
       if (responseState.sessionComplete && responseState.progressReport) {
-        actions.setProgressReport(responseState.progressReport as ProgressReport);
-        actions.setPhase("summary");
+        if (gradedLast) {
+          pendingReportRef.current = responseState.progressReport as ProgressReport;
+        } else {
+          actions.setProgressReport(responseState.progressReport as ProgressReport);
+          actions.setPhase("summary");
+        }
       }
 
       // Update objectives if available
@@ -123,32 +203,42 @@ export function useLearningWorkflow() {
       // Update MCQs if available (but skip if we stored a pending next MCQ)
       // Note: Don't pass total here - it's already set correctly by the interrupt handler
       // using data.totalQuestions which includes ALL questions across ALL objectives
-      if (responseState.mcqs && !storedPendingNextMcq) {
-        const mcqs = responseState.mcqs as MCQ[];
+      if (responseState.mcqs && !storedPendingNextMcq && !showingExamQuestion && !gradedLast) {
+        const mcqs = responseState.mcqs as Record<string, unknown>[];
         const currentIdx =
           typeof responseState.currentMcqIdx === "number" ? responseState.currentMcqIdx : 0;
         if (mcqs[currentIdx]) {
-          actions.setMcq(mcqs[currentIdx], currentIdx);
+          // The remediation explanation and skip state only come with the interrupt, so keep them
+          const stateMcq = fromStateQuestion(mcqs[currentIdx]);
+          const interruptMcq = currentMcqDataRef.current;
+          actions.setMcq(
+            interruptMcq?.questionId === stateMcq.id
+              ? {
+                  ...stateMcq,
+                  ...(interruptMcq.remediation && { remediation: interruptMcq.remediation }),
+                  ...(interruptMcq.wasSkipped && { wasSkipped: true }),
+                }
+              : stateMcq,
+            currentIdx
+          );
         }
       }
     },
     [actions, state.currentMcq]
   );
 
-  // Handle PDF upload
+  // Handle document upload - the first upload creates the session, later ones add to it
   const handleUpload = useCallback(
-    async (file: File) => {
+    async (files: File[]) => {
       actions.setLoading(true);
       actions.setError(null);
 
       try {
-        const uploadResult = await uploadPdf(file);
-        actions.setThread(uploadResult.threadId, uploadResult.pdfPath);
-
-        actions.setPhase("parsing");
-        const response = await invokeWorkflow(uploadResult.threadId, uploadResult.pdfPath);
-
-        processResponse(response);
+        const uploadResult = await uploadDocuments(files, state.threadId ?? undefined);
+        if (!state.threadId) {
+          actions.setThread(uploadResult.threadId, uploadResult.pdfPath);
+        }
+        actions.addDocuments(uploadResult.documents);
       } catch (err) {
         actions.setError(err instanceof Error ? err.message : "Upload failed");
         actions.setPhase("upload");
@@ -156,12 +246,49 @@ export function useLearningWorkflow() {
         actions.setLoading(false);
       }
     },
-    [actions, processResponse]
+    [state.threadId, actions]
   );
 
-  // Handle plan approval
+  // Parse every uploaded document and generate the learning plan
+  const handleStart = useCallback(async () => {
+    if (!state.threadId || !state.pdfPath) return;
+
+    actions.setLoading(true);
+    actions.setError(null);
+
+    try {
+      actions.setPhase("parsing");
+      const response = await invokeWorkflow(state.threadId, true, undefined, state.settings);
+
+      processResponse(response);
+    } catch (err) {
+      actions.setError(err instanceof Error ? err.message : "Failed to process documents");
+      actions.setPhase("upload");
+    } finally {
+      actions.setLoading(false);
+    }
+  }, [state.threadId, state.pdfPath, state.settings, actions, processResponse]);
+
+  // Start a review session over questions from earlier sessions that are due again
+  const handleStartReview = useCallback(async () => {
+    actions.setLoading(true);
+    actions.setError(null);
+
+    try {
+      const response = await startReview();
+      actions.setThread(response.threadId, "");
+      processResponse(response);
+    } catch (err) {
+      actions.setError(err instanceof Error ? err.message : "Failed to start review");
+      actions.setPhase("upload");
+    } finally {
+      actions.setLoading(false);
+    }
+  }, [actions, processResponse]);
+
+  // Handle plan approval - an edited plan is sent along with the approval
   const handleApproval = useCallback(
-    async (approved: boolean) => {
+    async (approved: boolean, plan?: PlanEditObjective[]) => {
       if (!state.threadId) return;
 
       // If rejecting, just reset to upload phase - no need to call backend
@@ -174,7 +301,11 @@ export function useLearningWorkflow() {
       actions.setError(null);
 
       try {
-        const response = await invokeWorkflow(state.threadId, undefined, approved);
+        const response = await invokeWorkflow(
+          state.threadId,
+          undefined,
+          plan ? { approved, plan } : approved
+        );
         processResponse(response);
       } catch (err) {
         actions.setError(err instanceof Error ? err.message : "Failed to process approval");
@@ -185,9 +316,34 @@ export function useLearningWorkflow() {
     [state.threadId, actions, processResponse]
   );
 
+  // Send the plan back with feedback - the agent regenerates it from the same documents
+  const handleRevise = useCallback(
+    async (feedback: string) => {
+      if (!state.threadId) return;
+
+      actions.setLoading(true);
+      actions.setError(null);
+      actions.setPhase("planning");
+
+      try {
+        const response = await invokeWorkflow(state.threadId, undefined, {
+          approved: false,
+          feedback,
+        });
+        processResponse(response);
+      } catch (err) {
+        actions.setError(err instanceof Error ? err.message : "Failed to revise the plan");
+        actions.setPhase("approval");
+      } finally {
+        actions.setLoading(false);
+      }
+    },
+    [state.threadId, actions, processResponse]
+  );
+
   // Handle MCQ answer - submits to backend for validation and progressive hints
   const handleAnswer = useCallback(
-    async (answer: number) => {
+    async (answer: QuestionAnswer, confidence?: Confidence) => {
       if (!state.threadId || !state.currentMcq) return;
 
       actions.setLoading(true);
@@ -196,7 +352,12 @@ export function useLearningWorkflow() {
       try {
         // Always submit answer to backend (correct or wrong)
         // Backend will update attemptCounts and return progressive hint if wrong
-        const response = await submitAnswer(state.threadId, state.currentMcq.id, answer);
+        const response = await submitAnswer(
+          state.threadId,
+          state.currentMcq.id,
+          answer,
+          confidence
+        );
 
         // Process the response - pass answer directly to avoid stale state closure
         processResponse(response, answer);
@@ -209,6 +370,25 @@ export function useLearningWorkflow() {
     [state.threadId, state.currentMcq, actions, processResponse]
   );
 
+  // Skip the current question - the backend serves it again before the objective ends,
+  // or leaves it unanswered in an exam
+  const handleSkip = useCallback(async () => {
+    if (!state.threadId || !state.currentMcq) return;
+
+    actions.setLoading(true);
+    actions.setError(null);
+
+    try {
+      const response = await skipQuestion(state.threadId);
+      actions.setAnswerFeedback(null);
+      processResponse(response);
+    } catch (err) {
+      actions.setError(err instanceof Error ? err.message : "Failed to skip question");
+    } finally {
+      actions.setLoading(false);
+    }
+  }, [state.threadId, state.currentMcq, actions, processResponse]);
+
   // Handle continue after viewing correct answer feedback - applies pending next question
   const handleContinue = useCallback(() => {
     // Apply pending next question if available
@@ -217,6 +397,11 @@ export function useLearningWorkflow() {
       actions.setMcq(mcq, index, total);
       pendingNextMcqRef.current = null;
     }
+    if (pendingReportRef.current) {
+      actions.setProgressReport(pendingReportRef.current);
+      actions.setPhase("summary");
+      pendingReportRef.current = null;
+    }
     actions.setAnswerFeedback(null);
   }, [actions]);
 
@@ -229,13 +414,18 @@ export function useLearningWorkflow() {
   const handleRestart = useCallback(() => {
     currentMcqDataRef.current = null;
     pendingNextMcqRef.current = null;
+    pendingReportRef.current = null;
     actions.reset();
   }, [actions]);
 
   return {
     handleUpload,
+    handleStart,
+    handleStartReview,
     handleApproval,
+    handleRevise,
     handleAnswer,
+    handleSkip,
     handleContinue,
     handleRetry,
     handleRestart,
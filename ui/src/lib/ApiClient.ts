@@ -9,14 +9,29 @@ import {
   retryableRequest,
   createAbortController,
 } from "./api-helpers";
-import type { LearningState, InterruptData } from "./types";
+import type {
+  LearningState,
+  InterruptData,
+  QuestionAnswer,
+  UploadedDocument,
+  PlanApprovalResume,
+  SessionSettings,
+  GradedAnswer,
+} from "./types";
+import { serializeAnswer } from "./questions";
+import { authFetch } from "./auth";
 
 /**
  * Response types
  */
 export interface UploadResponse {
   threadId: string;
+  /** The files added by this upload */
+  documents: UploadedDocument[];
+  /** Stored path of the first file; invokeWorkflow(threadId, true) starts the session */
   pdfPath: string;
+  /** Extractor the server chose for the first file, e.g. "pdf" or "markdown" */
+  extractor: string;
   message: string;
 }
 
@@ -24,6 +39,8 @@ export interface WorkflowResponse {
   state: Partial<LearningState>;
   interrupted: boolean;
   interruptData?: InterruptData;
+  /** How the answer just submitted was graded */
+  feedback?: GradedAnswer;
 }
 
 export interface ThreadStateResponse {
@@ -53,16 +70,18 @@ export class ApiClient {
   }
 
   /**
-   * Upload a PDF file
+   * Upload documents (PDF, Word, EPUB, HTML, Markdown or text) into a new session,
+   * or into an existing one before it has started
    */
-  async uploadPdf(file: File): Promise<UploadResponse> {
+  async uploadDocuments(files: File[], threadId?: string): Promise<UploadResponse> {
     const formData = new FormData();
-    formData.append("pdf", file);
+    if (threadId) formData.append("threadId", threadId);
+    files.forEach((file) => formData.append("pdf", file));
 
     const { controller, timeoutId } = createAbortController(this.defaultTimeout);
 
     try {
-      const response = await fetch(`${this.baseUrl}/api/upload`, {
+      const response = await authFetch(`${this.baseUrl}/api/upload`, {
         method: "POST",
         body: formData,
         signal: controller.signal,
@@ -80,24 +99,25 @@ export class ApiClient {
   }
 
   /**
-   * Invoke workflow with retry logic
+   * Invoke workflow with retry logic: start it over the uploaded documents, or resume it
    */
   async invokeWorkflow(
     threadId: string,
-    pdfPath?: string,
-    resumeValue?: boolean | number | string
+    start?: boolean,
+    resumeValue?: boolean | number | string | number[] | PlanApprovalResume,
+    settings?: SessionSettings
   ): Promise<WorkflowResponse> {
     return retryableRequest(
       async () => {
         const { controller, timeoutId } = createAbortController(this.defaultTimeout);
 
         try {
-          const response = await fetch(`${this.baseUrl}/api/threads/${threadId}/invoke`, {
+          const response = await authFetch(`${this.baseUrl}/api/threads/${threadId}/invoke`, {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
             },
-            body: JSON.stringify({ pdfPath, resumeValue }),
+            body: JSON.stringify({ start, resumeValue, settings }),
             signal: controller.signal,
           });
 
@@ -119,17 +139,17 @@ export class ApiClient {
   async submitAnswer(
     threadId: string,
     questionId: string,
-    answer: number
+    answer: QuestionAnswer
   ): Promise<WorkflowResponse> {
     const { controller, timeoutId } = createAbortController(this.defaultTimeout);
 
     try {
-      const response = await fetch(`${this.baseUrl}/api/threads/${threadId}/answer`, {
+      const response = await authFetch(`${this.baseUrl}/api/threads/${threadId}/answer`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ questionId, answer }),
+        body: JSON.stringify({ questionId, answer: serializeAnswer(answer) }),
         signal: controller.signal,
       });
 
@@ -146,7 +166,7 @@ export class ApiClient {
     const { controller, timeoutId } = createAbortController(this.defaultTimeout);
 
     try {
-      const response = await fetch(`${this.baseUrl}/api/threads/${threadId}/state`, {
+      const response = await authFetch(`${this.baseUrl}/api/threads/${threadId}/state`, {
         method: "GET",
         signal: controller.signal,
       });
@@ -196,10 +216,15 @@ export function getApiClient(): ApiClient {
 
 // Also export the functions for backward compatibility
 export const apiClient = {
-  uploadPdf: (file: File) => getApiClient().uploadPdf(file),
-  invokeWorkflow: (threadId: string, pdfPath?: string, resumeValue?: boolean | number | string) =>
-    getApiClient().invokeWorkflow(threadId, pdfPath, resumeValue),
-  submitAnswer: (threadId: string, questionId: string, answer: number) =>
+  uploadDocuments: (files: File[], threadId?: string) =>
+    getApiClient().uploadDocuments(files, threadId),
+  invokeWorkflow: (
+    threadId: string,
+    start?: boolean,
+    resumeValue?: boolean | number | string | number[] | PlanApprovalResume,
+    settings?: SessionSettings
+  ) => getApiClient().invokeWorkflow(threadId, start, resumeValue, settings),
+  submitAnswer: (threadId: string, questionId: string, answer: QuestionAnswer) =>
     getApiClient().submitAnswer(threadId, questionId, answer),
   getThreadState: (threadId: string) => getApiClient().getThreadState(threadId),
 };
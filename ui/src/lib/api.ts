@@ -1,14 +1,23 @@
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000";
 
-export async function uploadPdf(file: File): Promise<{
+/**
+ * Upload documents into a new session, or into an existing one before it has started.
+ */
+export async function uploadDocuments(
+  files: File[],
+  threadId?: string
+): Promise<{
   threadId: string;
+  documents: UploadedDocument[];
   pdfPath: string;
+  extractor: string;
   message: string;
 }> {
   const formData = new FormData();
-  formData.append("pdf", file);
+  if (threadId) formData.append("threadId", threadId);
+  files.forEach((file) => formData.append("pdf", file));
 
-  const response = await fetch(`${API_BASE}/api/upload`, {
+  const response = await authFetch(`${API_BASE}/api/upload`, {
     method: "POST",
     body: formData,
   });
@@ -21,23 +30,49 @@ export async function uploadPdf(file: File): Promise<{
   return response.json();
 }
 
-import type { LearningState, InterruptData } from "./types";
+import type {
+  LearningState,
+  InterruptData,
+  QuestionAnswer,
+  UploadedDocument,
+  PlanApprovalResume,
+  QuizCommand,
+  GradedAnswer,
+  Confidence,
+  RatedAnswer,
+  SessionSettings,
+  DueReviewsResponse,
+} from "./types";
+import { serializeAnswer } from "./questions";
+import { authFetch } from "./auth";
 
+/**
+ * Start the workflow over the documents uploaded to the thread, or resume it with a value.
+ */
 export async function invokeWorkflow(
   threadId: string,
-  pdfPath?: string,
-  resumeValue?: boolean | number | string
+  start?: boolean,
+  resumeValue?:
+    | boolean
+    | number
+    | string
+    | number[]
+    | PlanApprovalResume
+    | QuizCommand
+    | RatedAnswer,
+  settings?: SessionSettings
 ): Promise<{
   state: Partial<LearningState>;
   interrupted: boolean;
   interruptData?: InterruptData;
+  feedback?: GradedAnswer;
 }> {
-  const response = await fetch(`${API_BASE}/api/threads/${threadId}/invoke`, {
+  const response = await authFetch(`${API_BASE}/api/threads/${threadId}/invoke`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ pdfPath, resumeValue }),
+    body: JSON.stringify({ start, resumeValue, settings }),
   });
 
   if (!response.ok) {
@@ -51,22 +86,38 @@ export async function invokeWorkflow(
 export async function submitAnswer(
   threadId: string,
   questionId: string,
-  answer: number
+  answer: QuestionAnswer,
+  confidence?: Confidence
 ): Promise<{
   state: Partial<LearningState>;
   interrupted: boolean;
   interruptData?: InterruptData;
+  feedback?: GradedAnswer;
 }> {
   // Use the invoke endpoint with resumeValue - same pattern as handleApproval
   // This fixes EmptyInputError that occurred with the dedicated /answer endpoint
-  return invokeWorkflow(threadId, undefined, answer);
+  // The confidence rating, if the learner gave one, travels with the answer
+  const value = serializeAnswer(answer);
+  return invokeWorkflow(threadId, undefined, confidence ? { answer: value, confidence } : value);
+}
+
+/**
+ * Skip the current question; it comes back before the objective ends.
+ */
+export async function skipQuestion(threadId: string): Promise<{
+  state: Partial<LearningState>;
+  interrupted: boolean;
+  interruptData?: InterruptData;
+  feedback?: GradedAnswer;
+}> {
+  return invokeWorkflow(threadId, undefined, { action: "skip" });
 }
 
 export async function getThreadState(threadId: string): Promise<{
   state: Partial<LearningState>;
   next: string[];
 }> {
-  const response = await fetch(`${API_BASE}/api/threads/${threadId}/state`, {
+  const response = await authFetch(`${API_BASE}/api/threads/${threadId}/state`, {
     method: "GET",
   });
 
@@ -78,6 +129,44 @@ export async function getThreadState(threadId: string): Promise<{
   return response.json();
 }
 
+/**
+ * Get the learner's questions due for spaced review.
+ */
+export async function getDueReviews(): Promise<DueReviewsResponse> {
+  const response = await authFetch(`${API_BASE}/api/reviews/due`, {
+    method: "GET",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load reviews");
+  }
+
+  return response.json();
+}
+
+/**
+ * Start a review session over the learner's due questions.
+ * Answers then go through submitAnswer with the returned thread ID.
+ */
+export async function startReview(): Promise<{
+  threadId: string;
+  state: Partial<LearningState>;
+  interrupted: boolean;
+  interruptData?: InterruptData;
+}> {
+  const response = await authFetch(`${API_BASE}/api/reviews/start`, {
+    method: "POST",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to start review");
+  }
+
+  return response.json();
+}
+
 /**
  * Ask the Study Buddy agent for help (LangChain v1 Middleware Demo)
  *
@@ -99,7 +188,7 @@ export async function askStudyBuddy(
     expertise: string;
   };
 }> {
-  const response = await fetch(`${API_BASE}/api/threads/${threadId}/ask`, {
+  const response = await authFetch(`${API_BASE}/api/threads/${threadId}/ask`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
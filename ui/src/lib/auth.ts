@@ -0,0 +1,81 @@
+import { UI_CONFIG } from "@/config/constants";
+import { getLearnerId } from "./learner";
+import { storage } from "./utils";
+
+/**
+ * An access token issued by the agent, as stored in the browser.
+ */
+interface StoredToken {
+  token: string;
+  userId: string;
+  expiresAt: string;
+}
+
+/** Sign in again this long before the token expires, so requests in flight still pass */
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+/** The sign-in in progress, shared by requests that start while it runs */
+let pendingSignIn: Promise<StoredToken> | null = null;
+
+/**
+ * Sign in with the agent's dev login, as the learner this browser already is,
+ * so the reviews scheduled for it carry over.
+ */
+async function devLogin(): Promise<StoredToken> {
+  const response = await fetch(`${UI_CONFIG.API.BASE_URL}/api/auth/dev-login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userId: getLearnerId() ?? undefined }),
+  });
+
+  if (!response.ok) {
+    throw new Error("Sign-in failed");
+  }
+
+  const issued: StoredToken = await response.json();
+  storage.set(UI_CONFIG.STORAGE_KEYS.AUTH_TOKEN, issued);
+  return issued;
+}
+
+/**
+ * Get a valid access token, signing in first if there is none or it is about to expire.
+ */
+export async function getAuthToken(): Promise<string> {
+  const stored = storage.get<StoredToken | null>(UI_CONFIG.STORAGE_KEYS.AUTH_TOKEN, null);
+  if (stored && new Date(stored.expiresAt).getTime() - EXPIRY_MARGIN_MS > Date.now()) {
+    return stored.token;
+  }
+
+  pendingSignIn ??= devLogin().finally(() => {
+    pendingSignIn = null;
+  });
+  return (await pendingSignIn).token;
+}
+
+/**
+ * Forget the stored token, so the next request signs in again.
+ */
+export function clearAuthToken(): void {
+  storage.remove(UI_CONFIG.STORAGE_KEYS.AUTH_TOKEN);
+}
+
+/**
+ * fetch with the learner's credentials. A rejected token (expired, or signed with a dev
+ * secret the agent no longer has after a restart) is replaced and the request sent once more.
+ */
+export async function authFetch(
+  url: string,
+  init: Omit<RequestInit, "headers"> & { headers?: Record<string, string> } = {}
+): Promise<Response> {
+  const send = async () =>
+    fetch(url, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${await getAuthToken()}` },
+    });
+
+  const response = await send();
+  if (response.status !== 401) return response;
+
+  clearAuthToken();
+  return send();
+}
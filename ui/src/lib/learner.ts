@@ -0,0 +1,17 @@
+import { UI_CONFIG } from "@/config/constants";
+import { storage } from "./utils";
+
+/**
+ * Get the ID this browser uses for the learner, creating it on first use.
+ * Dev login signs in as this ID, so sessions and reviews are kept across visits.
+ */
+export function getLearnerId(): string | null {
+  if (typeof window === "undefined") return null;
+
+  const existing = storage.get<string | null>(UI_CONFIG.STORAGE_KEYS.LEARNER_ID, null);
+  if (existing) return existing;
+
+  const learnerId = window.crypto.randomUUID();
+  storage.set(UI_CONFIG.STORAGE_KEYS.LEARNER_ID, learnerId);
+  return learnerId;
+}
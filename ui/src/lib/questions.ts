@@ -0,0 +1,112 @@
+import type {
+  MCQ,
+  QuestionAnswer,
+  QuestionType,
+  Confidence,
+  SourceRef,
+  DocumentSpan,
+} from "./types";
+
+/**
+ * Human-readable labels for each question type
+ */
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single_choice: "Multiple choice",
+  true_false: "True or false",
+  multi_select: "Select all that apply",
+  fill_blank: "Fill in the blank",
+};
+
+/**
+ * Confidence ratings offered when answering, from least to most sure
+ */
+export const CONFIDENCE_LABELS: Record<Confidence, string> = {
+  guess: "Guess",
+  unsure: "Unsure",
+  confident: "Confident",
+};
+
+/**
+ * Format an option index as a letter, e.g. 1 -> "B"
+ */
+export function optionLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/**
+ * Check whether an in-progress answer is complete enough to submit
+ */
+export function isAnswerComplete(answer: QuestionAnswer | null): answer is QuestionAnswer {
+  if (answer === null) return false;
+  if (Array.isArray(answer)) return answer.length > 0;
+  if (typeof answer === "string") return answer.trim().length > 0;
+  return true;
+}
+
+/**
+ * Serialize an answer for the resume value sent to the backend.
+ * Booleans are sent as strings so `false` is never mistaken for a missing value.
+ */
+export function serializeAnswer(answer: QuestionAnswer): number | string | number[] {
+  return typeof answer === "boolean" ? String(answer) : answer;
+}
+
+/**
+ * Render an answer as readable text, e.g. "B) Mitochondria"
+ */
+export function describeAnswer(mcq: MCQ, answer: QuestionAnswer): string {
+  if (typeof answer === "boolean") return answer ? "True" : "False";
+  if (typeof answer === "number") return `${optionLetter(answer)}) ${mcq.options[answer] ?? ""}`;
+  if (Array.isArray(answer)) {
+    return answer.map((idx) => `${optionLetter(idx)}) ${mcq.options[idx] ?? ""}`).join(", ");
+  }
+  return answer;
+}
+
+/**
+ * Convert a question from raw agent state into the display shape used by the UI.
+ * The server sends questions without answer keys or explanations, and with no
+ * options for true/false or fill-in-the-blank questions.
+ */
+export function fromStateQuestion(raw: Record<string, unknown>): MCQ {
+  const type = (raw.type as QuestionType) || "single_choice";
+  const options = type === "true_false" ? ["True", "False"] : (raw.options as string[]) || [];
+
+  return {
+    id: String(raw.id ?? ""),
+    objectiveId: String(raw.objectiveId ?? ""),
+    type,
+    question: String(raw.question ?? ""),
+    options,
+    hint: String(raw.hint ?? ""),
+    sourceRefs: (raw.sourceRefs as SourceRef[]) || [],
+    documentId: (raw.documentId as string | null) ?? null,
+  };
+}
+
+/**
+ * Label a page of the session, e.g. "page 4", or "notes.pdf, page 2" when the
+ * session has several documents (pages are numbered consecutively across them)
+ */
+export function formatPageLabel(page: number, documents?: DocumentSpan[]): string {
+  const document =
+    documents && documents.length > 1
+      ? documents.find((doc) => page >= doc.startPage && page <= doc.endPage)
+      : undefined;
+  return document ? `${document.name}, page ${page - document.startPage + 1}` : `page ${page}`;
+}
+
+/**
+ * Format the pages cited by a question, e.g. "See page 4" or "See pages 2, 5"
+ */
+export function formatSourcePages(refs: SourceRef[], documents?: DocumentSpan[]): string {
+  const pages = refs
+    .map((ref) => ref.page)
+    .filter((page, index, all) => all.indexOf(page) === index)
+    .sort((a, b) => a - b);
+  if (pages.length === 0) return "";
+  if (documents && documents.length > 1) {
+    return `See ${pages.map((page) => formatPageLabel(page, documents)).join("; ")}`;
+  }
+  return pages.length === 1 ? `See page ${pages[0]}` : `See pages ${pages.join(", ")}`;
+}
@@ -1,40 +1,298 @@
+export type ObjectiveDifficulty = "easy" | "medium" | "hard";
+
+/**
+ * Per-session learning settings, sent when the learning plan is created
+ */
+export interface SessionSettings {
+  /** Number of objectives, or null to let the planner decide */
+  objectiveCount: number | null;
+  questionsPerObjective: number;
+  targetDifficulty: ObjectiveDifficulty | "mixed";
+  /** Minutes available for the session, or null for no limit */
+  timeBudgetMinutes: number | null;
+  /** Exams allow one attempt per question, with no hints or feedback until the end */
+  mode: "practice" | "exam";
+  /** Exam mode: seconds per question, or null for no limit */
+  questionTimeLimitSeconds: number | null;
+  /** Exam mode: minutes for the whole exam, or null for no limit */
+  examTimeLimitMinutes: number | null;
+}
+
 export interface LearningObjective {
   id: string;
   title: string;
   description: string;
-  difficulty: "beginner" | "intermediate" | "advanced";
+  difficulty: ObjectiveDifficulty;
+  /** IDs of the document sections this objective covers */
+  sectionIds?: string[];
+  /** IDs of the source documents this objective draws on */
+  documentIds?: string[];
+}
+
+/**
+ * An objective in a plan edited at the approval step.
+ * Objectives the learner adds have no id; the agent fills in their details.
+ */
+export type PlanEditObjective = Partial<LearningObjective> & Pick<LearningObjective, "title">;
+
+/**
+ * Resume value for the plan approval interrupt when the learner edited the plan
+ * or asked for a revised one
+ */
+export interface PlanApprovalResume {
+  approved: boolean;
+  plan?: PlanEditObjective[];
+  /** What to change, when sending the plan back for revision instead of approving it */
+  feedback?: string;
+}
+
+// Sent instead of an answer to put the current question aside until the end of the objective
+export interface QuizCommand {
+  action: "skip";
+}
+
+// How sure the learner was of an answer
+export type Confidence = "guess" | "unsure" | "confident";
+
+// Resume value for an answer sent with a confidence rating
+export interface RatedAnswer {
+  answer: number | string | number[];
+  confidence: Confidence;
+}
+
+/**
+ * A section of the uploaded document, from one heading to the next
+ */
+export interface DocumentSection {
+  id: string;
+  documentId?: string;
+  title: string;
+  level: number;
+  startPage: number;
+  endPage: number;
+  wordCount: number;
+}
+
+export interface TocEntry {
+  sectionId: string;
+  title: string;
+  level: number;
+  page: number;
+}
+
+/**
+ * A file uploaded into the session
+ */
+export interface UploadedDocument {
+  id: string;
+  name: string;
+  /** Extractor the server chose for the file, e.g. "pdf" or "markdown" */
+  extractor: string | null;
+}
+
+/**
+ * Where one source document sits in the combined page numbering
+ */
+export interface DocumentSpan {
+  id: string;
+  name: string;
+  title: string;
+  startPage: number;
+  endPage: number;
+  wordCount: number;
+  /** Mean OCR confidence (0-100) when the text was recognised from page images */
+  ocrConfidence?: number;
 }
 
+/**
+ * Structure of the uploaded documents (the parsed document without page text).
+ * Pages are numbered consecutively across documents.
+ */
+export interface DocumentOutline {
+  title: string;
+  pageCount: number;
+  wordCount: number;
+  sections: DocumentSection[];
+  toc: TocEntry[];
+  documents?: DocumentSpan[];
+}
+
+export interface ParsedDocument extends DocumentOutline {
+  pages: { pageNumber: number; text: string }[];
+}
+
+export type QuestionType = "single_choice" | "true_false" | "multi_select" | "fill_blank";
+
+/**
+ * A learner's answer: option index (single_choice), boolean (true_false),
+ * option indexes (multi_select) or free text (fill_blank).
+ */
+export type QuestionAnswer = number | boolean | number[] | string;
+
+/**
+ * Answer key: option index, boolean, option indexes or accepted answers.
+ */
+export type AnswerKey = number | boolean | number[] | string[];
+
+/**
+ * A page in the source document that supports a question's answer
+ */
+export interface SourceRef {
+  page: number;
+  /** Supporting excerpt; only sent once the question is answered correctly */
+  quote?: string;
+}
+
+/**
+ * A question as the server sends it: the answer key and explanation stay on the server
+ * and only arrive in GradedAnswer once the question is answered correctly.
+ */
 export interface MCQ {
   id: string;
   objectiveId: string;
+  type: QuestionType;
   question: string;
+  /** Display options ("True"/"False" for true_false, empty for fill_blank) */
   options: string[];
-  correctAnswer: number;
   hint: string;
+  sourceRefs: SourceRef[];
+  /** ID of the source document the question is drawn from */
+  documentId?: string | null;
+  /** Set on follow-up questions about concepts missed earlier in the objective */
+  remediation?: RemediationInfo;
+  /** Set when the question was skipped earlier; it has to be answered now */
+  wasSkipped?: boolean;
+  /** Set on exam questions, which get one attempt with no hints or feedback */
+  exam?: ExamDeadlines;
+}
+
+// When an exam question and the exam stop accepting answers (ISO times, null for no limit)
+export interface ExamDeadlines {
+  questionDeadline: string | null;
+  examDeadline: string | null;
+}
+
+export interface RemediationInfo {
+  /** Short explanation of the missed concepts */
   explanation: string;
 }
 
 export interface ProgressReport {
   totalQuestions: number;
+  /** Questions answered correctly, after retries */
   correctAnswers: number;
+  /** Percentage (0-100), with partial credit that decays with each retry */
   score: number;
+  firstTryCorrect: number;
+  /** Percentage (0-100) of questions answered correctly on the first try */
+  firstTryAccuracy: number;
+  /** Mean attempts per answered question */
+  meanAttempts: number;
   objectivesCompleted: number;
   studyTips: string[];
   areasToReview: string[];
+  /** Follow-up questions on missed concepts, counted apart from the score */
+  remediation?: {
+    rounds: number;
+    questions: number;
+    correctFirstTry: number;
+  };
+  /** Estimated mastery per objective */
+  mastery?: ObjectiveMastery[];
+  /** The misconceptions the learner showed most often */
+  misconceptions?: MisconceptionSummary[];
+  /** How well the learner's confidence ratings matched their answers */
+  calibration?: CalibrationSummary;
+  /** Server-measured time per objective against the plan, and the slowest questions */
+  timing?: TimingSummary;
+  /** Exam mode: every question with the answer given and the correct one */
+  exam?: {
+    timedOut: boolean;
+    review: ExamReviewItem[];
+  };
+}
+
+// An exam question as reviewed at the end; yourAnswer is null if skipped, late or never reached
+export interface ExamReviewItem {
+  questionId: string;
+  objectiveTitle: string;
+  question: string;
+  yourAnswer: string | null;
+  correctAnswers: string[];
+  isCorrect: boolean;
+  explanation: string;
+}
+
+// Accuracy of the answers given at one confidence rating, with the accuracy it should have
+export interface CalibrationBucket {
+  confidence: Confidence;
+  attempts: number;
+  correct: number;
+  accuracy: number;
+  expectedAccuracy: number;
+}
+
+export interface CalibrationSummary {
+  buckets: CalibrationBucket[];
+  /** Wrong answers rated confident */
+  overconfidentErrors: number;
+  /** Right answers rated a guess */
+  underconfidentCorrect: number;
+}
+
+// Time spent on one objective, next to its share of the plan's estimate
+export interface ObjectiveTiming {
+  objectiveId: string;
+  title: string;
+  seconds: number;
+  estimatedSeconds: number | null;
+}
+
+export interface SlowQuestion {
+  questionId: string;
+  objectiveTitle: string;
+  question: string;
+  seconds: number;
+  attempts: number;
+}
+
+export interface TimingSummary {
+  totalSeconds: number;
+  estimatedSeconds: number | null;
+  medianQuestionSeconds: number;
+  objectives: ObjectiveTiming[];
+  /** Slowest first */
+  slowQuestions: SlowQuestion[];
+}
+
+// A misconception revealed by the wrong options a learner picked
+export interface MisconceptionSummary {
+  label: string;
+  count: number;
+  objectiveTitles: string[];
+}
+
+// Estimated probability (0-1) that the learner knows an objective
+export interface ObjectiveMastery {
+  objectiveId: string;
+  title: string;
+  probability: number;
+  mastered: boolean;
 }
 
 export type Phase = "upload" | "parsing" | "planning" | "approval" | "quiz" | "summary";
 
 export interface LearningState {
-  pdfPath: string | null;
+  documents: { id: string; name: string; path: string }[];
   pdfContent: string | null;
+  parsedDocument: ParsedDocument | null;
+  warnings: string[];
   learningObjectives: LearningObjective[] | null;
   planApproved: boolean;
   currentObjectiveIdx: number;
   mcqs: MCQ[] | null;
   currentMcqIdx: number;
-  userAnswers: Record<string, number>;
+  userAnswers: Record<string, QuestionAnswer>;
   correctAnswers: number;
   progressReport: ProgressReport | null;
   sessionComplete: boolean;
@@ -43,17 +301,24 @@ export interface LearningState {
 }
 
 export interface InterruptData {
-  type: "approve_plan" | "answer_mcq";
+  type: "approve_plan" | "plan_approval" | "answer_mcq" | "exam_question";
   questionId?: string;
   objectiveId?: string;
+  questionType?: QuestionType;
   question?: string;
   options?: string[];
-  correctAnswer?: number;
   hint?: string;
-  explanation?: string;
+  sourceRefs?: SourceRef[];
   currentIndex?: number;
   totalQuestions?: number;
   attemptCount?: number;
+  remediation?: RemediationInfo;
+  wasSkipped?: boolean;
+  /** Exam deadlines (exam_question) */
+  questionDeadline?: string | null;
+  examDeadline?: string | null;
+  /** How many more times the plan can be regenerated with feedback (plan_approval) */
+  revisionsLeft?: number;
   plan?: {
     objectives: LearningObjective[];
     estimatedTime: string;
@@ -61,12 +326,41 @@ export interface InterruptData {
   };
 }
 
+// How the server graded the answer just submitted; the key comes only with a correct answer
+export interface GradedAnswer {
+  questionId: string;
+  isCorrect: boolean;
+  /** Attempts made at this question so far, this one included */
+  attempts: number;
+  correctAnswer?: AnswerKey;
+  explanation?: string;
+  sourceRefs?: SourceRef[];
+}
+
 // Answer feedback state for showing correct/incorrect UI
 export interface AnswerFeedback {
   isCorrect: boolean;
-  selectedAnswer: number;
-  correctAnswer: number;
+  selectedAnswer: QuestionAnswer;
+  correctAnswer?: AnswerKey;
   hint?: string;
   explanation?: string;
+  /** Source references with their excerpts, once the answer is correct */
+  sourceRefs?: SourceRef[];
   attemptCount?: number;
 }
+
+// A question due for spaced review, without its answer
+export interface DueReview {
+  id: string;
+  question: string;
+  questionType: QuestionType;
+  objectiveTitle: string | null;
+  dueAt: string;
+  intervalDays: number;
+  reviewCount: number;
+}
+
+export interface DueReviewsResponse {
+  dueCount: number;
+  items: DueReview[];
+}
@@ -2,6 +2,8 @@
  * Input validation utilities for the frontend
  */
 
+import { UI_CONFIG } from "@/config/constants";
+
 /**
  * File validation result
  */
@@ -11,9 +13,12 @@ export interface FileValidationResult {
 }
 
 /**
- * Validate PDF file
+ * Validate an uploaded document (PDF, Word, EPUB, HTML, Markdown or plain text)
  */
-export function validatePdfFile(file: File, maxSizeMB: number = 10): FileValidationResult {
+export function validateDocumentFile(
+  file: File,
+  maxSizeMB: number = UI_CONFIG.FILE.MAX_SIZE_MB
+): FileValidationResult {
   // Check file exists
   if (!file) {
     return {
@@ -22,12 +27,15 @@ export function validatePdfFile(file: File, maxSizeMB: number = 10): FileValidat
     };
   }
 
-  // Check file type
-  const isPdf = file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
-  if (!isPdf) {
+  // Check file type (browsers often report no MIME type for Markdown or EPUB, so the extension counts too)
+  const name = file.name.toLowerCase();
+  const isSupported =
+    (UI_CONFIG.FILE.ALLOWED_TYPES as readonly string[]).includes(file.type) ||
+    UI_CONFIG.FILE.ALLOWED_EXTENSIONS.some((extension) => name.endsWith(extension));
+  if (!isSupported) {
     return {
       valid: false,
-      error: "File must be a PDF",
+      error: "File must be a PDF, Word, EPUB, HTML, Markdown or text file",
     };
   }
 